@@ -0,0 +1,1006 @@
+const {
+  constants,
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createPublicKey,
+  diffieHellman,
+  generateKeyPairSync,
+  hkdfSync,
+  privateDecrypt,
+  randomBytes,
+  randomInt,
+  randomUUID,
+  sign,
+} = require('crypto');
+const express = require('express');
+
+const accounts = require('./src/lib/abdm/sandbox-accounts.json');
+const aadhaarResidents = require('./src/lib/abdm/sandbox-aadhaar.json');
+const healthRecords = require('./src/lib/abdm/sandbox-health-records.json');
+
+/**
+ * A local stand-in for the ABDM sandbox gateway, so ABHA linking can be built
+ * and tried offline. It implements the calls the kiosk makes — session
+ * tokens, user auth (fetch-modes, init, confirm) and the ABHA profile — with
+ * the canned accounts in src/lib/abdm/sandbox-accounts.json.
+ *
+ * Like the real gateway, the user auth calls answer 202 straight away and
+ * deliver the result later by POSTing to the kiosk's bridge URL
+ * (ABDM_BRIDGE_URL, default http://localhost:<port>/api/abdm), with a Bearer
+ * token signed by the key served at /v0.5/certs. Every OTP is
+ * 123456 unless ABDM_SANDBOX_OTP is set; it is also printed to the console.
+ *
+ * It also plays the consent manager and the facilities holding the canned
+ * records in src/lib/abdm/sandbox-health-records.json. A consent request is
+ * granted a second after it is raised (ABDM_SANDBOX_CONSENT=deny denies it,
+ * =manual waits), with one artefact per facility. The patient's side is
+ * simulated by POSTing to /sandbox/consent-requests/<id>/grant, /deny,
+ * /revoke or /expire. Requested data is encrypted with the requester's key
+ * and pushed to its dataPushUrl.
+ *
+ * For the kiosk's own records it plays a PHR app and another facility
+ * asking for them: /sandbox/hip/discover, /sandbox/hip/link and
+ * /sandbox/hip/link/confirm link care contexts the way a patient would, and
+ * /sandbox/hip/consents grants an artefact to a made-up HIU, requests the data
+ * and answers with the FHIR bundles the kiosk pushed, decrypted.
+ *
+ * ABHA enrolment answers directly, as ABDM's v3 enrolment API does. Aadhaar
+ * numbers come from the residents in src/lib/abdm/sandbox-aadhaar.json (one
+ * of whom already has an ABHA, which is returned instead of a new one); any
+ * mobile number can enrol with the details it is given. Identifiers and OTPs
+ * arrive encrypted with the RSA key served at /v3/profile/public/certificate.
+ * New accounts join the canned ones, so they can be linked and discovered.
+ */
+
+const CLIENT_ID = process.env.ABDM_CLIENT_ID || 'kiosk-sandbox';
+const CLIENT_SECRET = process.env.ABDM_CLIENT_SECRET || 'sandbox-secret';
+const SANDBOX_OTP = process.env.ABDM_SANDBOX_OTP || '123456';
+const TOKEN_TTL_SECONDS = 20 * 60;
+const TRANSACTION_TTL_MS = 5 * 60 * 1000;
+const CALLBACK_DELAY_MS = 150;
+const CONSENT_DECISION = process.env.ABDM_SANDBOX_CONSENT || 'grant';
+const CONSENT_DECISION_DELAY_MS = 1000;
+const DATA_PUSH_DELAY_MS = 500;
+const KIOSK_HIP_ID = process.env.ABDM_HIP_ID || process.env.KIOSK_ID || 'kiosk-01';
+const SANDBOX_HIU = { id: 'sbx-hiu-city-clinic', name: 'City Clinic, Lucknow' };
+const KIOSK_ANSWER_TIMEOUT_MS = 10000;
+
+const ENROLMENT_TTL_MS = 10 * 60 * 1000;
+const ABHA_HANDLE = /^[a-z0-9]+([._][a-z0-9]+)?$/;
+
+const ERRORS = {
+  badRequest: { code: 1400, message: 'The request is missing required fields.' },
+  unauthorized: { code: 1401, message: 'The session token is missing or has expired.' },
+  badCredentials: { code: 1401, message: 'Unknown client id or secret.' },
+  notFound: { code: 1404, message: 'No ABHA account has this number or address.' },
+  blocked: { code: 1403, message: 'The ABHA account is deactivated or locked.' },
+  mismatch: { code: 1422, message: 'The details do not match the ABHA account.' },
+  invalidOtp: { code: 1441, message: 'The OTP is incorrect.' },
+  expired: { code: 1442, message: 'The transaction has expired. Start again.' },
+  unsupportedMode: { code: 1443, message: 'This authentication mode is not available for the account.' },
+  consentNotFound: { code: 1404, message: 'No consent artefact has this id.' },
+  consentNotGranted: { code: 1428, message: 'The consent is not granted, or has been revoked or has expired.' },
+  kioskSilent: { code: 1500, message: 'The kiosk did not answer in time.' },
+  aadhaarNotFound: { code: 1404, message: 'No Aadhaar record has this number.' },
+  mobileNotVerified: { code: 1400, message: 'The mobile number has not been verified.' },
+  addressTaken: { code: 1409, message: 'This ABHA address is already taken.' },
+};
+
+function findAccount(id) {
+  const value = String(id || '').trim().toLowerCase();
+  const digits = value.replace(/\D/g, '');
+  return accounts.find(
+    (account) => account.abhaAddress === value || (digits.length === 14 && account.abhaNumber.replace(/-/g, '') === digits)
+  );
+}
+
+// Verhoeff's tables, as in src/lib/abdm/abha.ts, to give new ABHA numbers a valid check digit.
+const VERHOEFF_MULTIPLY = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_PERMUTE = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+const VERHOEFF_INVERSE = [0, 4, 3, 2, 1, 5, 6, 7, 8, 9];
+
+/** A fresh 14-digit ABHA number, 91-XXXX-XXXX-XXXX, that no account has yet. */
+function newAbhaNumber() {
+  for (;;) {
+    let digits = '91';
+    while (digits.length < 13) digits += randomInt(10);
+    let check = 0;
+    for (let i = 0; i < digits.length; i++) {
+      check = VERHOEFF_MULTIPLY[check][VERHOEFF_PERMUTE[(i + 1) % 8][Number(digits[digits.length - 1 - i])]];
+    }
+    digits += VERHOEFF_INVERSE[check];
+    const abhaNumber = digits.replace(/^(\d{2})(\d{4})(\d{4})(\d{4})$/, '$1-$2-$3-$4');
+    if (!accounts.some((account) => account.abhaNumber === abhaNumber)) return abhaNumber;
+  }
+}
+
+function addressTaken(handle) {
+  return accounts.some((account) => account.abhaAddress === `${handle}@abdm`);
+}
+
+/** Free handles made from the account's name and year of birth, as ABDM suggests them. */
+function suggestHandles(account) {
+  const names = account.name.toLowerCase().replace(/[^a-z\s]/g, ' ').split(/\s+/).filter(Boolean);
+  const first = names[0];
+  const last = names[names.length - 1];
+  const year = String(account.yearOfBirth);
+  const candidates = [
+    `${first}.${last}`,
+    `${first}${last}`,
+    `${first}.${last}${year.slice(2)}`,
+    `${first}_${year}`,
+    `${last}.${first}`,
+    `${first}${last}${year}`,
+  ];
+  return [...new Set(candidates)].filter(
+    (handle) => handle.length >= 8 && handle.length <= 18 && ABHA_HANDLE.test(handle) && !addressTaken(handle)
+  );
+}
+
+/** The account as ABDM's enrolment API describes it, with a DD-MM-YYYY date of birth. */
+function enrolmentProfile(account) {
+  const names = account.name.split(/\s+/);
+  const pad = (value) => String(value).padStart(2, '0');
+  return {
+    ABHANumber: account.abhaNumber,
+    firstName: names[0],
+    middleName: names.slice(1, -1).join(' '),
+    lastName: names.length > 1 ? names[names.length - 1] : '',
+    gender: account.gender,
+    dob: `${pad(account.dayOfBirth)}-${pad(account.monthOfBirth)}-${account.yearOfBirth}`,
+    mobile: account.mobile,
+    phrAddress: account.abhaAddress ? [account.abhaAddress] : [],
+    ...(account.address && {
+      address: account.address.line,
+      districtName: account.address.district,
+      stateName: account.address.state,
+      pinCode: account.address.pincode,
+    }),
+    abhaStatus: account.status,
+  };
+}
+
+function authModes(account) {
+  return ['MOBILE_OTP', 'AADHAAR_OTP', 'DEMOGRAPHICS'].filter((mode) => mode !== 'MOBILE_OTP' || account.mobile);
+}
+
+function patientOf(account) {
+  return {
+    id: account.abhaAddress,
+    name: account.name,
+    gender: account.gender,
+    yearOfBirth: account.yearOfBirth,
+    monthOfBirth: account.monthOfBirth,
+    dayOfBirth: account.dayOfBirth,
+    identifiers: [
+      { type: 'HEALTH_NUMBER', value: account.abhaNumber },
+      ...(account.mobile ? [{ type: 'MOBILE', value: account.mobile }] : []),
+    ],
+  };
+}
+
+function sameName(a, b) {
+  const tokens = (name) => String(name || '').toLowerCase().replace(/[^a-z\s]/g, ' ').split(/\s+/).filter(Boolean);
+  const [shorter, longer] = [tokens(a), tokens(b)].sort((x, y) => x.length - y.length);
+  return shorter.length > 0 && shorter.every((token) => longer.includes(token));
+}
+
+/** A facility's key pair and nonce for one transfer. */
+function senderKeys() {
+  const { privateKey, publicKey } = generateKeyPairSync('x25519');
+  return {
+    privateKey,
+    publicKey: publicKey.export({ format: 'der', type: 'spki' }).toString('base64'),
+    nonce: randomBytes(32),
+  };
+}
+
+/** ABDM's health data encryption, as in src/lib/abdm/encryption.ts: X25519, HKDF-SHA256 and AES-256-GCM. */
+function sessionCipher(own, peer) {
+  const peerNonce = Buffer.from(peer.nonce, 'base64');
+  const xor = Buffer.alloc(32);
+  for (let i = 0; i < 32; i++) xor[i] = own.nonce[i] ^ peerNonce[i];
+  const secret = diffieHellman({
+    privateKey: own.privateKey,
+    publicKey: createPublicKey({ key: Buffer.from(peer.publicKey, 'base64'), format: 'der', type: 'spki' }),
+  });
+  const key = Buffer.from(hkdfSync('sha256', secret, xor.subarray(0, 20), Buffer.alloc(0), 32));
+  return { key, iv: xor.subarray(20) };
+}
+
+function encryptFor(plaintext, sender, recipient) {
+  const { key, iv } = sessionCipher(sender, recipient);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  return Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final(), cipher.getAuthTag()]).toString('base64');
+}
+
+function decryptFrom(content, recipient, sender) {
+  const { key, iv } = sessionCipher(recipient, sender);
+  const encrypted = Buffer.from(content, 'base64');
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(encrypted.subarray(encrypted.length - 16));
+  return Buffer.concat([decipher.update(encrypted.subarray(0, encrypted.length - 16)), decipher.final()]).toString('utf8');
+}
+
+function createAbdmSandbox({ port }) {
+  const router = express.Router();
+  const bridgeUrl = process.env.ABDM_BRIDGE_URL || `http://localhost:${port}/api/abdm`;
+  const sessions = new Map();
+  const transactions = new Map();
+  const profileTokens = new Map();
+  const consentRequests = new Map();
+  const consentArtefacts = new Map();
+  // The kiosk as a provider: care contexts linked per ABHA address, answers awaited and transfers in flight.
+  const linkedCareContexts = new Map();
+  const kioskAnswers = new Map();
+  const hipTransfers = new Map();
+  // ABHA enrolments in progress, and the key their identifiers and OTPs are encrypted with.
+  const enrolments = new Map();
+  const enrolmentKeys = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  // The key the gateway signs its requests to the bridge with, published at /v0.5/certs.
+  const signingKeys = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const signingKeyId = randomUUID();
+
+  router.use(express.json());
+
+  function requireSession(req, res, next) {
+    const token = (req.get('authorization') || '').replace(/^Bearer\s+/i, '');
+    const expiresAt = sessions.get(token);
+    if (!expiresAt || expiresAt < Date.now()) {
+      return res.status(401).json({ error: ERRORS.unauthorized });
+    }
+    next();
+  }
+
+  /** A short-lived RS256 token, as the gateway puts on every request it makes of a bridge. */
+  function gatewayToken() {
+    const now = Math.floor(Date.now() / 1000);
+    const encode = (part) => Buffer.from(JSON.stringify(part)).toString('base64url');
+    const signed = `${encode({ alg: 'RS256', typ: 'JWT', kid: signingKeyId })}.${encode({
+      iss: 'sbx-gateway',
+      clientId: 'gateway',
+      iat: now,
+      exp: now + 5 * 60,
+    })}`;
+    return `${signed}.${sign('RSA-SHA256', Buffer.from(signed), signingKeys.privateKey).toString('base64url')}`;
+  }
+
+  async function deliver(path, payload, headers = {}) {
+    try {
+      const response = await fetch(`${bridgeUrl}${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CM-ID': 'sbx',
+          Authorization: `Bearer ${gatewayToken()}`,
+          ...headers,
+        },
+        body: JSON.stringify(payload),
+      });
+      if (!response.ok) console.error(`ABDM sandbox: ${path} was refused with ${response.status}`);
+      return response.ok;
+    } catch (error) {
+      console.error(`ABDM sandbox could not deliver ${path}:`, error.message);
+      return false;
+    }
+  }
+
+  /** Sends the kiosk a request as the gateway does, and resolves with its answer (or an error). */
+  function askKiosk(path, payload) {
+    const requestId = randomUUID();
+    const answer = new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        kioskAnswers.delete(requestId);
+        resolve({ error: ERRORS.kioskSilent });
+      }, KIOSK_ANSWER_TIMEOUT_MS);
+      kioskAnswers.set(requestId, (body) => {
+        clearTimeout(timer);
+        kioskAnswers.delete(requestId);
+        resolve(body);
+      });
+    });
+    return deliver(path, { requestId, timestamp: new Date().toISOString(), ...payload }, { 'X-HIP-ID': KIOSK_HIP_ID }).then((accepted) => {
+      if (accepted) return answer;
+      kioskAnswers.get(requestId)?.({ error: { code: 1404, message: `The kiosk refused ${path}.` } });
+      return answer;
+    });
+  }
+
+  function receiveKioskAnswer(req, res) {
+    const waiter = kioskAnswers.get(((req.body || {}).resp || {}).requestId);
+    if (!waiter) return res.status(404).json({ error: { code: 1404, message: 'No request is waiting for this answer.' } });
+    res.status(202).end();
+    waiter(req.body);
+  }
+
+  /** Answers 202 now and POSTs `build()`'s result to the bridge shortly after, as the gateway does. */
+  function respondLater(req, res, callbackPath, build) {
+    if (!req.body || !req.body.requestId) {
+      return res.status(400).json({ error: ERRORS.badRequest });
+    }
+    res.status(202).end();
+    setTimeout(() => {
+      deliver(callbackPath, {
+        requestId: randomUUID(),
+        timestamp: new Date().toISOString(),
+        ...build(req.body),
+        resp: { requestId: req.body.requestId },
+      });
+    }, CALLBACK_DELAY_MS);
+  }
+
+  /** Tells the requester what became of its consent request, as the consent manager does. */
+  function notifyConsent(request, status, artefactIds) {
+    return deliver('/v0.5/consents/hiu/notify', {
+      requestId: randomUUID(),
+      timestamp: new Date().toISOString(),
+      notification: {
+        consentRequestId: request.id,
+        status,
+        consentArtefacts: artefactIds.map((id) => ({ id })),
+      },
+    });
+  }
+
+  function consentDetailOf(artefact) {
+    return {
+      schemaVersion: 'v0.5',
+      consentId: artefact.id,
+      createdAt: artefact.createdAt,
+      patient: artefact.patient,
+      careContexts: artefact.careContexts,
+      purpose: artefact.purpose,
+      hip: artefact.hip,
+      hiu: artefact.hiu,
+      consentManager: { id: 'sbx' },
+      hiTypes: artefact.hiTypes,
+      permission: artefact.permission,
+    };
+  }
+
+  function recordsFor(artefact) {
+    const from = Date.parse(artefact.permission.dateRange.from);
+    const to = Date.parse(artefact.permission.dateRange.to);
+    return healthRecords.filter(
+      (record) =>
+        record.abhaAddress === artefact.patient.id &&
+        record.hip.id === artefact.hip.id &&
+        artefact.hiTypes.includes(record.hiType) &&
+        Date.parse(record.date) >= from &&
+        Date.parse(record.date) <= to
+    );
+  }
+
+  /** Grants the request with one artefact per facility holding the patient's records. */
+  function grantConsent(request) {
+    const facilities = new Map();
+    for (const record of healthRecords) {
+      if (record.abhaAddress !== request.consent.patient.id) continue;
+      const careContexts = facilities.get(record.hip.id)?.careContexts || [];
+      careContexts.push({ patientReference: record.abhaAddress, careContextReference: record.careContextReference });
+      facilities.set(record.hip.id, { hip: record.hip, careContexts });
+    }
+    request.status = 'GRANTED';
+    request.artefactIds = [...facilities.values()].map(({ hip, careContexts }) => {
+      const artefact = {
+        id: randomUUID(),
+        requestId: request.id,
+        status: 'GRANTED',
+        createdAt: new Date().toISOString(),
+        patient: request.consent.patient,
+        hip,
+        hiu: request.consent.hiu,
+        careContexts,
+        hiTypes: request.consent.hiTypes,
+        purpose: request.consent.purpose,
+        permission: request.consent.permission,
+      };
+      consentArtefacts.set(artefact.id, artefact);
+      return artefact.id;
+    });
+    return notifyConsent(request, 'GRANTED', request.artefactIds);
+  }
+
+  function denyConsent(request) {
+    request.status = 'DENIED';
+    return notifyConsent(request, 'DENIED', []);
+  }
+
+  /** Revokes or expires every artefact of the request. */
+  function endConsent(request, status) {
+    request.status = status;
+    for (const id of request.artefactIds) consentArtefacts.get(id).status = status;
+    return notifyConsent(request, status, request.artefactIds);
+  }
+
+  /** Pushes the artefact's records, encrypted for the requester, as the facility does. */
+  async function pushHealthData(artefact, hiRequest, transactionId) {
+    const recipient = { publicKey: hiRequest.keyMaterial.dhPublicKey.keyValue, nonce: hiRequest.keyMaterial.nonce };
+    const sender = senderKeys();
+    const entries = recordsFor(artefact).map((record) => {
+      const plaintext = JSON.stringify(record.bundle);
+      return {
+        content: encryptFor(plaintext, sender, recipient),
+        media: 'application/fhir+json',
+        checksum: createHash('md5').update(plaintext, 'utf8').digest('hex'),
+        careContextReference: record.careContextReference,
+      };
+    });
+    try {
+      const response = await fetch(hiRequest.dataPushUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          pageNumber: 1,
+          pageCount: 1,
+          transactionId,
+          entries,
+          keyMaterial: {
+            cryptoAlg: 'ECDH',
+            curve: 'Curve25519',
+            dhPublicKey: {
+              expiry: hiRequest.keyMaterial.dhPublicKey.expiry,
+              parameters: 'Curve25519/32byte random key',
+              keyValue: sender.publicKey,
+            },
+            nonce: sender.nonce.toString('base64'),
+          },
+        }),
+      });
+      if (!response.ok) console.error(`ABDM sandbox: data push for ${transactionId} was refused with ${response.status}`);
+    } catch (error) {
+      console.error(`ABDM sandbox could not push data for ${transactionId}:`, error.message);
+    }
+  }
+
+  /** Reverses the kiosk's RSA-OAEP encryption of an enrolment field; null when it does not decrypt. */
+  function decryptField(value) {
+    try {
+      return privateDecrypt(
+        { key: enrolmentKeys.privateKey, padding: constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha1' },
+        Buffer.from(String(value || ''), 'base64')
+      ).toString('utf8');
+    } catch {
+      return null;
+    }
+  }
+
+  function enrolmentFor(transactionId) {
+    const enrolment = enrolments.get(transactionId);
+    if (!enrolment || enrolment.expiresAt < Date.now()) {
+      enrolments.delete(transactionId);
+      return { error: ERRORS.expired };
+    }
+    return { enrolment };
+  }
+
+  /** Creates the ABHA number; the account joins the canned ones once it has an ABHA address. */
+  function createEnrolledAccount(details) {
+    const [year, month, day] = details.dateOfBirth.split('-').map(Number);
+    return {
+      abhaNumber: newAbhaNumber(),
+      name: details.name,
+      gender: details.gender,
+      yearOfBirth: year,
+      monthOfBirth: month,
+      dayOfBirth: day,
+      mobile: details.mobile,
+      address: details.address,
+      status: 'ACTIVE',
+    };
+  }
+
+  function accountFor(query) {
+    const account = findAccount(query && query.id);
+    if (!account) return { error: ERRORS.notFound };
+    if (account.status !== 'ACTIVE') return { error: ERRORS.blocked };
+    return { account };
+  }
+
+  router.get('/v0.5/certs', (req, res) => {
+    res.json({ keys: [{ ...signingKeys.publicKey.export({ format: 'jwk' }), kid: signingKeyId, alg: 'RS256', use: 'sig' }] });
+  });
+
+  router.post('/v0.5/sessions', (req, res) => {
+    const { clientId, clientSecret } = req.body || {};
+    if (clientId !== CLIENT_ID || clientSecret !== CLIENT_SECRET) {
+      return res.status(401).json({ error: ERRORS.badCredentials });
+    }
+    const accessToken = randomUUID();
+    sessions.set(accessToken, Date.now() + TOKEN_TTL_SECONDS * 1000);
+    res.json({ accessToken, expiresIn: TOKEN_TTL_SECONDS, tokenType: 'bearer' });
+  });
+
+  router.post('/v0.5/users/auth/fetch-modes', requireSession, (req, res) =>
+    respondLater(req, res, '/v0.5/users/auth/on-fetch-modes', (body) => {
+      const { account, error } = accountFor(body.query);
+      return error ? { error } : { auth: { purpose: body.query.purpose, modes: authModes(account) } };
+    })
+  );
+
+  router.post('/v0.5/users/auth/init', requireSession, (req, res) =>
+    respondLater(req, res, '/v0.5/users/auth/on-init', (body) => {
+      const { account, error } = accountFor(body.query);
+      if (error) return { error };
+      const mode = body.query.authMode;
+      if (!authModes(account).includes(mode)) return { error: ERRORS.unsupportedMode };
+      const transactionId = randomUUID();
+      const expiresAt = Date.now() + TRANSACTION_TTL_MS;
+      transactions.set(transactionId, { account, mode, expiresAt });
+      let hint = null;
+      if (mode === 'MOBILE_OTP') {
+        hint = `OTP sent to the mobile number ending ${account.mobile.slice(-4)}`;
+      } else if (mode === 'AADHAAR_OTP') {
+        hint = 'OTP sent to the mobile number registered with Aadhaar';
+      }
+      if (hint) console.log(`ABDM sandbox: OTP for ${account.abhaAddress} is ${SANDBOX_OTP}`);
+      return { auth: { transactionId, mode, meta: { hint, expiry: new Date(expiresAt).toISOString() } } };
+    })
+  );
+
+  router.post('/v0.5/users/auth/confirm', requireSession, (req, res) =>
+    respondLater(req, res, '/v0.5/users/auth/on-confirm', (body) => {
+      const transaction = transactions.get(body.transactionId);
+      if (!transaction || transaction.expiresAt < Date.now()) {
+        return { error: ERRORS.expired };
+      }
+      const credential = body.credential || {};
+      if (transaction.mode === 'DEMOGRAPHICS') {
+        const demographic = credential.demographic || {};
+        const matches =
+          sameName(demographic.name, transaction.account.name) &&
+          (!demographic.gender || demographic.gender === transaction.account.gender) &&
+          (!demographic.dateOfBirth || Number(String(demographic.dateOfBirth).slice(0, 4)) === transaction.account.yearOfBirth);
+        if (!matches) return { error: ERRORS.mismatch };
+      } else if (credential.authCode !== SANDBOX_OTP) {
+        return { error: ERRORS.invalidOtp };
+      }
+      transactions.delete(body.transactionId);
+      const accessToken = randomUUID();
+      profileTokens.set(accessToken, { account: transaction.account, expiresAt: Date.now() + TOKEN_TTL_SECONDS * 1000 });
+      return { auth: { accessToken, patient: patientOf(transaction.account) } };
+    })
+  );
+
+  router.get('/v1/account/profile', requireSession, (req, res) => {
+    const grant = profileTokens.get(req.get('x-token') || '');
+    if (!grant || grant.expiresAt < Date.now()) {
+      return res.status(401).json({ error: ERRORS.unauthorized });
+    }
+    const { account } = grant;
+    res.json({
+      healthIdNumber: account.abhaNumber,
+      healthId: account.abhaAddress,
+      name: account.name,
+      gender: account.gender,
+      yearOfBirth: String(account.yearOfBirth),
+      monthOfBirth: account.monthOfBirth ? String(account.monthOfBirth) : undefined,
+      dayOfBirth: account.dayOfBirth ? String(account.dayOfBirth) : undefined,
+      mobile: account.mobile,
+      status: account.status,
+    });
+  });
+
+  router.get('/v3/profile/public/certificate', requireSession, (req, res) => {
+    res.json({
+      publicKey: enrolmentKeys.publicKey.export({ format: 'der', type: 'spki' }).toString('base64'),
+      encryptionAlgorithm: 'RSA/ECB/OAEPWithSHA-1AndMGF1Padding',
+    });
+  });
+
+  router.post('/v3/enrollment/request/otp', requireSession, (req, res) => {
+    const { loginHint, loginId } = req.body || {};
+    const value = decryptField(loginId);
+    if (!value || !['aadhaar', 'mobile'].includes(loginHint)) {
+      return res.status(400).json({ error: ERRORS.badRequest });
+    }
+    let resident = null;
+    if (loginHint === 'aadhaar') {
+      resident = aadhaarResidents.find((candidate) => candidate.aadhaarNumber === value);
+      if (!resident) return res.status(404).json({ error: ERRORS.aadhaarNotFound });
+    } else if (!/^[6-9]\d{9}$/.test(value)) {
+      return res.status(400).json({ error: ERRORS.badRequest });
+    }
+    const txnId = randomUUID();
+    enrolments.set(txnId, {
+      resident,
+      mobile: resident ? null : value,
+      mobileVerified: false,
+      account: null,
+      expiresAt: Date.now() + ENROLMENT_TTL_MS,
+    });
+    const mobile = resident ? resident.mobile : value;
+    console.log(`ABDM sandbox: enrolment OTP for ${mobile} is ${SANDBOX_OTP}`);
+    res.json({
+      txnId,
+      message: resident
+        ? `OTP sent to the Aadhaar-linked mobile number ending ${mobile.slice(-4)}`
+        : `OTP sent to the mobile number ending ${mobile.slice(-4)}`,
+    });
+  });
+
+  router.post('/v3/enrollment/enrol/byAadhaar', requireSession, (req, res) => {
+    const otp = (((req.body || {}).authData || {}).otp || {});
+    const { enrolment, error } = enrolmentFor(otp.txnId);
+    if (error) return res.status(400).json({ error });
+    if (!enrolment.resident) return res.status(400).json({ error: ERRORS.badRequest });
+    if (decryptField(otp.otpValue) !== SANDBOX_OTP) return res.status(400).json({ error: ERRORS.invalidOtp });
+    const { resident } = enrolment;
+    const address = { line: resident.address, district: resident.district, state: resident.state, pincode: resident.pincode };
+    const existing = resident.abhaAddress && findAccount(resident.abhaAddress);
+    if (existing) {
+      enrolments.delete(otp.txnId);
+      return res.json({ txnId: otp.txnId, ABHAProfile: enrolmentProfile({ ...existing, address }), isNew: false });
+    }
+    enrolment.account = createEnrolledAccount({
+      name: resident.name,
+      gender: resident.gender,
+      dateOfBirth: resident.dateOfBirth,
+      mobile: /^[6-9]\d{9}$/.test(String(otp.mobile)) ? otp.mobile : resident.mobile,
+      address,
+    });
+    res.json({ txnId: otp.txnId, ABHAProfile: enrolmentProfile(enrolment.account), isNew: true });
+  });
+
+  router.post('/v3/enrollment/auth/byAbdm', requireSession, (req, res) => {
+    const otp = (((req.body || {}).authData || {}).otp || {});
+    const { enrolment, error } = enrolmentFor(otp.txnId);
+    if (error) return res.status(400).json({ error });
+    if (!enrolment.mobile) return res.status(400).json({ error: ERRORS.badRequest });
+    if (decryptField(otp.otpValue) !== SANDBOX_OTP) {
+      return res.json({ txnId: otp.txnId, authResult: 'failed', message: ERRORS.invalidOtp.message });
+    }
+    enrolment.mobileVerified = true;
+    res.json({ txnId: otp.txnId, authResult: 'success', message: 'The mobile number is verified.' });
+  });
+
+  router.post('/v3/enrollment/enrol/byDemographics', requireSession, (req, res) => {
+    const { txnId, demographic = {} } = req.body || {};
+    const { enrolment, error } = enrolmentFor(txnId);
+    if (error) return res.status(400).json({ error });
+    if (!enrolment.mobileVerified || decryptField(demographic.mobile) !== enrolment.mobile) {
+      return res.status(400).json({ error: ERRORS.mobileNotVerified });
+    }
+    const [day, month, year] = String(demographic.dateOfBirth || '').split('-');
+    if (!demographic.name || !['F', 'M', 'O'].includes(demographic.gender) || !year || !demographic.pinCode) {
+      return res.status(400).json({ error: ERRORS.badRequest });
+    }
+    enrolment.account = createEnrolledAccount({
+      name: demographic.name,
+      gender: demographic.gender,
+      dateOfBirth: `${year}-${month}-${day}`,
+      mobile: enrolment.mobile,
+      address: {
+        line: demographic.address,
+        district: demographic.districtName,
+        state: demographic.stateName,
+        pincode: demographic.pinCode,
+      },
+    });
+    res.json({ txnId, ABHAProfile: enrolmentProfile(enrolment.account), isNew: true });
+  });
+
+  router.get('/v3/enrollment/enrol/suggestion', requireSession, (req, res) => {
+    const txnId = req.get('transaction_id');
+    const { enrolment, error } = enrolmentFor(txnId);
+    if (error) return res.status(400).json({ error });
+    if (!enrolment.account) return res.status(400).json({ error: ERRORS.badRequest });
+    res.json({ txnId, abhaAddressList: suggestHandles(enrolment.account) });
+  });
+
+  router.post('/v3/enrollment/enrol/abha-address', requireSession, (req, res) => {
+    const { txnId, abhaAddress } = req.body || {};
+    const { enrolment, error } = enrolmentFor(txnId);
+    if (error) return res.status(400).json({ error });
+    const handle = String(abhaAddress || '').toLowerCase();
+    if (!enrolment.account || handle.length < 8 || handle.length > 18 || !ABHA_HANDLE.test(handle)) {
+      return res.status(400).json({ error: ERRORS.badRequest });
+    }
+    if (addressTaken(handle)) return res.status(409).json({ error: ERRORS.addressTaken });
+    const { account, resident } = enrolment;
+    account.abhaAddress = `${handle}@abdm`;
+    accounts.push(account);
+    if (resident) resident.abhaAddress = account.abhaAddress;
+    enrolments.delete(txnId);
+    console.log(`ABDM sandbox: created ABHA ${account.abhaNumber} (${account.abhaAddress}) for ${account.name}`);
+    res.json({ txnId, healthIdNumber: account.abhaNumber, preferredAbhaAddress: account.abhaAddress });
+  });
+
+  router.post('/v0.5/consent-requests/init', requireSession, (req, res) =>
+    respondLater(req, res, '/v0.5/consent-requests/on-init', (body) => {
+      const consent = body.consent || {};
+      const permission = consent.permission || {};
+      if (!consent.purpose || !Array.isArray(consent.hiTypes) || !permission.dateRange || !permission.dataEraseAt) {
+        return { error: ERRORS.badRequest };
+      }
+      const { account, error } = accountFor(consent.patient);
+      if (error) return { error };
+      const request = { id: randomUUID(), status: 'REQUESTED', consent: { ...consent, patient: { id: account.abhaAddress } }, artefactIds: [] };
+      consentRequests.set(request.id, request);
+      if (CONSENT_DECISION !== 'manual') {
+        setTimeout(() => (CONSENT_DECISION === 'deny' ? denyConsent(request) : grantConsent(request)), CONSENT_DECISION_DELAY_MS);
+      }
+      return { consentRequest: { id: request.id } };
+    })
+  );
+
+  router.post('/v0.5/consents/hiu/on-notify', requireSession, (req, res) => res.status(202).end());
+
+  router.post('/v0.5/consents/fetch', requireSession, (req, res) =>
+    respondLater(req, res, '/v0.5/consents/on-fetch', (body) => {
+      const artefact = consentArtefacts.get(body.consentId);
+      if (!artefact) return { error: ERRORS.consentNotFound };
+      return {
+        consent: {
+          status: artefact.status,
+          consentDetail: consentDetailOf(artefact),
+          signature: createHash('sha256').update(artefact.id).digest('base64'),
+        },
+      };
+    })
+  );
+
+  router.post('/v0.5/health-information/cm/request', requireSession, (req, res) =>
+    respondLater(req, res, '/v0.5/health-information/hiu/on-request', (body) => {
+      const hiRequest = body.hiRequest || {};
+      const keyMaterial = hiRequest.keyMaterial || {};
+      if (!hiRequest.consent || !hiRequest.dataPushUrl || !keyMaterial.nonce || !(keyMaterial.dhPublicKey || {}).keyValue) {
+        return { error: ERRORS.badRequest };
+      }
+      const artefact = consentArtefacts.get(hiRequest.consent.id);
+      if (!artefact) return { error: ERRORS.consentNotFound };
+      if (artefact.status !== 'GRANTED' || Date.parse(artefact.permission.dataEraseAt) < Date.now()) {
+        return { error: ERRORS.consentNotGranted };
+      }
+      const transactionId = randomUUID();
+      setTimeout(() => pushHealthData(artefact, hiRequest, transactionId), DATA_PUSH_DELAY_MS);
+      return { hiRequest: { transactionId, sessionStatus: 'REQUESTED' } };
+    })
+  );
+
+  router.post('/v0.5/health-information/notify', requireSession, (req, res) => {
+    const notification = (req.body || {}).notification || {};
+    const transfer = hipTransfers.get(notification.transactionId);
+    if (transfer && (notification.notifier || {}).type === 'HIP') {
+      transfer.status = (notification.statusNotification || {}).sessionStatus;
+      transfer.settle();
+    }
+    res.status(202).end();
+  });
+
+  router.post('/v0.5/links/link/add-contexts', requireSession, (req, res) =>
+    respondLater(req, res, '/v0.5/links/link/on-add-contexts', (body) => {
+      const link = body.link || {};
+      const grant = profileTokens.get(link.accessToken || '');
+      if (!grant || grant.expiresAt < Date.now()) return { error: ERRORS.unauthorized };
+      const patient = link.patient || {};
+      if (!patient.referenceNumber || !Array.isArray(patient.careContexts)) return { error: ERRORS.badRequest };
+      const linked = linkedCareContexts.get(grant.account.abhaAddress) || [];
+      for (const careContext of patient.careContexts) {
+        if (!linked.some((entry) => entry.careContextReference === careContext.referenceNumber)) {
+          linked.push({
+            hipId: KIOSK_HIP_ID,
+            patientReference: patient.referenceNumber,
+            careContextReference: careContext.referenceNumber,
+            display: careContext.display,
+          });
+        }
+      }
+      linkedCareContexts.set(grant.account.abhaAddress, linked);
+      return { acknowledgement: { status: 'SUCCESS' } };
+    })
+  );
+
+  for (const path of [
+    '/v0.5/care-contexts/on-discover',
+    '/v0.5/links/link/on-init',
+    '/v0.5/links/link/on-confirm',
+    '/v0.5/consents/hip/on-notify',
+    '/v0.5/health-information/hip/on-request',
+  ]) {
+    router.post(path, requireSession, receiveKioskAnswer);
+  }
+
+  // The patient's side, as if they acted in their PHR app.
+  router.get('/sandbox/consent-requests', (req, res) => {
+    res.json(
+      [...consentRequests.values()].map((request) => ({
+        id: request.id,
+        status: request.status,
+        patient: request.consent.patient.id,
+        hiTypes: request.consent.hiTypes,
+        artefactIds: request.artefactIds,
+      }))
+    );
+  });
+
+  router.post('/sandbox/consent-requests/:id/:action', async (req, res) => {
+    const request = consentRequests.get(req.params.id);
+    if (!request) return res.status(404).json({ error: { code: 1404, message: 'No consent request has this id.' } });
+    const { action } = req.params;
+    if ((action === 'grant' || action === 'deny') && request.status !== 'REQUESTED') {
+      return res.status(409).json({ error: { code: 1409, message: `The request is already ${request.status.toLowerCase()}.` } });
+    }
+    if ((action === 'revoke' || action === 'expire') && request.status !== 'GRANTED') {
+      return res.status(409).json({ error: { code: 1409, message: 'Only a granted consent can be revoked or expire.' } });
+    }
+    if (action === 'grant') await grantConsent(request);
+    else if (action === 'deny') await denyConsent(request);
+    else if (action === 'revoke') await endConsent(request, 'REVOKED');
+    else if (action === 'expire') await endConsent(request, 'EXPIRED');
+    else return res.status(404).json({ error: { code: 1404, message: `Unknown action "${action}".` } });
+    res.json({ id: request.id, status: request.status, artefactIds: request.artefactIds });
+  });
+
+  // A PHR app and another facility, using the kiosk as a provider.
+  router.get('/sandbox/hip/care-contexts', (req, res) => {
+    res.json(linkedCareContexts.get(String(req.query.abhaAddress || '')) || []);
+  });
+
+  router.post('/sandbox/hip/discover', async (req, res) => {
+    const account = findAccount((req.body || {}).abhaAddress);
+    if (!account) return res.status(404).json({ error: ERRORS.notFound });
+    const answer = await askKiosk('/v0.5/care-contexts/discover', {
+      transactionId: randomUUID(),
+      patient: {
+        id: account.abhaAddress,
+        name: account.name,
+        gender: account.gender,
+        yearOfBirth: account.yearOfBirth,
+        verifiedIdentifiers: account.mobile ? [{ type: 'MOBILE', value: account.mobile }] : [],
+        unverifiedIdentifiers: [],
+      },
+    });
+    res.status(answer.error ? 422 : 200).json(answer.error ? { error: answer.error } : answer.patient);
+  });
+
+  router.post('/sandbox/hip/link', async (req, res) => {
+    const { abhaAddress, referenceNumber, careContexts } = req.body || {};
+    const answer = await askKiosk('/v0.5/links/link/init', {
+      transactionId: randomUUID(),
+      patient: {
+        id: abhaAddress,
+        referenceNumber,
+        careContexts: (careContexts || []).map((reference) => ({ referenceNumber: reference })),
+      },
+    });
+    res.status(answer.error ? 422 : 200).json(answer.error ? { error: answer.error } : answer.link);
+  });
+
+  router.post('/sandbox/hip/link/confirm', async (req, res) => {
+    const { abhaAddress, linkRefNumber, otp } = req.body || {};
+    const answer = await askKiosk('/v0.5/links/link/confirm', { confirmation: { linkRefNumber, token: otp } });
+    if (answer.error) return res.status(422).json({ error: answer.error });
+    const linked = linkedCareContexts.get(abhaAddress) || [];
+    for (const careContext of answer.patient.careContexts) {
+      if (!linked.some((entry) => entry.careContextReference === careContext.referenceNumber)) {
+        linked.push({
+          hipId: KIOSK_HIP_ID,
+          patientReference: answer.patient.referenceNumber,
+          careContextReference: careContext.referenceNumber,
+          display: careContext.display,
+        });
+      }
+    }
+    linkedCareContexts.set(abhaAddress, linked);
+    res.json(answer.patient);
+  });
+
+  /** Grants SANDBOX_HIU access to the linked care contexts, requests the data and answers with what arrives. */
+  router.post('/sandbox/hip/consents', async (req, res) => {
+    const { abhaAddress, hiTypes = ['OPConsultation'], from, to, purpose = 'CAREMGT' } = req.body || {};
+    const careContexts = (linkedCareContexts.get(abhaAddress) || []).filter((entry) => entry.hipId === KIOSK_HIP_ID);
+    if (careContexts.length === 0) {
+      return res.status(404).json({ error: { code: 1404, message: 'No care contexts at the kiosk are linked to this ABHA address.' } });
+    }
+    const dateRange = {
+      from: from || new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString(),
+      to: to || new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    };
+    const artefact = {
+      id: randomUUID(),
+      status: 'GRANTED',
+      createdAt: new Date().toISOString(),
+      patient: { id: abhaAddress },
+      hip: { id: KIOSK_HIP_ID },
+      hiu: SANDBOX_HIU,
+      careContexts: careContexts.map(({ patientReference, careContextReference }) => ({ patientReference, careContextReference })),
+      hiTypes,
+      purpose: { code: purpose },
+      permission: { accessMode: 'VIEW', dateRange, dataEraseAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString() },
+    };
+    consentArtefacts.set(artefact.id, artefact);
+    const notified = await askKiosk('/v0.5/consents/hip/notify', {
+      notification: { status: 'GRANTED', consentId: artefact.id, consentDetail: consentDetailOf(artefact), signature: 'sandbox' },
+    });
+    if (notified.error) return res.status(422).json({ error: notified.error });
+
+    const keys = senderKeys();
+    const transactionId = randomUUID();
+    const transfer = { keys, status: 'REQUESTED', records: [], errors: [] };
+    const settled = new Promise((resolve) => {
+      transfer.settle = resolve;
+      setTimeout(resolve, KIOSK_ANSWER_TIMEOUT_MS);
+    });
+    hipTransfers.set(transactionId, transfer);
+    const acknowledged = await askKiosk('/v0.5/health-information/hip/request', {
+      transactionId,
+      hiRequest: {
+        consent: { id: artefact.id },
+        dateRange,
+        dataPushUrl: `${req.protocol}://${req.get('host')}${req.baseUrl}/sandbox/hip/data-push`,
+        keyMaterial: {
+          cryptoAlg: 'ECDH',
+          curve: 'Curve25519',
+          dhPublicKey: {
+            expiry: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+            parameters: 'Curve25519/32byte random key',
+            keyValue: keys.publicKey,
+          },
+          nonce: keys.nonce.toString('base64'),
+        },
+      },
+    });
+    if (acknowledged.error) {
+      hipTransfers.delete(transactionId);
+      return res.status(422).json({ consentId: artefact.id, error: acknowledged.error });
+    }
+    await settled;
+    hipTransfers.delete(transactionId);
+    res.json({ consentId: artefact.id, transactionId, status: transfer.status, records: transfer.records, errors: transfer.errors });
+  });
+
+  router.post('/sandbox/hip/consents/:id/:action', async (req, res) => {
+    const artefact = consentArtefacts.get(req.params.id);
+    const status = { revoke: 'REVOKED', expire: 'EXPIRED' }[req.params.action];
+    if (!artefact || artefact.hip.id !== KIOSK_HIP_ID || !status) return res.status(404).json({ error: ERRORS.consentNotFound });
+    artefact.status = status;
+    const answer = await askKiosk('/v0.5/consents/hip/notify', { notification: { status, consentId: artefact.id } });
+    res.status(answer.error ? 422 : 200).json(answer.error ? { error: answer.error } : { consentId: artefact.id, status });
+  });
+
+  // Where the kiosk pushes the data SANDBOX_HIU asked for.
+  router.post('/sandbox/hip/data-push', (req, res) => {
+    const push = req.body || {};
+    const transfer = hipTransfers.get(push.transactionId);
+    const sender = { publicKey: ((push.keyMaterial || {}).dhPublicKey || {}).keyValue, nonce: (push.keyMaterial || {}).nonce };
+    if (!transfer || !sender.publicKey || !sender.nonce) {
+      return res.status(404).json({ error: { code: 1404, message: 'No transfer has this transaction id.' } });
+    }
+    for (const entry of push.entries || []) {
+      try {
+        const plaintext = decryptFrom(entry.content, transfer.keys, sender);
+        if (createHash('md5').update(plaintext, 'utf8').digest('hex') !== entry.checksum) throw new Error('Checksum mismatch.');
+        transfer.records.push({ careContextReference: entry.careContextReference, bundle: JSON.parse(plaintext) });
+      } catch (error) {
+        transfer.errors.push({ careContextReference: entry.careContextReference, message: error.message });
+      }
+    }
+    res.status(202).end();
+  });
+
+  return router;
+}
+
+module.exports = { createAbdmSandbox };
@@ -1,10 +1,12 @@
 const { PeerServer } = require('peer');
 const next = require('next');
 const express = require('express');
+const { createAbdmSandbox } = require('./abdm-sandbox');
 
 const dev = process.env.NODE_ENV !== 'production';
 const app = next({ dev });
 const handle = app.getRequestHandler();
+const port = 3000;
 
 app.prepare().then(() => {
     const server = express();
@@ -13,8 +15,17 @@ app.prepare().then(() => {
     const peerServer = PeerServer({ path: '/peerjs' });
     server.use('/peerjs', peerServer);
 
+    // ✅ Mock ABDM gateway for offline ABHA linking (ABDM_SANDBOX=on to enable, never in production)
+    if (process.env.ABDM_SANDBOX === 'on') {
+        if (!dev) {
+            console.error('ABDM_SANDBOX=on is refused in production: the mock gateway accepts any client and a fixed OTP.');
+            process.exit(1);
+        }
+        server.use('/abdm-sandbox', createAbdmSandbox({ port }));
+    }
+
     // ✅ Handle Next.js routes
     server.all('*', (req, res) => handle(req, res));
 
-    server.listen(3000, () => console.log('Server with PeerJS on http://localhost:3000'));
+    server.listen(port, () => console.log(`Server with PeerJS on http://localhost:${port}`));
 });
@@ -3,4 +3,5 @@ config();
 
 import '@/ai/flows/ai-diagnosis-assistant.ts';
 import '@/ai/flows/federated-learning-model.ts';
-import '@/ai/flows/tele-consultation-support.ts';
\ No newline at end of file
+import '@/ai/flows/tele-consultation-support.ts';
+import '@/ai/flows/symptom-intake.ts';
\ No newline at end of file
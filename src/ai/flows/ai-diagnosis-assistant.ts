@@ -2,22 +2,32 @@
 
 /**
  * @fileOverview Provides a preliminary diagnosis and suggests a treatment plan based on patient symptoms and vitals.
+ * Rule-based red-flag triage runs first and its result is always part of the output; when no AI
+ * provider can answer, an emergency or urgent triage is still returned, with the AI part marked unavailable.
+ * Differential diagnoses come back ranked, with their ICD-10 codes checked against the bundled code list.
  *
  * - aiDiagnosisAssistant - A function that handles the AI diagnosis process.
  * - AIDiagnosisAssistantInput - The input type for the aiDiagnosisAssistant function.
  * - AIDiagnosisAssistantOutput - The return type for the aiDiagnosisAssistant function.
+ *
+ * Every call is saved as an encounter of the patient checked in on the session.
  */
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {requirePermission} from '@/lib/auth/session';
+import {ProviderInfoSchema} from '@/ai/providers/config';
+import {runPromptWithFailover} from '@/ai/providers/failover';
+import {VitalsSchema, formatVitals} from '@/lib/vitals';
+import {TriageResultSchema, URGENCY_LABELS, triagePatient} from '@/lib/triage';
+import {Icd10ValidationSchema, validateIcd10Code} from '@/lib/icd10';
+import {saveDiagnosisEncounter, type SavedEncounter} from '@/lib/records/encounters';
 
 const AIDiagnosisAssistantInputSchema = z.object({
   symptoms: z
     .string()
     .describe('A description of the patient\'s symptoms.'),
-  vitals: z
-    .string()
-    .describe('The patient\'s vital signs, such as temperature, blood pressure, and heart rate.'),
+  vitals: VitalsSchema,
   medicalHistory: z
     .string()
     .optional()
@@ -25,31 +35,92 @@ const AIDiagnosisAssistantInputSchema = z.object({
 });
 export type AIDiagnosisAssistantInput = z.infer<typeof AIDiagnosisAssistantInputSchema>;
 
-const AIDiagnosisAssistantOutputSchema = z.object({
+// The prompt sees the vitals rendered by formatVitals rather than the raw readings.
+const AIDiagnosisAssistantPromptInputSchema = AIDiagnosisAssistantInputSchema.extend({
+  vitals: z.string().describe('The patient\'s vital signs, one reading per line.'),
+  redFlags: z.string().describe('Red flags found by the rule-based triage, one per line.'),
+});
+
+const DifferentialDiagnosisSchema = z.object({
+  condition: z.string().describe('Name of the condition.'),
+  icd10Code: z.string().describe('The ICD-10 (WHO) code for the condition, e.g. J06.9.'),
+  likelihood: z.number().describe('Estimated likelihood of this condition (0-1).'),
+  supportingFindings: z.array(z.string()).describe('Findings from the symptoms, vitals or history that support this condition.'),
+  contradictingFindings: z.array(z.string()).describe('Findings that argue against this condition.'),
+  recommendedInvestigations: z.array(z.string()).describe('Tests or examinations that would confirm or rule out this condition.'),
+});
+
+const AIDiagnosisAssistantModelOutputSchema = z.object({
   preliminaryDiagnosis: z.string().describe('The preliminary diagnosis of the patient.'),
   suggestedTreatmentPlan: z.string().describe('The suggested treatment plan for the patient.'),
   confidenceLevel: z.number().describe('The confidence level of the diagnosis and treatment plan (0-1).'),
+  differentialDiagnoses: z
+    .array(DifferentialDiagnosisSchema)
+    .describe('Between two and five differential diagnoses, most likely first.'),
+});
+
+const RankedDifferentialDiagnosisSchema = DifferentialDiagnosisSchema.extend({
+  rank: z.number().describe('1 for the most likely condition.'),
+  icd10: Icd10ValidationSchema.describe('Result of checking icd10Code against the bundled code list.'),
+});
+export type RankedDifferentialDiagnosis = z.infer<typeof RankedDifferentialDiagnosisSchema>;
+
+const AIDiagnosisAssistantOutputSchema = AIDiagnosisAssistantModelOutputSchema.extend({
+  differentialDiagnoses: z.array(RankedDifferentialDiagnosisSchema),
+  triage: TriageResultSchema.describe('The rule-based triage result. Takes precedence over the model.'),
+  provider: ProviderInfoSchema.optional().describe('Which AI provider answered; absent when none could.'),
 });
 export type AIDiagnosisAssistantOutput = z.infer<typeof AIDiagnosisAssistantOutputSchema>;
 
-export async function aiDiagnosisAssistant(input: AIDiagnosisAssistantInput): Promise<AIDiagnosisAssistantOutput> {
-  return aiDiagnosisAssistantFlow(input);
+export async function aiDiagnosisAssistant(
+  input: AIDiagnosisAssistantInput
+): Promise<AIDiagnosisAssistantOutput & SavedEncounter> {
+  const session = await requirePermission('diagnosis:run');
+  const output = await aiDiagnosisAssistantFlow(input);
+  const saved = await saveDiagnosisEncounter(session, input.vitals, {
+    symptoms: input.symptoms,
+    medicalHistory: input.medicalHistory,
+    ...output,
+  });
+  return {...output, ...saved};
 }
 
 const prompt = ai.definePrompt({
   name: 'aiDiagnosisAssistantPrompt',
-  input: {schema: AIDiagnosisAssistantInputSchema},
-  output: {schema: AIDiagnosisAssistantOutputSchema},
+  input: {schema: AIDiagnosisAssistantPromptInputSchema},
+  output: {schema: AIDiagnosisAssistantModelOutputSchema},
   prompt: `You are an AI assistant that provides preliminary diagnoses and suggests treatment plans based on patient symptoms and vitals.
 
   Based on the following information, provide a preliminary diagnosis and suggest a treatment plan. Also, provide a confidence level for your diagnosis and treatment plan.
 
+  Also list the differential diagnoses a reviewing doctor should consider. For each one give its WHO ICD-10 code,
+  your estimated likelihood, the findings that support and contradict it, and the investigations that would
+  confirm or rule it out. Only use ICD-10 codes you are certain exist.
+
   Symptoms: {{{symptoms}}}
-  Vitals: {{{vitals}}}
+  Vitals:
+  {{{vitals}}}
+
   Medical History: {{{medicalHistory}}}
+
+  Red flags found by triage rules (do not downplay these):
+  {{{redFlags}}}
   `,
 });
 
+function rankDifferentials(
+  differentials: z.infer<typeof DifferentialDiagnosisSchema>[]
+): RankedDifferentialDiagnosis[] {
+  return [...differentials]
+    .sort((a, b) => b.likelihood - a.likelihood)
+    .map((differential, index) => ({
+      ...differential,
+      likelihood: Math.min(1, Math.max(0, differential.likelihood)),
+      rank: index + 1,
+      icd10: validateIcd10Code(differential.icd10Code),
+    }));
+}
+
 const aiDiagnosisAssistantFlow = ai.defineFlow(
   {
     name: 'aiDiagnosisAssistantFlow',
@@ -57,7 +128,27 @@ const aiDiagnosisAssistantFlow = ai.defineFlow(
     outputSchema: AIDiagnosisAssistantOutputSchema,
   },
   async input => {
-    const {output} = await prompt(input);
-    return output!;
+    const triage = triagePatient(input);
+    const redFlags = triage.redFlags.map(flag => `- ${flag.finding} (${flag.urgency})`).join('\n') || 'None';
+    try {
+      const {output, provider} = await runPromptWithFailover('aiDiagnosisAssistantFlow', prompt, {
+        ...input,
+        vitals: formatVitals(input.vitals),
+        redFlags,
+      });
+      return {...output, differentialDiagnoses: rankDifferentials(output.differentialDiagnoses), triage, provider};
+    } catch (error) {
+      // Red flags must reach the patient even when no provider can answer; failover has logged each failure.
+      if (triage.urgency === 'routine') {
+        throw error;
+      }
+      return {
+        preliminaryDiagnosis: `AI assessment unavailable. ${URGENCY_LABELS[triage.urgency]} red flags were found.`,
+        suggestedTreatmentPlan: triage.advice,
+        confidenceLevel: 0,
+        differentialDiagnoses: [],
+        triage,
+      };
+    }
   }
 );
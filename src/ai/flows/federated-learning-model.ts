@@ -1,57 +1,116 @@
 'use server';
 
 /**
- * @fileOverview A federated learning AI agent for healthcare kiosks.
+ * @fileOverview Federated learning contribution from a healthcare kiosk.
+ * The kiosk trains the current global model on its own records and uploads only
+ * the weight delta, clipped and noised for differential privacy; the coordinator,
+ * in this process or at FEDERATED_COORDINATOR_URL, combines deltas from several
+ * kiosks with FedAvg. When the model runs secure aggregation the update is only
+ * ever sent masked, in steps this kiosk keeps taking while the round is open
+ * (see secure-round.ts). Records of patients without
+ * active research consent are left out, the rest are de-identified, and a
+ * batch that is not k-anonymous is refused, as is a kiosk that has spent its
+ * privacy budget for the model.
  *
- * - federatedLearningModel - A function that handles the federated learning process.
+ * - federatedLearningModel - A function that trains locally and submits the update for this kiosk.
  * - FederatedLearningModelInput - The input type for the federatedLearningModel function.
  * - FederatedLearningModelOutput - The return type for the federatedLearningModel function.
  */
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {requirePermission} from '@/lib/auth/session';
+import {kioskId} from '@/lib/records';
+import {computeLocalUpdate} from '@/lib/federated/client';
+import {deidentificationConfig, deidentifyRecords, describeFailure} from '@/lib/federated/deidentify';
+import {getCoordinator} from '@/lib/federated/coordinator-api';
+import {ModelMetricsSchema} from '@/lib/federated/logistic-regression';
+import {getFederatedModel, trainingRecordSchema} from '@/lib/federated/models';
+import {privacyConfig} from '@/lib/federated/privacy';
+import {reservePrivacyBudget} from '@/lib/federated/privacy-accountant';
+import {joinSecureRound} from '@/lib/federated/secure-round';
+import {describeConsentExclusions, filterByResearchConsent} from '@/lib/federated/research-consent';
 
 const FederatedLearningModelInputSchema = z.object({
   kioskId: z.string().describe('The unique identifier for the kiosk.'),
-  modelName: z.string().describe('The name of the machine learning model to be trained.'),
-  trainingData: z.string().describe('The training data for the model, as a JSON string.'),
+  modelName: z.string().describe('The name of the federated model to train, e.g. Cardio-Risk-Predictor.'),
+  trainingData: z
+    .array(z.record(z.union([z.number(), z.string()])))
+    .describe('The training records for the model, one value per feature plus the 0/1 label and the kiosk patient ID.'),
 });
 export type FederatedLearningModelInput = z.infer<typeof FederatedLearningModelInputSchema>;
 
 const FederatedLearningModelOutputSchema = z.object({
-  modelUpdate: z
-    .string()
-    .describe(
-      'The updated model parameters after federated learning, as a JSON string.'
-    ),
-  metrics: z.string().describe('The evaluation metrics of the updated model, as a JSON string.'),
+  kioskId: z.string(),
+  modelName: z.string(),
+  roundNumber: z.number().describe('The round the update was submitted to.'),
+  roundStatus: z.enum(['open', 'aggregated', 'abandoned']).describe('Whether the round is still waiting for other kiosks.'),
+  updatesReceived: z.number().describe('Updates the round has received, including this one.'),
+  minClients: z.number().describe('Updates needed before the round is aggregated.'),
+  secureAggregation: z
+    .object({
+      kiosksJoined: z.number(),
+      threshold: z.number().describe('Kiosks that must stay until unmasking for the sum to be recovered.'),
+    })
+    .nullable()
+    .describe('Set when the round runs secure aggregation.'),
+  numExamples: z.number().describe('Records the local model was trained on.'),
+  updateNorm: z.number().describe('L2 norm of the uploaded weight delta.'),
+  privacy: z
+    .object({
+      enabled: z.boolean(),
+      clipped: z.boolean().describe('Whether the delta was scaled down to the clipping norm.'),
+      clipNorm: z.number(),
+      noiseMultiplier: z.number(),
+      epsilonSpent: z.number().describe('Total epsilon this kiosk has spent on the model, including this update.'),
+      epsilonBudget: z.number(),
+      delta: z.number(),
+      roundsRemaining: z.number().nullable(),
+    })
+    .describe('Differential privacy applied to the update and the kiosk\'s remaining budget.'),
+  localMetrics: z
+    .object({before: ModelMetricsSchema, after: ModelMetricsSchema})
+    .describe('The global model before and after local training, on the kiosk\'s holdout records.'),
+  deidentification: z
+    .object({
+      k: z.number(),
+      achievedK: z.number().describe('Size of the smallest group of records sharing all quasi-identifiers.'),
+      droppedColumns: z.array(z.string()),
+      generalised: z.array(z.string()).describe('How each quasi-identifier was generalised.'),
+    })
+    .describe('What de-identification changed before training.'),
+  consent: z
+    .object({
+      checked: z.number(),
+      included: z.number(),
+      withoutPatientId: z.number(),
+      withoutConsent: z.number(),
+      withdrawn: z.number(),
+      expired: z.number(),
+    })
+    .describe('Records left out because their patient has no active research consent.'),
 });
 export type FederatedLearningModelOutput = z.infer<typeof FederatedLearningModelOutputSchema>;
 
+/** Contributes on behalf of this kiosk (KIOSK_ID); the kiosk id cannot be chosen by the caller. */
 export async function federatedLearningModel(
-  input: FederatedLearningModelInput
+  input: Omit<FederatedLearningModelInput, 'kioskId'>
 ): Promise<FederatedLearningModelOutput> {
-  return federatedLearningModelFlow(input);
+  await requirePermission('federated:contribute');
+  return federatedLearningModelFlow({...input, kioskId: kioskId()});
 }
 
-const federatedLearningModelPrompt = ai.definePrompt({
-  name: 'federatedLearningModelPrompt',
-  input: {schema: FederatedLearningModelInputSchema},
-  output: {schema: FederatedLearningModelOutputSchema},
-  prompt: `You are a federated learning agent participating in a collaborative model training.
-
-You will receive training data from a healthcare kiosk and update the model parameters accordingly.
-
-Kiosk ID: {{{kioskId}}}
-Model Name: {{{modelName}}}
-Training Data: {{{trainingData}}}
-
-Based on the training data, update the model parameters and provide the evaluation metrics.
-Ensure patient data privacy during the federated learning process.
-
-Output the updated model parameters and evaluation metrics as JSON strings.
-`,
-});
+/** Checks the records against the model's feature schema; the input schema only guarantees their shape. */
+function parseTrainingData(modelName: string, trainingData: FederatedLearningModelInput['trainingData']) {
+  const model = getFederatedModel(modelName);
+  const parsed = z.array(trainingRecordSchema(model)).min(1, 'Training data must contain at least one record.').safeParse(trainingData);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const where = issue.path.length > 0 ? `Record ${Number(issue.path[0]) + 1}: ` : '';
+    throw new Error(`${where}${issue.message}`);
+  }
+  return parsed.data;
+}
 
 const federatedLearningModelFlow = ai.defineFlow(
   {
@@ -60,7 +119,51 @@ const federatedLearningModelFlow = ai.defineFlow(
     outputSchema: FederatedLearningModelOutputSchema,
   },
   async input => {
-    const {output} = await federatedLearningModelPrompt(input);
-    return output!;
+    // Validate first: generalising would otherwise hide implausible values.
+    parseTrainingData(input.modelName, input.trainingData);
+    const model = getFederatedModel(input.modelName);
+    const {records: consented, report: consent} = await filterByResearchConsent(model, input.trainingData);
+    if (consent.included === 0) {
+      throw new Error(`No record has active research consent for federated learning. ${describeConsentExclusions(consent)}`);
+    }
+    const {records: deidentified, report} = deidentifyRecords(model, consented, deidentificationConfig(model));
+    if (!report.passed) {
+      throw new Error(describeFailure(report));
+    }
+    const records = parseTrainingData(input.modelName, deidentified);
+    const coordinator = getCoordinator();
+    const task = await coordinator.getRoundTask(input.modelName, input.kioskId);
+    const budget = await reservePrivacyBudget(input.kioskId, input.modelName);
+    const update = computeLocalUpdate(task, input.kioskId, records, privacyConfig(model));
+    const round = task.secure ? await joinSecureRound(task, update) : await coordinator.submitUpdate(update);
+    return {
+      kioskId: input.kioskId,
+      modelName: input.modelName,
+      roundNumber: round.number,
+      roundStatus: round.status,
+      updatesReceived: round.participants.length,
+      minClients: round.minClients,
+      secureAggregation: round.secure ? {kiosksJoined: round.secure.roster.length, threshold: round.secure.threshold} : null,
+      numExamples: update.numExamples,
+      updateNorm: Math.hypot(...update.delta),
+      localMetrics: update.metrics,
+      deidentification: {
+        k: report.k,
+        achievedK: report.achievedK,
+        droppedColumns: report.dropped.map(entry => entry.column),
+        generalised: report.generalised.map(entry => entry.rule),
+      },
+      consent,
+      privacy: {
+        enabled: budget.enabled,
+        clipped: update.privacy?.clipped ?? false,
+        clipNorm: budget.clipNorm,
+        noiseMultiplier: budget.noiseMultiplier,
+        epsilonSpent: budget.epsilonSpent,
+        epsilonBudget: budget.epsilonBudget,
+        delta: budget.delta,
+        roundsRemaining: budget.roundsRemaining,
+      },
+    };
   }
-);
\ No newline at end of file
+);
@@ -0,0 +1,196 @@
+'use server';
+
+/**
+ * @fileOverview A conversational symptom intake agent that interviews the patient before diagnosis.
+ *
+ * - symptomIntake - A function that handles one turn of the intake conversation.
+ * - SymptomIntakeInput - The input type for the symptomIntake function.
+ * - SymptomIntakeOutput - The return type for the symptomIntake function.
+ *
+ * Rule-based red-flag triage runs first and its result is returned even when
+ * no AI provider can answer, so an emergency is never lost with the reply.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {requirePermission} from '@/lib/auth/session';
+import {ProviderInfoSchema} from '@/ai/providers/config';
+import {runPromptWithFailover} from '@/ai/providers/failover';
+import {TriageResultSchema, triagePatient} from '@/lib/triage';
+
+const IntakeMessageSchema = z.object({
+  role: z.enum(['assistant', 'patient']),
+  text: z.string(),
+});
+export type IntakeMessage = z.infer<typeof IntakeMessageSchema>;
+
+const CollectedIntakeSchema = z.object({
+  chiefComplaint: z.string().optional().describe('The main problem in the patient\'s own words.'),
+  onset: z.string().optional().describe('How and when the problem started (sudden or gradual).'),
+  duration: z.string().optional().describe('How long the problem has lasted.'),
+  severity: z.string().optional().describe('How bad it is, e.g. mild/moderate/severe or a 1-10 score.'),
+  associatedSymptoms: z.string().optional().describe('Other symptoms that came with it, or "none".'),
+  medications: z.string().optional().describe('Medicines currently being taken, or "none".'),
+  allergies: z.string().optional().describe('Known allergies, or "none".'),
+  pastHistory: z.string().optional().describe('Relevant past illnesses, surgeries or chronic conditions.'),
+});
+export type CollectedIntake = z.infer<typeof CollectedIntakeSchema>;
+
+const REQUIRED_FIELDS = [
+  'chiefComplaint',
+  'onset',
+  'duration',
+  'severity',
+  'associatedSymptoms',
+  'medications',
+  'allergies',
+] as const satisfies readonly (keyof CollectedIntake)[];
+
+// Stop asking after this many patient answers and diagnose with what we have.
+const MAX_PATIENT_TURNS = 12;
+
+const SymptomIntakeInputSchema = z.object({
+  messages: z.array(IntakeMessageSchema).describe('The conversation so far, oldest first.'),
+  collected: CollectedIntakeSchema.describe('What has been collected in earlier turns.'),
+  preferredLanguage: z.string().describe('The language to talk to the patient in.'),
+});
+export type SymptomIntakeInput = z.infer<typeof SymptomIntakeInputSchema>;
+
+const SymptomIntakeModelOutputSchema = z.object({
+  collected: CollectedIntakeSchema.describe('Everything collected so far, updated with the latest answer.'),
+  reply: z.string().describe('The next question for the patient, or a short closing message when nothing is missing.'),
+  quickReplies: z.array(z.string()).describe('Up to four short answers the patient can tap instead of typing.'),
+});
+
+const SymptomIntakeOutputSchema = SymptomIntakeModelOutputSchema.extend({
+  missing: z.array(z.string()).describe('Required fields that are still unanswered.'),
+  isComplete: z.boolean(),
+  diagnosisInput: z
+    .object({
+      symptoms: z.string(),
+      medicalHistory: z.string(),
+    })
+    .optional()
+    .describe('Input for aiDiagnosisAssistant (without vitals), once the intake is complete.'),
+  triage: TriageResultSchema.describe('Red-flag triage of everything the patient has said so far.'),
+  provider: ProviderInfoSchema.optional().describe('Which AI provider produced the reply; absent when none could.'),
+});
+export type SymptomIntakeOutput = z.infer<typeof SymptomIntakeOutputSchema>;
+
+export async function symptomIntake(input: SymptomIntakeInput): Promise<SymptomIntakeOutput> {
+  await requirePermission('diagnosis:run');
+  return symptomIntakeFlow(input);
+}
+
+const SymptomIntakePromptInputSchema = z.object({
+  transcript: z.string(),
+  collected: z.string(),
+  missing: z.string(),
+  preferredLanguage: z.string(),
+});
+
+const prompt = ai.definePrompt({
+  name: 'symptomIntakePrompt',
+  input: {schema: SymptomIntakePromptInputSchema},
+  output: {schema: SymptomIntakeModelOutputSchema},
+  prompt: `You are a friendly health kiosk assistant interviewing a patient before a preliminary diagnosis.
+  Many patients have limited literacy, so use short, simple sentences and ask exactly one question at a time.
+  Talk to the patient in {{{preferredLanguage}}}, but write the collected fields in English.
+
+  Update the collected information with anything new from the patient's latest answer. Never invent details
+  the patient did not say. If the patient says they don't know, record "unknown".
+
+  Then ask about the first item that is still missing, in this order of priority:
+  {{{missing}}}
+
+  If nothing is missing, thank the patient and tell them the answers will now be used for the assessment.
+  Suggest up to four short quick replies that fit your question (e.g. "Since today", "2-3 days", "More than a week").
+
+  Collected so far (JSON):
+  {{{collected}}}
+
+  Conversation:
+  {{{transcript}}}
+  `,
+});
+
+function missingFields(collected: CollectedIntake) {
+  return REQUIRED_FIELDS.filter(field => !collected[field]?.trim());
+}
+
+const FIELD_LABELS: Record<keyof CollectedIntake, string> = {
+  chiefComplaint: 'Main complaint',
+  onset: 'Onset',
+  duration: 'Duration',
+  severity: 'Severity',
+  associatedSymptoms: 'Associated symptoms',
+  medications: 'Current medications',
+  allergies: 'Allergies',
+  pastHistory: 'Past history',
+};
+
+function buildDiagnosisInput(collected: CollectedIntake) {
+  const line = (field: keyof CollectedIntake) => `${FIELD_LABELS[field]}: ${collected[field]?.trim() || 'not provided'}`;
+  return {
+    symptoms: (['chiefComplaint', 'onset', 'duration', 'severity', 'associatedSymptoms'] as const).map(line).join('\n'),
+    medicalHistory: (['pastHistory', 'medications', 'allergies'] as const).map(line).join('\n'),
+  };
+}
+
+const symptomIntakeFlow = ai.defineFlow(
+  {
+    name: 'symptomIntakeFlow',
+    inputSchema: SymptomIntakeInputSchema,
+    outputSchema: SymptomIntakeOutputSchema,
+  },
+  async input => {
+    const patientText = input.messages
+      .filter(message => message.role === 'patient')
+      .map(message => message.text)
+      .join('\n');
+    const triage = triagePatient({symptoms: patientText, vitals: {}});
+
+    let result;
+    try {
+      result = await runPromptWithFailover('symptomIntakeFlow', prompt, {
+        transcript: input.messages
+          .map(message => `${message.role === 'patient' ? 'Patient' : 'Assistant'}: ${message.text}`)
+          .join('\n'),
+        collected: JSON.stringify(input.collected),
+        missing: missingFields(input.collected).join(', ') || 'nothing',
+        preferredLanguage: input.preferredLanguage,
+      });
+    } catch (error) {
+      console.error('Symptom intake model failed; returning the triage only:', error);
+      const missing = missingFields(input.collected);
+      return {
+        collected: input.collected,
+        reply:
+          triage.urgency === 'emergency'
+            ? `The assistant is unavailable. Emergency red flags were found: ${triage.advice}`
+            : 'The assistant is unavailable right now. Please send your answer again in a moment.',
+        quickReplies: [],
+        missing,
+        isComplete: false,
+        triage,
+      };
+    }
+    const {output, provider} = result;
+
+    const collected = {...input.collected, ...output.collected};
+    const missing = missingFields(collected);
+    const patientTurns = input.messages.filter(message => message.role === 'patient').length;
+    const isComplete = missing.length === 0 || patientTurns >= MAX_PATIENT_TURNS;
+
+    return {
+      ...output,
+      collected,
+      quickReplies: output.quickReplies.slice(0, 4),
+      missing,
+      isComplete,
+      diagnosisInput: isComplete ? buildDiagnosisInput(collected) : undefined,
+      triage,
+      provider,
+    };
+  }
+);
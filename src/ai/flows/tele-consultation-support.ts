@@ -8,39 +8,68 @@
  * - teleConsultationSupport - A function that handles summarizing patient information for tele-consultations.
  * - TeleConsultationSupportInput - The input type for the teleConsultationSupport function.
  * - TeleConsultationSupportOutput - The return type for the teleConsultationSupport function.
+ *
+ * Every call is saved as an encounter of the patient checked in on the session.
  */
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {requirePermission} from '@/lib/auth/session';
+import {ProviderInfoSchema} from '@/ai/providers/config';
+import {runPromptWithFailover} from '@/ai/providers/failover';
+import {VitalsSchema, formatVitals} from '@/lib/vitals';
+import {saveConsultationEncounter, type SavedEncounter} from '@/lib/records/encounters';
 
 const TeleConsultationSupportInputSchema = z.object({
   medicalHistory: z.string().describe('The patient\'s medical history.'),
-  vitals: z.string().describe('The patient\'s vital signs.'),
+  vitals: VitalsSchema,
   labResults: z.string().describe('The patient\'s lab results.'),
   imagingResults: z.string().describe('The patient\'s imaging results.'),
   preferredLanguage: z.string().describe('The doctor\'s preferred language for the summary.'),
 });
 export type TeleConsultationSupportInput = z.infer<typeof TeleConsultationSupportInputSchema>;
 
-const TeleConsultationSupportOutputSchema = z.object({
+// The prompt sees the vitals rendered by formatVitals rather than the raw readings.
+const TeleConsultationSupportPromptInputSchema = TeleConsultationSupportInputSchema.extend({
+  vitals: z.string().describe('The patient\'s vital signs, one reading per line.'),
+});
+
+const TeleConsultationSupportModelOutputSchema = z.object({
   summary: z.string().describe('A concise summary of the patient\'s medical information in the preferred language.'),
 });
+
+const TeleConsultationSupportOutputSchema = TeleConsultationSupportModelOutputSchema.extend({
+  provider: ProviderInfoSchema.describe('Which AI provider produced the summary.'),
+});
 export type TeleConsultationSupportOutput = z.infer<typeof TeleConsultationSupportOutputSchema>;
 
-export async function teleConsultationSupport(input: TeleConsultationSupportInput): Promise<TeleConsultationSupportOutput> {
-  return teleConsultationSupportFlow(input);
+export async function teleConsultationSupport(
+  input: TeleConsultationSupportInput
+): Promise<TeleConsultationSupportOutput & SavedEncounter> {
+  const session = await requirePermission('teleconsult:summary');
+  const output = await teleConsultationSupportFlow(input);
+  const saved = await saveConsultationEncounter(session, input.vitals, {
+    medicalHistory: input.medicalHistory,
+    labResults: input.labResults,
+    imagingResults: input.imagingResults,
+    preferredLanguage: input.preferredLanguage,
+    ...output,
+  });
+  return {...output, ...saved};
 }
 
 const prompt = ai.definePrompt({
   name: 'teleConsultationSupportPrompt',
-  input: {schema: TeleConsultationSupportInputSchema},
-  output: {schema: TeleConsultationSupportOutputSchema},
+  input: {schema: TeleConsultationSupportPromptInputSchema},
+  output: {schema: TeleConsultationSupportModelOutputSchema},
   prompt: `You are an AI assistant that summarizes patient information for doctors during tele-consultations.
 
   Please provide a concise summary of the patient's medical history, vitals, lab results, and imaging results in the doctor's preferred language.
 
   Medical History: {{{medicalHistory}}}
-  Vitals: {{{vitals}}}
+  Vitals:
+  {{{vitals}}}
+
   Lab Results: {{{labResults}}}
   Imaging Results: {{{imagingResults}}}
   Preferred Language: {{{preferredLanguage}}}
@@ -55,7 +84,10 @@ const teleConsultationSupportFlow = ai.defineFlow(
     outputSchema: TeleConsultationSupportOutputSchema,
   },
   async input => {
-    const {output} = await prompt(input);
-    return output!;
+    const {output, provider} = await runPromptWithFailover('teleConsultationSupportFlow', prompt, {
+      ...input,
+      vitals: formatVitals(input.vitals),
+    });
+    return {...output, provider};
   }
 );
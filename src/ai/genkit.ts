@@ -1,7 +1,26 @@
 import {genkit} from 'genkit';
+import type {GenkitPlugin} from 'genkit/plugin';
 import {googleAI} from '@genkit-ai/googleai';
 
+import {defaultProviderChain, isProviderConfigured, modelForProvider} from '@/ai/providers/config';
+import {defineLocalModel} from '@/ai/providers/local';
+import {defineStubModel} from '@/ai/providers/stub';
+
+const plugins: GenkitPlugin[] = [];
+// Only load the Gemini plugin when some flow may use it and a key is present. A plugin that fails to
+// initialise breaks every model lookup, including the local and stub fallbacks.
+if (isProviderConfigured('gemini')) {
+  if (process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY) {
+    plugins.push(googleAI());
+  } else {
+    console.warn('Gemini is configured as an AI provider but no GEMINI_API_KEY is set; it will be skipped.');
+  }
+}
+
 export const ai = genkit({
-  plugins: [googleAI()],
-  model: 'googleai/gemini-2.0-flash',
+  plugins,
+  model: modelForProvider(defaultProviderChain()[0]),
 });
+
+defineLocalModel(ai);
+defineStubModel(ai);
@@ -0,0 +1,83 @@
+/**
+ * @fileOverview LLM provider selection.
+ *
+ * - PROVIDER_IDS - The providers a kiosk can be configured with.
+ * - providerChain - The ordered failover chain for a flow.
+ * - modelForProvider - The Genkit model name each provider answers with.
+ *
+ * AI_PROVIDERS sets the default chain, e.g. "gemini,local,stub". A single flow
+ * can use its own chain through AI_PROVIDERS_<FLOW>, where <FLOW> is the flow
+ * name without the "Flow" suffix in upper snake case (AI_PROVIDERS_SYMPTOM_INTAKE
+ * for symptomIntakeFlow).
+ */
+
+import {z} from 'genkit';
+
+export const PROVIDER_IDS = ['gemini', 'local', 'stub'] as const;
+export type ProviderId = (typeof PROVIDER_IDS)[number];
+
+export const ProviderInfoSchema = z.object({
+  provider: z.enum(PROVIDER_IDS).describe('The provider that produced the response.'),
+  model: z.string().describe('The Genkit model name that produced the response.'),
+  failedOver: z
+    .array(z.object({provider: z.enum(PROVIDER_IDS), error: z.string()}))
+    .describe('Providers that were tried first and failed, in order.'),
+});
+export type ProviderInfo = z.infer<typeof ProviderInfoSchema>;
+
+const DEFAULT_CHAIN: ProviderId[] = ['gemini'];
+
+function parseChain(value: string | undefined): ProviderId[] | null {
+  if (!value) return null;
+  const chain = value
+    .split(',')
+    .map(id => id.trim().toLowerCase())
+    .filter((id): id is ProviderId => (PROVIDER_IDS as readonly string[]).includes(id));
+  return chain.length > 0 ? [...new Set(chain)] : null;
+}
+
+function flowEnvName(flowName: string) {
+  return flowName
+    .replace(/Flow$/, '')
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toUpperCase();
+}
+
+export function defaultProviderChain(): ProviderId[] {
+  return parseChain(process.env.AI_PROVIDERS) ?? DEFAULT_CHAIN;
+}
+
+export function providerChain(flowName: string): ProviderId[] {
+  return parseChain(process.env[`AI_PROVIDERS_${flowEnvName(flowName)}`]) ?? defaultProviderChain();
+}
+
+/** Whether any flow is configured to use the provider, so unused plugins aren't loaded. */
+export function isProviderConfigured(provider: ProviderId) {
+  if (defaultProviderChain().includes(provider)) return true;
+  return Object.entries(process.env).some(
+    ([name, value]) => name.startsWith('AI_PROVIDERS_') && parseChain(value)?.includes(provider)
+  );
+}
+
+export const LOCAL_MODEL_NAME = 'kiosk-local/chat';
+export const STUB_MODEL_NAME = 'kiosk-stub/deterministic';
+
+export function modelForProvider(provider: ProviderId) {
+  switch (provider) {
+    case 'gemini':
+      return `googleai/${process.env.GEMINI_MODEL ?? 'gemini-2.0-flash'}`;
+    case 'local':
+      return LOCAL_MODEL_NAME;
+    case 'stub':
+      return STUB_MODEL_NAME;
+  }
+}
+
+export function localModelConfig() {
+  return {
+    baseUrl: (process.env.LOCAL_LLM_BASE_URL ?? 'http://127.0.0.1:11434/v1').replace(/\/+$/, ''),
+    model: process.env.LOCAL_LLM_MODEL ?? 'llama3.2',
+    apiKey: process.env.LOCAL_LLM_API_KEY,
+    timeoutMs: Number(process.env.LOCAL_LLM_TIMEOUT_MS ?? 60000),
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * @fileOverview Runs a prompt against each provider in a flow's chain until one answers.
+ */
+
+import {modelForProvider, providerChain, type ProviderInfo} from '@/ai/providers/config';
+
+type PromptFn<I, O> = (input: I, options: {model: string}) => Promise<{output: O | null}>;
+
+export async function runPromptWithFailover<I, O>(
+  flowName: string,
+  prompt: PromptFn<I, O>,
+  input: I
+): Promise<{output: O; provider: ProviderInfo}> {
+  const failedOver: ProviderInfo['failedOver'] = [];
+  for (const provider of providerChain(flowName)) {
+    const model = modelForProvider(provider);
+    try {
+      const {output} = await prompt(input, {model});
+      if (output == null) {
+        throw new Error('The model returned no structured output.');
+      }
+      return {output, provider: {provider, model, failedOver}};
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`${flowName}: provider "${provider}" failed, trying the next one.`, message);
+      failedOver.push({provider, error: message});
+    }
+  }
+  throw new Error(
+    `${flowName}: every AI provider failed (${failedOver.map(f => `${f.provider}: ${f.error}`).join('; ')}).`
+  );
+}
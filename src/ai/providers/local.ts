@@ -0,0 +1,75 @@
+/**
+ * @fileOverview A Genkit model backed by an OpenAI-compatible chat completions
+ * endpoint on the kiosk box (Ollama, llama.cpp server, vLLM, ...), so AI
+ * features keep working without internet access.
+ */
+
+import type {Genkit, MessageData} from 'genkit';
+
+import {LOCAL_MODEL_NAME, localModelConfig} from '@/ai/providers/config';
+
+type ChatMessage = {role: 'system' | 'user' | 'assistant'; content: string};
+
+function toChatMessage(message: MessageData): ChatMessage {
+  const content = message.content
+    .map(part => part.text ?? '')
+    .filter(Boolean)
+    .join('\n');
+  const role = message.role === 'model' ? 'assistant' : message.role === 'system' ? 'system' : 'user';
+  return {role, content};
+}
+
+export function defineLocalModel(ai: Genkit) {
+  return ai.defineModel(
+    {
+      name: LOCAL_MODEL_NAME,
+      label: 'Kiosk local model (OpenAI-compatible)',
+      supports: {
+        multiturn: true,
+        systemRole: true,
+        media: false,
+        tools: false,
+        output: ['text', 'json'],
+        // Genkit injects the output schema into the prompt for us.
+        constrained: 'none',
+      },
+    },
+    async request => {
+      const config = localModelConfig();
+      const response = await fetch(`${config.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? {Authorization: `Bearer ${config.apiKey}`} : {}),
+        },
+        body: JSON.stringify({
+          model: config.model,
+          messages: request.messages.map(toChatMessage),
+          temperature: request.config?.temperature,
+          max_tokens: request.config?.maxOutputTokens,
+          stream: false,
+        }),
+        signal: AbortSignal.timeout(config.timeoutMs),
+      });
+      if (!response.ok) {
+        throw new Error(`Local model returned ${response.status}: ${await response.text()}`);
+      }
+      const body = (await response.json()) as {
+        choices?: {message?: {content?: string}; finish_reason?: string}[];
+        usage?: {prompt_tokens?: number; completion_tokens?: number};
+      };
+      const choice = body.choices?.[0];
+      if (!choice?.message?.content) {
+        throw new Error('Local model returned an empty response.');
+      }
+      return {
+        message: {role: 'model', content: [{text: choice.message.content}]},
+        finishReason: choice.finish_reason === 'length' ? 'length' : 'stop',
+        usage: {
+          inputTokens: body.usage?.prompt_tokens,
+          outputTokens: body.usage?.completion_tokens,
+        },
+      };
+    }
+  );
+}
@@ -0,0 +1,78 @@
+/**
+ * @fileOverview A deterministic Genkit model for tests and demos. It never
+ * calls out: structured prompts get the simplest value that satisfies their
+ * output schema, text prompts get a fixed sentence.
+ */
+
+import type {Genkit} from 'genkit';
+
+import {STUB_MODEL_NAME} from '@/ai/providers/config';
+
+type JsonSchema = {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+};
+
+function sampleFor(schema: JsonSchema | undefined, name: string): unknown {
+  if (!schema) return null;
+  if (schema.enum?.length) return schema.enum[0];
+  if (schema.anyOf?.length) return sampleFor(schema.anyOf.find(option => option.type !== 'null'), name);
+
+  const type = Array.isArray(schema.type) ? schema.type.find(t => t !== 'null') : schema.type;
+  switch (type) {
+    case 'object': {
+      const value: Record<string, unknown> = {};
+      for (const [key, property] of Object.entries(schema.properties ?? {})) {
+        value[key] = sampleFor(property, key);
+      }
+      return value;
+    }
+    case 'array':
+      return Array.from({length: Math.max(1, schema.minItems ?? 0)}, () => sampleFor(schema.items, name));
+    case 'number':
+      return Math.min(schema.maximum ?? 0.5, Math.max(schema.minimum ?? 0.5, 0.5));
+    case 'integer':
+      return Math.min(schema.maximum ?? 1, Math.max(schema.minimum ?? 1, 1));
+    case 'boolean':
+      return false;
+    case 'string':
+      return `[stub] ${name}`;
+    default:
+      return null;
+  }
+}
+
+export function defineStubModel(ai: Genkit) {
+  return ai.defineModel(
+    {
+      name: STUB_MODEL_NAME,
+      label: 'Deterministic stub model',
+      supports: {
+        multiturn: true,
+        systemRole: true,
+        media: false,
+        tools: false,
+        output: ['text', 'json'],
+        // Claim native constrained output so the schema reaches us untouched.
+        constrained: 'all',
+      },
+    },
+    async request => {
+      const schema = request.output?.schema as JsonSchema | undefined;
+      const text = schema
+        ? JSON.stringify(sampleFor(schema, 'output'))
+        : 'This is a deterministic stub response from the kiosk.';
+      return {
+        message: {role: 'model', content: [{text}]},
+        finishReason: 'stop',
+      };
+    }
+  );
+}
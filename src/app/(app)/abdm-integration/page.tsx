@@ -1,29 +1,62 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import Image from "next/image";
-import { CheckCircle, Loader2, Server } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { ArrowLeft, CheckCircle, Loader2, Server, Smartphone, UserCheck } from "lucide-react";
 
+import { AbhaCard } from "@/components/abha-card";
+import { AbhaEnrolmentWizard } from "@/components/abha-enrolment-wizard";
 import { AppHeader } from "@/components/app-header";
+import { HealthRecordRequests } from "@/components/health-record-requests";
+import { SharedHealthRecords } from "@/components/shared-health-records";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { AbhaIdentifierSchema, AUTH_MODE_LABELS, type AuthMode } from "@/lib/abdm/abha";
+import {
+  confirmAbhaOtp,
+  getAbhaCard,
+  getLinkedAbha,
+  sendAbhaOtp,
+  startAbhaVerification,
+  type AbhaCard as AbhaCardDetails,
+  type LinkedAbha,
+} from "@/lib/abdm/actions";
 
 const formSchema = z.object({
-  abhaId: z.string().regex(/^\d{2}-\d{4}-\d{4}-\d{4}$/, {
-    message: "Please enter a valid ABHA ID in the format 12-3456-7890-1234.",
-  }),
+  abhaIdentifier: AbhaIdentifierSchema,
 });
 
+const otpSchema = z.object({
+  otp: z.string().regex(/^\d{6}$/, "The OTP is the 6-digit code in the SMS."),
+});
+
+/** Gateway failures that are about what was typed, shown under the input rather than as a toast. */
+const FIELD_ERRORS = ["invalid", "not-found", "blocked", "mismatch"];
+const OTP_ERRORS = ["invalid-otp"];
+
+const MODE_ICONS: Record<AuthMode, typeof Smartphone> = {
+  MOBILE_OTP: Smartphone,
+  AADHAAR_OTP: Smartphone,
+  DEMOGRAPHICS: UserCheck,
+};
+
+type OtpTransaction = { transactionId: string; hint: string | null; expiresAt: string };
+
 export default function AbdmIntegrationPage() {
-  const [isLinked, setIsLinked] = useState(false);
+  const [linked, setLinked] = useState<LinkedAbha | null>(null);
+  const [card, setCard] = useState<AbhaCardDetails | null>(null);
+  const [modes, setModes] = useState<AuthMode[] | null>(null);
+  const [transaction, setTransaction] = useState<OtpTransaction | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
+  const router = useRouter();
 
   const benefits = [
     "Seamless creation and linking of Ayushman Bharat Health Account (ABHA).",
@@ -37,21 +70,135 @@ export default function AbdmIntegrationPage() {
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
-      abhaId: "",
+      abhaIdentifier: "",
     },
   });
 
-  async function onSubmit(values: z.infer<typeof formSchema>) {
+  const otpForm = useForm<z.infer<typeof otpSchema>>({
+    resolver: zodResolver(otpSchema),
+    defaultValues: {
+      otp: "",
+    },
+  });
+
+  useEffect(() => {
+    getLinkedAbha()
+      .then((result) => {
+        setLinked(result);
+        // Registration sends the ABHA number it was given here, to be verified before it is linked.
+        const abha = new URLSearchParams(window.location.search).get("abha");
+        if (!result && abha) {
+          form.setValue("abhaIdentifier", abha);
+          void form.handleSubmit(onSubmit)();
+        }
+      })
+      .catch((error) => console.error("Could not load the linked ABHA:", error));
+  }, []);
+
+  useEffect(() => {
+    if (!linked) return;
+    getAbhaCard()
+      .then(setCard)
+      .catch((error) => console.error("Could not load the ABHA card:", error));
+  }, [linked]);
+
+  /** Shows a failure under the identifier when it is about what was typed, otherwise as a toast. */
+  function showFailure(result: { code: string; error: string }) {
+    if (FIELD_ERRORS.includes(result.code)) {
+      setModes(null);
+      setTransaction(null);
+      form.setError("abhaIdentifier", { message: result.error });
+    } else if (OTP_ERRORS.includes(result.code) && transaction) {
+      otpForm.setError("otp", { message: result.error });
+    } else {
+      if (result.code === "expired") {
+        setTransaction(null);
+      }
+      toast({ variant: "destructive", title: "ABHA Not Linked", description: result.error });
+    }
+  }
+
+  function onLinked(result: LinkedAbha) {
+    setLinked(result);
+    setModes(null);
+    setTransaction(null);
+    toast({
+      title: "Success",
+      description: `ABHA ${result.abhaNumber} has been successfully linked.`,
+    });
+  }
+
+  /** A walk-in patient is registered by enrolment, so the header's patient changes too. */
+  function onEnrolled(result: LinkedAbha) {
+    setLinked(result);
+    router.refresh();
+  }
+
+  function startOver() {
+    setModes(null);
+    setTransaction(null);
+    otpForm.reset();
+  }
+
+  /** Runs one step of the verification, with the spinner and a toast for unexpected failures. */
+  async function runStep(step: () => Promise<void>) {
     setIsLoading(true);
-    // Simulate API call to link ABHA ID
-    setTimeout(() => {
-      setIsLoading(false);
-      setIsLinked(true);
+    try {
+      await step();
+    } catch (error) {
+      console.error("ABHA linking error:", error);
       toast({
-        title: "Success",
-        description: `ABHA ID ${values.abhaId} has been successfully linked.`,
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to link the ABHA. Please try again.",
       });
-    }, 1500);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function onSubmit(values: z.infer<typeof formSchema>) {
+    return runStep(async () => {
+      const result = await startAbhaVerification(values.abhaIdentifier);
+      if (!result.ok) {
+        showFailure(result);
+        return;
+      }
+      if (result.modes.length === 0) {
+        toast({ variant: "destructive", title: "ABHA Not Linked", description: "ABDM offered no way to verify this ABHA account." });
+        return;
+      }
+      form.setValue("abhaIdentifier", result.identifier);
+      setModes(result.modes);
+    });
+  }
+
+  function onChooseMode(mode: AuthMode) {
+    return runStep(async () => {
+      const result = await sendAbhaOtp(form.getValues("abhaIdentifier"), mode);
+      if (!result.ok) {
+        showFailure(result);
+        return;
+      }
+      if (result.step === "linked") {
+        onLinked(result);
+        return;
+      }
+      otpForm.reset();
+      setTransaction(result);
+    });
+  }
+
+  function onConfirmOtp(values: z.infer<typeof otpSchema>) {
+    return runStep(async () => {
+      if (!transaction) return;
+      const result = await confirmAbhaOtp(transaction.transactionId, values.otp);
+      if (!result.ok) {
+        showFailure(result);
+        return;
+      }
+      onLinked(result);
+    });
   }
 
   return (
@@ -88,33 +235,101 @@ export default function AbdmIntegrationPage() {
           </Card>
           <Card>
             <CardHeader>
-              <CardTitle className="font-headline">Link Your ABHA ID</CardTitle>
+              <CardTitle className="font-headline">Link Your ABHA</CardTitle>
               <CardDescription>
-                {isLinked 
+                {linked
                   ? "Your account is successfully linked to the ABDM network."
-                  : "Link your Ayushman Bharat Health Account (ABHA) to get started."
+                  : "Link your Ayushman Bharat Health Account (ABHA) with its 14-digit ABHA number or your ABHA address."
                 }
               </CardDescription>
             </CardHeader>
             <CardContent>
-              {isLinked ? (
+              {linked ? (
                 <div className="flex flex-col items-center justify-center text-center p-8 bg-green-50 dark:bg-green-900/20 rounded-lg">
                   <CheckCircle className="h-16 w-16 text-green-600 mb-4" />
-                  <h3 className="text-xl font-semibold">ABHA ID Linked!</h3>
-                  <p className="text-muted-foreground">You can now securely access and manage your health records.</p>
+                  <h3 className="text-xl font-semibold">ABHA Linked!</h3>
+                  <p className="font-code">{linked.abhaNumber}</p>
+                  {linked.abhaAddress && <p className="font-code">{linked.abhaAddress}</p>}
+                  <p className="text-muted-foreground mt-2">You can now securely access and manage your health records.</p>
+                  {card && (
+                    <div className="mt-6 w-full">
+                      <AbhaCard card={card} />
+                    </div>
+                  )}
+                </div>
+              ) : transaction ? (
+                <Form {...otpForm}>
+                  <form onSubmit={otpForm.handleSubmit(onConfirmOtp)} className="space-y-6">
+                    <FormField
+                      control={otpForm.control}
+                      name="otp"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>OTP</FormLabel>
+                          <FormControl>
+                            <Input inputMode="numeric" maxLength={6} placeholder="6-digit code" autoComplete="one-time-code" {...field} />
+                          </FormControl>
+                          <FormDescription>
+                            {transaction.hint ?? "Enter the OTP sent to the patient."} It expires at{" "}
+                            {new Date(transaction.expiresAt).toLocaleTimeString()}.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <div className="flex gap-2">
+                      <Button type="button" variant="outline" onClick={startOver} disabled={isLoading}>
+                        <ArrowLeft className="mr-2 h-4 w-4" />
+                        Start Over
+                      </Button>
+                      <Button type="submit" disabled={isLoading} className="flex-1">
+                        {isLoading ? (
+                          <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            Verifying...
+                          </>
+                        ) : (
+                          <>
+                            <Server className="mr-2 h-4 w-4" />
+                            Verify and Link
+                          </>
+                        )}
+                      </Button>
+                    </div>
+                  </form>
+                </Form>
+              ) : modes ? (
+                <div className="space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    How would the holder of <span className="font-code">{form.getValues("abhaIdentifier")}</span> like to verify it?
+                  </p>
+                  {modes.map((mode) => {
+                    const Icon = MODE_ICONS[mode];
+                    return (
+                      <Button key={mode} variant="outline" className="w-full justify-start" disabled={isLoading} onClick={() => onChooseMode(mode)}>
+                        {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Icon className="mr-2 h-4 w-4" />}
+                        {AUTH_MODE_LABELS[mode]}
+                      </Button>
+                    );
+                  })}
+                  <Button variant="ghost" className="w-full" disabled={isLoading} onClick={startOver}>
+                    <ArrowLeft className="mr-2 h-4 w-4" />
+                    Use a different ABHA
+                  </Button>
                 </div>
               ) : (
                 <Form {...form}>
                   <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
                     <FormField
                       control={form.control}
-                      name="abhaId"
+                      name="abhaIdentifier"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>ABHA ID</FormLabel>
+                          <FormLabel>ABHA Number or ABHA Address</FormLabel>
                           <FormControl>
-                            <Input placeholder="e.g., 12-3456-7890-1234" {...field} />
+                            <Input placeholder="e.g., 91-1234-5678-9010 or name@abdm" autoComplete="off" {...field} />
                           </FormControl>
+                          <FormDescription>The number can be typed with or without hyphens.</FormDescription>
                           <FormMessage />
                         </FormItem>
                       )}
@@ -123,7 +338,7 @@ export default function AbdmIntegrationPage() {
                       {isLoading ? (
                         <>
                           <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                          Linking...
+                          Checking...
                         </>
                       ) : (
                         <>
@@ -137,6 +352,45 @@ export default function AbdmIntegrationPage() {
               )}
             </CardContent>
           </Card>
+          {!linked && (
+            <Card className="md:col-span-2">
+              <CardHeader>
+                <CardTitle className="font-headline">Create an ABHA</CardTitle>
+                <CardDescription>
+                  For patients who do not have an ABHA yet. Verify them with an OTP to their Aadhaar-linked mobile, or to their own mobile if they have no Aadhaar, then choose their ABHA address and print their ABHA card.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="max-w-2xl">
+                <AbhaEnrolmentWizard onEnrolled={onEnrolled} />
+              </CardContent>
+            </Card>
+          )}
+          {linked && (
+            <Card className="md:col-span-2">
+              <CardHeader>
+                <CardTitle className="font-headline">Health Records from Other Facilities</CardTitle>
+                <CardDescription>
+                  Request the patient's records through ABDM. They approve the request in their ABHA app, and the records arrive encrypted from each facility that holds them.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <HealthRecordRequests />
+              </CardContent>
+            </Card>
+          )}
+          {linked && (
+            <Card className="md:col-span-2">
+              <CardHeader>
+                <CardTitle className="font-headline">Records Shared from This Kiosk</CardTitle>
+                <CardDescription>
+                  Each encounter at the kiosk is linked to the patient's ABHA, so they can find it in their ABHA app and let other facilities fetch it with their consent.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <SharedHealthRecords />
+              </CardContent>
+            </Card>
+          )}
         </div>
       </main>
     </div>
@@ -1,9 +1,19 @@
 import { AppHeader } from "@/components/app-header";
 import { Card, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
-import { LayoutDashboard, Stethoscope, Video, Share2, ScanFace, BookUser, ArrowRight } from "lucide-react";
+import { Stethoscope, Video, Share2, ScanFace, BookUser, BriefcaseMedical, FileHeart, ArrowRight } from "lucide-react";
 import Link from "next/link";
+import { getSession } from "@/lib/auth/session";
+import { hasPermission, ROLE_LABELS, type Permission } from "@/lib/auth/roles";
 
-const features = [
+const features: {
+  href: string;
+  title: string;
+  description: string;
+  icon: typeof Stethoscope;
+  color: string;
+  bgColor: string;
+  permission: Permission;
+}[] = [
   {
     href: "/diagnosis",
     title: "AI Diagnosis Assistant",
@@ -11,6 +21,7 @@ const features = [
     icon: Stethoscope,
     color: "text-red-500",
     bgColor: "bg-red-100",
+    permission: "diagnosis:run",
   },
   {
     href: "/tele-consultation",
@@ -19,6 +30,16 @@ const features = [
     icon: Video,
     color: "text-blue-500",
     bgColor: "bg-blue-100",
+    permission: "teleconsult:patient",
+  },
+  {
+    href: "/tele-consultation/doctor",
+    title: "Doctor Console",
+    description: "Receive patient calls and review AI-generated summaries during consultations.",
+    icon: BriefcaseMedical,
+    color: "text-sky-600",
+    bgColor: "bg-sky-100",
+    permission: "teleconsult:doctor",
   },
   {
     href: "/federated-learning",
@@ -27,6 +48,7 @@ const features = [
     icon: Share2,
     color: "text-green-500",
     bgColor: "bg-green-100",
+    permission: "federated:contribute",
   },
   {
     href: "/facial-recognition",
@@ -35,6 +57,7 @@ const features = [
     icon: ScanFace,
     color: "text-purple-500",
     bgColor: "bg-purple-100",
+    permission: "facial-checkin:use",
   },
   {
     href: "/abdm-integration",
@@ -43,21 +66,40 @@ const features = [
     icon: BookUser,
     color: "text-yellow-500",
     bgColor: "bg-yellow-100",
+    permission: "abdm:link",
+  },
+  {
+    href: "/health-records",
+    title: "Health Records",
+    description: "Read the records other facilities have shared through ABDM and follow readings over time.",
+    icon: FileHeart,
+    color: "text-rose-500",
+    bgColor: "bg-rose-100",
+    permission: "health-records:view",
   },
 ];
 
 
-export default function DashboardPage() {
+export default async function DashboardPage() {
+  const session = await getSession();
+  const visibleFeatures = session
+    ? features.filter((feature) => hasPermission(session.role, feature.permission))
+    : [];
+
   return (
     <div className="flex flex-col h-full">
       <AppHeader title="Dashboard" />
       <main className="flex-1 overflow-y-auto p-4 md:p-8">
         <div className="mb-8">
           <h2 className="text-2xl font-headline font-semibold">Welcome to Health Assistant</h2>
-          <p className="text-muted-foreground">Your personal health kiosk. Select a service to get started.</p>
+          <p className="text-muted-foreground">
+            Your personal health kiosk.{" "}
+            {session ? `Signed in as ${session.displayName} (${ROLE_LABELS[session.role]}). ` : ""}
+            Select a service to get started.
+          </p>
         </div>
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-          {features.map((feature) => (
+          {visibleFeatures.map((feature) => (
             <Link href={feature.href} key={feature.title} className="group">
               <Card className="h-full hover:shadow-lg hover:border-primary transition-all duration-300 transform hover:-translate-y-1">
                 <CardHeader>
@@ -10,38 +10,68 @@ import { AppHeader } from "@/components/app-header"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
-import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { Progress } from "@/components/ui/progress"
+import { Badge } from "@/components/ui/badge"
+import { EmergencyEscalation } from "@/components/emergency-escalation"
+import { DifferentialDiagnosisTable } from "@/components/differential-diagnosis-table"
+import { AiProviderNote } from "@/components/ai-provider-note"
+import { FhirDownloadButton } from "@/components/fhir-download-button"
+import { HealthRecordPicker } from "@/components/health-record-picker"
+import { VitalsForm } from "@/components/vitals-form"
+import { SymptomIntakeChat } from "@/components/symptom-intake-chat"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { useToast } from "@/hooks/use-toast"
+import { useSession } from "@/hooks/use-session"
 import { aiDiagnosisAssistant, type AIDiagnosisAssistantOutput } from "@/ai/flows/ai-diagnosis-assistant"
+import type { SavedEncounter } from "@/lib/records/encounters"
+import { VitalsSchema, hasAnyVitals } from "@/lib/vitals"
+import { URGENCY_LABELS, triagePatient, type TriageResult, type Urgency } from "@/lib/triage"
 
 const formSchema = z.object({
   symptoms: z.string().min(10, { message: "Please describe your symptoms in at least 10 characters." }),
-  vitals: z.string().min(5, { message: "Please provide your vitals (e.g., temp, BP)." }),
+  vitals: VitalsSchema.refine(hasAnyVitals, { message: "Please record at least one vital sign (e.g., temp, BP)." }),
   medicalHistory: z.string().optional(),
 })
 
+const urgencyBadgeVariant: Record<Urgency, "destructive" | "default" | "secondary"> = {
+  emergency: "destructive",
+  urgent: "default",
+  routine: "secondary",
+}
+
 export default function DiagnosisPage() {
-  const [result, setResult] = useState<AIDiagnosisAssistantOutput | null>(null)
+  const [result, setResult] = useState<(AIDiagnosisAssistantOutput & SavedEncounter) | null>(null)
+  const [triage, setTriage] = useState<TriageResult | null>(null)
   const [isLoading, setIsLoading] = useState(false)
+  const [mode, setMode] = useState("interview")
   const { toast } = useToast()
+  const { patient } = useSession()
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       symptoms: "",
-      vitals: "",
-      medicalHistory: "",
+      vitals: {},
+      medicalHistory: patient?.medicalHistory ?? "",
     },
   })
 
   async function onSubmit(values: z.infer<typeof formSchema>) {
     setIsLoading(true)
     setResult(null)
+    // Triage locally first so an emergency is shown without waiting for the model.
+    setTriage(triagePatient(values))
     try {
       const diagnosisResult = await aiDiagnosisAssistant(values)
       setResult(diagnosisResult)
+      setTriage(diagnosisResult.triage)
+      if (!diagnosisResult.encounterId) {
+        toast({
+          title: "Not Saved",
+          description: "The assessment could not be saved to the patient's record.",
+        })
+      }
     } catch (error) {
       console.error("Diagnosis error:", error)
       toast({
@@ -54,71 +84,111 @@ export default function DiagnosisPage() {
     }
   }
 
+  function applyIntakeAnswers(answers: { symptoms: string; medicalHistory: string }) {
+    form.setValue("symptoms", answers.symptoms, { shouldValidate: true })
+    // Keep the history from the patient's profile and add what they said in the interview.
+    form.setValue("medicalHistory", [patient?.medicalHistory, answers.medicalHistory].filter(Boolean).join("\n"))
+    setMode("form")
+    toast({
+      title: "Interview Complete",
+      description: "Your answers have been filled in. Please record your vitals to continue.",
+    })
+  }
+
+  function addHealthRecord(text: string) {
+    form.setValue("medicalHistory", [form.getValues("medicalHistory"), text].filter(Boolean).join("\n\n"))
+  }
+
   return (
     <div className="flex flex-col h-full">
       <AppHeader title="AI Diagnosis Assistant" />
       <main className="flex-1 overflow-y-auto p-4 md:p-8">
+        {triage?.urgency === "emergency" && (
+          <div className="mb-8">
+            <EmergencyEscalation triage={triage} />
+          </div>
+        )}
         <div className="grid gap-8 md:grid-cols-2">
           <Card>
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)}>
-                <CardHeader>
-                  <CardTitle className="font-headline">Patient Information</CardTitle>
-                  <CardDescription>Enter the patient's details to get a preliminary diagnosis.</CardDescription>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <FormField
-                    control={form.control}
-                    name="symptoms"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Symptoms</FormLabel>
-                        <FormControl>
-                          <Textarea placeholder="e.g., fever, cough, and headache for 3 days" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name="vitals"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Vitals</FormLabel>
-                        <FormControl>
-                          <Input placeholder="e.g., Temp: 101°F, BP: 120/80 mmHg" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name="medicalHistory"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Medical History (Optional)</FormLabel>
-                        <FormControl>
-                          <Textarea placeholder="e.g., history of asthma, no known allergies" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
+            <Tabs value={mode} onValueChange={setMode}>
+              <CardHeader>
+                <CardTitle className="font-headline">Patient Information</CardTitle>
+                <CardDescription>Answer a few questions, or enter the patient's details directly, to get a preliminary diagnosis.</CardDescription>
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="interview">Guided Interview</TabsTrigger>
+                  <TabsTrigger value="form">Details Form</TabsTrigger>
+                </TabsList>
+              </CardHeader>
+              <TabsContent value="interview">
+                <CardContent>
+                  <SymptomIntakeChat
+                    preferredLanguage={patient?.preferredLanguage}
+                    onComplete={applyIntakeAnswers}
+                    onTriage={(intakeTriage) => {
+                      if (intakeTriage.urgency === "emergency") setTriage(intakeTriage)
+                    }}
                   />
                 </CardContent>
-                <CardFooter>
-                  <Button type="submit" disabled={isLoading}>
-                    {isLoading ? (
-                      <Loader2 className="animate-spin" />
-                    ) : (
-                      <Sparkles className="mr-2" />
-                    )}
-                    Get Diagnosis
-                  </Button>
-                </CardFooter>
-              </form>
-            </Form>
+              </TabsContent>
+              <TabsContent value="form">
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)}>
+                    <CardContent className="space-y-4">
+                      <FormField
+                        control={form.control}
+                        name="symptoms"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Symptoms</FormLabel>
+                            <FormControl>
+                              <Textarea placeholder="e.g., fever, cough, and headache for 3 days" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="vitals"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Vitals</FormLabel>
+                            <VitalsForm value={field.value} onChange={field.onChange} disabled={isLoading} />
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="medicalHistory"
+                        render={({ field }) => (
+                          <FormItem>
+                            <div className="flex items-center justify-between gap-2">
+                              <FormLabel>Medical History (Optional)</FormLabel>
+                              <HealthRecordPicker target="Medical History" onPick={addHealthRecord} />
+                            </div>
+                            <FormControl>
+                              <Textarea placeholder="e.g., history of asthma, no known allergies" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </CardContent>
+                    <CardFooter>
+                      <Button type="submit" disabled={isLoading}>
+                        {isLoading ? (
+                          <Loader2 className="animate-spin" />
+                        ) : (
+                          <Sparkles className="mr-2" />
+                        )}
+                        Get Diagnosis
+                      </Button>
+                    </CardFooter>
+                  </form>
+                </Form>
+              </TabsContent>
+            </Tabs>
           </Card>
 
           <Card className="flex flex-col">
@@ -140,6 +210,22 @@ export default function DiagnosisPage() {
               )}
               {result && (
                 <div className="space-y-6 w-full">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-semibold font-headline">Triage</h3>
+                      <Badge variant={urgencyBadgeVariant[result.triage.urgency]}>
+                        {URGENCY_LABELS[result.triage.urgency]}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">{result.triage.advice}</p>
+                    {result.triage.redFlags.length > 0 && (
+                      <ul className="mt-2 list-disc pl-5 text-sm text-muted-foreground">
+                        {result.triage.redFlags.map((flag) => (
+                          <li key={flag.id}>{flag.finding}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
                   <div>
                     <h3 className="font-semibold font-headline">Preliminary Diagnosis</h3>
                     <p className="text-sm text-muted-foreground">{result.preliminaryDiagnosis}</p>
@@ -155,6 +241,8 @@ export default function DiagnosisPage() {
                       <span className="font-mono text-sm font-semibold">{(result.confidenceLevel * 100).toFixed(0)}%</span>
                     </div>
                   </div>
+                  <AiProviderNote provider={result.provider} />
+                  <FhirDownloadButton encounterId={result.encounterId} />
                 </div>
               )}
             </CardContent>
@@ -163,6 +251,20 @@ export default function DiagnosisPage() {
             </CardFooter>
           </Card>
         </div>
+
+        {result && result.differentialDiagnoses.length > 0 && (
+          <Card className="mt-8">
+            <CardHeader>
+              <CardTitle className="font-headline">Differential Diagnoses</CardTitle>
+              <CardDescription>
+                Ranked by likelihood for the reviewing doctor. ICD-10 codes not found in the kiosk's bundled code list are flagged and must be checked.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <DifferentialDiagnosisTable differentials={result.differentialDiagnoses} />
+            </CardContent>
+          </Card>
+        )}
       </main>
     </div>
   )
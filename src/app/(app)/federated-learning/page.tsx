@@ -1,49 +1,190 @@
 "use client"
 
-import { useState } from "react"
+import { useCallback, useEffect, useMemo, useState } from "react"
 import { useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { z } from "zod"
-import { Loader2, Upload, BrainCircuit } from "lucide-react"
+import { Loader2, Upload, BrainCircuit, Sigma, ShieldCheck, ShieldX } from "lucide-react"
 
 import { AppHeader } from "@/components/app-header"
+import { DeidentificationSummary } from "@/components/deidentification-summary"
+import { FederatedQuarantineReview } from "@/components/federated-quarantine-review"
+import { FederatedSimulation } from "@/components/federated-simulation"
+import { ModelRegistry } from "@/components/model-registry"
+import { ProductionModelCheck } from "@/components/production-model-check"
+import { SecureAggregationSimulation } from "@/components/secure-aggregation-simulation"
+import { TrainingDataImport } from "@/components/training-data-import"
+import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
 import { Input } from "@/components/ui/input"
-import { Textarea } from "@/components/ui/textarea"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { useToast } from "@/hooks/use-toast"
+import { usePermission } from "@/hooks/use-session"
 import { federatedLearningModel, type FederatedLearningModelOutput } from "@/ai/flows/federated-learning-model"
+import {
+  aggregateOpenRound,
+  checkResearchConsent,
+  continueSecureAggregation,
+  loadFederatedStatus,
+  loadPrivacyBudgets,
+} from "@/lib/federated/actions"
+import type { FederatedStatus, SecurePhase } from "@/lib/federated/coordinator"
+import { deidentifyRecords } from "@/lib/federated/deidentify"
+import type { ModelMetrics } from "@/lib/federated/logistic-regression"
+import type { PrivacyBudget } from "@/lib/federated/privacy-accountant"
+import { FEDERATED_MODELS, FEDERATED_MODEL_NAMES, parameterCount, type TrainingRecord } from "@/lib/federated/models"
+import { AGGREGATION_RULE_LABELS } from "@/lib/federated/robust-aggregation"
 
 const formSchema = z.object({
-  kioskId: z.string().min(1, { message: "Kiosk ID is required." }),
   modelName: z.string().min(1, { message: "Model name is required." }),
-  trainingData: z.string().refine((val) => {
-    try {
-      JSON.parse(val);
-      return true;
-    } catch {
-      return false;
-    }
-  }, { message: "Training data must be a valid JSON string." }),
+  trainingData: z
+    .array(z.record(z.union([z.number(), z.string()])))
+    .min(1, { message: "Import at least one valid training record." }),
 })
 
+const SAMPLE_RECORDS: TrainingRecord[] = [
+  { age: 34, gender: "female", systolic: 112, diastolic: 72, cholesterol: 170, outcome: 0 },
+  { age: 38, gender: "female", systolic: 118, diastolic: 76, cholesterol: 182, outcome: 0 },
+  { age: 36, gender: "female", systolic: 125, diastolic: 80, cholesterol: 195, outcome: 0 },
+  { age: 47, gender: "male", systolic: 128, diastolic: 82, cholesterol: 195, outcome: 0 },
+  { age: 42, gender: "male", systolic: 135, diastolic: 88, cholesterol: 210, outcome: 0 },
+  { age: 45, gender: "male", systolic: 145, diastolic: 92, cholesterol: 235, outcome: 1 },
+  { age: 44, gender: "female", systolic: 122, diastolic: 78, cholesterol: 185, outcome: 0 },
+  { age: 49, gender: "female", systolic: 138, diastolic: 88, cholesterol: 215, outcome: 0 },
+  { age: 41, gender: "female", systolic: 116, diastolic: 74, cholesterol: 176, outcome: 0 },
+  { age: 55, gender: "male", systolic: 140, diastolic: 90, cholesterol: 220, outcome: 1 },
+  { age: 58, gender: "male", systolic: 150, diastolic: 95, cholesterol: 240, outcome: 1 },
+  { age: 51, gender: "male", systolic: 135, diastolic: 86, cholesterol: 210, outcome: 0 },
+  { age: 53, gender: "male", systolic: 126, diastolic: 80, cholesterol: 198, outcome: 0 },
+  { age: 62, gender: "female", systolic: 130, diastolic: 85, cholesterol: 205, outcome: 0 },
+  { age: 66, gender: "female", systolic: 158, diastolic: 94, cholesterol: 245, outcome: 1 },
+  { age: 64, gender: "female", systolic: 145, diastolic: 90, cholesterol: 230, outcome: 1 },
+  { age: 68, gender: "male", systolic: 160, diastolic: 92, cholesterol: 250, outcome: 1 },
+  { age: 61, gender: "male", systolic: 138, diastolic: 84, cholesterol: 212, outcome: 0 },
+  { age: 65, gender: "male", systolic: 152, diastolic: 96, cholesterol: 238, outcome: 1 },
+  { age: 71, gender: "male", systolic: 165, diastolic: 98, cholesterol: 260, outcome: 1 },
+  { age: 74, gender: "male", systolic: 148, diastolic: 88, cholesterol: 225, outcome: 0 },
+  { age: 77, gender: "male", systolic: 170, diastolic: 100, cholesterol: 270, outcome: 1 },
+  { age: 75, gender: "female", systolic: 172, diastolic: 100, cholesterol: 275, outcome: 1 },
+  { age: 72, gender: "female", systolic: 142, diastolic: 86, cholesterol: 220, outcome: 0 },
+  { age: 79, gender: "female", systolic: 160, diastolic: 95, cholesterol: 255, outcome: 1 },
+]
+
+type Status = FederatedStatus & { kioskId: string; kAnonymity: number }
+
+const SECURE_STEP_LABELS: Record<SecurePhase, string> = {
+  keys: "Kiosks joining",
+  shares: "Sharing keys",
+  masked: "Uploading masked updates",
+  unmasking: "Unmasking the sum",
+}
+
+// How often the page takes this kiosk's next secure aggregation step while a round it joined is open.
+const SECURE_STEP_INTERVAL_MS = 5000
+
+function percent(value: number | undefined) {
+  return value === undefined ? "—" : `${(value * 100).toFixed(1)}%`
+}
+
+function MetricsTable({ before, after }: { before: ModelMetrics | null; after: ModelMetrics | null }) {
+  const rows: { label: string; key: keyof ModelMetrics; format: (value: number | undefined) => string }[] = [
+    { label: "Accuracy", key: "accuracy", format: percent },
+    { label: "AUC", key: "auc", format: (value) => value?.toFixed(3) ?? "—" },
+    { label: "Precision", key: "precision", format: percent },
+    { label: "Recall", key: "recall", format: percent },
+    { label: "Log loss", key: "loss", format: (value) => value?.toFixed(3) ?? "—" },
+  ]
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Metric</TableHead>
+          <TableHead>Global model</TableHead>
+          <TableHead>Uploaded update</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={row.key}>
+            <TableCell className="font-medium">{row.label}</TableCell>
+            <TableCell>{row.format(before?.[row.key])}</TableCell>
+            <TableCell>{row.format(after?.[row.key])}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
+
 export default function FederatedLearningPage() {
   const [result, setResult] = useState<FederatedLearningModelOutput | null>(null)
+  const [status, setStatus] = useState<Status | null>(null)
+  const [budgets, setBudgets] = useState<PrivacyBudget[]>([])
+  const [consent, setConsent] = useState<Awaited<ReturnType<typeof checkResearchConsent>> | null>(null)
   const [isLoading, setIsLoading] = useState(false)
+  const [isAggregating, setIsAggregating] = useState(false)
+  const canCoordinate = usePermission("federated:coordinate")
   const { toast } = useToast()
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
-      kioskId: "Kiosk-101-DEL",
-      modelName: "Cardio-Risk-Predictor-v2",
-      trainingData: JSON.stringify([
-        { age: 55, gender: "male", bp: "140/90", cholesterol: 220, outcome: 1 },
-        { age: 62, gender: "female", bp: "130/85", cholesterol: 205, outcome: 0 },
-      ], null, 2),
+      modelName: FEDERATED_MODEL_NAMES[0],
+      trainingData: SAMPLE_RECORDS,
     },
   })
+  const modelName = form.watch("modelName")
+  const model = FEDERATED_MODELS[modelName as keyof typeof FEDERATED_MODELS]
+  const trainingData = form.watch("trainingData")
+  const deidentification = useMemo(
+    () => (model && status ? deidentifyRecords(model, trainingData, { k: status.kAnonymity }).report : null),
+    [model, status, trainingData]
+  )
+  useEffect(() => {
+    let current = true
+    setConsent(null)
+    if (!model || trainingData.length === 0) return
+    checkResearchConsent(model.name, trainingData)
+      .then((report) => current && setConsent(report))
+      .catch((error) => console.error("Research consent check error:", error))
+    return () => {
+      current = false
+    }
+  }, [model, trainingData])
+  const setTrainingData = useCallback(
+    (records: TrainingRecord[]) => form.setValue("trainingData", records, { shouldValidate: form.formState.isSubmitted }),
+    [form]
+  )
+
+  const refreshStatus = useCallback(async () => {
+    try {
+      const [nextStatus, nextBudgets] = await Promise.all([loadFederatedStatus(modelName), loadPrivacyBudgets()])
+      setStatus(nextStatus)
+      setBudgets(nextBudgets)
+    } catch (error) {
+      console.error("Federated status error:", error)
+    }
+  }, [modelName])
+
+  useEffect(() => {
+    refreshStatus()
+  }, [refreshStatus])
+
+  const secureRound = status?.openRound?.secure
+  const inSecureRound = !!secureRound && secureRound.roster.includes(status?.kioskId ?? "")
+  useEffect(() => {
+    if (!inSecureRound) return
+    const timer = setInterval(async () => {
+      const step = await continueSecureAggregation().catch((error) => ({ ok: false as const, error: String(error) }))
+      if (!step.ok) console.error("Secure aggregation error:", step.error)
+      refreshStatus()
+    }, SECURE_STEP_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [inSecureRound, refreshStatus])
 
   async function onSubmit(values: z.infer<typeof formSchema>) {
     setIsLoading(true)
@@ -51,57 +192,112 @@ export default function FederatedLearningPage() {
     try {
       const learningResult = await federatedLearningModel(values)
       setResult(learningResult)
+      const secure = learningResult.secureAggregation
       toast({
-        title: "Model Update Successful",
-        description: "The federated model has been updated with new data.",
+        title: learningResult.roundStatus === "aggregated" ? "Round Aggregated" : secure ? "Joined Secure Round" : "Update Submitted",
+        description:
+          learningResult.roundStatus === "aggregated"
+            ? `Round ${learningResult.roundNumber} closed and the global model was updated.`
+            : secure
+              ? `Round ${learningResult.roundNumber} has ${secure.kiosksJoined} of ${learningResult.minClients} kiosks. Keep this page ` +
+                "open: the masked update is sent as the other kiosks take their steps."
+              : `Round ${learningResult.roundNumber} has ${learningResult.updatesReceived} of ${learningResult.minClients} updates.`,
       })
     } catch (error) {
       console.error("Federated Learning error:", error)
       toast({
         variant: "destructive",
         title: "Error",
-        description: "Failed to update model. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to submit the update. Please try again.",
       })
     } finally {
       setIsLoading(false)
+      refreshStatus()
     }
   }
 
+  async function aggregateNow() {
+    setIsAggregating(true)
+    try {
+      const round = await aggregateOpenRound(modelName)
+      if (round.status === "abandoned") {
+        toast({
+          variant: "destructive",
+          title: "Round Abandoned",
+          description: `Too few kiosks were left in round ${round.number} to recover the sum of their updates.`,
+        })
+      } else if (round.secure && round.status === "open") {
+        toast({
+          title: "Step Closed",
+          description: `Round ${round.number} moved on to: ${SECURE_STEP_LABELS[round.secure.phase].toLowerCase()}.`,
+        })
+      } else if (round.status === "open") {
+        toast({
+          variant: "destructive",
+          title: "Round Still Open",
+          description: `Every update in round ${round.number} was flagged and quarantined; the round waits for more kiosks.`,
+        })
+      } else {
+        toast({
+          title: "Round Aggregated",
+          description: `Round ${round.number} closed with ${round.participants.length} update(s)` +
+            (round.rejected.length ? `; ${round.rejected.length} flagged update(s) were left out.` : "."),
+        })
+      }
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to aggregate the round.",
+      })
+    } finally {
+      setIsAggregating(false)
+      refreshStatus()
+    }
+  }
+
+  const openRound = status?.openRound ?? null
+  const kioskBudget = budgets.find((budget) => budget.kioskId === status?.kioskId && budget.modelName === modelName)
+  const budgetExhausted = kioskBudget?.roundsRemaining === 0
+
   return (
     <div className="flex flex-col h-full">
       <AppHeader title="Federated Learning Module" />
-      <main className="flex-1 overflow-y-auto p-4 md:p-8">
+      <main className="flex-1 overflow-y-auto p-4 md:p-8 space-y-8">
         <div className="grid gap-8 md:grid-cols-2">
           <Card>
             <Form {...form}>
               <form onSubmit={form.handleSubmit(onSubmit)}>
                 <CardHeader>
                   <CardTitle className="font-headline">Contribute to Model Training</CardTitle>
-                  <CardDescription>Securely submit anonymized data to improve the global diagnostic model.</CardDescription>
+                  <CardDescription>
+                    The model is trained here on this kiosk&apos;s records. Only the weight update is sent to the coordinator.
+                  </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                  <FormField
-                    control={form.control}
-                    name="kioskId"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Kiosk ID</FormLabel>
-                        <FormControl>
-                          <Input placeholder="Unique identifier for the kiosk" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                  <FormItem>
+                    <FormLabel>Kiosk ID</FormLabel>
+                    <Input value={status?.kioskId ?? ""} readOnly disabled />
+                  </FormItem>
                   <FormField
                     control={form.control}
                     name="modelName"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Model Name</FormLabel>
-                        <FormControl>
-                          <Input placeholder="Name of the model to be trained" {...field} />
-                        </FormControl>
+                        <FormLabel>Model</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select a model" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {FEDERATED_MODEL_NAMES.map((name) => (
+                              <SelectItem key={name} value={name}>{name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {model && <FormDescription>{model.description}</FormDescription>}
                         <FormMessage />
                       </FormItem>
                     )}
@@ -109,25 +305,48 @@ export default function FederatedLearningPage() {
                   <FormField
                     control={form.control}
                     name="trainingData"
-                    render={({ field }) => (
+                    render={() => (
                       <FormItem>
-                        <FormLabel>Training Data (JSON format)</FormLabel>
-                        <FormControl>
-                          <Textarea placeholder="Enter training data as a JSON string" {...field} rows={8}/>
-                        </FormControl>
+                        <FormLabel>Training Data</FormLabel>
+                        {model && (
+                          <TrainingDataImport model={model} sampleRecords={SAMPLE_RECORDS} onRecordsChange={setTrainingData} />
+                        )}
+                        <FormDescription>
+                          Map a column to each field, and include a patientId column so research consent can be checked.
+                          Only valid rows of consenting patients are used for training.
+                        </FormDescription>
                         <FormMessage />
+                        {consent && (
+                          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                            {consent.included > 0 ? (
+                              <ShieldCheck className="h-4 w-4 text-primary" />
+                            ) : (
+                              <ShieldX className="h-4 w-4 text-destructive" />
+                            )}
+                            {consent.included} of {consent.checked} record(s) have active research consent. {consent.summary}
+                          </p>
+                        )}
+                        {deidentification && trainingData.length > 0 && <DeidentificationSummary report={deidentification} />}
                       </FormItem>
                     )}
                   />
                 </CardContent>
-                <CardFooter>
-                  <Button type="submit" disabled={isLoading}>
+                <CardFooter className="flex-col items-start gap-2">
+                  {budgetExhausted && (
+                    <p className="text-sm text-destructive">
+                      This kiosk has used its privacy budget for {modelName} and can no longer contribute updates.
+                    </p>
+                  )}
+                  <Button
+                    type="submit"
+                    disabled={isLoading || budgetExhausted || deidentification?.passed === false || consent?.included === 0}
+                  >
                     {isLoading ? (
                       <Loader2 className="animate-spin" />
                     ) : (
                       <Upload className="mr-2" />
                     )}
-                    Submit Data
+                    Train and Submit Update
                   </Button>
                 </CardFooter>
               </form>
@@ -136,14 +355,14 @@ export default function FederatedLearningPage() {
 
           <Card className="flex flex-col">
             <CardHeader>
-              <CardTitle className="font-headline">Model Update Results</CardTitle>
-              <CardDescription>The results of the federated learning update will appear here.</CardDescription>
+              <CardTitle className="font-headline">Local Training Results</CardTitle>
+              <CardDescription>How the model performed on this kiosk&apos;s held-out records before and after local training.</CardDescription>
             </CardHeader>
             <CardContent className="flex-1 flex items-center justify-center">
               {isLoading && (
                 <div className="text-center text-muted-foreground">
                   <BrainCircuit className="mx-auto h-12 w-12 animate-pulse text-primary" />
-                  <p className="mt-4">Processing data and updating model...</p>
+                  <p className="mt-4">Training locally and submitting the update...</p>
                 </div>
               )}
               {!isLoading && !result && (
@@ -153,26 +372,259 @@ export default function FederatedLearningPage() {
               )}
               {result && (
                 <div className="space-y-4 w-full text-sm">
-                   <div>
-                    <h3 className="font-semibold font-headline">Model Update</h3>
-                     <pre className="mt-1 w-full rounded-md bg-muted p-3 text-muted-foreground overflow-auto max-h-48">
-                      <code>{result.modelUpdate}</code>
-                    </pre>
-                  </div>
-                   <div>
-                    <h3 className="font-semibold font-headline">Metrics</h3>
-                     <pre className="mt-1 w-full rounded-md bg-muted p-3 text-muted-foreground overflow-auto max-h-48">
-                      <code>{result.metrics}</code>
-                    </pre>
+                  <div className="flex flex-wrap gap-2">
+                    <Badge variant="secondary">Round {result.roundNumber}</Badge>
+                    <Badge variant={result.roundStatus === "aggregated" ? "default" : "outline"}>
+                      {result.roundStatus === "aggregated" ? "Aggregated" : "Waiting for other kiosks"}
+                    </Badge>
+                    <Badge variant="outline">{result.numExamples} training records</Badge>
+                    <Badge variant="outline">Update norm {result.updateNorm.toFixed(4)}</Badge>
                   </div>
+                  {result.privacy.enabled ? (
+                    <p className="flex items-center gap-2 text-muted-foreground">
+                      <ShieldCheck className="h-4 w-4 text-primary" />
+                      {result.privacy.clipped ? "Clipped to" : "Within"} norm {result.privacy.clipNorm} with noise ×{result.privacy.noiseMultiplier}.
+                      ε spent {result.privacy.epsilonSpent.toFixed(2)} of {result.privacy.epsilonBudget}.
+                    </p>
+                  ) : (
+                    <p className="text-muted-foreground">Differential privacy is off; the update was sent without noise.</p>
+                  )}
+                  <p className="text-muted-foreground">
+                    Trained on records that are {result.deidentification.achievedK}-anonymous (k ≥ {result.deidentification.k})
+                    {result.deidentification.droppedColumns.length > 0 &&
+                      `; dropped ${result.deidentification.droppedColumns.join(", ")}`}
+                    .
+                    {result.consent.included < result.consent.checked &&
+                      ` Left out ${result.consent.checked - result.consent.included} record(s) without active research consent.`}
+                  </p>
+                  <MetricsTable before={result.localMetrics.before} after={result.localMetrics.after} />
+                  <p className="text-xs text-muted-foreground">
+                    Evaluated on {result.localMetrics.after.examples} record(s).
+                  </p>
                 </div>
               )}
             </CardContent>
-             <CardFooter>
-                <p className="text-xs text-muted-foreground">This process enhances the AI's accuracy without exposing sensitive patient data, thanks to federated learning principles.</p>
+            <CardFooter>
+              <p className="text-xs text-muted-foreground">This process enhances the AI&apos;s accuracy without exposing sensitive patient data, thanks to federated learning principles.</p>
             </CardFooter>
           </Card>
         </div>
+
+        <div className="grid gap-8 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="font-headline">Current Round</CardTitle>
+              <CardDescription>
+                {status?.settings.secureAggregation
+                  ? "Rounds use secure aggregation: the coordinator recovers only the sum of the masked updates and " +
+                    "combines it with FedAvg, without screening."
+                  : `A round is aggregated with ${status ? AGGREGATION_RULE_LABELS[status.settings.rule] : "FedAvg"} once enough ` +
+                    "kiosks have submitted updates that pass screening."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4 text-sm">
+              {!openRound && (
+                <p className="text-muted-foreground">
+                  No round is open. The next submission starts round {(status?.history.length ?? 0) + 1}.
+                </p>
+              )}
+              {openRound && (
+                <>
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">Round {openRound.number}</span>
+                    <span className="text-muted-foreground">
+                      {openRound.participants.length} of {openRound.minClients} updates
+                    </span>
+                  </div>
+                  <Progress value={Math.min(100, (openRound.participants.length / openRound.minClients) * 100)} />
+                  {openRound.secure && (
+                    <div className="space-y-1">
+                      <div className="flex flex-wrap gap-2">
+                        <Badge variant="secondary">Secure aggregation</Badge>
+                        <Badge variant="outline">{SECURE_STEP_LABELS[openRound.secure.phase]}</Badge>
+                        <Badge variant="outline">Threshold {openRound.secure.threshold}</Badge>
+                      </div>
+                      <p className="text-muted-foreground">
+                        Kiosks: {openRound.secure.roster.join(", ") || "none yet"}
+                        {openRound.secure.waitingFor.length > 0 && `. Waiting for ${openRound.secure.waitingFor.join(", ")}`}.
+                      </p>
+                    </div>
+                  )}
+                  <ul className="space-y-1">
+                    {openRound.participants.map((participant) => (
+                      <li key={participant.kioskId} className="flex justify-between text-muted-foreground">
+                        <span>{participant.kioskId}</span>
+                        <span>{participant.numExamples} records · {new Date(participant.receivedAt).toLocaleTimeString()}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  {openRound.rejected.length > 0 && (
+                    <p className="text-destructive">
+                      Left out after screening: {openRound.rejected.map((update) => update.kioskId).join(", ")}
+                    </p>
+                  )}
+                </>
+              )}
+            </CardContent>
+            {canCoordinate && (
+              <CardFooter>
+                <Button
+                  variant="outline"
+                  onClick={aggregateNow}
+                  disabled={!openRound || (!openRound.secure && openRound.participants.length === 0) || isAggregating}
+                >
+                  {isAggregating ? <Loader2 className="animate-spin" /> : <Sigma className="mr-2" />}
+                  {openRound?.secure ? "Continue without missing kiosks" : "Aggregate now"}
+                </Button>
+              </CardFooter>
+            )}
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="font-headline">Global Model</CardTitle>
+              <CardDescription>
+                Version {status?.version ?? 0}
+                {status?.updatedAt && status.version > 0 ? `, updated ${new Date(status.updatedAt).toLocaleString()}` : ""}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {model && status && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Parameter</TableHead>
+                      <TableHead className="text-right">Weight</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {["Bias", ...model.features.map((feature) => feature.label)].map((label, i) => (
+                      <TableRow key={label}>
+                        <TableCell>{label}</TableCell>
+                        <TableCell className="text-right font-code">{status.weights[i]?.toFixed(4)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {model && (
+          <div className="grid gap-8 lg:grid-cols-3">
+            <div className="lg:col-span-2">
+              <ModelRegistry modelName={modelName} latestVersion={status?.version ?? 0} />
+            </div>
+            <ProductionModelCheck model={model} />
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="font-headline">Privacy Budget</CardTitle>
+            <CardDescription>
+              Each update is clipped and noised, and spends part of this kiosk&apos;s (ε, δ) budget for that model. The
+              kiosk stops contributing once its budget is used up. Every kiosk keeps and enforces its own budget, so only
+              this kiosk&apos;s spend is shown here.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Model</TableHead>
+                  <TableHead>Rounds joined</TableHead>
+                  <TableHead className="w-1/4">ε spent</TableHead>
+                  <TableHead>Remaining</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {budgets.map((budget) => (
+                  <TableRow key={budget.modelName}>
+                    <TableCell className="font-medium">{budget.modelName}</TableCell>
+                    <TableCell>{budget.participations}</TableCell>
+                    <TableCell>
+                      {budget.enabled ? (
+                        <div className="space-y-1">
+                          <Progress value={Math.min(100, (budget.epsilonSpent / budget.epsilonBudget) * 100)} />
+                          <span className="text-xs text-muted-foreground">
+                            {budget.epsilonSpent.toFixed(2)} of {budget.epsilonBudget} (δ = {budget.delta})
+                          </span>
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">Privacy off</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {budget.roundsRemaining === null ? (
+                        "Unlimited"
+                      ) : budget.roundsRemaining === 0 ? (
+                        <Badge variant="destructive">Exhausted</Badge>
+                      ) : (
+                        `ε ${budget.epsilonRemaining.toFixed(2)} · ${budget.roundsRemaining} round(s)`
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        {canCoordinate && status && <FederatedQuarantineReview status={status} onChange={refreshStatus} />}
+
+        {model && <SecureAggregationSimulation parameters={parameterCount(model)} />}
+
+        {model && <FederatedSimulation modelName={model.name} />}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="font-headline">Round History</CardTitle>
+            <CardDescription>Metrics reported by the kiosks whose updates were aggregated in each round.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!status?.history.length ? (
+              <p className="text-sm text-muted-foreground">No rounds have been aggregated yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Round</TableHead>
+                    <TableHead>Kiosks</TableHead>
+                    <TableHead>Rule</TableHead>
+                    <TableHead>Left out</TableHead>
+                    <TableHead>Records</TableHead>
+                    <TableHead>Accuracy</TableHead>
+                    <TableHead>AUC</TableHead>
+                    <TableHead>Log loss</TableHead>
+                    <TableHead>Closed</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {status.history.map((round) => (
+                    <TableRow key={round.id}>
+                      <TableCell className="font-medium">{round.number}</TableCell>
+                      <TableCell>{round.participants.map((participant) => participant.kioskId).join(", ")}</TableCell>
+                      <TableCell>
+                        {AGGREGATION_RULE_LABELS[round.rule ?? "fedavg"]}
+                        {round.secure && <Badge variant="secondary" className="ml-2">Secure</Badge>}
+                      </TableCell>
+                      <TableCell title={round.rejected.flatMap((update) => update.reasons).join(" ")}>
+                        {round.rejected.map((update) => update.kioskId).join(", ") || "—"}
+                      </TableCell>
+                      <TableCell>{round.totalExamples}</TableCell>
+                      <TableCell>{percent(round.metrics.before?.accuracy)} → {percent(round.metrics.after?.accuracy)}</TableCell>
+                      <TableCell>{round.metrics.before?.auc.toFixed(3) ?? "—"} → {round.metrics.after?.auc.toFixed(3) ?? "—"}</TableCell>
+                      <TableCell>{round.metrics.before?.loss.toFixed(3) ?? "—"} → {round.metrics.after?.loss.toFixed(3) ?? "—"}</TableCell>
+                      <TableCell>{round.closedAt ? new Date(round.closedAt).toLocaleString() : "—"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
       </main>
     </div>
   )
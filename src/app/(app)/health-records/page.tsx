@@ -0,0 +1,128 @@
+import Link from "next/link"
+import { BookUser, Building2 } from "lucide-react"
+
+import { AppHeader } from "@/components/app-header"
+import { HealthRecordDocument } from "@/components/health-record-document"
+import { ObservationTrends } from "@/components/observation-trends"
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { listReceivedHealthRecords, type ReceivedHealthRecord } from "@/lib/abdm/actions"
+import { observationSeries } from "@/lib/abdm/fhir-reader"
+import { HI_TYPE_LABELS } from "@/lib/abdm/health-information"
+import { getSession } from "@/lib/auth/session"
+import { hasPermission } from "@/lib/auth/roles"
+import { findCheckedInPatient } from "@/lib/records/encounters"
+
+type Facility = { id: string; name: string; records: ReceivedHealthRecord[] }
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString("en-IN", { dateStyle: "medium" })
+}
+
+/** Records grouped per facility, keeping the newest-first order; facilities with the latest record come first. */
+function byFacility(records: ReceivedHealthRecord[]) {
+  const facilities = new Map<string, Facility>()
+  for (const record of records) {
+    const facility = facilities.get(record.hipId) ?? { id: record.hipId, name: record.hipName ?? record.hipId, records: [] }
+    facility.records.push(record)
+    facilities.set(record.hipId, facility)
+  }
+  return [...facilities.values()]
+}
+
+export default async function HealthRecordsPage() {
+  const session = await getSession()
+  const patient = session ? await findCheckedInPatient(session) : null
+  const records = patient && !patient.walkIn ? await listReceivedHealthRecords() : []
+  const facilities = byFacility(records)
+  const series = observationSeries(records.map((record) => record.document))
+  const canLink = session ? hasPermission(session.role, "abdm:link") : false
+
+  return (
+    <div className="flex flex-col h-full">
+      <AppHeader title="Health Records" />
+      <main className="flex-1 overflow-y-auto p-4 md:p-8">
+        {!patient || patient.walkIn || records.length === 0 ? (
+          <Card className="mx-auto max-w-xl text-center">
+            <CardHeader>
+              <CardTitle className="font-headline">No Records Received</CardTitle>
+              <CardDescription>
+                {!patient || patient.walkIn
+                  ? "Check in a registered patient to see the records other facilities have shared with them through ABDM."
+                  : "Records other facilities share through ABDM appear here once the patient approves a request."}
+              </CardDescription>
+            </CardHeader>
+            {patient && !patient.walkIn && canLink && (
+              <CardFooter className="justify-center">
+                <Button asChild>
+                  <Link href="/abdm-integration">
+                    <BookUser className="mr-2" />
+                    Request Records
+                  </Link>
+                </Button>
+              </CardFooter>
+            )}
+          </Card>
+        ) : (
+          <div className="grid gap-8 lg:grid-cols-5">
+            <div className="space-y-8 lg:col-span-3">
+              {facilities.map((facility) => (
+                <Card key={facility.id}>
+                  <CardHeader>
+                    <div className="flex items-center gap-2">
+                      <Building2 className="h-5 w-5 text-primary" />
+                      <CardTitle className="font-headline">{facility.name}</CardTitle>
+                    </div>
+                    <CardDescription>
+                      {facility.records.length} {facility.records.length === 1 ? "record" : "records"} shared through ABDM
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Accordion type="single" collapsible className="w-full">
+                      {facility.records.map((record) => (
+                        <AccordionItem key={record.id} value={record.id}>
+                          <AccordionTrigger className="text-left hover:no-underline">
+                            <div className="flex min-w-0 flex-1 flex-wrap items-center gap-2 pr-4">
+                              <span className="font-semibold">{record.document.title}</span>
+                              {record.document.kind && <Badge variant="secondary">{HI_TYPE_LABELS[record.document.kind]}</Badge>}
+                              <span className="text-xs font-normal text-muted-foreground">
+                                {formatDate(record.document.date ?? record.receivedAt)}
+                              </span>
+                            </div>
+                          </AccordionTrigger>
+                          <AccordionContent className="space-y-4">
+                            <HealthRecordDocument document={record.document} />
+                            <p className="text-xs text-muted-foreground">
+                              Received {formatDate(record.receivedAt)}; the kiosk erases its copy on {formatDate(record.eraseAt)}.
+                            </p>
+                          </AccordionContent>
+                        </AccordionItem>
+                      ))}
+                    </Accordion>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+            <Card className="self-start lg:col-span-2">
+              <CardHeader>
+                <CardTitle className="font-headline">Readings Over Time</CardTitle>
+                <CardDescription>Measurements from every record received, by the date they were taken.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ObservationTrends series={series} />
+              </CardContent>
+              <CardFooter>
+                <p className="text-sm text-muted-foreground">
+                  To use a record in an AI assessment or tele-consultation, choose Add from Health Records next to Medical
+                  History or Lab Results on those pages.
+                </p>
+              </CardFooter>
+            </Card>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -1,17 +1,44 @@
+import { redirect } from "next/navigation"
+
 import { AppSidebar } from "@/components/app-sidebar"
 import { SidebarProvider, SidebarInset } from "@/components/ui/sidebar"
+import { SessionProvider } from "@/hooks/use-session"
+import { getSession } from "@/lib/auth/session"
+import { findCheckedInPatient } from "@/lib/records/encounters"
 
-export default function AppLayout({
+export default async function AppLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
+  const session = await getSession()
+  if (!session) {
+    redirect("/login")
+  }
+
+  const patient = await findCheckedInPatient(session)
+
   return (
-    <SidebarProvider>
-      <AppSidebar />
-      <SidebarInset>
-        {children}
-      </SidebarInset>
-    </SidebarProvider>
+    <SessionProvider
+      session={{
+        username: session.username,
+        displayName: session.displayName,
+        role: session.role,
+        patient: patient && {
+          id: patient.id,
+          name: patient.name,
+          walkIn: patient.walkIn,
+          preferredLanguage: patient.preferredLanguage,
+          medicalHistory: patient.medicalHistory,
+        },
+      }}
+    >
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          {children}
+        </SidebarInset>
+      </SidebarProvider>
+    </SessionProvider>
   )
 }
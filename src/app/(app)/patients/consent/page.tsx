@@ -0,0 +1,80 @@
+import Link from "next/link"
+import { UserPlus } from "lucide-react"
+
+import { AppHeader } from "@/components/app-header"
+import { ResearchConsentCapture } from "@/components/research-consent-capture"
+import { ResearchConsentHistory } from "@/components/research-consent-history"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { getSession } from "@/lib/auth/session"
+import { hasPermission } from "@/lib/auth/roles"
+import { getRecordRepository } from "@/lib/records"
+import { findCheckedInPatient } from "@/lib/records/encounters"
+
+export default async function ResearchConsentPage() {
+  const session = await getSession()
+  const patient = session ? await findCheckedInPatient(session) : null
+  const registered = patient && !patient.walkIn ? patient : null
+  const records = getRecordRepository()
+  const [consents, events] = registered
+    ? await Promise.all([records.listResearchConsents(registered.id), records.listConsentEvents(registered.id)])
+    : [[], []]
+  const canRegister = session ? hasPermission(session.role, "patients:register") : false
+
+  return (
+    <div className="flex flex-col h-full">
+      <AppHeader title="Research Consent" />
+      <main className="flex-1 overflow-y-auto p-4 md:p-8">
+        {!registered ? (
+          <Card className="mx-auto max-w-xl text-center">
+            <CardHeader>
+              <CardTitle className="font-headline">No Registered Patient</CardTitle>
+              <CardDescription>
+                Research consent is kept on the patient&apos;s record. Register the patient, or find their existing
+                record, before asking for consent.
+              </CardDescription>
+            </CardHeader>
+            {canRegister && (
+              <CardFooter className="justify-center">
+                <Button asChild>
+                  <Link href="/patients/register">
+                    <UserPlus className="mr-2" />
+                    Register Patient
+                  </Link>
+                </Button>
+              </CardFooter>
+            )}
+          </Card>
+        ) : (
+          <div className="grid gap-8 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="font-headline">Ask {registered.name} for Consent</CardTitle>
+                <CardDescription>
+                  Show or read the text to the patient in their language. Only records covered by an active consent
+                  are used for federated learning.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ResearchConsentCapture preferredLanguage={registered.preferredLanguage} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="font-headline">Consent History</CardTitle>
+                <CardDescription>
+                  A withdrawn consent keeps the patient out of every later training round. Every consent given or
+                  withdrawn is logged.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ResearchConsentHistory consents={consents} events={events} />
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
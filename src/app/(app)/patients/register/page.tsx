@@ -0,0 +1,377 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { AlertTriangle, Loader2, UserCheck, UserPlus } from "lucide-react"
+
+import { AppHeader } from "@/components/app-header"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/hooks/use-toast"
+import { checkInPatient, registerPatient, type PatientMatch } from "@/lib/records/actions"
+import {
+  KIOSK_LANGUAGES,
+  PatientRegistrationSchema,
+  SEXES,
+  SEX_LABELS,
+  type PatientRegistration,
+} from "@/lib/records/patients"
+
+function describeBirthDate(match: PatientMatch) {
+  if (!match.dateOfBirth) return "Date of birth not recorded"
+  return match.dateOfBirthEstimated ? `Born around ${match.dateOfBirth.slice(0, 4)}` : `Born ${match.dateOfBirth}`
+}
+
+export default function RegisterPatientPage() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [birthInput, setBirthInput] = useState<"dob" | "age">("dob")
+  const [duplicates, setDuplicates] = useState<PatientMatch[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  const form = useForm<PatientRegistration>({
+    resolver: zodResolver(PatientRegistrationSchema),
+    defaultValues: {
+      name: "",
+      dateOfBirth: "",
+      phone: "",
+      address: { line: "", city: "", state: "", pincode: "" },
+      preferredLanguage: "English",
+      abhaId: "",
+      medicalHistory: "",
+    },
+  })
+
+  /** An ABHA number typed at registration is linked only after ABDM verifies it, so it is carried to that page. */
+  function openProfile(title: string, description: string) {
+    const abhaId = form.getValues("abhaId")
+    if (abhaId) {
+      toast({ title, description: `${description} Verify the ABHA number to link it.` })
+      router.push(`/abdm-integration?abha=${encodeURIComponent(abhaId)}`)
+    } else {
+      toast({ title, description })
+      router.push("/profile")
+    }
+    router.refresh()
+  }
+
+  async function submit(values: PatientRegistration, allowDuplicate = false) {
+    setIsLoading(true)
+    try {
+      const result = await registerPatient(values, { allowDuplicate })
+      if (result.ok) {
+        openProfile("Patient Registered", `${values.name} is registered and checked in.`)
+      } else if (result.duplicates) {
+        setDuplicates(result.duplicates)
+      } else {
+        toast({ variant: "destructive", title: "Error", description: result.error })
+      }
+    } catch (error) {
+      console.error("Registration error:", error)
+      toast({ variant: "destructive", title: "Error", description: "Failed to register the patient. Please try again." })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  async function continueWithExisting(match: PatientMatch) {
+    setIsLoading(true)
+    try {
+      await checkInPatient(match.id)
+      openProfile("Patient Checked In", `Continuing with the existing record for ${match.name}.`)
+    } catch (error) {
+      console.error("Check-in error:", error)
+      toast({ variant: "destructive", title: "Error", description: "Failed to check in the patient. Please try again." })
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <AppHeader title="Register Patient" />
+      <main className="flex-1 overflow-y-auto p-4 md:p-8">
+        <Card className="mx-auto max-w-3xl">
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((values) => submit(values))}>
+              <CardHeader>
+                <CardTitle className="font-headline">Patient Details</CardTitle>
+                <CardDescription>
+                  Register the patient once; their assessments and consultations are then saved to their record.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {duplicates.length > 0 && (
+                  <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertTitle>This patient may already be registered</AlertTitle>
+                    <AlertDescription className="space-y-3">
+                      <p>A record with the same mobile number and date of birth exists. Use it instead of creating a duplicate.</p>
+                      {duplicates.map((match) => (
+                        <div key={match.id} className="flex flex-wrap items-center justify-between gap-2 rounded-md border bg-background p-3 text-foreground">
+                          <div>
+                            <p className="font-semibold">{match.name}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {describeBirthDate(match)}
+                              {match.city && ` · ${match.city}`}
+                              {match.phoneLastDigits && ` · mobile ending ${match.phoneLastDigits}`}
+                            </p>
+                          </div>
+                          <Button type="button" size="sm" disabled={isLoading} onClick={() => continueWithExisting(match)}>
+                            <UserCheck className="mr-2 h-4 w-4" />
+                            Use this record
+                          </Button>
+                        </div>
+                      ))}
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        disabled={isLoading}
+                        onClick={form.handleSubmit((values) => submit(values, true))}
+                      >
+                        Register as a new patient anyway
+                      </Button>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Full Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., Sunita Devi" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="space-y-3">
+                  <Label>Date of Birth or Age</Label>
+                  <RadioGroup
+                    className="flex gap-6"
+                    value={birthInput}
+                    onValueChange={(value) => {
+                      // Only one of the two is submitted, so drop whatever was typed in the other.
+                      if (value === "dob") form.setValue("age", undefined)
+                      else form.setValue("dateOfBirth", "")
+                      setBirthInput(value as "dob" | "age")
+                    }}
+                  >
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="dob" id="birth-dob" />
+                      <Label htmlFor="birth-dob" className="font-normal">Date of birth is known</Label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="age" id="birth-age" />
+                      <Label htmlFor="birth-age" className="font-normal">Only the age is known</Label>
+                    </div>
+                  </RadioGroup>
+                  {birthInput === "dob" ? (
+                    <FormField
+                      control={form.control}
+                      name="dateOfBirth"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input type="date" max={new Date().toISOString().slice(0, 10)} {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  ) : (
+                    <FormField
+                      control={form.control}
+                      name="age"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input
+                              inputMode="numeric"
+                              placeholder="Age in years"
+                              value={field.value ?? ""}
+                              onChange={(event) =>
+                                field.onChange(event.target.value === "" ? undefined : Number(event.target.value))
+                              }
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </div>
+
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <FormField
+                    control={form.control}
+                    name="sex"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Sex</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {SEXES.map((sex) => (
+                              <SelectItem key={sex} value={sex}>
+                                {SEX_LABELS[sex]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="phone"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Mobile Number</FormLabel>
+                        <FormControl>
+                          <Input inputMode="tel" placeholder="e.g., 98765 43210" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <FormField
+                    control={form.control}
+                    name="address.line"
+                    render={({ field }) => (
+                      <FormItem className="sm:col-span-2">
+                        <FormLabel>Address</FormLabel>
+                        <FormControl>
+                          <Input placeholder="House number, street or village" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="address.city"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Town / City</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="address.state"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>State</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="address.pincode"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>PIN Code</FormLabel>
+                        <FormControl>
+                          <Input inputMode="numeric" maxLength={6} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="preferredLanguage"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Preferred Language</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {KIOSK_LANGUAGES.map((language) => (
+                              <SelectItem key={language} value={language}>
+                                {language}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="abhaId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>ABHA Number (Optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., 91-1234-5678-9010" {...field} />
+                      </FormControl>
+                      <FormDescription>Linked only after the patient verifies it with ABDM, on the next page.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="medicalHistory"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Medical History (Optional)</FormLabel>
+                      <FormControl>
+                        <Textarea placeholder="e.g., hypertension for 5 years, allergic to penicillin" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+              <CardFooter>
+                <Button type="submit" disabled={isLoading}>
+                  {isLoading ? <Loader2 className="animate-spin" /> : <UserPlus className="mr-2" />}
+                  Register Patient
+                </Button>
+              </CardFooter>
+            </form>
+          </Form>
+        </Card>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,137 @@
+import Link from "next/link"
+import { FileSignature, UserPlus } from "lucide-react"
+
+import { AppHeader } from "@/components/app-header"
+import { EncounterHistory } from "@/components/encounter-history"
+import { PatientCheckOutButton } from "@/components/patient-check-out-button"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { getSession } from "@/lib/auth/session"
+import { hasPermission } from "@/lib/auth/roles"
+import { getRecordRepository } from "@/lib/records"
+import { CONSENT_PURPOSE_LABELS, consentStatus } from "@/lib/records/consent"
+import { findCheckedInPatient } from "@/lib/records/encounters"
+import { SEX_LABELS, ageFromDateOfBirth } from "@/lib/records/patients"
+import type { Patient } from "@/lib/records/types"
+
+function describeAge(patient: Patient) {
+  if (!patient.dateOfBirth) return null
+  const age = ageFromDateOfBirth(patient.dateOfBirth)
+  return patient.dateOfBirthEstimated ? `About ${age} years` : `${age} years (born ${patient.dateOfBirth})`
+}
+
+function ProfileField({ label, value }: { label: string; value: string | null | undefined }) {
+  return (
+    <div>
+      <dt className="text-sm text-muted-foreground">{label}</dt>
+      <dd className="font-medium">{value || "—"}</dd>
+    </div>
+  )
+}
+
+export default async function ProfilePage() {
+  const session = await getSession()
+  const patient = session ? await findCheckedInPatient(session) : null
+  const records = patient ? await getRecordRepository().listEncounterRecords(patient.id) : []
+  const consents = patient ? await getRecordRepository().listResearchConsents(patient.id) : []
+  const activeConsents = consents.filter((consent) => consentStatus(consent) === "active")
+  const canRegister = session ? hasPermission(session.role, "patients:register") : false
+  const canManageConsent = session ? hasPermission(session.role, "consent:manage") : false
+
+  return (
+    <div className="flex flex-col h-full">
+      <AppHeader title="Patient Profile" />
+      <main className="flex-1 overflow-y-auto p-4 md:p-8">
+        {!patient ? (
+          <Card className="mx-auto max-w-xl text-center">
+            <CardHeader>
+              <CardTitle className="font-headline">No Patient Checked In</CardTitle>
+              <CardDescription>Register the patient, or find their existing record, to see their profile and history.</CardDescription>
+            </CardHeader>
+            {canRegister && (
+              <CardFooter className="justify-center">
+                <Button asChild>
+                  <Link href="/patients/register">
+                    <UserPlus className="mr-2" />
+                    Register Patient
+                  </Link>
+                </Button>
+              </CardFooter>
+            )}
+          </Card>
+        ) : (
+          <div className="grid gap-8 lg:grid-cols-3">
+            <Card className="lg:col-span-1">
+              <CardHeader>
+                <div className="flex items-center gap-2">
+                  <CardTitle className="font-headline">{patient.name}</CardTitle>
+                  {patient.walkIn && <Badge variant="secondary">Walk-in</Badge>}
+                </div>
+                <CardDescription>
+                  {patient.walkIn
+                    ? "This visit has not been registered yet. Register the patient to keep their history."
+                    : `Registered ${new Date(patient.createdAt).toLocaleDateString("en-IN")}`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <dl className="grid gap-4">
+                  <ProfileField label="Age" value={describeAge(patient)} />
+                  <ProfileField label="Sex" value={patient.sex && SEX_LABELS[patient.sex]} />
+                  <ProfileField label="Mobile" value={patient.phone} />
+                  <ProfileField
+                    label="Address"
+                    value={
+                      patient.address &&
+                      `${patient.address.line}, ${patient.address.city}, ${patient.address.state} ${patient.address.pincode}`
+                    }
+                  />
+                  <ProfileField label="Preferred Language" value={patient.preferredLanguage} />
+                  <ProfileField label="ABHA ID" value={patient.abhaId} />
+                  <ProfileField label="Medical History" value={patient.medicalHistory} />
+                  <ProfileField
+                    label="Research Consent"
+                    value={
+                      activeConsents.length > 0
+                        ? activeConsents.map((consent) => CONSENT_PURPOSE_LABELS[consent.purpose]).join("; ")
+                        : "None active"
+                    }
+                  />
+                </dl>
+              </CardContent>
+              <CardFooter className="flex flex-wrap gap-2">
+                {patient.walkIn && canRegister && (
+                  <Button asChild>
+                    <Link href="/patients/register">
+                      <UserPlus className="mr-2" />
+                      Register
+                    </Link>
+                  </Button>
+                )}
+                {!patient.walkIn && canManageConsent && (
+                  <Button variant="outline" asChild>
+                    <Link href="/patients/consent">
+                      <FileSignature className="mr-2" />
+                      Research Consent
+                    </Link>
+                  </Button>
+                )}
+                <PatientCheckOutButton />
+              </CardFooter>
+            </Card>
+
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle className="font-headline">Encounter History</CardTitle>
+                <CardDescription>AI assessments and tele-consultations recorded for this patient.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <EncounterHistory records={records} />
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
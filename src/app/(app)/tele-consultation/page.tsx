@@ -14,14 +14,21 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
 import { Textarea } from "@/components/ui/textarea"
 import { useToast } from "@/hooks/use-toast"
+import { useSession } from "@/hooks/use-session"
 import { teleConsultationSupport, type TeleConsultationSupportOutput } from "@/ai/flows/tele-consultation-support"
+import { VitalsForm } from "@/components/vitals-form"
+import { AiProviderNote } from "@/components/ai-provider-note"
+import { FhirDownloadButton } from "@/components/fhir-download-button"
+import { HealthRecordPicker } from "@/components/health-record-picker"
+import type { SavedEncounter } from "@/lib/records/encounters"
+import { VitalsSchema, hasAnyVitals } from "@/lib/vitals"
 import { Input } from "@/components/ui/input"
 import { Separator } from "@/components/ui/separator"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 
 const formSchema = z.object({
   medicalHistory: z.string().min(1, "Required"),
-  vitals: z.string().min(1, "Required"),
+  vitals: VitalsSchema.refine(hasAnyVitals, "Required"),
   labResults: z.string().min(1, "Required"),
   imagingResults: z.string().min(1, "Required"),
   preferredLanguage: z.string().min(1, "Required"),
@@ -31,7 +38,8 @@ const formSchema = z.object({
 const generatePatientId = () => `PT-${Math.random().toString(36).substr(2, 8).toUpperCase()}`;
 
 export default function TeleConsultationPage() {
-  const [summary, setSummary] = useState<TeleConsultationSupportOutput | null>(null);
+  const [summary, setSummary] = useState<(TeleConsultationSupportOutput & SavedEncounter) | null>(null);
+  const { patient } = useSession();
   const [isLoading, setIsLoading] = useState(false);
   const [hasCameraPermission, setHasCameraPermission] = useState<boolean | null>(null);
   const [isVideoMuted, setIsVideoMuted] = useState(false);
@@ -263,21 +271,29 @@ export default function TeleConsultationPage() {
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
-      medicalHistory: "Patient has a history of hypertension and type 2 diabetes.",
-      vitals: "BP 140/90 mmHg, Temp 98.6°F, HR 78 bpm",
-      labResults: "Fasting blood sugar: 150 mg/dL, HbA1c: 7.2%",
-      imagingResults: "Chest X-ray: Clear",
+      medicalHistory: patient?.medicalHistory ?? "",
+      vitals: {},
+      labResults: "",
+      imagingResults: "",
       preferredLanguage: "English",
     },
   });
 
+  function addHealthRecord(field: "medicalHistory" | "labResults", text: string) {
+    form.setValue(field, [form.getValues(field), text].filter(Boolean).join("\n\n"), { shouldValidate: true });
+  }
+
   async function onSubmit(values: z.infer<typeof formSchema>) {
     setIsLoading(true);
     setSummary(null);
     try {
       const result = await teleConsultationSupport(values);
       setSummary(result);
-      showToast("Summary Generated", "Patient summary is ready for the consultation.");
+      if (result.encounterId) {
+        showToast("Summary Generated", "Patient summary is ready and saved to the patient's record.");
+      } else {
+        showToast("Summary Generated", "Patient summary is ready, but it could not be saved to the patient's record.");
+      }
     } catch (error) {
       console.error("Summary generation error:", error);
       showToast("Error", "Failed to generate summary. Please try again.", "destructive");
@@ -467,6 +483,10 @@ export default function TeleConsultationPage() {
                 {summary ? (
                   <div className="p-4 bg-muted/50 rounded-lg text-sm max-h-48 overflow-y-auto">
                     <p>{summary.summary}</p>
+                    <AiProviderNote provider={summary.provider} />
+                    <div className="mt-2">
+                      <FhirDownloadButton encounterId={summary.encounterId} />
+                    </div>
                   </div>
                 ) : (
                   <div className="p-4 bg-muted/50 rounded-lg text-sm text-muted-foreground text-center">
@@ -486,16 +506,16 @@ export default function TeleConsultationPage() {
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <FormField control={form.control} name="medicalHistory" render={({ field }) => (
-                    <FormItem><FormLabel>Medical History</FormLabel><FormControl><Textarea {...field} /></FormControl><FormMessage /></FormItem>
+                    <FormItem><div className="flex items-center justify-between gap-2"><FormLabel>Medical History</FormLabel><HealthRecordPicker target="Medical History" onPick={(text) => addHealthRecord("medicalHistory", text)} /></div><FormControl><Textarea placeholder="e.g., hypertension, type 2 diabetes" {...field} /></FormControl><FormMessage /></FormItem>
                   )} />
                   <FormField control={form.control} name="vitals" render={({ field }) => (
-                    <FormItem><FormLabel>Vitals</FormLabel><FormControl><Input {...field} /></FormControl><FormMessage /></FormItem>
+                    <FormItem><FormLabel>Vitals</FormLabel><VitalsForm value={field.value} onChange={field.onChange} /><FormMessage /></FormItem>
                   )} />
                   <FormField control={form.control} name="labResults" render={({ field }) => (
-                    <FormItem><FormLabel>Lab Results</FormLabel><FormControl><Textarea {...field} /></FormControl><FormMessage /></FormItem>
+                    <FormItem><div className="flex items-center justify-between gap-2"><FormLabel>Lab Results</FormLabel><HealthRecordPicker target="Lab Results" onPick={(text) => addHealthRecord("labResults", text)} /></div><FormControl><Textarea placeholder='e.g., HbA1c 7.2%, or "None"' {...field} /></FormControl><FormMessage /></FormItem>
                   )} />
                   <FormField control={form.control} name="imagingResults" render={({ field }) => (
-                    <FormItem><FormLabel>Imaging Results</FormLabel><FormControl><Textarea {...field} /></FormControl><FormMessage /></FormItem>
+                    <FormItem><FormLabel>Imaging Results</FormLabel><FormControl><Textarea placeholder='e.g., Chest X-ray clear, or "None"' {...field} /></FormControl><FormMessage /></FormItem>
                   )} />
                    <FormField control={form.control} name="preferredLanguage" render={({ field }) => (
                     <FormItem><FormLabel>Preferred Language</FormLabel><FormControl><Input {...field} /></FormControl><FormMessage /></FormItem>
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+
+import { deliverCallback } from "@/lib/abdm/callbacks";
+import { getAbdmGateway } from "@/lib/abdm/gateway";
+import {
+  handleDiscovery,
+  handleHealthInformationRequest,
+  handleHipConsentNotification,
+  handleLinkConfirm,
+  handleLinkInit,
+} from "@/lib/abdm/hip";
+import { handleConsentNotification, handleHealthDataPush } from "@/lib/abdm/hiu";
+
+type Handler = (body: unknown) => boolean | Promise<boolean>;
+
+/** Requests ABDM makes of the kiosk as a requester, rather than answers to the kiosk's own calls. */
+const HIU_HANDLERS: Record<string, Handler> = {
+  "v0.5/consents/hiu/notify": handleConsentNotification,
+};
+
+/** Requests ABDM makes of the kiosk as a provider, addressed to it by X-HIP-ID. */
+const HIP_HANDLERS: Record<string, Handler> = {
+  "v0.5/care-contexts/discover": handleDiscovery,
+  "v0.5/links/link/init": handleLinkInit,
+  "v0.5/links/link/confirm": handleLinkConfirm,
+  "v0.5/consents/hip/notify": handleHipConsentNotification,
+  "v0.5/health-information/hip/request": handleHealthInformationRequest,
+};
+
+/** Facilities push data straight to the kiosk; a push only counts for a transfer the kiosk asked for, under its own key. */
+const DATA_PUSH = "data-push";
+
+function refuse(status: number, code: number, message: string) {
+  return NextResponse.json({ error: { code, message } }, { status });
+}
+
+/**
+ * The kiosk's ABDM bridge. The gateway POSTs the results of asynchronous
+ * calls here, e.g. /api/abdm/v0.5/users/auth/on-init, matched to waiting
+ * requests by `resp.requestId`. The consent manager's notices arrive at
+ * /api/abdm/v0.5/consents/hiu/notify and facilities push health data to
+ * /api/abdm/data-push. As a provider the kiosk also answers discovery, link,
+ * consent and data requests (see HIP_HANDLERS). Everything but data pushes
+ * must carry the gateway's signed token, and provider requests must name
+ * this kiosk in X-HIP-ID. Anything this kiosk did not ask for is refused.
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ path: string[] }> }) {
+  const path = (await params).path.join("/");
+  if (path === DATA_PUSH) {
+    return (await handleHealthDataPush(await request.json().catch(() => null)))
+      ? new NextResponse(null, { status: 202 })
+      : refuse(404, 1404, "No transfer is waiting for this data.");
+  }
+
+  const gateway = getAbdmGateway();
+  const verified = await gateway.verifyGatewayToken(request.headers.get("authorization")).catch((error: Error) => error);
+  if (verified instanceof Error) {
+    return refuse(503, 1500, `The gateway's signing keys could not be fetched: ${verified.message}`);
+  }
+  if (!verified) {
+    return refuse(401, 1401, "The request does not carry a valid token signed by the ABDM gateway.");
+  }
+  const asProvider = Object.hasOwn(HIP_HANDLERS, path);
+  const hipId = request.headers.get("x-hip-id");
+  if (asProvider && hipId !== gateway.facilityId) {
+    return refuse(403, 1403, hipId ? `This bridge serves ${gateway.facilityId}, not ${hipId}.` : "Provider requests must name the facility in X-HIP-ID.");
+  }
+  const body = await request.json().catch(() => null);
+
+  const handler = asProvider ? HIP_HANDLERS[path] : Object.hasOwn(HIU_HANDLERS, path) ? HIU_HANDLERS[path] : deliverCallback;
+  const accepted = await handler(body);
+  if (!accepted) {
+    return refuse(404, 1404, "No request is waiting for this message.");
+  }
+  return new NextResponse(null, { status: 202 });
+}
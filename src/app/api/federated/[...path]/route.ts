@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ClientUpdateSchema, SecureMessageSchema } from "@/lib/federated/client";
+import {
+  getFederatedStatus,
+  getRoundTask,
+  getSecureRound,
+  registerClient,
+  sendSecureMessage,
+  submitUpdate,
+} from "@/lib/federated/coordinator";
+import { authenticateKiosk } from "@/lib/federated/coordinator-api";
+import { getProductionModel } from "@/lib/federated/registry";
+
+const ModelRequestSchema = z.object({ modelName: z.string() });
+const SecureRoundRequestSchema = z.object({ roundId: z.string() });
+const SecureMessageRequestSchema = z.object({ roundId: z.string(), message: SecureMessageSchema });
+
+/** Another kiosk sees the rounds, but of the clients and audit trail only its own. */
+async function statusFor(kioskId: string, modelName: string) {
+  const status = await getFederatedStatus(modelName);
+  return {
+    ...status,
+    clients: status.clients.filter((client) => client.kioskId === kioskId),
+    audit: status.audit.filter((entry) => entry.kioskId === kioskId),
+  };
+}
+
+/** What another kiosk may ask of this coordinator, always as the kiosk its key belongs to. */
+const HANDLERS: Record<string, (kioskId: string, body: unknown) => Promise<unknown>> = {
+  register: (kioskId) => registerClient(kioskId),
+  task: (kioskId, body) => getRoundTask(ModelRequestSchema.parse(body).modelName, kioskId),
+  updates: (kioskId, body) => submitUpdate({ ...ClientUpdateSchema.parse(body), kioskId }),
+  "secure-round": (kioskId, body) => getSecureRound(SecureRoundRequestSchema.parse(body).roundId, kioskId),
+  "secure-message": (kioskId, body) => {
+    const { roundId, message } = SecureMessageRequestSchema.parse(body);
+    return sendSecureMessage(roundId, kioskId, message);
+  },
+  status: (kioskId, body) => statusFor(kioskId, ModelRequestSchema.parse(body).modelName),
+  "production-model": async (_kioskId, body) => ({ model: await getProductionModel(ModelRequestSchema.parse(body).modelName) }),
+};
+
+/**
+ * The coordinator's API for the other kiosks in the federation: POST
+ * /api/federated/register, /task (the open round and its global weights),
+ * /updates (a kiosk's weight delta), /secure-round and /secure-message (the
+ * steps of a round run with secure aggregation), /status (rounds and history)
+ * and /production-model (the version kiosks score with). Requests without a valid
+ * kiosk key are refused; see coordinator-api.ts.
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ path: string[] }> }) {
+  const path = (await params).path.join("/");
+  const kioskId = authenticateKiosk(request.headers);
+  if (!kioskId) {
+    return NextResponse.json({ error: "Unknown kiosk, or wrong kiosk key." }, { status: 401 });
+  }
+  if (!Object.hasOwn(HANDLERS, path)) {
+    return NextResponse.json({ error: `The coordinator has no /${path} endpoint.` }, { status: 404 });
+  }
+  const body = await request.json().catch(() => null);
+  try {
+    return NextResponse.json(await HANDLERS[path](kioskId, body));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: `The request is malformed: ${error.issues[0]?.message}` }, { status: 400 });
+    }
+    return NextResponse.json({ error: error instanceof Error ? error.message : "The coordinator refused the request." }, { status: 422 });
+  }
+}
@@ -12,12 +12,30 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
+import { login } from "@/lib/auth/actions";
 
 const formSchema = z.object({
   username: z.string().min(1, { message: "Username is required." }),
   password: z.string().min(1, { message: "Password is required." }),
 });
 
+/**
+ * Where to go after logging in. Only same-origin targets are followed, so the
+ * login page can't be used as an open redirect; browsers read "/\evil.com"
+ * as "//evil.com", so the URL is resolved rather than checked by its prefix.
+ */
+function nextPath(next: string | null) {
+  if (!next) {
+    return "/dashboard";
+  }
+  try {
+    const url = new URL(next, window.location.origin);
+    return url.origin === window.location.origin ? url.pathname + url.search + url.hash : "/dashboard";
+  } catch {
+    return "/dashboard";
+  }
+}
+
 export default function LoginPage() {
   const [isLoading, setIsLoading] = useState(false);
   const router = useRouter();
@@ -26,30 +44,39 @@ export default function LoginPage() {
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
-      username: "Harmandeep Singh",
-      password: "password",
+      username: "",
+      password: "",
     },
   });
 
-  function onSubmit(values: z.infer<typeof formSchema>) {
+  async function onSubmit(values: z.infer<typeof formSchema>) {
     setIsLoading(true);
-    // Simulate authentication
-    setTimeout(() => {
-      if (values.username === "Harmandeep Singh" && values.password === "password") {
+    try {
+      const result = await login(values);
+      if (result.ok) {
         toast({
           title: "Login Successful",
-          description: "Welcome to Health Assistant!",
+          description: `Welcome to Health Assistant, ${result.displayName}!`,
         });
-        router.push("/dashboard");
+        router.push(nextPath(new URLSearchParams(window.location.search).get("next")));
+        router.refresh();
       } else {
         toast({
           variant: "destructive",
           title: "Login Failed",
-          description: "Invalid username or password.",
+          description: result.error,
         });
       }
+    } catch (error) {
+      console.error("Login error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Could not reach the kiosk server. Please try again.",
+      });
+    } finally {
       setIsLoading(false);
-    }, 1000);
+    }
   }
 
   return (
@@ -0,0 +1,48 @@
+"use client"
+
+import { Printer } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import type { AbhaCard as AbhaCardDetails } from "@/lib/abdm/actions"
+import { SEX_LABELS } from "@/lib/records/patients"
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString("en-IN", { dateStyle: "medium" })
+}
+
+/** The patient's ABHA card, sized like an ID card so it can be printed and cut out. */
+export function AbhaCard({ card }: { card: AbhaCardDetails }) {
+  const rows: [string, string | undefined][] = [
+    ["ABHA Number", card.abhaNumber],
+    ["ABHA Address", card.abhaAddress],
+    ["Sex", card.sex && SEX_LABELS[card.sex]],
+    ["Date of Birth", card.dateOfBirth && formatDate(card.dateOfBirth)],
+    ["Mobile", card.mobile],
+    ["Address", card.address && `${card.address.line}, ${card.address.city}, ${card.address.state} ${card.address.pincode}`],
+  ]
+
+  return (
+    <div className="space-y-4">
+      <div className="print-area mx-auto w-full max-w-sm overflow-hidden rounded-xl border bg-white text-left text-black shadow-sm">
+        <div className="bg-primary px-4 py-2 text-primary-foreground">
+          <p className="text-xs uppercase tracking-wide">Ayushman Bharat Health Account</p>
+          <p className="font-headline text-lg font-semibold">{card.name}</p>
+        </div>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 px-4 py-3 text-sm">
+          {rows
+            .filter(([, value]) => value)
+            .map(([label, value]) => (
+              <div key={label} className="contents">
+                <dt className="text-neutral-500">{label}</dt>
+                <dd className={label.startsWith("ABHA") ? "font-code font-semibold" : undefined}>{value}</dd>
+              </div>
+            ))}
+        </dl>
+      </div>
+      <Button type="button" variant="outline" className="w-full" onClick={() => window.print()}>
+        <Printer className="mr-2 h-4 w-4" />
+        Print ABHA Card
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,598 @@
+"use client"
+
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { ArrowLeft, CheckCircle, Loader2, UserPlus } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import {
+  AbhaAddressHandleSchema,
+  AbhaEnrolmentDetailsSchema,
+  AbhaEnrolmentStartSchema,
+  ENROLMENT_METHODS,
+  ENROLMENT_METHOD_LABELS,
+  type AbhaEnrolmentDetails,
+  type EnrolmentMethod,
+} from "@/lib/abdm/abha"
+import {
+  chooseAbhaAddress,
+  confirmAbhaEnrolment,
+  startAbhaEnrolment,
+  submitAbhaEnrolmentDetails,
+  verifyAbhaEnrolmentOtp,
+  type LinkedAbha,
+} from "@/lib/abdm/actions"
+import type { AbhaGender, EnrolledAccount } from "@/lib/abdm/gateway"
+import { normalizePhone } from "@/lib/records/patients"
+
+const GENDER_LABELS: Record<AbhaGender, string> = { F: "Female", M: "Male", O: "Other" }
+
+/** The start form shows only the method's inputs, so only those are checked. */
+const startSchema = z
+  .object({
+    method: z.enum(ENROLMENT_METHODS),
+    aadhaarNumber: z.string(),
+    consent: z.boolean(),
+    mobile: z.string(),
+  })
+  .superRefine(({ method, aadhaarNumber, consent, mobile }, ctx) => {
+    const parsed = AbhaEnrolmentStartSchema.safeParse(
+      method === "AADHAAR_OTP" ? { method, aadhaarNumber, consent } : { method, mobile: normalizePhone(mobile) ?? mobile }
+    )
+    for (const issue of parsed.success ? [] : parsed.error.issues) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: issue.path, message: issue.message })
+    }
+  })
+
+const otpSchema = z.object({
+  otp: z.string().regex(/^\d{6}$/, "The OTP is the 6-digit code in the SMS."),
+  /** Only asked for with Aadhaar: the number the new ABHA sends its messages to. */
+  mobile: z.string().optional(),
+})
+
+const addressSchema = z.object({ handle: AbhaAddressHandleSchema })
+
+type Step =
+  | { name: "start" }
+  | { name: "otp"; transactionId: string; hint: string | null; expiresAt: string }
+  | { name: "details"; transactionId: string }
+  | { name: "confirm"; transactionId: string; account: EnrolledAccount }
+  | { name: "address"; transactionId: string; account: EnrolledAccount; suggestions: string[] }
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString("en-IN", { dateStyle: "medium" })
+}
+
+const EMPTY_DETAILS: AbhaEnrolmentDetails = {
+  name: "",
+  gender: "F",
+  dateOfBirth: "",
+  address: { line: "", district: "", state: "", pincode: "" },
+}
+
+/**
+ * Creates an ABHA for the checked-in patient, step by step: an OTP to their
+ * Aadhaar-linked mobile (or, without Aadhaar, to their own mobile and the
+ * details they give), a check of the details ABDM will use, and the choice
+ * of an ABHA address. A walk-in patient is registered with those details.
+ */
+export function AbhaEnrolmentWizard({ onEnrolled }: { onEnrolled: (abha: LinkedAbha) => void }) {
+  const { toast } = useToast()
+  const [step, setStep] = useState<Step>({ name: "start" })
+  const [isLoading, setIsLoading] = useState(false)
+
+  const startForm = useForm<z.infer<typeof startSchema>>({
+    resolver: zodResolver(startSchema),
+    defaultValues: { method: "AADHAAR_OTP", aadhaarNumber: "", consent: false, mobile: "" },
+  })
+  const otpForm = useForm<z.infer<typeof otpSchema>>({
+    resolver: zodResolver(otpSchema),
+    defaultValues: { otp: "", mobile: "" },
+  })
+  const detailsForm = useForm<AbhaEnrolmentDetails>({
+    resolver: zodResolver(AbhaEnrolmentDetailsSchema),
+    defaultValues: EMPTY_DETAILS,
+  })
+  const addressForm = useForm<z.input<typeof addressSchema>>({
+    resolver: zodResolver(addressSchema),
+    defaultValues: { handle: "" },
+  })
+  const method = startForm.watch("method")
+
+  function startOver() {
+    setStep({ name: "start" })
+    otpForm.reset()
+    detailsForm.reset(EMPTY_DETAILS)
+    addressForm.reset()
+  }
+
+  /** Shows a failure under the input it is about, otherwise as a toast; an expired enrolment starts over. */
+  function showFailure(result: { code: string; error: string }) {
+    if (result.code === "invalid-otp" && step.name === "otp") {
+      otpForm.setError("otp", { message: result.error })
+    } else if (result.code === "invalid" && step.name === "otp") {
+      otpForm.setError("mobile", { message: result.error })
+    } else if ((result.code === "invalid" || result.code === "taken") && step.name === "address") {
+      addressForm.setError("handle", { message: result.error })
+    } else if (result.code === "not-found" && step.name === "start") {
+      startForm.setError("aadhaarNumber", { message: "No Aadhaar record has this number. Please check it against the Aadhaar card." })
+    } else {
+      if (result.code === "expired" || result.code === "mismatch" || result.code === "duplicate") {
+        startOver()
+      }
+      toast({ variant: "destructive", title: "ABHA Not Created", description: result.error })
+    }
+  }
+
+  /** Runs one step of the enrolment, with the spinner and a toast for unexpected failures. */
+  async function runStep(run: () => Promise<void>) {
+    setIsLoading(true)
+    try {
+      await run()
+    } catch (error) {
+      console.error("ABHA enrolment error:", error)
+      toast({ variant: "destructive", title: "Error", description: "Failed to create the ABHA. Please try again." })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  function onStart(values: z.infer<typeof startSchema>) {
+    return runStep(async () => {
+      const result = await startAbhaEnrolment(
+        values.method === "AADHAAR_OTP"
+          ? { method: values.method, aadhaarNumber: values.aadhaarNumber, consent: true }
+          : { method: values.method, mobile: normalizePhone(values.mobile)! }
+      )
+      if (!result.ok) {
+        showFailure(result)
+        return
+      }
+      otpForm.reset({ otp: "", mobile: values.method === "MOBILE_OTP" ? values.mobile : "" })
+      setStep({ name: "otp", transactionId: result.transactionId, hint: result.hint, expiresAt: result.expiresAt })
+    })
+  }
+
+  function onVerifyOtp(values: z.infer<typeof otpSchema>) {
+    if (step.name !== "otp") return
+    if (method === "AADHAAR_OTP" && !normalizePhone(values.mobile ?? "")) {
+      otpForm.setError("mobile", { message: "Please enter a valid 10-digit mobile number." })
+      return
+    }
+    return runStep(async () => {
+      const result = await verifyAbhaEnrolmentOtp(
+        step.transactionId,
+        values.otp,
+        method === "AADHAAR_OTP" ? values.mobile : undefined
+      )
+      if (!result.ok) {
+        showFailure(result)
+        return
+      }
+      if (result.step === "confirm") {
+        setStep({ name: "confirm", transactionId: step.transactionId, account: result.account })
+        return
+      }
+      detailsForm.reset({
+        ...EMPTY_DETAILS,
+        ...result.defaults,
+        address: { ...EMPTY_DETAILS.address, ...result.defaults.address },
+      })
+      setStep({ name: "details", transactionId: step.transactionId })
+    })
+  }
+
+  function onSubmitDetails(values: AbhaEnrolmentDetails) {
+    if (step.name !== "details") return
+    return runStep(async () => {
+      const result = await submitAbhaEnrolmentDetails(step.transactionId, values)
+      if (!result.ok) {
+        showFailure(result)
+        return
+      }
+      setStep({ name: "confirm", transactionId: step.transactionId, account: result.account })
+    })
+  }
+
+  function onConfirm() {
+    if (step.name !== "confirm") return
+    return runStep(async () => {
+      const result = await confirmAbhaEnrolment(step.transactionId)
+      if (!result.ok) {
+        showFailure(result)
+        return
+      }
+      if (result.step === "linked") {
+        toast({
+          title: "ABHA Already Exists",
+          description: `This Aadhaar number already has ABHA ${result.abhaNumber}, which has been linked instead.`,
+        })
+        onEnrolled(result)
+        return
+      }
+      addressForm.reset({ handle: result.suggestions[0] ?? "" })
+      setStep({ name: "address", transactionId: step.transactionId, account: step.account, suggestions: result.suggestions })
+    })
+  }
+
+  function onChooseAddress(values: z.input<typeof addressSchema>) {
+    if (step.name !== "address") return
+    return runStep(async () => {
+      const result = await chooseAbhaAddress(step.transactionId, values.handle)
+      if (!result.ok) {
+        showFailure(result)
+        return
+      }
+      toast({ title: "ABHA Created", description: `ABHA ${result.abhaNumber} has been created and linked.` })
+      onEnrolled(result)
+    })
+  }
+
+  const backButton = (
+    <Button type="button" variant="outline" onClick={startOver} disabled={isLoading}>
+      <ArrowLeft className="mr-2 h-4 w-4" />
+      Start Over
+    </Button>
+  )
+
+  function submitButton(label: string, busyLabel: string) {
+    return (
+      <Button type="submit" disabled={isLoading} className="flex-1">
+        {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UserPlus className="mr-2 h-4 w-4" />}
+        {isLoading ? busyLabel : label}
+      </Button>
+    )
+  }
+
+  if (step.name === "otp") {
+    return (
+      <Form {...otpForm}>
+        <form onSubmit={otpForm.handleSubmit(onVerifyOtp)} className="space-y-6">
+          <FormField
+            control={otpForm.control}
+            name="otp"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>OTP</FormLabel>
+                <FormControl>
+                  <Input inputMode="numeric" maxLength={6} placeholder="6-digit code" autoComplete="one-time-code" {...field} />
+                </FormControl>
+                <FormDescription>
+                  {step.hint ?? "Enter the OTP sent to the patient."} It expires at {new Date(step.expiresAt).toLocaleTimeString()}.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {method === "AADHAAR_OTP" && (
+            <FormField
+              control={otpForm.control}
+              name="mobile"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Mobile Number for ABHA</FormLabel>
+                  <FormControl>
+                    <Input inputMode="tel" placeholder="e.g., 98765 43210" {...field} />
+                  </FormControl>
+                  <FormDescription>ABHA sends its messages and login OTPs here. It can differ from the Aadhaar-linked number.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+          <div className="flex gap-2">
+            {backButton}
+            {submitButton("Verify OTP", "Verifying...")}
+          </div>
+        </form>
+      </Form>
+    )
+  }
+
+  if (step.name === "details") {
+    return (
+      <Form {...detailsForm}>
+        <form onSubmit={detailsForm.handleSubmit(onSubmitDetails)} className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            The mobile number is verified. Enter the patient's details as they appear on an identity document.
+          </p>
+          <FormField
+            control={detailsForm.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Full Name</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div className="grid gap-4 sm:grid-cols-2">
+            <FormField
+              control={detailsForm.control}
+              name="gender"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Sex</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {(Object.keys(GENDER_LABELS) as AbhaGender[]).map((gender) => (
+                        <SelectItem key={gender} value={gender}>
+                          {GENDER_LABELS[gender]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={detailsForm.control}
+              name="dateOfBirth"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Date of Birth</FormLabel>
+                  <FormControl>
+                    <Input type="date" max={new Date().toISOString().slice(0, 10)} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={detailsForm.control}
+              name="address.line"
+              render={({ field }) => (
+                <FormItem className="sm:col-span-2">
+                  <FormLabel>Address</FormLabel>
+                  <FormControl>
+                    <Input placeholder="House number, street or village" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={detailsForm.control}
+              name="address.district"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>District</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={detailsForm.control}
+              name="address.state"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>State</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={detailsForm.control}
+              name="address.pincode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>PIN Code</FormLabel>
+                  <FormControl>
+                    <Input inputMode="numeric" maxLength={6} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <div className="flex gap-2">
+            {backButton}
+            {submitButton("Create ABHA Number", "Creating...")}
+          </div>
+        </form>
+      </Form>
+    )
+  }
+
+  if (step.name === "confirm") {
+    const { account } = step
+    const rows: [string, string | undefined][] = [
+      ["Name", account.name],
+      ["Sex", GENDER_LABELS[account.gender]],
+      ["Date of Birth", formatDate(account.dateOfBirth)],
+      ["Mobile", account.mobile],
+      [
+        "Address",
+        account.address &&
+          `${account.address.line}, ${account.address.district}, ${account.address.state} ${account.address.pincode}`,
+      ],
+      ["ABHA Number", account.abhaNumber],
+    ]
+    return (
+      <div className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          Please read these details to the patient. They are what ABDM holds, and the patient's record at the kiosk will
+          be checked against them.
+        </p>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+          {rows
+            .filter(([, value]) => value)
+            .map(([label, value]) => (
+              <div key={label} className="contents">
+                <dt className="text-muted-foreground">{label}</dt>
+                <dd className={label === "ABHA Number" ? "font-code" : "font-medium"}>{value}</dd>
+              </div>
+            ))}
+        </dl>
+        <div className="flex gap-2">
+          {backButton}
+          <Button type="button" className="flex-1" disabled={isLoading} onClick={onConfirm}>
+            {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle className="mr-2 h-4 w-4" />}
+            The Details Are Correct
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  if (step.name === "address") {
+    return (
+      <Form {...addressForm}>
+        <form onSubmit={addressForm.handleSubmit(onChooseAddress)} className="space-y-6">
+          <p className="text-sm text-muted-foreground">
+            ABHA number <span className="font-code">{step.account.abhaNumber}</span> is ready. Choose the ABHA address the
+            patient will use to log in and share records.
+          </p>
+          {step.suggestions.length > 0 && (
+            <RadioGroup
+              value={addressForm.watch("handle")}
+              onValueChange={(handle) => addressForm.setValue("handle", handle, { shouldValidate: true })}
+              className="space-y-1"
+            >
+              {step.suggestions.map((suggestion) => (
+                <div key={suggestion} className="flex items-center gap-2">
+                  <RadioGroupItem value={suggestion} id={`abha-address-${suggestion}`} />
+                  <Label htmlFor={`abha-address-${suggestion}`} className="font-code font-normal">
+                    {suggestion}@abdm
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          )}
+          <FormField
+            control={addressForm.control}
+            name="handle"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>ABHA Address</FormLabel>
+                <FormControl>
+                  <div className="flex items-center gap-2">
+                    <Input autoComplete="off" {...field} />
+                    <span className="font-code text-muted-foreground">@abdm</span>
+                  </div>
+                </FormControl>
+                <FormDescription>Pick a suggestion or type another: 8 to 18 letters and digits, with at most one dot or underscore.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div className="flex gap-2">
+            {backButton}
+            {submitButton("Create ABHA Address", "Creating...")}
+          </div>
+        </form>
+      </Form>
+    )
+  }
+
+  return (
+    <Form {...startForm}>
+      <form onSubmit={startForm.handleSubmit(onStart)} className="space-y-6">
+        <FormField
+          control={startForm.control}
+          name="method"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Verify the Patient With</FormLabel>
+              <FormControl>
+                <RadioGroup
+                  value={field.value}
+                  onValueChange={(value) => {
+                    startForm.clearErrors()
+                    field.onChange(value as EnrolmentMethod)
+                  }}
+                  className="flex gap-6"
+                >
+                  {ENROLMENT_METHODS.map((option) => (
+                    <div key={option} className="flex items-center gap-2">
+                      <RadioGroupItem value={option} id={`enrolment-${option}`} />
+                      <Label htmlFor={`enrolment-${option}`} className="font-normal">
+                        {ENROLMENT_METHOD_LABELS[option]}
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </FormControl>
+            </FormItem>
+          )}
+        />
+        {method === "AADHAAR_OTP" ? (
+          <>
+            <FormField
+              control={startForm.control}
+              name="aadhaarNumber"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Aadhaar Number</FormLabel>
+                  <FormControl>
+                    <Input inputMode="numeric" placeholder="e.g., 2345 6789 0124" autoComplete="off" {...field} />
+                  </FormControl>
+                  <FormDescription>The OTP goes to the mobile number linked with Aadhaar.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={startForm.control}
+              name="consent"
+              render={({ field }) => (
+                <FormItem>
+                  <div className="flex items-start gap-3">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                    </FormControl>
+                    <FormLabel className="font-normal leading-snug">
+                      The patient agrees to share their Aadhaar name, sex, date of birth, address and photo with ABDM to
+                      create their ABHA.
+                    </FormLabel>
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </>
+        ) : (
+          <FormField
+            control={startForm.control}
+            name="mobile"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Mobile Number</FormLabel>
+                <FormControl>
+                  <Input inputMode="tel" placeholder="e.g., 98765 43210" {...field} />
+                </FormControl>
+                <FormDescription>For patients without Aadhaar. They will be asked for their details after the OTP.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+        {submitButton("Send OTP", "Sending...")}
+      </form>
+    </Form>
+  )
+}
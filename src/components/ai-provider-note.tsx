@@ -0,0 +1,23 @@
+import type { ProviderId, ProviderInfo } from "@/ai/providers/config"
+
+const PROVIDER_LABELS: Record<ProviderId, string> = {
+  gemini: "Gemini (cloud)",
+  local: "Local kiosk model",
+  stub: "Demo stub",
+}
+
+type AiProviderNoteProps = {
+  provider?: ProviderInfo
+}
+
+/** One line noting which AI provider answered, and which ones failed before it. */
+export function AiProviderNote({ provider }: AiProviderNoteProps) {
+  if (!provider) return null
+  const failed = provider.failedOver.map((attempt) => PROVIDER_LABELS[attempt.provider])
+  return (
+    <p className="text-xs text-muted-foreground">
+      Answered by {PROVIDER_LABELS[provider.provider]} <span className="font-mono">({provider.model})</span>
+      {failed.length > 0 && <> after {failed.join(", ")} failed</>}
+    </p>
+  )
+}
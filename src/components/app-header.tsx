@@ -11,14 +11,38 @@ import {
 import { Button } from "@/components/ui/button"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { SidebarTrigger } from "@/components/ui/sidebar"
-import { Globe, LogOut, User } from "lucide-react"
+import { Globe, LogOut, User, UserPlus } from "lucide-react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
 import type { ReactNode } from "react"
+import { logout } from "@/lib/auth/actions"
+import { ROLE_LABELS, hasPermission } from "@/lib/auth/roles"
+import { useSession } from "@/hooks/use-session"
+
+function initials(name: string) {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0]!.toUpperCase())
+    .join("")
+}
 
 type AppHeaderProps = {
   title: ReactNode;
 };
 
 export function AppHeader({ title }: AppHeaderProps) {
+  const router = useRouter()
+  const session = useSession()
+  const { patient } = session
+
+  async function handleLogout() {
+    await logout()
+    router.push("/login")
+    router.refresh()
+  }
+
   return (
     <header className="flex h-14 items-center gap-4 border-b bg-card px-4 lg:h-[60px] lg:px-6">
       <SidebarTrigger className="md:hidden" />
@@ -47,22 +71,41 @@ export function AppHeader({ title }: AppHeaderProps) {
         <DropdownMenuTrigger asChild>
           <Button variant="secondary" size="icon" className="rounded-full">
             <Avatar className="flex items-center justify-center">
-              <User className="h-6 w-6" />
+              {patient && !patient.walkIn ? (
+                <AvatarFallback>{initials(patient.name)}</AvatarFallback>
+              ) : (
+                <User className="h-6 w-6" />
+              )}
               {/* <AvatarImage src="https://cdn-icons-png.flaticon.com/512/2609/2609282.png" alt="User" className="object-cover w-full h-full" /> */}
-              {/* <AvatarFallback>H</AvatarFallback> */}
             </Avatar>
             <span className="sr-only">Toggle user menu</span>
           </Button>
         </DropdownMenuTrigger>
         <DropdownMenuContent align="end">
-          <DropdownMenuLabel>My Account</DropdownMenuLabel>
+          <DropdownMenuLabel>
+            <div>{session.displayName}</div>
+            <div className="text-xs font-normal text-muted-foreground">{ROLE_LABELS[session.role]}</div>
+            {patient && (
+              <div className="mt-1 text-xs font-normal text-muted-foreground">Patient: {patient.name}</div>
+            )}
+          </DropdownMenuLabel>
           <DropdownMenuSeparator />
-          <DropdownMenuItem>
-            <User className="mr-2" />
-            Profile
+          <DropdownMenuItem asChild>
+            <Link href="/profile">
+              <User className="mr-2" />
+              Profile
+            </Link>
           </DropdownMenuItem>
+          {hasPermission(session.role, "patients:register") && (
+            <DropdownMenuItem asChild>
+              <Link href="/patients/register">
+                <UserPlus className="mr-2" />
+                Register Patient
+              </Link>
+            </DropdownMenuItem>
+          )}
           <DropdownMenuSeparator />
-          <DropdownMenuItem>
+          <DropdownMenuItem onSelect={handleLogout}>
             <LogOut className="mr-2" />
             Logout
           </DropdownMenuItem>
@@ -12,6 +12,8 @@ import {
   SidebarFooter,
 } from "@/components/ui/sidebar"
 import { Button } from "./ui/button"
+import { useSession } from "@/hooks/use-session"
+import { hasPermission, type Permission } from "@/lib/auth/roles"
 
 import {
   LayoutDashboard,
@@ -20,21 +22,31 @@ import {
   Share2,
   ScanFace,
   BookUser,
+  BriefcaseMedical,
   HeartPulse,
   Settings,
+  UserPlus,
+  FileSignature,
+  FileHeart,
 } from "lucide-react"
 
-const menuItems = [
-  { href: "/dashboard", label: "Dashboard", icon: LayoutDashboard },
-  { href: "/diagnosis", label: "AI Diagnosis", icon: Stethoscope },
-  { href: "/tele-consultation", label: "Tele-Consultation", icon: Video },
-  { href: "/federated-learning", label: "Federated Learning", icon: Share2 },
-  { href: "/facial-recognition", label: "Facial Check-in", icon: ScanFace },
-  { href: "/abdm-integration", label: "ABDM Integration", icon: BookUser },
+const menuItems: { href: string; label: string; icon: typeof LayoutDashboard; permission: Permission }[] = [
+  { href: "/dashboard", label: "Dashboard", icon: LayoutDashboard, permission: "dashboard:view" },
+  { href: "/patients/register", label: "Register Patient", icon: UserPlus, permission: "patients:register" },
+  { href: "/patients/consent", label: "Research Consent", icon: FileSignature, permission: "consent:manage" },
+  { href: "/diagnosis", label: "AI Diagnosis", icon: Stethoscope, permission: "diagnosis:run" },
+  { href: "/tele-consultation", label: "Tele-Consultation", icon: Video, permission: "teleconsult:patient" },
+  { href: "/tele-consultation/doctor", label: "Doctor Console", icon: BriefcaseMedical, permission: "teleconsult:doctor" },
+  { href: "/federated-learning", label: "Federated Learning", icon: Share2, permission: "federated:contribute" },
+  { href: "/facial-recognition", label: "Facial Check-in", icon: ScanFace, permission: "facial-checkin:use" },
+  { href: "/abdm-integration", label: "ABDM Integration", icon: BookUser, permission: "abdm:link" },
+  { href: "/health-records", label: "Health Records", icon: FileHeart, permission: "health-records:view" },
 ]
 
 export function AppSidebar() {
   const pathname = usePathname()
+  const { role } = useSession()
+  const visibleItems = menuItems.filter((item) => hasPermission(role, item.permission))
 
   return (
     <Sidebar>
@@ -51,7 +63,7 @@ export function AppSidebar() {
         </div>
       </SidebarHeader>
       <SidebarMenu className="flex-1">
-        {menuItems.map((item) => (
+        {visibleItems.map((item) => (
           <SidebarMenuItem key={item.href}>
             <SidebarMenuButton
               asChild
@@ -0,0 +1,54 @@
+"use client"
+
+import { ShieldCheck, ShieldX } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import type { DeidentificationReport } from "@/lib/federated/deidentify"
+
+/** What de-identification will change in the batch, and whether it is k-anonymous. */
+export function DeidentificationSummary({ report }: { report: DeidentificationReport }) {
+  return (
+    <div className="space-y-2 rounded-md border p-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        {report.passed ? (
+          <ShieldCheck className="h-4 w-4 text-primary" />
+        ) : (
+          <ShieldX className="h-4 w-4 text-destructive" />
+        )}
+        <span className="font-medium">De-identification</span>
+        <Badge variant={report.passed ? "secondary" : "destructive"}>
+          k = {report.achievedK} (needs {report.k})
+        </Badge>
+      </div>
+      <ul className="list-disc space-y-1 pl-5 text-muted-foreground">
+        {report.dropped.map((entry) => (
+          <li key={entry.column}>
+            Dropped <span className="font-code">{entry.column}</span>: {entry.reason}
+          </li>
+        ))}
+        {report.generalised.map((entry) => (
+          <li key={entry.column}>{entry.rule}</li>
+        ))}
+        {report.dropped.length === 0 && report.generalised.length === 0 && <li>Nothing needed to change.</li>}
+      </ul>
+      {!report.passed && report.smallGroups.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-destructive">
+            These combinations of {report.quasiIdentifiers.join(", ")} have fewer than {report.k} records, so submission
+            is blocked:
+          </p>
+          <ul className="list-disc pl-5 text-muted-foreground">
+            {report.smallGroups.slice(0, 10).map((group) => (
+              <li key={group.description}>
+                {group.description}: {group.size} record(s)
+              </li>
+            ))}
+          </ul>
+          {report.smallGroups.length > 10 && (
+            <p className="text-xs text-muted-foreground">and {report.smallGroups.length - 10} more.</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+"use client"
+
+import { AlertTriangle, CheckCircle } from "lucide-react"
+
+import type { RankedDifferentialDiagnosis } from "@/ai/flows/ai-diagnosis-assistant"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ICD10_STATUS_LABELS } from "@/lib/icd10"
+
+type DifferentialDiagnosisTableProps = {
+  differentials: RankedDifferentialDiagnosis[]
+}
+
+function FindingList({ items }: { items: string[] }) {
+  if (items.length === 0) {
+    return <span className="text-muted-foreground">—</span>
+  }
+  return (
+    <ul className="list-disc space-y-1 pl-4">
+      {items.map((item) => (
+        <li key={item}>{item}</li>
+      ))}
+    </ul>
+  )
+}
+
+export function DifferentialDiagnosisTable({ differentials }: DifferentialDiagnosisTableProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-12">#</TableHead>
+          <TableHead>Condition</TableHead>
+          <TableHead>ICD-10</TableHead>
+          <TableHead className="w-24">Likelihood</TableHead>
+          <TableHead>Supporting</TableHead>
+          <TableHead>Contradicting</TableHead>
+          <TableHead>Investigations</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {differentials.map((differential) => {
+          const verified = differential.icd10.status === "valid"
+          return (
+            <TableRow key={`${differential.rank}-${differential.icd10Code}`} className="align-top">
+              <TableCell className="font-mono">{differential.rank}</TableCell>
+              <TableCell className="font-semibold">{differential.condition}</TableCell>
+              <TableCell>
+                <div className="font-mono">{differential.icd10.code}</div>
+                <Badge
+                  variant={verified ? "secondary" : "destructive"}
+                  className="mt-1 gap-1 whitespace-nowrap"
+                  title={differential.icd10.description}
+                >
+                  {verified ? <CheckCircle className="h-3 w-3" /> : <AlertTriangle className="h-3 w-3" />}
+                  {ICD10_STATUS_LABELS[differential.icd10.status]}
+                </Badge>
+              </TableCell>
+              <TableCell className="font-mono">{(differential.likelihood * 100).toFixed(0)}%</TableCell>
+              <TableCell><FindingList items={differential.supportingFindings} /></TableCell>
+              <TableCell><FindingList items={differential.contradictingFindings} /></TableCell>
+              <TableCell><FindingList items={differential.recommendedInvestigations} /></TableCell>
+            </TableRow>
+          )
+        })}
+      </TableBody>
+    </Table>
+  )
+}
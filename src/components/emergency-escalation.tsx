@@ -0,0 +1,61 @@
+"use client"
+
+import { PhoneCall, Siren } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { EMERGENCY_GUIDANCE, type TriageResult } from "@/lib/triage"
+
+type EmergencyEscalationProps = {
+  triage: TriageResult
+}
+
+/**
+ * Full-width escalation screen shown whenever triage finds an emergency,
+ * regardless of what the AI model concludes.
+ */
+export function EmergencyEscalation({ triage }: EmergencyEscalationProps) {
+  const findings = triage.redFlags.filter((flag) => flag.urgency === "emergency")
+
+  return (
+    <Card role="alert" className="border-2 border-destructive bg-destructive/5">
+      <CardHeader>
+        <div className="flex items-center gap-4">
+          <Siren className="h-12 w-12 flex-shrink-0 animate-pulse text-destructive" />
+          <div>
+            <CardTitle className="font-headline text-2xl text-destructive md:text-3xl">
+              Medical Emergency – Call 108 Now
+            </CardTitle>
+            <CardDescription className="text-base">{triage.advice}</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-2">
+        <div className="space-y-3">
+          <Button asChild size="lg" variant="destructive" className="h-16 w-full text-xl">
+            <a href="tel:108">
+              <PhoneCall className="mr-2 h-6 w-6" />
+              Call 108 Ambulance
+            </a>
+          </Button>
+          <div>
+            <h3 className="font-semibold font-headline">Why this screen is showing</h3>
+            <ul className="mt-2 list-disc space-y-1 pl-5 text-sm">
+              {findings.map((flag) => (
+                <li key={flag.id}>{flag.finding}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+        <div>
+          <h3 className="font-semibold font-headline">While you wait for the ambulance</h3>
+          <ol className="mt-2 list-decimal space-y-1 pl-5 text-sm">
+            {EMERGENCY_GUIDANCE.map((step) => (
+              <li key={step}>{step}</li>
+            ))}
+          </ol>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
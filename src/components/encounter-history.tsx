@@ -0,0 +1,108 @@
+import { Stethoscope, Video } from "lucide-react"
+
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion"
+import { Badge } from "@/components/ui/badge"
+import { ENCOUNTER_TYPE_LABELS, type EncounterRecord } from "@/lib/records/types"
+import { URGENCY_LABELS } from "@/lib/triage"
+import { formatVitals } from "@/lib/vitals"
+
+type EncounterHistoryProps = {
+  records: EncounterRecord[]
+}
+
+function formatDateTime(iso: string) {
+  return new Date(iso).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" })
+}
+
+function headline(record: EncounterRecord) {
+  const diagnosis = record.diagnoses[0]
+  if (diagnosis) return diagnosis.preliminaryDiagnosis
+  const consultation = record.consultations[0]
+  if (consultation) return consultation.summary
+  return "No result recorded"
+}
+
+/** The patient's encounters, newest first, each expandable to what was recorded. */
+export function EncounterHistory({ records }: EncounterHistoryProps) {
+  if (records.length === 0) {
+    return <p className="text-sm text-muted-foreground">No encounters recorded yet.</p>
+  }
+
+  return (
+    <Accordion type="single" collapsible className="w-full">
+      {records.map((record) => {
+        const { encounter } = record
+        const Icon = encounter.type === "ai-diagnosis" ? Stethoscope : Video
+        const urgency = record.diagnoses[0]?.triage.urgency
+        return (
+          <AccordionItem key={encounter.id} value={encounter.id}>
+            <AccordionTrigger className="text-left hover:no-underline">
+              <div className="flex min-w-0 flex-1 items-start gap-3 pr-4">
+                <Icon className="mt-0.5 h-5 w-5 flex-shrink-0 text-primary" />
+                <div className="min-w-0 flex-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold">{ENCOUNTER_TYPE_LABELS[encounter.type]}</span>
+                    {urgency && (
+                      <Badge variant={urgency === "emergency" ? "destructive" : urgency === "urgent" ? "default" : "secondary"}>
+                        {URGENCY_LABELS[urgency]}
+                      </Badge>
+                    )}
+                    <span className="text-xs font-normal text-muted-foreground">
+                      {formatDateTime(encounter.startedAt)} · {encounter.kioskId}
+                    </span>
+                  </div>
+                  <p className="truncate text-sm font-normal text-muted-foreground">{headline(record)}</p>
+                </div>
+              </div>
+            </AccordionTrigger>
+            <AccordionContent className="space-y-4 pl-8">
+              {record.vitals.map((reading) => (
+                <div key={reading.id}>
+                  <h4 className="font-semibold">Vitals</h4>
+                  <p className="whitespace-pre-wrap text-sm text-muted-foreground">{formatVitals(reading.vitals)}</p>
+                </div>
+              ))}
+              {record.diagnoses.map((diagnosis) => (
+                <div key={diagnosis.id} className="space-y-2">
+                  <div>
+                    <h4 className="font-semibold">Symptoms</h4>
+                    <p className="whitespace-pre-wrap text-sm text-muted-foreground">{diagnosis.symptoms}</p>
+                  </div>
+                  <div>
+                    <h4 className="font-semibold">Preliminary Diagnosis</h4>
+                    <p className="text-sm text-muted-foreground">
+                      {diagnosis.preliminaryDiagnosis} ({Math.round(diagnosis.confidenceLevel * 100)}% confidence)
+                    </p>
+                  </div>
+                  {diagnosis.differentialDiagnoses.length > 0 && (
+                    <div>
+                      <h4 className="font-semibold">Differential Diagnoses</h4>
+                      <ol className="list-decimal pl-5 text-sm text-muted-foreground">
+                        {diagnosis.differentialDiagnoses.map((differential) => (
+                          <li key={differential.rank}>
+                            {differential.condition} <span className="font-mono">({differential.icd10.code})</span>
+                          </li>
+                        ))}
+                      </ol>
+                    </div>
+                  )}
+                  <div>
+                    <h4 className="font-semibold">Suggested Treatment Plan</h4>
+                    <p className="text-sm text-muted-foreground">{diagnosis.suggestedTreatmentPlan}</p>
+                  </div>
+                </div>
+              ))}
+              {record.consultations.map((consultation) => (
+                <div key={consultation.id}>
+                  <h4 className="font-semibold">Consultation Summary ({consultation.preferredLanguage})</h4>
+                  <p className="whitespace-pre-wrap text-sm text-muted-foreground">{consultation.summary}</p>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">Recorded by {encounter.recordedBy.username}</p>
+            </AccordionContent>
+          </AccordionItem>
+        )
+      })}
+    </Accordion>
+  )
+}
@@ -0,0 +1,241 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Ban, Loader2, Save, ShieldAlert, Unlock } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { reviewQuarantinedKiosk, updateAggregationSettings } from "@/lib/federated/actions"
+import type { AuditEntry, FederatedClient, FederatedStatus } from "@/lib/federated/coordinator"
+import { AGGREGATION_RULES, AGGREGATION_RULE_LABELS, type AggregationRule } from "@/lib/federated/robust-aggregation"
+
+const AUDIT_LABELS: Record<AuditEntry["action"], string> = {
+  quarantined: "Quarantined",
+  released: "Released",
+  blocked: "Blocked",
+  "rule-changed": "Rule changed",
+  abandoned: "Round abandoned",
+}
+
+/** Administrator controls for the aggregation rule, secure aggregation and kiosks quarantined by anomaly scoring. */
+export function FederatedQuarantineReview({ status, onChange }: { status: FederatedStatus; onChange: () => void }) {
+  const { toast } = useToast()
+  const [rule, setRule] = useState<AggregationRule>(status.settings.rule)
+  const [trimPercent, setTrimPercent] = useState(String(Math.round(status.settings.trimFraction * 100)))
+  const [secureAggregation, setSecureAggregation] = useState(status.settings.secureAggregation)
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [pending, setPending] = useState<string | null>(null)
+
+  useEffect(() => {
+    setRule(status.settings.rule)
+    setTrimPercent(String(Math.round(status.settings.trimFraction * 100)))
+    setSecureAggregation(status.settings.secureAggregation)
+  }, [status.settings.rule, status.settings.trimFraction, status.settings.secureAggregation])
+
+  const quarantined = status.clients.filter(
+    (client): client is FederatedClient & { quarantine: NonNullable<FederatedClient["quarantine"]> } => !!client.quarantine
+  )
+
+  async function saveSettings() {
+    setPending("settings")
+    try {
+      const result = await updateAggregationSettings(status.modelName, {
+        rule,
+        trimFraction: Number(trimPercent) / 100,
+        secureAggregation,
+      })
+      if (!result.ok) {
+        toast({ variant: "destructive", title: "Settings Not Saved", description: result.error })
+        return
+      }
+      toast({
+        title: "Aggregation Updated",
+        description: result.settings.secureAggregation
+          ? "New rounds use secure aggregation and close with FedAvg."
+          : `Rounds now close with ${AGGREGATION_RULE_LABELS[result.settings.rule]}.`,
+      })
+      onChange()
+    } catch (error) {
+      console.error("Aggregation settings error:", error)
+      toast({ variant: "destructive", title: "Error", description: "The settings could not be saved. Please try again." })
+    } finally {
+      setPending(null)
+    }
+  }
+
+  async function review(kioskId: string, decision: "release" | "block") {
+    setPending(`${decision}-${kioskId}`)
+    try {
+      const result = await reviewQuarantinedKiosk(kioskId, decision, notes[kioskId])
+      if (!result.ok) {
+        toast({ variant: "destructive", title: "Review Not Saved", description: result.error })
+        return
+      }
+      toast({
+        title: decision === "release" ? "Kiosk Released" : "Kiosk Blocked",
+        description:
+          decision === "release"
+            ? `${kioskId} can join training rounds again.`
+            : `${kioskId} stays out of training rounds until it is released.`,
+      })
+      setNotes((current) => ({ ...current, [kioskId]: "" }))
+      onChange()
+    } catch (error) {
+      console.error("Quarantine review error:", error)
+      toast({ variant: "destructive", title: "Error", description: "The review could not be saved. Please try again." })
+    } finally {
+      setPending(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-headline flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          Update Screening
+        </CardTitle>
+        <CardDescription>
+          Every update is compared with the round&apos;s consensus before aggregation. Updates that are much larger
+          than the others or point away from them are left out, and their kiosk is quarantined until reviewed. With
+          secure aggregation on, the coordinator only sees the sum of the updates, so rounds close with FedAvg and
+          nothing is screened.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6 text-sm">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="aggregation-rule">Aggregation rule</Label>
+            <Select value={rule} onValueChange={(value) => setRule(value as AggregationRule)} disabled={secureAggregation}>
+              <SelectTrigger id="aggregation-rule" className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AGGREGATION_RULES.map((option) => (
+                  <SelectItem key={option} value={option}>{AGGREGATION_RULE_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {rule === "trimmed-mean" && (
+            <div className="space-y-2">
+              <Label htmlFor="trim-percent">Trim each side (%)</Label>
+              <Input
+                id="trim-percent"
+                type="number"
+                min={0}
+                max={49}
+                className="w-32"
+                value={trimPercent}
+                onChange={(event) => setTrimPercent(event.target.value)}
+              />
+            </div>
+          )}
+          <label className="flex h-10 items-center gap-2">
+            <Switch
+              checked={secureAggregation}
+              onCheckedChange={(checked) => {
+                setSecureAggregation(checked)
+                if (checked) setRule("fedavg")
+              }}
+            />
+            Secure aggregation
+          </label>
+          <Button variant="outline" onClick={saveSettings} disabled={pending !== null}>
+            {pending === "settings" ? <Loader2 className="animate-spin" /> : <Save className="mr-2" />}
+            Save
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="font-semibold font-headline">Quarantined Kiosks</h3>
+          {quarantined.length === 0 ? (
+            <p className="text-muted-foreground">No kiosks are quarantined.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Kiosk</TableHead>
+                  <TableHead>Round</TableHead>
+                  <TableHead>Norm ratio</TableHead>
+                  <TableHead>Cosine distance</TableHead>
+                  <TableHead>Reasons</TableHead>
+                  <TableHead>Note</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {quarantined.map(({ kioskId, quarantine }) => (
+                  <TableRow key={kioskId}>
+                    <TableCell className="font-medium">
+                      {kioskId}
+                      <Badge variant={quarantine.status === "blocked" ? "destructive" : "secondary"} className="ml-2">
+                        {quarantine.status === "blocked" ? "Blocked" : "Pending review"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {quarantine.modelName} #{quarantine.roundNumber}
+                    </TableCell>
+                    <TableCell>
+                      {quarantine.score.normRatio.toFixed(2)}×
+                      {quarantine.score.previousNormRatio !== undefined && (
+                        <span className="block text-xs text-muted-foreground">
+                          {quarantine.score.previousNormRatio.toFixed(2)}× previous round
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>{quarantine.score.cosineDistance.toFixed(2)}</TableCell>
+                    <TableCell className="text-muted-foreground">{quarantine.score.reasons.join(" ")}</TableCell>
+                    <TableCell>
+                      <Input
+                        aria-label={`Review note for ${kioskId}`}
+                        placeholder="Optional"
+                        value={notes[kioskId] ?? ""}
+                        onChange={(event) => setNotes((current) => ({ ...current, [kioskId]: event.target.value }))}
+                      />
+                    </TableCell>
+                    <TableCell className="space-x-2 whitespace-nowrap text-right">
+                      <Button variant="ghost" size="sm" disabled={pending !== null} onClick={() => review(kioskId, "release")}>
+                        {pending === `release-${kioskId}` ? <Loader2 className="animate-spin" /> : <Unlock className="mr-2" />}
+                        Release
+                      </Button>
+                      {quarantine.status === "pending" && (
+                        <Button variant="ghost" size="sm" disabled={pending !== null} onClick={() => review(kioskId, "block")}>
+                          {pending === `block-${kioskId}` ? <Loader2 className="animate-spin" /> : <Ban className="mr-2" />}
+                          Keep blocked
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+
+        {status.audit.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-semibold font-headline">Audit Log</h3>
+            <ul className="space-y-1 text-muted-foreground">
+              {status.audit.map((entry) => (
+                <li key={entry.id}>
+                  {new Date(entry.at).toLocaleString()}: <span className="font-medium text-foreground">{AUDIT_LABELS[entry.action]}</span>
+                  {entry.kioskId && ` ${entry.kioskId}`}
+                  {entry.roundNumber !== undefined && ` (${entry.modelName} round ${entry.roundNumber})`} by {entry.actor}.{" "}
+                  {entry.detail}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,328 @@
+"use client"
+
+import { useState } from "react"
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts"
+import { FlaskConical, Loader2 } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { runFederatedSimulation } from "@/lib/federated/actions"
+import { AGGREGATION_RULES, AGGREGATION_RULE_LABELS, type AggregationRule } from "@/lib/federated/robust-aggregation"
+import type { FederatedSimulationOptions, FederatedSimulationReport } from "@/lib/federated/simulator"
+
+type Settings = Omit<FederatedSimulationOptions, "modelName" | "seed">
+
+const DEFAULT_SETTINGS: Settings = {
+  kiosks: 10,
+  rounds: 15,
+  recordsPerKiosk: 200,
+  featureSkew: 0.5,
+  labelSkew: 0.5,
+  dropoutRate: 0.2,
+  stragglerRate: 0.1,
+  poisonedKiosks: 2,
+  minClients: 3,
+  rules: [...AGGREGATION_RULES],
+  trimFraction: 0.2,
+  screening: false,
+  differentialPrivacy: false,
+}
+
+const CHART_CONFIG = Object.fromEntries(
+  AGGREGATION_RULES.map((rule, i) => [rule, { label: AGGREGATION_RULE_LABELS[rule], color: `hsl(var(--chart-${i + 1}))` }])
+) satisfies ChartConfig
+
+const METRICS = {
+  auc: { label: "AUC", domain: [0.4, 1] as [number, number] },
+  accuracy: { label: "Accuracy", domain: [0, 1] as [number, number] },
+  loss: { label: "Log loss", domain: ["auto", "auto"] as [string, string] },
+}
+type Metric = keyof typeof METRICS
+
+function SettingField({
+  id,
+  label,
+  value,
+  min,
+  max,
+  step = 1,
+  onChange,
+}: {
+  id: string
+  label: string
+  value: number
+  min: number
+  max: number
+  step?: number
+  onChange: (value: number) => void
+}) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(event) => onChange(Math.min(max, Math.max(min, Number(event.target.value) || min)))}
+      />
+    </div>
+  )
+}
+
+/** Chart rows: one per round, one column per aggregation rule. */
+function curve(report: FederatedSimulationReport, metric: Metric) {
+  const rounds = report.strategies[0]?.rounds ?? []
+  return rounds.map((_, i) => ({
+    round: i,
+    ...Object.fromEntries(report.strategies.map((strategy) => [strategy.rule, strategy.rounds[i][metric]])),
+  }))
+}
+
+/** Runs federated training with many virtual kiosks and charts how each aggregation rule converges. */
+export function FederatedSimulation({ modelName }: { modelName: string }) {
+  const { toast } = useToast()
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS)
+  const [seed, setSeed] = useState("")
+  const [metric, setMetric] = useState<Metric>("auc")
+  const [report, setReport] = useState<FederatedSimulationReport | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  function update<K extends keyof Settings>(key: K, value: Settings[K]) {
+    setSettings((current) => ({ ...current, [key]: value }))
+  }
+
+  function toggleRule(rule: AggregationRule, checked: boolean) {
+    update("rules", checked ? AGGREGATION_RULES.filter((entry) => entry === rule || settings.rules.includes(entry)) : settings.rules.filter((entry) => entry !== rule))
+  }
+
+  async function run() {
+    setIsLoading(true)
+    try {
+      const result = await runFederatedSimulation({ ...settings, modelName, seed: seed === "" ? undefined : Number(seed) })
+      if (!result.ok) {
+        toast({ variant: "destructive", title: "Cannot Run Simulation", description: result.error })
+        return
+      }
+      setReport(result.report)
+    } catch (error) {
+      console.error("Federated simulation error:", error)
+      toast({ variant: "destructive", title: "Error", description: "The simulation failed. Please try again." })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-headline">Federated Simulation</CardTitle>
+        <CardDescription>
+          Train {modelName} with virtual kiosks whose synthetic patients differ from kiosk to kiosk, with kiosks dropping
+          out, arriving late or flipping their labels. Every aggregation rule sees the same kiosks and schedule, and is
+          scored on the same test set after each round. Simulations do not touch the real rounds or registry.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-3 lg:grid-cols-6">
+          <SettingField id="sim-kiosks" label="Kiosks" value={settings.kiosks} min={2} max={50} onChange={(value) => update("kiosks", value)} />
+          <SettingField id="sim-rounds" label="Rounds" value={settings.rounds} min={1} max={50} onChange={(value) => update("rounds", value)} />
+          <SettingField
+            id="sim-records"
+            label="Records per kiosk"
+            value={settings.recordsPerKiosk}
+            min={20}
+            max={1000}
+            step={10}
+            onChange={(value) => update("recordsPerKiosk", value)}
+          />
+          <SettingField
+            id="sim-min-clients"
+            label="Updates per round"
+            value={settings.minClients}
+            min={1}
+            max={settings.kiosks}
+            onChange={(value) => update("minClients", value)}
+          />
+          <SettingField
+            id="sim-poisoned"
+            label="Label-flipping kiosks"
+            value={settings.poisonedKiosks}
+            min={0}
+            max={settings.kiosks - 1}
+            onChange={(value) => update("poisonedKiosks", value)}
+          />
+          <div className="space-y-2">
+            <Label htmlFor="sim-seed">Seed</Label>
+            <Input
+              id="sim-seed"
+              inputMode="numeric"
+              placeholder="Random"
+              value={seed}
+              onChange={(event) => setSeed(event.target.value.replace(/\D/g, ""))}
+            />
+          </div>
+          <SettingField
+            id="sim-feature-skew"
+            label="Feature skew (%)"
+            value={Math.round(settings.featureSkew * 100)}
+            min={0}
+            max={100}
+            step={5}
+            onChange={(value) => update("featureSkew", value / 100)}
+          />
+          <SettingField
+            id="sim-label-skew"
+            label="Label skew (%)"
+            value={Math.round(settings.labelSkew * 100)}
+            min={0}
+            max={100}
+            step={5}
+            onChange={(value) => update("labelSkew", value / 100)}
+          />
+          <SettingField
+            id="sim-dropout"
+            label="Dropout rate (%)"
+            value={Math.round(settings.dropoutRate * 100)}
+            min={0}
+            max={90}
+            step={5}
+            onChange={(value) => update("dropoutRate", value / 100)}
+          />
+          <SettingField
+            id="sim-stragglers"
+            label="Straggler rate (%)"
+            value={Math.round(settings.stragglerRate * 100)}
+            min={0}
+            max={90}
+            step={5}
+            onChange={(value) => update("stragglerRate", value / 100)}
+          />
+          <SettingField
+            id="sim-trim"
+            label="Trim each side (%)"
+            value={Math.round(settings.trimFraction * 100)}
+            min={0}
+            max={49}
+            onChange={(value) => update("trimFraction", value / 100)}
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-6 text-sm">
+          {AGGREGATION_RULES.map((rule) => (
+            <label key={rule} className="flex items-center gap-2">
+              <Checkbox checked={settings.rules.includes(rule)} onCheckedChange={(checked) => toggleRule(rule, checked === true)} />
+              {AGGREGATION_RULE_LABELS[rule]}
+            </label>
+          ))}
+          <label className="flex items-center gap-2">
+            <Switch checked={settings.screening} onCheckedChange={(checked) => update("screening", checked)} />
+            Screen and quarantine outliers
+          </label>
+          <label className="flex items-center gap-2">
+            <Switch checked={settings.differentialPrivacy} onCheckedChange={(checked) => update("differentialPrivacy", checked)} />
+            Differential privacy
+          </label>
+        </div>
+
+        {report && (
+          <div className="space-y-4 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="secondary">Seed {report.seed}</Badge>
+              <Badge variant="outline">{report.testRecords} test records</Badge>
+              <Badge variant="outline">Reference AUC {report.reference.auc.toFixed(3)}</Badge>
+              <div className="ml-auto flex gap-1">
+                {(Object.keys(METRICS) as Metric[]).map((key) => (
+                  <Button key={key} size="sm" variant={metric === key ? "secondary" : "ghost"} onClick={() => setMetric(key)}>
+                    {METRICS[key].label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <ChartContainer config={CHART_CONFIG} className="aspect-auto h-72 w-full">
+              <LineChart data={curve(report, metric)} margin={{ left: 4, right: 12, top: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="round" tickLine={false} axisLine={false} />
+                <YAxis domain={METRICS[metric].domain} tickLine={false} axisLine={false} width={40} tickFormatter={(value: number) => value.toFixed(2)} />
+                {metric !== "loss" && (
+                  <ReferenceLine y={report.reference[metric]} strokeDasharray="4 4" label={{ value: "Reference", position: "insideBottomRight" }} />
+                )}
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `Round ${payload?.[0]?.payload.round ?? ""}`} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {report.strategies.map((strategy) => (
+                  <Line key={strategy.rule} dataKey={strategy.rule} type="monotone" stroke={`var(--color-${strategy.rule})`} strokeWidth={2} dot={false} />
+                ))}
+              </LineChart>
+            </ChartContainer>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Final AUC</TableHead>
+                  <TableHead>Final accuracy</TableHead>
+                  <TableHead>Rounds aggregated</TableHead>
+                  <TableHead>Updates left out</TableHead>
+                  <TableHead>Quarantined</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.strategies.map((strategy) => (
+                  <TableRow key={strategy.rule}>
+                    <TableCell className="font-medium">{AGGREGATION_RULE_LABELS[strategy.rule]}</TableCell>
+                    <TableCell>{strategy.final.auc.toFixed(3)}</TableCell>
+                    <TableCell>{(strategy.final.accuracy * 100).toFixed(1)}%</TableCell>
+                    <TableCell>
+                      {strategy.rounds.filter((round) => round.aggregated).length} of {strategy.rounds.length - 1}
+                    </TableCell>
+                    <TableCell>{strategy.rounds.reduce((sum, round) => sum + round.rejected, 0)}</TableCell>
+                    <TableCell>
+                      {strategy.quarantined.length === 0
+                        ? "—"
+                        : strategy.quarantined
+                            .map((kioskId) => `${kioskId}${report.kiosks.find((kiosk) => kiosk.kioskId === kioskId)?.poisoned ? " (attacker)" : ""}`)
+                            .join(", ")}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <p className="text-muted-foreground">
+              Outcome rates across kiosks range from{" "}
+              {(Math.min(...report.kiosks.map((kiosk) => kiosk.positiveRate)) * 100).toFixed(0)}% to{" "}
+              {(Math.max(...report.kiosks.map((kiosk) => kiosk.positiveRate)) * 100).toFixed(0)}%. Dropouts and stragglers
+              per round:{" "}
+              {report.strategies[0]?.rounds
+                .slice(1)
+                .map((round) => `${round.dropped}/${round.stragglers}`)
+                .join(", ")}
+              .
+            </p>
+          </div>
+        )}
+      </CardContent>
+      <CardFooter>
+        <Button onClick={run} disabled={isLoading || settings.rules.length === 0}>
+          {isLoading ? <Loader2 className="animate-spin" /> : <FlaskConical className="mr-2" />}
+          Run Simulation
+        </Button>
+      </CardFooter>
+    </Card>
+  )
+}
@@ -0,0 +1,66 @@
+"use client"
+
+import { useState } from "react"
+import { FileJson, Loader2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { useToast } from "@/hooks/use-toast"
+import { exportEncounterAsFhir } from "@/lib/records/actions"
+
+type FhirDownloadButtonProps = {
+  /** The saved encounter; the button is disabled when saving failed. */
+  encounterId?: string
+}
+
+/** Downloads the encounter as an ABDM FHIR document, once it has passed the profile checks. */
+export function FhirDownloadButton({ encounterId }: FhirDownloadButtonProps) {
+  const { toast } = useToast()
+  const [isLoading, setIsLoading] = useState(false)
+
+  async function onDownload() {
+    if (!encounterId) return
+    setIsLoading(true)
+    try {
+      const result = await exportEncounterAsFhir(encounterId)
+      if (!result.ok) {
+        toast({
+          variant: "destructive",
+          title: "Export Failed",
+          description: [result.error, result.issues?.[0]?.message].filter(Boolean).join(" "),
+        })
+        return
+      }
+      const url = URL.createObjectURL(new Blob([result.json], { type: "application/fhir+json" }))
+      const link = document.createElement("a")
+      link.href = url
+      link.download = result.fileName
+      link.click()
+      URL.revokeObjectURL(url)
+      if (result.warnings.length > 0) {
+        toast({
+          title: "Downloaded with Warnings",
+          description: result.warnings.map((warning) => warning.message).join(" "),
+        })
+      }
+    } catch (error) {
+      console.error("FHIR export error:", error)
+      toast({ variant: "destructive", title: "Error", description: "Failed to export the record. Please try again." })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Button
+      type="button"
+      variant="outline"
+      size="sm"
+      onClick={onDownload}
+      disabled={!encounterId || isLoading}
+      title={encounterId ? undefined : "The encounter was not saved, so it cannot be exported."}
+    >
+      {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileJson className="mr-2 h-4 w-4" />}
+      Download FHIR Record
+    </Button>
+  )
+}
@@ -0,0 +1,44 @@
+import { Badge } from "@/components/ui/badge"
+import type { ReadableDocument } from "@/lib/abdm/fhir-reader"
+
+function formatDate(iso: string) {
+  const date = new Date(iso)
+  return Number.isNaN(date.getTime()) ? iso : date.toLocaleDateString("en-IN", { dateStyle: "medium" })
+}
+
+/** A record from another facility, section by section, with abnormal results flagged. */
+export function HealthRecordDocument({ document }: { document: ReadableDocument }) {
+  if (document.sections.length === 0) {
+    return <p className="text-sm text-muted-foreground">This record has no entries the kiosk can show.</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      {document.author && <p className="text-sm text-muted-foreground">Recorded by {document.author}</p>}
+      {document.sections.map((section, sectionIndex) => (
+        <div key={`${section.title}-${sectionIndex}`}>
+          <h4 className="text-sm font-semibold">{section.title}</h4>
+          <ul className="divide-y">
+            {section.items.map((item, itemIndex) => (
+              <li key={itemIndex} className="flex justify-between gap-4 py-2">
+                <div className="min-w-0">
+                  <p className="font-medium">{item.label}</p>
+                  {item.details.map((detail, detailIndex) => (
+                    <p key={detailIndex} className="whitespace-pre-wrap text-sm text-muted-foreground">
+                      {detail}
+                    </p>
+                  ))}
+                </div>
+                <div className="shrink-0 space-y-1 text-right">
+                  {item.value && <p className={item.abnormal ? "font-semibold text-destructive" : "font-semibold"}>{item.value}</p>}
+                  {item.flag && <Badge variant={item.abnormal ? "destructive" : "secondary"}>{item.flag}</Badge>}
+                  {item.date && <p className="text-xs text-muted-foreground">{formatDate(item.date)}</p>}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  )
+}
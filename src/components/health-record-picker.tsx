@@ -0,0 +1,97 @@
+"use client"
+
+import { useState } from "react"
+import { FileHeart, Loader2 } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { usePermission, useSession } from "@/hooks/use-session"
+import { listReceivedHealthRecords, type ReceivedHealthRecord } from "@/lib/abdm/actions"
+import { documentAsText } from "@/lib/abdm/fhir-reader"
+import { HI_TYPE_LABELS } from "@/lib/abdm/health-information"
+
+type HealthRecordPickerProps = {
+  /** What the record will be used as, e.g. "Medical History". */
+  target: string
+  /** Receives the record as plain text. */
+  onPick: (text: string) => void
+}
+
+/**
+ * Lets the patient add a record another facility shared through ABDM to an
+ * AI flow's input. Hidden when no registered patient is checked in, since
+ * only they can have records from ABDM.
+ */
+export function HealthRecordPicker({ target, onPick }: HealthRecordPickerProps) {
+  const { patient } = useSession()
+  const canView = usePermission("health-records:view")
+  const [open, setOpen] = useState(false)
+  const [records, setRecords] = useState<ReceivedHealthRecord[] | null>(null)
+
+  async function onOpenChange(next: boolean) {
+    setOpen(next)
+    if (!next) return
+    setRecords(null)
+    try {
+      setRecords(await listReceivedHealthRecords())
+    } catch (error) {
+      console.error("Could not load the health records:", error)
+      setRecords([])
+    }
+  }
+
+  function pick(record: ReceivedHealthRecord) {
+    onPick(documentAsText(record.document, record.hipName ?? record.hipId))
+    setOpen(false)
+  }
+
+  if (!canView || !patient || patient.walkIn) {
+    return null
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="link" size="sm" className="h-auto p-0">
+          <FileHeart className="mr-1 h-4 w-4" />
+          Add from Health Records
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Add a Record to {target}</DialogTitle>
+          <DialogDescription>Records other facilities have shared with this kiosk through ABDM.</DialogDescription>
+        </DialogHeader>
+        {records === null ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : records.length === 0 ? (
+          <p className="py-4 text-sm text-muted-foreground">
+            No records have been received yet. Request them from the ABDM Integration page.
+          </p>
+        ) : (
+          <ul className="max-h-96 divide-y overflow-y-auto pr-3">
+            {records.map((record) => (
+              <li key={record.id} className="flex items-center justify-between gap-4 py-3">
+                <div className="min-w-0">
+                  <p className="font-medium">{record.document.title}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {record.hipName ?? record.hipId}
+                    {record.document.date &&
+                      `, ${new Date(record.document.date).toLocaleDateString("en-IN", { dateStyle: "medium" })}`}
+                  </p>
+                  {record.document.kind && <Badge variant="secondary">{HI_TYPE_LABELS[record.document.kind]}</Badge>}
+                </div>
+                <Button type="button" size="sm" variant="outline" onClick={() => pick(record)}>
+                  Add
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,267 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { FileDown, Loader2, RefreshCw } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { listPatientRecordRequests, requestPatientRecords, type PatientRecordRequest } from "@/lib/abdm/actions"
+import {
+  CONSENT_REQUEST_PURPOSES,
+  CONSENT_REQUEST_PURPOSE_LABELS,
+  CONSENT_REQUEST_STATUS_LABELS,
+  DEFAULT_RETENTION_DAYS,
+  HI_TYPES,
+  HI_TYPE_LABELS,
+  HealthRecordRequestFormSchema,
+  type ConsentRequestStatus,
+  type HealthRecordRequestForm,
+} from "@/lib/abdm/health-information"
+
+const STATUS_VARIANTS: Record<ConsentRequestStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  requested: "secondary",
+  granted: "default",
+  denied: "destructive",
+  expired: "outline",
+  revoked: "destructive",
+}
+
+/** How often to check on requests the patient has not answered yet. */
+const POLL_INTERVAL_MS = 3000
+
+function day(offsetDays: number) {
+  return new Date(Date.now() + offsetDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+}
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString("en-IN", { dateStyle: "medium" })
+}
+
+/**
+ * Requests the linked patient's records from other facilities through ABDM
+ * and follows each request: the patient approves it in their PHR app, and
+ * the records arrive once they do.
+ */
+export function HealthRecordRequests() {
+  const { toast } = useToast()
+  const [requests, setRequests] = useState<PatientRecordRequest[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isRefreshing, setIsRefreshing] = useState(false)
+
+  const form = useForm<HealthRecordRequestForm>({
+    resolver: zodResolver(HealthRecordRequestFormSchema),
+    defaultValues: {
+      purpose: "CAREMGT",
+      hiTypes: ["OPConsultation", "Prescription", "DiagnosticReport"],
+      from: day(-365),
+      to: day(0),
+      eraseAt: day(DEFAULT_RETENTION_DAYS),
+    },
+  })
+
+  const refresh = useCallback(async () => {
+    setIsRefreshing(true)
+    try {
+      setRequests(await listPatientRecordRequests())
+    } catch (error) {
+      console.error("Could not load the record requests:", error)
+    } finally {
+      setIsRefreshing(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const awaitingPatient = requests.some((request) => request.status === "requested")
+  useEffect(() => {
+    if (!awaitingPatient) return
+    const timer = setInterval(refresh, POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [awaitingPatient, refresh])
+
+  async function onSubmit(values: HealthRecordRequestForm) {
+    setIsLoading(true)
+    try {
+      const result = await requestPatientRecords(values)
+      if (!result.ok) {
+        toast({ variant: "destructive", title: "Request Not Sent", description: result.error })
+        return
+      }
+      toast({ title: "Consent Requested", description: "Ask the patient to approve the request in their ABHA app." })
+      setRequests((current) => [result.request, ...current])
+    } catch (error) {
+      console.error("Record request error:", error)
+      toast({ variant: "destructive", title: "Error", description: "Failed to send the request. Please try again." })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-8">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <FormField
+            control={form.control}
+            name="purpose"
+            render={({ field }) => (
+              <FormItem className="max-w-sm">
+                <FormLabel>Purpose</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {CONSENT_REQUEST_PURPOSES.map((purpose) => (
+                      <SelectItem key={purpose} value={purpose}>
+                        {CONSENT_REQUEST_PURPOSE_LABELS[purpose]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="hiTypes"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Records requested</FormLabel>
+                <div className="grid gap-2 sm:grid-cols-2">
+                  {HI_TYPES.map((hiType) => (
+                    <label key={hiType} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={field.value?.includes(hiType)}
+                        onCheckedChange={(checked) =>
+                          field.onChange(
+                            checked
+                              ? HI_TYPES.filter((entry) => entry === hiType || field.value?.includes(entry))
+                              : field.value?.filter((entry) => entry !== hiType)
+                          )
+                        }
+                      />
+                      {HI_TYPE_LABELS[hiType]}
+                    </label>
+                  ))}
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <FormField
+              control={form.control}
+              name="from"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Records from</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="to"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Records to</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="eraseAt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Erase copies on</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <Button type="submit" disabled={isLoading}>
+            {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileDown className="mr-2 h-4 w-4" />}
+            Request Records
+          </Button>
+        </form>
+      </Form>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold">Requests</h3>
+          <Button variant="ghost" size="sm" onClick={refresh} disabled={isRefreshing}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isRefreshing ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+        {requests.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No records have been requested for this patient.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Requested</TableHead>
+                <TableHead>Records</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Received</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {requests.map((request) => (
+                <TableRow key={request.id}>
+                  <TableCell>
+                    {formatDate(request.createdAt)}
+                    <div className="text-xs text-muted-foreground">{CONSENT_REQUEST_PURPOSE_LABELS[request.purpose]}</div>
+                  </TableCell>
+                  <TableCell className="text-sm">{request.hiTypes.map((hiType) => HI_TYPE_LABELS[hiType]).join(", ")}</TableCell>
+                  <TableCell className="text-sm">
+                    {formatDate(request.dateRange.from)} – {formatDate(request.dateRange.to)}
+                    <div className="text-xs text-muted-foreground">Erased {formatDate(request.dataEraseAt)}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[request.status]}>{CONSENT_REQUEST_STATUS_LABELS[request.status]}</Badge>
+                    <div className="mt-1 text-xs text-muted-foreground">{request.history[request.history.length - 1]?.detail}</div>
+                    {request.artefacts.some((artefact) => artefact.hipName) && (
+                      <div className="text-xs text-muted-foreground">
+                        {request.artefacts.map((artefact) => artefact.hipName ?? artefact.hipId ?? "Unknown facility").join(", ")}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{request.recordCount}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  )
+}
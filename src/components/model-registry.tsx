@@ -0,0 +1,282 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { GitCompare, Loader2, Rocket, Undo2 } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { usePermission } from "@/hooks/use-session"
+import {
+  compareModelVersions,
+  loadModelRegistry,
+  promoteVersion,
+  rollbackProduction,
+  type ModelRegistryView,
+  type RegistryActionResult,
+} from "@/lib/federated/actions"
+import type { ModelVersionDiff } from "@/lib/federated/registry"
+
+const METRIC_LABELS: Record<string, string> = {
+  accuracy: "Accuracy",
+  auc: "AUC",
+  precision: "Precision",
+  recall: "Recall",
+  loss: "Log loss",
+}
+
+function signed(value: number | null, digits = 3) {
+  if (value === null) return "—"
+  return `${value >= 0 ? "+" : ""}${value.toFixed(digits)}`
+}
+
+/** Registered versions of a federated model, with promotion, rollback and comparison. */
+export function ModelRegistry({ modelName, latestVersion }: { modelName: string; latestVersion: number }) {
+  const { toast } = useToast()
+  const canManage = usePermission("federated:coordinate")
+  const [registry, setRegistry] = useState<ModelRegistryView | null>(null)
+  const [pending, setPending] = useState<string | null>(null)
+  const [compareFrom, setCompareFrom] = useState<string>("")
+  const [compareTo, setCompareTo] = useState<string>("")
+  const [diff, setDiff] = useState<ModelVersionDiff | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      setRegistry(await loadModelRegistry(modelName))
+    } catch (error) {
+      console.error("Model registry error:", error)
+    }
+  }, [modelName])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh, latestVersion])
+
+  useEffect(() => {
+    setDiff(null)
+    setCompareFrom("")
+    setCompareTo("")
+  }, [modelName])
+
+  async function applyChange(key: string, change: () => Promise<RegistryActionResult>) {
+    setPending(key)
+    try {
+      const result = await change()
+      if (!result.ok) {
+        toast({ variant: "destructive", title: "Registry Not Updated", description: result.error })
+        return
+      }
+      const { event } = result
+      toast({
+        title: event.action === "promote" ? "Version Promoted" : "Rolled Back",
+        description: `Kiosks now use ${event.modelName} v${event.version} for inference.`,
+      })
+      await refresh()
+    } catch (error) {
+      console.error("Model registry error:", error)
+      toast({ variant: "destructive", title: "Error", description: "The registry could not be updated. Please try again." })
+    } finally {
+      setPending(null)
+    }
+  }
+
+  async function compare() {
+    setPending("compare")
+    try {
+      setDiff(await compareModelVersions(modelName, Number(compareFrom), Number(compareTo)))
+    } catch (error) {
+      console.error("Model comparison error:", error)
+      toast({ variant: "destructive", title: "Error", description: "Failed to compare the versions." })
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const versions = registry?.versions ?? []
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="font-headline">Model Registry</CardTitle>
+            <CardDescription>
+              Every aggregated round is registered as a new version. Kiosks score patients with the version in
+              production, which only changes when an administrator promotes or rolls back.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            {registry?.productionVersion ? (
+              <Badge>Production: v{registry.productionVersion}</Badge>
+            ) : (
+              <Badge variant="outline">Nothing in production</Badge>
+            )}
+            {canManage && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!registry?.canRollback || pending !== null}
+                onClick={() => applyChange("rollback", () => rollbackProduction(modelName))}
+              >
+                {pending === "rollback" ? <Loader2 className="animate-spin" /> : <Undo2 className="mr-2" />}
+                Roll Back
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No versions yet. A version is registered when a round is aggregated.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Round</TableHead>
+                <TableHead>Kiosks</TableHead>
+                <TableHead>Records</TableHead>
+                <TableHead>Accuracy</TableHead>
+                <TableHead>AUC</TableHead>
+                <TableHead>Hash</TableHead>
+                <TableHead>Registered</TableHead>
+                {canManage && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {versions.map((version) => (
+                <TableRow key={version.version}>
+                  <TableCell className="font-medium">
+                    v{version.version}
+                    {version.version === registry?.productionVersion && <Badge className="ml-2">Production</Badge>}
+                  </TableCell>
+                  <TableCell>{version.roundNumber}</TableCell>
+                  <TableCell title={version.contributors.join(", ")}>{version.contributors.length}</TableCell>
+                  <TableCell>{version.totalExamples}</TableCell>
+                  <TableCell>
+                    {version.metrics.after ? `${(version.metrics.after.accuracy * 100).toFixed(1)}%` : "—"}
+                  </TableCell>
+                  <TableCell>{version.metrics.after?.auc.toFixed(3) ?? "—"}</TableCell>
+                  <TableCell className="font-code text-xs" title={version.hash}>{version.hash.slice(0, 12)}</TableCell>
+                  <TableCell>{new Date(version.createdAt).toLocaleString()}</TableCell>
+                  {canManage && (
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={version.version === registry?.productionVersion || pending !== null}
+                        onClick={() => applyChange(`promote-${version.version}`, () => promoteVersion(modelName, version.version))}
+                      >
+                        {pending === `promote-${version.version}` ? <Loader2 className="animate-spin" /> : <Rocket className="mr-2" />}
+                        Promote
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {versions.length > 1 && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-2">
+              <Select value={compareFrom} onValueChange={setCompareFrom}>
+                <SelectTrigger className="w-32">
+                  <SelectValue placeholder="From" />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((version) => (
+                    <SelectItem key={version.version} value={String(version.version)}>v{version.version}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={compareTo} onValueChange={setCompareTo}>
+                <SelectTrigger className="w-32">
+                  <SelectValue placeholder="To" />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((version) => (
+                    <SelectItem key={version.version} value={String(version.version)}>v{version.version}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                onClick={compare}
+                disabled={!compareFrom || !compareTo || compareFrom === compareTo || pending !== null}
+              >
+                {pending === "compare" ? <Loader2 className="animate-spin" /> : <GitCompare className="mr-2" />}
+                Compare
+              </Button>
+            </div>
+            {diff && (
+              <div className="grid gap-4 md:grid-cols-2 text-sm">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Metric</TableHead>
+                      <TableHead>v{diff.from}</TableHead>
+                      <TableHead>v{diff.to}</TableHead>
+                      <TableHead>Change</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {diff.metrics.map((metric) => (
+                      <TableRow key={metric.key}>
+                        <TableCell className="font-medium">{METRIC_LABELS[metric.key] ?? metric.key}</TableCell>
+                        <TableCell>{metric.from?.toFixed(3) ?? "—"}</TableCell>
+                        <TableCell>{metric.to?.toFixed(3) ?? "—"}</TableCell>
+                        <TableCell>{signed(metric.change)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <div className="space-y-2">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Parameter</TableHead>
+                        <TableHead>Weight change</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {diff.weights.map((weight) => (
+                        <TableRow key={weight.parameter}>
+                          <TableCell>{weight.parameter}</TableCell>
+                          <TableCell className="font-code">{signed(weight.change, 4)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  <p className="text-muted-foreground">
+                    Kiosks joining: {diff.contributorsAdded.join(", ") || "none"}. Kiosks leaving:{" "}
+                    {diff.contributorsRemoved.join(", ") || "none"}.
+                  </p>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {registry && registry.events.length > 0 && (
+          <div className="space-y-2 text-sm">
+            <h3 className="font-semibold font-headline">Production History</h3>
+            <ul className="space-y-1 text-muted-foreground">
+              {registry.events.map((event) => (
+                <li key={`${event.at}-${event.version}`}>
+                  {new Date(event.at).toLocaleString()}: {event.actor}{" "}
+                  {event.action === "promote" ? "promoted" : "rolled back to"} v{event.version}
+                  {event.previousVersion !== null && ` (was v${event.previousVersion})`}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
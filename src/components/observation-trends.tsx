@@ -0,0 +1,77 @@
+"use client"
+
+import { useState } from "react"
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { ObservationSeries } from "@/lib/abdm/fhir-reader"
+
+function formatDay(iso: string) {
+  return new Date(iso).toLocaleDateString("en-IN", { day: "numeric", month: "short", year: "2-digit" })
+}
+
+/** Chart config keys must be CSS-safe, so each line is keyed by its position. */
+function chartFor(series: ObservationSeries) {
+  const config = Object.fromEntries(
+    series.lines.map((line, i) => [`line${i}`, { label: line, color: `hsl(var(--chart-${(i % 5) + 1}))` }])
+  ) satisfies ChartConfig
+  const data = series.points.map((point) => ({
+    at: point.at,
+    ...Object.fromEntries(series.lines.map((line, i) => [`line${i}`, point[line]])),
+  }))
+  return { config, data }
+}
+
+/** Plots one test at a time across every record received, e.g. blood pressure or fasting glucose. */
+export function ObservationTrends({ series }: { series: ObservationSeries[] }) {
+  const [code, setCode] = useState(series[0]?.code ?? "")
+  const selected = series.find((candidate) => candidate.code === code) ?? series[0]
+
+  if (!selected) {
+    return <p className="text-sm text-muted-foreground">The records received so far have no measurements to plot.</p>
+  }
+  const { config, data } = chartFor(selected)
+
+  return (
+    <div className="space-y-4">
+      <Select value={selected.code} onValueChange={setCode}>
+        <SelectTrigger className="w-full sm:w-72">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {series.map((candidate) => (
+            <SelectItem key={candidate.code} value={candidate.code}>
+              {candidate.name} ({candidate.points.length})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <ChartContainer config={config} className="aspect-auto h-64 w-full">
+        <LineChart data={data} margin={{ left: 4, right: 12, top: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="at" tickLine={false} axisLine={false} tickFormatter={formatDay} />
+          <YAxis
+            domain={["auto", "auto"]}
+            tickLine={false}
+            axisLine={false}
+            width={48}
+            label={selected.unit ? { value: selected.unit, angle: -90, position: "insideLeft" } : undefined}
+          />
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => formatDay(payload?.[0]?.payload.at ?? "")} />} />
+          {selected.lines.length > 1 && <ChartLegend content={<ChartLegendContent />} />}
+          {selected.lines.map((_, i) => (
+            <Line key={i} dataKey={`line${i}`} type="monotone" stroke={`var(--color-line${i})`} strokeWidth={2} connectNulls />
+          ))}
+        </LineChart>
+      </ChartContainer>
+    </div>
+  )
+}
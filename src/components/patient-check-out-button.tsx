@@ -0,0 +1,37 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Loader2, LogOut } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { useToast } from "@/hooks/use-toast"
+import { checkOutPatient } from "@/lib/records/actions"
+
+/** Ends the patient's visit so the next person's encounters aren't saved to their record. */
+export function PatientCheckOutButton() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [isLoading, setIsLoading] = useState(false)
+
+  async function handleCheckOut() {
+    setIsLoading(true)
+    try {
+      await checkOutPatient()
+      toast({ title: "Checked Out", description: "The kiosk is ready for the next patient." })
+      router.push("/dashboard")
+      router.refresh()
+    } catch (error) {
+      console.error("Check-out error:", error)
+      toast({ variant: "destructive", title: "Error", description: "Failed to check the patient out. Please try again." })
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Button variant="outline" onClick={handleCheckOut} disabled={isLoading}>
+      {isLoading ? <Loader2 className="animate-spin" /> : <LogOut className="mr-2" />}
+      Check Out
+    </Button>
+  )
+}
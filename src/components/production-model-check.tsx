@@ -0,0 +1,111 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Activity, Loader2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { scoreRecord } from "@/lib/federated/actions"
+import type { ModelScore } from "@/lib/federated/inference"
+import type { FederatedModelDefinition } from "@/lib/federated/models"
+
+/** Scores one set of measurements with the model version the registry has in production. */
+export function ProductionModelCheck({ model }: { model: FederatedModelDefinition }) {
+  const { toast } = useToast()
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [score, setScore] = useState<ModelScore | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    setValues({})
+    setScore(null)
+  }, [model.name])
+
+  async function check() {
+    setIsLoading(true)
+    try {
+      const record = Object.fromEntries(
+        model.features.map((feature) => {
+          const value = values[feature.key] ?? ""
+          return [feature.key, feature.kind === "number" && value !== "" ? Number(value) : value]
+        })
+      )
+      const result = await scoreRecord(model.name, record)
+      if (!result.ok) {
+        toast({ variant: "destructive", title: "Cannot Score", description: result.error })
+        return
+      }
+      setScore(result.score)
+    } catch (error) {
+      console.error("Production model error:", error)
+      toast({ variant: "destructive", title: "Error", description: "Failed to score the measurements. Please try again." })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-headline">Production Model</CardTitle>
+        <CardDescription>Try the version kiosks currently use on a set of measurements.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          {model.features.map((feature) => (
+            <div key={feature.key} className="space-y-2">
+              <Label htmlFor={`score-${feature.key}`}>
+                {feature.label}
+                {feature.kind === "number" && feature.unit ? ` (${feature.unit})` : ""}
+              </Label>
+              {feature.kind === "category" ? (
+                <Select
+                  value={values[feature.key] ?? ""}
+                  onValueChange={(value) => setValues((current) => ({ ...current, [feature.key]: value }))}
+                >
+                  <SelectTrigger id={`score-${feature.key}`}>
+                    <SelectValue placeholder="Select" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.keys(feature.categories).map((category) => (
+                      <SelectItem key={category} value={category} className="capitalize">{category}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  id={`score-${feature.key}`}
+                  type="number"
+                  min={feature.min}
+                  max={feature.max}
+                  value={values[feature.key] ?? ""}
+                  onChange={(event) => setValues((current) => ({ ...current, [feature.key]: event.target.value }))}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+        {score && (
+          <div className="rounded-md bg-muted p-3 text-sm">
+            <p className="font-semibold">
+              {model.label.label}: {(score.probability * 100).toFixed(1)}% risk
+            </p>
+            <p className="text-muted-foreground">
+              Scored with v{score.version} ({score.hash.slice(0, 12)}).
+            </p>
+          </div>
+        )}
+      </CardContent>
+      <CardFooter>
+        <Button variant="outline" onClick={check} disabled={isLoading}>
+          {isLoading ? <Loader2 className="animate-spin" /> : <Activity className="mr-2" />}
+          Score
+        </Button>
+      </CardFooter>
+    </Card>
+  )
+}
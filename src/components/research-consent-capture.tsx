@@ -0,0 +1,204 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { FileSignature, Loader2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { grantResearchConsent } from "@/lib/records/actions"
+import {
+  CONSENT_DURATIONS,
+  CONSENT_PURPOSES,
+  CONSENT_SCOPES,
+  CONSENT_TEXT_VERSION,
+  ResearchConsentFormSchema,
+  consentText,
+  type ResearchConsentForm,
+} from "@/lib/records/consent"
+import { KIOSK_LANGUAGES } from "@/lib/records/patients"
+
+/**
+ * Shows the consent text in the patient's language and records what they
+ * agree to. Staff-facing controls stay in English; everything the patient
+ * reads or agrees to follows the chosen language.
+ */
+export function ResearchConsentCapture({ preferredLanguage }: { preferredLanguage?: string }) {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [isLoading, setIsLoading] = useState(false)
+
+  const form = useForm<ResearchConsentForm>({
+    resolver: zodResolver(ResearchConsentFormSchema),
+    defaultValues: {
+      purpose: "federated-learning",
+      scope: ["demographics", "vitals", "lab-results"],
+      durationMonths: 12,
+      language: consentText(preferredLanguage).language,
+      textVersion: CONSENT_TEXT_VERSION,
+    },
+  })
+  const text = consentText(form.watch("language"))
+
+  async function onSubmit(values: ResearchConsentForm) {
+    setIsLoading(true)
+    try {
+      const result = await grantResearchConsent(values)
+      if (!result.ok) {
+        toast({ variant: "destructive", title: "Consent Not Recorded", description: result.error })
+        return
+      }
+      toast({
+        title: "Consent Recorded",
+        description: `Active until ${new Date(result.consent.expiresAt).toLocaleDateString("en-IN")}.`,
+      })
+      form.reset({ ...values, agreed: undefined })
+      router.refresh()
+    } catch (error) {
+      console.error("Research consent error:", error)
+      toast({ variant: "destructive", title: "Error", description: "Failed to record the consent. Please try again." })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="language"
+          render={({ field }) => (
+            <FormItem className="max-w-xs">
+              <FormLabel>Language shown to the patient</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {KIOSK_LANGUAGES.map((language) => (
+                    <SelectItem key={language} value={language}>
+                      {language}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-3 rounded-md border bg-muted/40 p-4">
+          <h3 className="text-lg font-semibold">{text.title}</h3>
+          {text.body.map((paragraph) => (
+            <p key={paragraph} className="text-sm leading-relaxed">
+              {paragraph}
+            </p>
+          ))}
+          <p className="text-xs text-muted-foreground">Consent text version {CONSENT_TEXT_VERSION}</p>
+        </div>
+
+        <FormField
+          control={form.control}
+          name="purpose"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Purpose</FormLabel>
+              <FormControl>
+                <RadioGroup onValueChange={field.onChange} value={field.value} className="space-y-1">
+                  {CONSENT_PURPOSES.map((purpose) => (
+                    <label key={purpose} className="flex items-center gap-2 text-sm">
+                      <RadioGroupItem value={purpose} />
+                      {text.purposes[purpose]}
+                    </label>
+                  ))}
+                </RadioGroup>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="scope"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Records covered</FormLabel>
+              <div className="grid gap-2 sm:grid-cols-2">
+                {CONSENT_SCOPES.map((scope) => (
+                  <label key={scope} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={field.value?.includes(scope)}
+                      onCheckedChange={(checked) =>
+                        field.onChange(
+                          checked
+                            ? CONSENT_SCOPES.filter((entry) => entry === scope || field.value?.includes(entry))
+                            : field.value?.filter((entry) => entry !== scope)
+                        )
+                      }
+                    />
+                    {text.scopes[scope]}
+                  </label>
+                ))}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="durationMonths"
+          render={({ field }) => (
+            <FormItem className="max-w-xs">
+              <FormLabel>Valid for</FormLabel>
+              <Select onValueChange={(value) => field.onChange(Number(value))} value={String(field.value)}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {CONSENT_DURATIONS.map((months) => (
+                    <SelectItem key={months} value={String(months)}>
+                      {months} months
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="agreed"
+          render={({ field }) => (
+            <FormItem>
+              <label className="flex items-start gap-2 text-sm">
+                <FormControl>
+                  <Checkbox checked={field.value === true} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                </FormControl>
+                <span>{text.agreement}</span>
+              </label>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" disabled={isLoading}>
+          {isLoading ? <Loader2 className="animate-spin" /> : <FileSignature className="mr-2" />}
+          Record Consent
+        </Button>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,150 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Loader2 } from "lucide-react"
+
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/hooks/use-toast"
+import { withdrawResearchConsent } from "@/lib/records/actions"
+import { CONSENT_PURPOSE_LABELS, CONSENT_SCOPE_LABELS, consentStatus, type ConsentStatus } from "@/lib/records/consent"
+import type { ConsentEvent, ResearchConsent } from "@/lib/records/types"
+
+const STATUS_BADGES: Record<ConsentStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  active: { label: "Active", variant: "default" },
+  expired: { label: "Expired", variant: "outline" },
+  withdrawn: { label: "Withdrawn", variant: "destructive" },
+}
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString("en-IN", { dateStyle: "medium" })
+}
+
+function WithdrawButton({ consent }: { consent: ResearchConsent }) {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [open, setOpen] = useState(false)
+  const [reason, setReason] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+
+  async function withdraw() {
+    setIsLoading(true)
+    try {
+      const result = await withdrawResearchConsent(consent.id, reason)
+      if (!result.ok) {
+        toast({ variant: "destructive", title: "Not Withdrawn", description: result.error })
+        return
+      }
+      toast({ title: "Consent Withdrawn", description: "The patient's records will be left out of future training rounds." })
+      setOpen(false)
+      router.refresh()
+    } catch (error) {
+      console.error("Consent withdrawal error:", error)
+      toast({ variant: "destructive", title: "Error", description: "Failed to withdraw the consent. Please try again." })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <AlertDialog open={open} onOpenChange={setOpen}>
+      <AlertDialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          Withdraw
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Withdraw research consent?</AlertDialogTitle>
+          <AlertDialogDescription>
+            The patient&apos;s records will not be used for {CONSENT_PURPOSE_LABELS[consent.purpose].toLowerCase()} from now
+            on. Models that were already trained keep what they learned.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor={`withdraw-${consent.id}`}>Reason (optional)</Label>
+          <Textarea id={`withdraw-${consent.id}`} value={reason} onChange={(event) => setReason(event.target.value)} />
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isLoading}>Cancel</AlertDialogCancel>
+          <Button variant="destructive" onClick={withdraw} disabled={isLoading}>
+            {isLoading && <Loader2 className="animate-spin" />}
+            Withdraw Consent
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
+
+/** The patient's consents with their status, and the log of every consent given or withdrawn. */
+export function ResearchConsentHistory({ consents, events }: { consents: ResearchConsent[]; events: ConsentEvent[] }) {
+  if (consents.length === 0) {
+    return <p className="text-sm text-muted-foreground">No research consent has been recorded for this patient.</p>
+  }
+
+  return (
+    <div className="space-y-6">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Purpose</TableHead>
+            <TableHead>Records</TableHead>
+            <TableHead>Given</TableHead>
+            <TableHead>Expires</TableHead>
+            <TableHead>Text</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {consents.map((consent) => {
+            const status = consentStatus(consent)
+            return (
+              <TableRow key={consent.id}>
+                <TableCell className="font-medium">{CONSENT_PURPOSE_LABELS[consent.purpose]}</TableCell>
+                <TableCell>{consent.scope.map((scope) => CONSENT_SCOPE_LABELS[scope]).join(", ")}</TableCell>
+                <TableCell>{formatDate(consent.grantedAt)}</TableCell>
+                <TableCell>{formatDate(consent.expiresAt)}</TableCell>
+                <TableCell className="text-xs">
+                  {consent.language}, v{consent.textVersion}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={STATUS_BADGES[status].variant}>{STATUS_BADGES[status].label}</Badge>
+                </TableCell>
+                <TableCell className="text-right">{status === "active" && <WithdrawButton consent={consent} />}</TableCell>
+              </TableRow>
+            )
+          })}
+        </TableBody>
+      </Table>
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-semibold">Consent log</h4>
+        <ul className="space-y-1 text-sm text-muted-foreground">
+          {events.map((event) => (
+            <li key={event.id}>
+              {new Date(event.at).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" })}:{" "}
+              <span className="font-medium text-foreground">{event.action === "granted" ? "Given" : "Withdrawn"}</span> by{" "}
+              {event.actor.username}. {event.detail}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  )
+}
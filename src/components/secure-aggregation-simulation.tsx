@@ -0,0 +1,163 @@
+"use client"
+
+import { useState } from "react"
+import { CheckCircle2, Loader2, Lock, XCircle } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { runSecureAggregationSimulation } from "@/lib/federated/actions"
+import type { SimulationReport } from "@/lib/federated/secure-aggregation/simulation"
+
+function NumberField({
+  id,
+  label,
+  value,
+  min,
+  max,
+  onChange,
+}: {
+  id: string
+  label: string
+  value: number
+  min: number
+  max: number
+  onChange: (value: number) => void
+}) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        min={min}
+        max={max}
+        value={value}
+        onChange={(event) => onChange(Math.min(max, Math.max(min, Number(event.target.value) || min)))}
+      />
+    </div>
+  )
+}
+
+function kioskStatus(report: SimulationReport, kioskId: string) {
+  if (report.droppedBeforeUpload.includes(kioskId)) return <Badge variant="outline">Dropped before upload</Badge>
+  if (report.droppedBeforeUnmasking.includes(kioskId)) return <Badge variant="outline">Offline during unmasking</Badge>
+  return <Badge variant="secondary">Completed</Badge>
+}
+
+/** Runs secure aggregation between simulated kiosks and shows what the aggregator could and could not learn. */
+export function SecureAggregationSimulation({ parameters }: { parameters: number }) {
+  const { toast } = useToast()
+  const [kiosks, setKiosks] = useState(5)
+  const [dropBeforeUpload, setDropBeforeUpload] = useState(1)
+  const [dropBeforeUnmasking, setDropBeforeUnmasking] = useState(1)
+  const [report, setReport] = useState<SimulationReport | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  async function run() {
+    setIsLoading(true)
+    try {
+      const result = await runSecureAggregationSimulation({ kiosks, parameters, dropBeforeUpload, dropBeforeUnmasking })
+      if (!result.ok) {
+        toast({ variant: "destructive", title: "Cannot Run Simulation", description: result.error })
+        return
+      }
+      setReport(result.report)
+    } catch (error) {
+      console.error("Secure aggregation simulation error:", error)
+      toast({ variant: "destructive", title: "Error", description: "The simulation failed. Please try again." })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-headline">Secure Aggregation</CardTitle>
+        <CardDescription>
+          With secure aggregation, kiosks mask their updates with pairwise secrets that cancel out in the sum, so the
+          aggregator learns the total but never an individual update. Run the protocol between simulated kiosks, with
+          some going offline part-way through. An administrator can turn it on for a model&apos;s training rounds under
+          Update Screening; those rounds are then combined with FedAvg and not screened, since no single update is seen.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-3">
+          <NumberField id="secagg-kiosks" label="Kiosks" value={kiosks} min={3} max={20} onChange={setKiosks} />
+          <NumberField
+            id="secagg-drop-upload"
+            label="Drop before upload"
+            value={dropBeforeUpload}
+            min={0}
+            max={kiosks}
+            onChange={setDropBeforeUpload}
+          />
+          <NumberField
+            id="secagg-drop-unmasking"
+            label="Drop during unmasking"
+            value={dropBeforeUnmasking}
+            min={0}
+            max={kiosks}
+            onChange={setDropBeforeUnmasking}
+          />
+        </div>
+
+        {report && (
+          <div className="space-y-4 text-sm">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{report.kiosks} kiosks</Badge>
+              <Badge variant="outline">Threshold {report.threshold}</Badge>
+              <Badge variant="outline">Largest sum error {report.maxSumError.toExponential(2)}</Badge>
+            </div>
+            <ul className="space-y-2">
+              {report.checks.map((check) => (
+                <li key={check.name} className="flex gap-2">
+                  {check.passed ? (
+                    <CheckCircle2 className="h-4 w-4 shrink-0 text-primary mt-0.5" />
+                  ) : (
+                    <XCircle className="h-4 w-4 shrink-0 text-destructive mt-0.5" />
+                  )}
+                  <div>
+                    <p className="font-medium">{check.name}</p>
+                    <p className="text-muted-foreground">{check.detail}</p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Kiosk</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Aggregator&apos;s copy differs from the real update by up to</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.views.map((view) => (
+                  <TableRow key={view.kioskId}>
+                    <TableCell className="font-medium">{view.kioskId}</TableCell>
+                    <TableCell>{kioskStatus(report, view.kioskId)}</TableCell>
+                    <TableCell className="text-right font-code">
+                      {view.maxDifference === null ? "Nothing received" : view.maxDifference.toExponential(2)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+      <CardFooter>
+        <Button variant="outline" onClick={run} disabled={isLoading}>
+          {isLoading ? <Loader2 className="animate-spin" /> : <Lock className="mr-2" />}
+          Run Simulation
+        </Button>
+      </CardFooter>
+    </Card>
+  )
+}
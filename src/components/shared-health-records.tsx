@@ -0,0 +1,166 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Link2, Loader2, RefreshCw } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { listSharedRecords, retryCareContextLinks, type SharedRecords } from "@/lib/abdm/actions"
+import { CONSENT_REQUEST_PURPOSE_LABELS, type ConsentRequestPurpose } from "@/lib/abdm/health-information"
+import type { CareContext, RecordShare } from "@/lib/records/types"
+
+const LINK_STATUS_LABELS: Record<CareContext["status"], string> = {
+  pending: "Waiting for ABHA",
+  linked: "Linked",
+  failed: "Not linked",
+}
+
+const LINK_STATUS_VARIANTS: Record<CareContext["status"], "default" | "secondary" | "destructive"> = {
+  pending: "secondary",
+  linked: "default",
+  failed: "destructive",
+}
+
+const SHARE_STATUS_VARIANTS: Record<RecordShare["status"], "default" | "destructive" | "outline"> = {
+  delivered: "default",
+  failed: "destructive",
+  refused: "outline",
+}
+
+function formatDateTime(iso: string) {
+  return new Date(iso).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" })
+}
+
+function purposeLabel(purpose: string) {
+  return CONSENT_REQUEST_PURPOSE_LABELS[purpose as ConsentRequestPurpose] ?? purpose
+}
+
+/**
+ * The patient's encounters at this kiosk as ABDM sees them: whether each is
+ * linked to their ABHA, and every time another facility fetched them.
+ */
+export function SharedHealthRecords() {
+  const { toast } = useToast()
+  const [records, setRecords] = useState<SharedRecords>({ careContexts: [], shares: [] })
+  const [isRefreshing, setIsRefreshing] = useState(false)
+  const [isLinking, setIsLinking] = useState(false)
+
+  const refresh = useCallback(async () => {
+    setIsRefreshing(true)
+    try {
+      setRecords(await listSharedRecords())
+    } catch (error) {
+      console.error("Could not load the shared records:", error)
+    } finally {
+      setIsRefreshing(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  async function onRetry() {
+    setIsLinking(true)
+    try {
+      const updated = await retryCareContextLinks()
+      setRecords(updated)
+      const failed = updated.careContexts.filter((careContext) => careContext.status === "failed").length
+      if (failed > 0) {
+        toast({ variant: "destructive", title: "Linking Failed", description: `${failed} ${failed === 1 ? "encounter" : "encounters"} could not be linked. Please try again later.` })
+      }
+    } catch (error) {
+      console.error("Care context linking error:", error)
+      toast({ variant: "destructive", title: "Error", description: "Failed to link the encounters. Please try again." })
+    } finally {
+      setIsLinking(false)
+    }
+  }
+
+  const unlinked = records.careContexts.some((careContext) => careContext.status !== "linked")
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold">Encounters at this kiosk</h3>
+          <div className="flex gap-2">
+            {unlinked && (
+              <Button variant="outline" size="sm" onClick={onRetry} disabled={isLinking}>
+                {isLinking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Link2 className="mr-2 h-4 w-4" />}
+                Link Now
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" onClick={refresh} disabled={isRefreshing}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${isRefreshing ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+        {records.careContexts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No encounters have been recorded for this patient yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Encounter</TableHead>
+                <TableHead>ABHA address</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {records.careContexts.map((careContext) => (
+                <TableRow key={careContext.id}>
+                  <TableCell>{careContext.display}</TableCell>
+                  <TableCell className="text-sm">{careContext.abhaAddress ?? "—"}</TableCell>
+                  <TableCell>
+                    <Badge variant={LINK_STATUS_VARIANTS[careContext.status]}>{LINK_STATUS_LABELS[careContext.status]}</Badge>
+                    {careContext.error && <div className="mt-1 text-xs text-muted-foreground">{careContext.error}</div>}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="font-semibold">Shared with</h3>
+        {records.shares.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No facility has fetched this patient's records from the kiosk.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Facility</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Records</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {records.shares.map((share) => (
+                <TableRow key={share.id}>
+                  <TableCell>{formatDateTime(share.sharedAt)}</TableCell>
+                  <TableCell>
+                    {share.hiuId}
+                    <div className="text-xs text-muted-foreground">{purposeLabel(share.purpose)}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={SHARE_STATUS_VARIANTS[share.status]} className="capitalize">
+                      {share.status}
+                    </Badge>
+                    <div className="mt-1 text-xs text-muted-foreground">{share.detail}</div>
+                  </TableCell>
+                  <TableCell className="text-right">{share.careContextReferences.length}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  )
+}
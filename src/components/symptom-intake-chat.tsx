@@ -0,0 +1,171 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Bot, CheckCircle, Loader2, RotateCcw, Send, User } from "lucide-react"
+
+import {
+  symptomIntake,
+  type CollectedIntake,
+  type IntakeMessage,
+  type SymptomIntakeOutput,
+} from "@/ai/flows/symptom-intake"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { useToast } from "@/hooks/use-toast"
+import type { TriageResult } from "@/lib/triage"
+import { cn } from "@/lib/utils"
+
+const GREETING: IntakeMessage = {
+  role: "assistant",
+  text: "Hello! I will ask you a few short questions about how you are feeling. What is troubling you today?",
+}
+
+const STARTER_REPLIES = ["Fever", "Cough", "Stomach pain", "Headache"]
+
+type SymptomIntakeChatProps = {
+  preferredLanguage?: string
+  /** Called with the aiDiagnosisAssistant input once the interview is complete. */
+  onComplete: (diagnosisInput: NonNullable<SymptomIntakeOutput["diagnosisInput"]>) => void
+  /** Called after every turn with the red-flag triage of the conversation so far. */
+  onTriage?: (triage: TriageResult) => void
+}
+
+export function SymptomIntakeChat({ preferredLanguage = "English", onComplete, onTriage }: SymptomIntakeChatProps) {
+  const [messages, setMessages] = useState<IntakeMessage[]>([GREETING])
+  const [collected, setCollected] = useState<CollectedIntake>({})
+  const [quickReplies, setQuickReplies] = useState<string[]>(STARTER_REPLIES)
+  const [diagnosisInput, setDiagnosisInput] = useState<SymptomIntakeOutput["diagnosisInput"]>()
+  const [draft, setDraft] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+  const bottomRef = useRef<HTMLDivElement>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" })
+  }, [messages, isLoading])
+
+  async function send(text: string) {
+    const answer = text.trim()
+    if (!answer || isLoading) return
+
+    const conversation: IntakeMessage[] = [...messages, { role: "patient", text: answer }]
+    setMessages(conversation)
+    setDraft("")
+    setQuickReplies([])
+    setIsLoading(true)
+    try {
+      const turn = await symptomIntake({ messages: conversation, collected, preferredLanguage })
+      setMessages([...conversation, { role: "assistant", text: turn.reply }])
+      setCollected(turn.collected)
+      setQuickReplies(turn.isComplete ? [] : turn.quickReplies)
+      setDiagnosisInput(turn.diagnosisInput)
+      onTriage?.(turn.triage)
+    } catch (error) {
+      console.error("Symptom intake error:", error)
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "The assistant could not respond. Please try again.",
+      })
+      setMessages(messages)
+      setDraft(answer)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  function restart() {
+    setMessages([GREETING])
+    setCollected({})
+    setQuickReplies(STARTER_REPLIES)
+    setDiagnosisInput(undefined)
+    setDraft("")
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="h-80 space-y-3 overflow-y-auto rounded-lg bg-muted/50 p-4">
+        {messages.map((message, index) => (
+          <div
+            key={index}
+            className={cn("flex items-end gap-2", message.role === "patient" && "flex-row-reverse")}
+          >
+            <div className="flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full bg-background">
+              {message.role === "patient" ? <User className="h-4 w-4" /> : <Bot className="h-4 w-4 text-primary" />}
+            </div>
+            <p
+              className={cn(
+                "max-w-[80%] whitespace-pre-wrap rounded-lg px-3 py-2 text-base",
+                message.role === "patient" ? "bg-primary text-primary-foreground" : "bg-background"
+              )}
+            >
+              {message.text}
+            </p>
+          </div>
+        ))}
+        {isLoading && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Thinking...
+          </div>
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      {diagnosisInput ? (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2 text-green-600">
+            <CheckCircle className="h-5 w-5" />
+            <span className="font-semibold">Interview complete</span>
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" onClick={() => onComplete(diagnosisInput)}>
+              Use these answers
+            </Button>
+            <Button type="button" variant="outline" onClick={restart}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Start again
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <>
+          {quickReplies.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {quickReplies.map((reply) => (
+                <Button
+                  key={reply}
+                  type="button"
+                  variant="secondary"
+                  size="lg"
+                  disabled={isLoading}
+                  onClick={() => send(reply)}
+                >
+                  {reply}
+                </Button>
+              ))}
+            </div>
+          )}
+          <form
+            className="flex gap-2"
+            onSubmit={(event) => {
+              event.preventDefault()
+              send(draft)
+            }}
+          >
+            <Input
+              placeholder="Type your answer"
+              value={draft}
+              onChange={(event) => setDraft(event.target.value)}
+              disabled={isLoading}
+            />
+            <Button type="submit" disabled={isLoading || !draft.trim()}>
+              <Send className="h-4 w-4" />
+              <span className="sr-only">Send</span>
+            </Button>
+          </form>
+        </>
+      )}
+    </div>
+  )
+}
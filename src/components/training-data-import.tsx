@@ -0,0 +1,210 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { FileSpreadsheet, Loader2 } from "lucide-react"
+import { readSheet } from "read-excel-file/browser"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { FederatedModelDefinition, TrainingRecord } from "@/lib/federated/models"
+import {
+  importFields,
+  importRecords,
+  parseCsv,
+  suggestMapping,
+  tableFromRows,
+  MAX_IMPORT_ROWS,
+  type ColumnMapping,
+  type SheetTable,
+} from "@/lib/federated/training-import"
+
+const NOT_MAPPED = "none"
+const REJECTED_PREVIEW_ROWS = 20
+
+type Source = { name: string; table: SheetTable }
+
+async function readTable(file: File): Promise<SheetTable> {
+  const name = file.name.toLowerCase()
+  if (name.endsWith(".csv")) {
+    return parseCsv(await file.text())
+  }
+  if (name.endsWith(".xlsx")) {
+    return tableFromRows(await readSheet(file))
+  }
+  throw new Error("Choose a .csv or .xlsx file.")
+}
+
+function sampleTable(records: TrainingRecord[]): SheetTable {
+  const headers = Object.keys(records[0] ?? {})
+  return { headers, rows: records.map((record) => headers.map((header) => record[header] ?? null)) }
+}
+
+/**
+ * Loads training records from a CSV or Excel file, with a column mapping for
+ * each of the model's fields and a preview of the rows that fail validation.
+ */
+export function TrainingDataImport({
+  model,
+  sampleRecords,
+  onRecordsChange,
+}: {
+  model: FederatedModelDefinition
+  sampleRecords: TrainingRecord[]
+  onRecordsChange: (records: TrainingRecord[]) => void
+}) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [source, setSource] = useState<Source>(() => ({ name: "Sample records", table: sampleTable(sampleRecords) }))
+  // The mapping belongs to one model; switching models falls back to the suggested one.
+  const [chosenMapping, setChosenMapping] = useState<{ modelName: string; columns: ColumnMapping } | null>(null)
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [isReading, setIsReading] = useState(false)
+
+  const mapping = useMemo(
+    () =>
+      chosenMapping?.modelName === model.name ? chosenMapping.columns : suggestMapping(model, source.table.headers),
+    [chosenMapping, model, source.table.headers]
+  )
+
+  function showTable(name: string, table: SheetTable) {
+    setSource({ name, table })
+    setChosenMapping(null)
+  }
+
+  function mapColumn(key: string, column: number | null) {
+    setChosenMapping({ modelName: model.name, columns: { ...mapping, [key]: column } })
+  }
+
+  const fields = importFields(model)
+  const result = useMemo(() => {
+    try {
+      return { ...importRecords(model, source.table, mapping), error: null }
+    } catch (error) {
+      return { records: [], rejected: [], skipped: 0, error: error instanceof Error ? error.message : "The mapping is incomplete." }
+    }
+  }, [model, source.table, mapping])
+
+  useEffect(() => {
+    onRecordsChange(result.records)
+  }, [result, onRecordsChange])
+
+  async function loadFile(file: File | undefined) {
+    if (!file) return
+    setIsReading(true)
+    setFileError(null)
+    try {
+      const table = await readTable(file)
+      if (table.rows.length === 0) {
+        throw new Error("The file has a header row but no records.")
+      }
+      showTable(file.name, table)
+    } catch (error) {
+      console.error("Training data import error:", error)
+      setFileError(error instanceof Error ? error.message : "The file could not be read.")
+    } finally {
+      setIsReading(false)
+      if (inputRef.current) inputRef.current.value = ""
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          className="hidden"
+          onChange={(event) => loadFile(event.target.files?.[0])}
+        />
+        <Button type="button" variant="outline" onClick={() => inputRef.current?.click()} disabled={isReading}>
+          {isReading ? <Loader2 className="animate-spin" /> : <FileSpreadsheet className="mr-2" />}
+          Upload CSV or Excel
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={() => showTable("Sample records", sampleTable(sampleRecords))}
+          disabled={isReading}
+        >
+          Use sample records
+        </Button>
+        <span className="text-sm text-muted-foreground">
+          {source.name}: {source.table.rows.length} row(s)
+        </span>
+      </div>
+      {fileError && <p className="text-sm font-medium text-destructive">{fileError}</p>}
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        {fields.map((field) => (
+          <div key={field.key} className="space-y-1">
+            <Label htmlFor={`column-${field.key}`}>{field.label}</Label>
+            <Select
+              value={mapping[field.key] === null || mapping[field.key] === undefined ? NOT_MAPPED : String(mapping[field.key])}
+              onValueChange={(value) => mapColumn(field.key, value === NOT_MAPPED ? null : Number(value))}
+            >
+              <SelectTrigger id={`column-${field.key}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                {source.table.headers.map((header, i) => (
+                  <SelectItem key={i} value={String(i)}>{header || `Column ${i + 1}`}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{field.hint}</p>
+          </div>
+        ))}
+      </div>
+
+      {result.error ? (
+        <p className="text-sm font-medium text-destructive">{result.error}</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="secondary">{result.records.length} valid record(s)</Badge>
+          {result.rejected.length > 0 && <Badge variant="destructive">{result.rejected.length} rejected</Badge>}
+          {result.skipped > 0 && (
+            <Badge variant="outline">
+              {result.skipped} row(s) past the {MAX_IMPORT_ROWS}-row limit were not read
+            </Badge>
+          )}
+        </div>
+      )}
+
+      {result.rejected.length > 0 && (
+        <div className="space-y-1">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Line</TableHead>
+                {fields.map((field) => (
+                  <TableHead key={field.key}>{field.label}</TableHead>
+                ))}
+                <TableHead>Problems</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.rejected.slice(0, REJECTED_PREVIEW_ROWS).map((row) => (
+                <TableRow key={row.line}>
+                  <TableCell className="font-medium">{row.line}</TableCell>
+                  {fields.map((field) => (
+                    <TableCell key={field.key} className="font-code text-xs">{row.values[field.key] || "—"}</TableCell>
+                  ))}
+                  <TableCell className="text-xs text-destructive">{row.errors.join(" ")}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {result.rejected.length > REJECTED_PREVIEW_ROWS && (
+            <p className="text-xs text-muted-foreground">
+              Showing the first {REJECTED_PREVIEW_ROWS} of {result.rejected.length} rejected rows.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
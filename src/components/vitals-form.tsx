@@ -0,0 +1,346 @@
+"use client"
+
+import * as React from "react"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  GLUCOSE_CONTEXTS,
+  GLUCOSE_UNITS,
+  HEIGHT_UNITS,
+  TEMPERATURE_UNITS,
+  WEIGHT_UNITS,
+  vitalsIssues,
+  type VitalKey,
+  type VitalSource,
+  type Vitals,
+} from "@/lib/vitals"
+
+type VitalsFormProps = {
+  value: Vitals
+  onChange: (value: Vitals) => void
+  /** Recorded as the source of every reading entered through this form. */
+  source?: VitalSource
+  disabled?: boolean
+}
+
+function parseNumber(text: string) {
+  if (text.trim() === "") return undefined
+  const value = Number(text)
+  return Number.isFinite(value) ? value : undefined
+}
+
+/**
+ * A numeric input that keeps its own text so partially typed values such as
+ * "37." survive re-renders, and only reports parsed numbers upwards.
+ */
+function NumberField({
+  id,
+  value,
+  onChange,
+  disabled,
+  placeholder,
+}: {
+  id: string
+  value: number | undefined
+  onChange: (value: number | undefined) => void
+  disabled?: boolean
+  placeholder?: string
+}) {
+  const [text, setText] = React.useState(value?.toString() ?? "")
+
+  React.useEffect(() => {
+    if (parseNumber(text) !== value) {
+      setText(value?.toString() ?? "")
+    }
+    // Only resync when the value changes from outside.
+  }, [value])
+
+  return (
+    <Input
+      id={id}
+      inputMode="decimal"
+      placeholder={placeholder}
+      value={text}
+      disabled={disabled}
+      onChange={(event) => {
+        setText(event.target.value)
+        onChange(parseNumber(event.target.value))
+      }}
+    />
+  )
+}
+
+function UnitSelect<T extends string>({
+  value,
+  options,
+  onChange,
+  disabled,
+  label,
+}: {
+  value: T
+  options: readonly T[]
+  onChange: (value: T) => void
+  disabled?: boolean
+  label: string
+}) {
+  return (
+    <Select value={value} onValueChange={(next) => onChange(next as T)} disabled={disabled}>
+      <SelectTrigger className="w-28" aria-label={label}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option} value={option}>
+            {option === "C" || option === "F" ? `°${option}` : option}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+function FieldIssue({ issues, keys }: { issues: { key: VitalKey; message: string }[]; keys: VitalKey[] }) {
+  const messages = issues.filter((issue) => keys.includes(issue.key)).map((issue) => issue.message)
+  if (messages.length === 0) return null
+  return <p className="text-sm font-medium text-destructive">{messages.join(" ")}</p>
+}
+
+/**
+ * Structured entry for every vital sign the kiosk records. Each reading is
+ * stamped with the time it was last edited and the form's `source`.
+ */
+export function VitalsForm({ value, onChange, source = "manual", disabled }: VitalsFormProps) {
+  const id = React.useId()
+  const [temperatureUnit, setTemperatureUnit] = React.useState(value.temperature?.unit ?? "F")
+  const [weightUnit, setWeightUnit] = React.useState(value.weight?.unit ?? "kg")
+  const [heightUnit, setHeightUnit] = React.useState(value.height?.unit ?? "cm")
+  const [glucoseUnit, setGlucoseUnit] = React.useState(value.bloodGlucose?.unit ?? "mg/dL")
+  const [glucoseContext, setGlucoseContext] = React.useState(value.bloodGlucose?.context ?? "random")
+  // Blood pressure is only a reading once both numbers are present, so keep the halves locally.
+  const [systolic, setSystolic] = React.useState(value.bloodPressure?.systolic)
+  const [diastolic, setDiastolic] = React.useState(value.bloodPressure?.diastolic)
+  const emittedBloodPressure = React.useRef(value.bloodPressure)
+
+  React.useEffect(() => {
+    if (value.bloodPressure !== emittedBloodPressure.current) {
+      emittedBloodPressure.current = value.bloodPressure
+      setSystolic(value.bloodPressure?.systolic)
+      setDiastolic(value.bloodPressure?.diastolic)
+    }
+  }, [value.bloodPressure])
+
+  const issues = vitalsIssues(value)
+
+  function stamp() {
+    return { recordedAt: new Date().toISOString(), source }
+  }
+
+  function update<K extends keyof Vitals>(key: K, reading: Vitals[K] | undefined) {
+    const next = { ...value }
+    if (reading === undefined) {
+      delete next[key]
+    } else {
+      next[key] = reading
+    }
+    onChange(next)
+  }
+
+  function updateBloodPressure(nextSystolic: number | undefined, nextDiastolic: number | undefined) {
+    setSystolic(nextSystolic)
+    setDiastolic(nextDiastolic)
+    const reading =
+      nextSystolic !== undefined && nextDiastolic !== undefined
+        ? { systolic: Math.round(nextSystolic), diastolic: Math.round(nextDiastolic), ...stamp() }
+        : undefined
+    emittedBloodPressure.current = reading
+    update("bloodPressure", reading)
+  }
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-temperature`}>Temperature</Label>
+        <div className="flex gap-2">
+          <NumberField
+            id={`${id}-temperature`}
+            placeholder={temperatureUnit === "F" ? "98.6" : "37.0"}
+            value={value.temperature?.value}
+            disabled={disabled}
+            onChange={(next) =>
+              update("temperature", next === undefined ? undefined : { value: next, unit: temperatureUnit, ...stamp() })
+            }
+          />
+          <UnitSelect
+            label="Temperature unit"
+            value={temperatureUnit}
+            options={TEMPERATURE_UNITS}
+            disabled={disabled}
+            onChange={(unit) => {
+              setTemperatureUnit(unit)
+              if (value.temperature) update("temperature", { ...value.temperature, unit })
+            }}
+          />
+        </div>
+        <FieldIssue issues={issues} keys={["temperature"]} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-systolic`}>Blood Pressure (mmHg)</Label>
+        <div className="flex items-center gap-2">
+          <NumberField
+            id={`${id}-systolic`}
+            placeholder="120"
+            value={systolic}
+            disabled={disabled}
+            onChange={(next) => updateBloodPressure(next, diastolic)}
+          />
+          <span className="text-muted-foreground">/</span>
+          <NumberField
+            id={`${id}-diastolic`}
+            placeholder="80"
+            value={diastolic}
+            disabled={disabled}
+            onChange={(next) => updateBloodPressure(systolic, next)}
+          />
+        </div>
+        <FieldIssue issues={issues} keys={["systolic", "diastolic"]} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-heart-rate`}>Heart Rate (bpm)</Label>
+        <NumberField
+          id={`${id}-heart-rate`}
+          placeholder="72"
+          value={value.heartRate?.bpm}
+          disabled={disabled}
+          onChange={(next) => update("heartRate", next === undefined ? undefined : { bpm: Math.round(next), ...stamp() })}
+        />
+        <FieldIssue issues={issues} keys={["heartRate"]} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-spo2`}>SpO2 (%)</Label>
+        <NumberField
+          id={`${id}-spo2`}
+          placeholder="98"
+          value={value.spo2?.percent}
+          disabled={disabled}
+          onChange={(next) => update("spo2", next === undefined ? undefined : { percent: next, ...stamp() })}
+        />
+        <FieldIssue issues={issues} keys={["spo2"]} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-respiratory-rate`}>Respiratory Rate (breaths/min)</Label>
+        <NumberField
+          id={`${id}-respiratory-rate`}
+          placeholder="16"
+          value={value.respiratoryRate?.breathsPerMinute}
+          disabled={disabled}
+          onChange={(next) =>
+            update(
+              "respiratoryRate",
+              next === undefined ? undefined : { breathsPerMinute: Math.round(next), ...stamp() }
+            )
+          }
+        />
+        <FieldIssue issues={issues} keys={["respiratoryRate"]} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-weight`}>Weight</Label>
+        <div className="flex gap-2">
+          <NumberField
+            id={`${id}-weight`}
+            placeholder="65"
+            value={value.weight?.value}
+            disabled={disabled}
+            onChange={(next) =>
+              update("weight", next === undefined ? undefined : { value: next, unit: weightUnit, ...stamp() })
+            }
+          />
+          <UnitSelect
+            label="Weight unit"
+            value={weightUnit}
+            options={WEIGHT_UNITS}
+            disabled={disabled}
+            onChange={(unit) => {
+              setWeightUnit(unit)
+              if (value.weight) update("weight", { ...value.weight, unit })
+            }}
+          />
+        </div>
+        <FieldIssue issues={issues} keys={["weight"]} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-height`}>Height</Label>
+        <div className="flex gap-2">
+          <NumberField
+            id={`${id}-height`}
+            placeholder="165"
+            value={value.height?.value}
+            disabled={disabled}
+            onChange={(next) =>
+              update("height", next === undefined ? undefined : { value: next, unit: heightUnit, ...stamp() })
+            }
+          />
+          <UnitSelect
+            label="Height unit"
+            value={heightUnit}
+            options={HEIGHT_UNITS}
+            disabled={disabled}
+            onChange={(unit) => {
+              setHeightUnit(unit)
+              if (value.height) update("height", { ...value.height, unit })
+            }}
+          />
+        </div>
+        <FieldIssue issues={issues} keys={["height"]} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-glucose`}>Blood Glucose</Label>
+        <div className="flex gap-2">
+          <NumberField
+            id={`${id}-glucose`}
+            placeholder={glucoseUnit === "mg/dL" ? "110" : "6.1"}
+            value={value.bloodGlucose?.value}
+            disabled={disabled}
+            onChange={(next) =>
+              update(
+                "bloodGlucose",
+                next === undefined
+                  ? undefined
+                  : { value: next, unit: glucoseUnit, context: glucoseContext, ...stamp() }
+              )
+            }
+          />
+          <UnitSelect
+            label="Blood glucose unit"
+            value={glucoseUnit}
+            options={GLUCOSE_UNITS}
+            disabled={disabled}
+            onChange={(unit) => {
+              setGlucoseUnit(unit)
+              if (value.bloodGlucose) update("bloodGlucose", { ...value.bloodGlucose, unit })
+            }}
+          />
+          <UnitSelect
+            label="Blood glucose timing"
+            value={glucoseContext}
+            options={GLUCOSE_CONTEXTS}
+            disabled={disabled}
+            onChange={(context) => {
+              setGlucoseContext(context)
+              if (value.bloodGlucose) update("bloodGlucose", { ...value.bloodGlucose, context })
+            }}
+          />
+        </div>
+        <FieldIssue issues={issues} keys={["bloodGlucose"]} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+"use client"
+
+import * as React from "react"
+
+import type { Permission, Role } from "@/lib/auth/roles"
+import { hasPermission } from "@/lib/auth/roles"
+
+/** The parts of the checked-in patient's record the pages prefill from. */
+export type CheckedInPatient = {
+  id: string
+  name: string
+  walkIn: boolean
+  preferredLanguage?: string
+  medicalHistory?: string
+}
+
+export type ClientSession = {
+  username: string
+  displayName: string
+  role: Role
+  patient: CheckedInPatient | null
+}
+
+const SessionContext = React.createContext<ClientSession | null>(null)
+
+export function SessionProvider({
+  session,
+  children,
+}: {
+  session: ClientSession
+  children: React.ReactNode
+}) {
+  return <SessionContext.Provider value={session}>{children}</SessionContext.Provider>
+}
+
+export function useSession() {
+  const session = React.useContext(SessionContext)
+  if (!session) {
+    throw new Error("useSession must be used within a SessionProvider.")
+  }
+  return session
+}
+
+export function usePermission(permission: Permission) {
+  return hasPermission(useSession().role, permission)
+}
@@ -0,0 +1,210 @@
+/**
+ * @fileOverview ABHA numbers and ABHA addresses. Free of Node APIs so forms
+ * can validate with the same rules as the server.
+ *
+ * - parseAbhaIdentifier - Recognises and normalises an ABHA number or ABHA address.
+ * - AbhaIdentifierSchema - Zod schema that explains why an identifier is invalid.
+ * - isValidAbhaNumber - 14 digits whose last digit is a Verhoeff check digit.
+ * - formatAbhaNumber - 12-3456-7890-1234 from either form.
+ * - AUTH_MODES - The ways an ABHA holder can prove the account is theirs.
+ * - isValidAadhaarNumber - 12 digits, not starting with 0 or 1, ending in a Verhoeff check digit.
+ * - ENROLMENT_METHODS - How a patient without an ABHA proves who they are to create one.
+ * - AbhaEnrolmentStartSchema / AbhaEnrolmentDetailsSchema / AbhaAddressHandleSchema - The enrolment wizard's forms.
+ *
+ * An ABHA number is 14 digits, written plain or as 2-4-4-4 groups, and ends
+ * in a Verhoeff check digit, so a single mistyped digit or swapped pair is
+ * caught before anything is sent to ABDM. An ABHA address is a handle of 8 to
+ * 18 letters and digits, with at most one dot or underscore inside it, under
+ * the @abdm domain (@sbx in the ABDM sandbox). Aadhaar numbers use the same
+ * check digit.
+ */
+
+import { z } from "zod";
+
+export const ABHA_ADDRESS_DOMAINS = ["abdm", "sbx"] as const;
+
+export const AUTH_MODES = ["MOBILE_OTP", "AADHAAR_OTP", "DEMOGRAPHICS"] as const;
+export type AuthMode = (typeof AUTH_MODES)[number];
+
+export const AUTH_MODE_LABELS: Record<AuthMode, string> = {
+  MOBILE_OTP: "OTP to the ABHA mobile number",
+  AADHAAR_OTP: "OTP to the Aadhaar-linked mobile number",
+  DEMOGRAPHICS: "Name, sex and date of birth",
+};
+
+export const ENROLMENT_METHODS = ["AADHAAR_OTP", "MOBILE_OTP"] as const;
+export type EnrolmentMethod = (typeof ENROLMENT_METHODS)[number];
+
+export const ENROLMENT_METHOD_LABELS: Record<EnrolmentMethod, string> = {
+  AADHAAR_OTP: "Aadhaar OTP",
+  MOBILE_OTP: "Mobile OTP",
+};
+
+export type AbhaIdentifier =
+  | { kind: "number"; value: string; digits: string }
+  | { kind: "address"; value: string };
+
+// Verhoeff's dihedral group D5 tables: multiplication, position permutation and inverse.
+const MULTIPLY = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const PERMUTE = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+const INVERSE = [0, 4, 3, 2, 1, 5, 6, 7, 8, 9];
+
+function verhoeff(digits: string, offset: number) {
+  let check = 0;
+  for (let i = 0; i < digits.length; i++) {
+    const digit = Number(digits[digits.length - 1 - i]);
+    check = MULTIPLY[check][PERMUTE[(i + offset) % 8][digit]];
+  }
+  return check;
+}
+
+/** The Verhoeff check digit to append to `digits`. */
+export function verhoeffCheckDigit(digits: string) {
+  return INVERSE[verhoeff(digits, 1)];
+}
+
+export function isValidAbhaNumber(digits: string) {
+  return /^\d{14}$/.test(digits) && verhoeff(digits, 0) === 0;
+}
+
+export function isValidAadhaarNumber(digits: string) {
+  return /^[2-9]\d{11}$/.test(digits) && verhoeff(digits, 0) === 0;
+}
+
+export function formatAbhaNumber(digits: string) {
+  const plain = digits.replace(/\D/g, "");
+  return `${plain.slice(0, 2)}-${plain.slice(2, 6)}-${plain.slice(6, 10)}-${plain.slice(10, 14)}`;
+}
+
+const ABHA_NUMBER_INPUT = /^\d{14}$|^\d{2}[-\s]\d{4}[-\s]\d{4}[-\s]\d{4}$/;
+const ABHA_HANDLE = /^[a-z0-9]+([._][a-z0-9]+)?$/;
+
+type Parsed = { identifier: AbhaIdentifier; error?: undefined } | { identifier?: undefined; error: string };
+
+function parse(input: string): Parsed {
+  const value = input.trim();
+  if (!value) {
+    return { error: "Please enter an ABHA number or ABHA address." };
+  }
+  if (/^[\d\s-]+$/.test(value)) {
+    if (!ABHA_NUMBER_INPUT.test(value)) {
+      return { error: "An ABHA number has 14 digits, e.g. 91-1234-5678-9010 or 91123456789010." };
+    }
+    const digits = value.replace(/\D/g, "");
+    if (!isValidAbhaNumber(digits)) {
+      return { error: "This ABHA number's check digit is wrong. Please check it against the ABHA card." };
+    }
+    return { identifier: { kind: "number", value: formatAbhaNumber(digits), digits } };
+  }
+
+  const [handle, domain, ...rest] = value.toLowerCase().split("@");
+  if (rest.length > 0 || domain === undefined) {
+    return { error: "An ABHA address looks like name@abdm." };
+  }
+  if (!(ABHA_ADDRESS_DOMAINS as readonly string[]).includes(domain)) {
+    return { error: `ABHA addresses end in ${ABHA_ADDRESS_DOMAINS.map((entry) => `@${entry}`).join(" or ")}.` };
+  }
+  const error = handleError(handle);
+  return error ? { error } : { identifier: { kind: "address", value: `${handle}@${domain}` } };
+}
+
+function handleError(handle: string) {
+  if (handle.length < 8 || handle.length > 18) {
+    return "The part of an ABHA address before the @ has 8 to 18 characters.";
+  }
+  if (!ABHA_HANDLE.test(handle)) {
+    return "An ABHA address uses letters and digits, with at most one dot or underscore that is not at either end.";
+  }
+  return null;
+}
+
+/** The normalised identifier, or null when the input is neither a valid ABHA number nor a valid ABHA address. */
+export function parseAbhaIdentifier(input: string): AbhaIdentifier | null {
+  return parse(input).identifier ?? null;
+}
+
+export const AbhaIdentifierSchema = z.string().superRefine((input, ctx) => {
+  const { error } = parse(input);
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  }
+});
+
+/** An ABHA number only, in either form; normalised to the hyphenated form. */
+export const AbhaNumberSchema = z
+  .string()
+  .superRefine((input, ctx) => {
+    const { identifier, error } = parse(input);
+    if (error || identifier?.kind !== "number") {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error ?? "Please enter the 14-digit ABHA number, not the ABHA address." });
+    }
+  })
+  .transform((input) => formatAbhaNumber(input));
+
+/** The part of a new ABHA address before the @; the domain is the gateway's. */
+export const AbhaAddressHandleSchema = z
+  .string()
+  .transform((input) => input.trim().toLowerCase().replace(/@.*$/, ""))
+  .superRefine((handle, ctx) => {
+    const error = handleError(handle);
+    if (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+    }
+  });
+
+const MOBILE = /^[6-9]\d{9}$/;
+
+export const AbhaEnrolmentStartSchema = z.discriminatedUnion("method", [
+  z.object({
+    method: z.literal("AADHAAR_OTP"),
+    aadhaarNumber: z
+      .string()
+      .transform((input) => input.replace(/[\s-]/g, ""))
+      .refine((digits) => /^\d{12}$/.test(digits), "An Aadhaar number has 12 digits.")
+      .refine(isValidAadhaarNumber, "This Aadhaar number is not valid. Please check it against the Aadhaar card."),
+    /** Aadhaar e-KYC needs the holder's consent, recorded with the request. */
+    consent: z.literal(true, { errorMap: () => ({ message: "The patient must agree to share their Aadhaar details." }) }),
+  }),
+  z.object({
+    method: z.literal("MOBILE_OTP"),
+    mobile: z.string().regex(MOBILE, "Please enter a valid 10-digit mobile number."),
+  }),
+]);
+export type AbhaEnrolmentStart = z.infer<typeof AbhaEnrolmentStartSchema>;
+
+/** What ABDM needs to create an ABHA for a patient verified by mobile only, who has no Aadhaar details to draw on. */
+export const AbhaEnrolmentDetailsSchema = z.object({
+  name: z.string().trim().min(2, "Please enter the patient's full name, as on an identity document."),
+  gender: z.enum(["F", "M", "O"], { required_error: "Please select the patient's sex." }),
+  dateOfBirth: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Please enter the date of birth.")
+    .refine((date) => Date.parse(date) <= Date.now(), "The date of birth cannot be in the future."),
+  address: z.object({
+    line: z.string().trim().min(1, "Please enter the house, street or village."),
+    district: z.string().trim().min(1, "Please enter the district."),
+    state: z.string().trim().min(1, "Please enter the state."),
+    pincode: z.string().trim().regex(/^[1-9]\d{5}$/, "Please enter a 6-digit PIN code."),
+  }),
+});
+export type AbhaEnrolmentDetails = z.infer<typeof AbhaEnrolmentDetailsSchema>;
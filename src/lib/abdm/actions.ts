@@ -0,0 +1,557 @@
+'use server';
+
+/**
+ * @fileOverview Server actions for the ABDM Integration and Health Records pages.
+ *
+ * - getLinkedAbha - The ABHA number and address linked to the checked-in patient, if any.
+ * - startAbhaVerification - Looks up an ABHA number or address and the ways its holder can verify it.
+ * - sendAbhaOtp - Starts verification; sends an OTP, or for DEMOGRAPHICS verifies and links straight away.
+ * - confirmAbhaOtp - Verifies the OTP, checks the ABHA profile against the patient's details and links it.
+ * - startAbhaEnrolment - Starts creating an ABHA for a patient without one, by Aadhaar OTP or mobile OTP.
+ * - verifyAbhaEnrolmentOtp - Verifies the enrolment OTP; with Aadhaar this creates the ABHA from the Aadhaar details.
+ * - submitAbhaEnrolmentDetails - Creates the ABHA from the details a patient verified by mobile gave.
+ * - confirmAbhaEnrolment - Checks the new ABHA against the patient's record and suggests ABHA addresses.
+ * - chooseAbhaAddress - Creates the chosen ABHA address and links the new ABHA, registering a walk-in patient.
+ * - getAbhaCard - What the printable ABHA card shows for the checked-in patient.
+ * - requestPatientRecords - Asks, through ABDM, for the patient's records held by other facilities.
+ * - listPatientRecordRequests - The patient's record requests and how many records each brought in.
+ * - listSharedRecords - The patient's kiosk encounters as ABDM care contexts, and who they were shared with.
+ * - retryCareContextLinks - Links the care contexts that are pending or failed to link.
+ * - listReceivedHealthRecords - The records other facilities sent for the patient, read into documents, newest first.
+ */
+
+import {
+  AbhaAddressHandleSchema,
+  AbhaEnrolmentDetailsSchema,
+  AbhaEnrolmentStartSchema,
+  parseAbhaIdentifier,
+  type AbhaEnrolmentDetails,
+  type AbhaEnrolmentStart,
+  type AuthMode,
+} from '@/lib/abdm/abha';
+import {
+  chooseEnrolmentAddress,
+  endEnrolment,
+  enrolledAccount,
+  startEnrolment,
+  submitEnrolmentDetails,
+  suggestEnrolmentAddresses,
+  verifyEnrolmentOtp,
+} from '@/lib/abdm/enrolment';
+import {readFhirDocument, type ReadableDocument} from '@/lib/abdm/fhir-reader';
+import {
+  ABHA_GENDERS,
+  AbdmGatewayError,
+  demographicMismatches,
+  getAbdmGateway,
+  type AbdmErrorCode,
+  type AbhaGender,
+  type EnrolledAccount,
+} from '@/lib/abdm/gateway';
+import {HealthRecordRequestFormSchema, type HealthRecordRequestForm} from '@/lib/abdm/health-information';
+import {linkPendingCareContexts} from '@/lib/abdm/hip';
+import {expireConsentRequests, requestHealthRecords} from '@/lib/abdm/hiu';
+import {requirePermission} from '@/lib/auth/session';
+import type {SessionPayload} from '@/lib/auth/session-token';
+import {getRecordRepository} from '@/lib/records';
+import {checkedInPatient, findCheckedInPatient} from '@/lib/records/encounters';
+import {isLikelyDuplicate, normalizePhone, type Sex} from '@/lib/records/patients';
+import type {AbdmConsentRequest, CareContext, HealthRecord, Patient, RecordShare} from '@/lib/records/types';
+
+export type LinkedAbha = {abhaNumber: string; abhaAddress?: string};
+
+type AbhaFailure = {ok: false; code: AbdmErrorCode | 'invalid' | 'not-registered' | 'duplicate'; error: string};
+
+export type StartAbhaVerificationResult = {ok: true; identifier: string; modes: AuthMode[]} | AbhaFailure;
+
+export type SendAbhaOtpResult =
+  | {ok: true; step: 'otp'; transactionId: string; hint: string | null; expiresAt: string}
+  | ({ok: true; step: 'linked'} & LinkedAbha)
+  | AbhaFailure;
+
+export type ConfirmAbhaOtpResult = ({ok: true} & LinkedAbha) | AbhaFailure;
+
+export type StartAbhaEnrolmentResult =
+  | {ok: true; transactionId: string; hint: string | null; expiresAt: string}
+  | AbhaFailure;
+
+export type VerifyAbhaEnrolmentOtpResult =
+  | {ok: true; step: 'confirm'; account: EnrolledAccount}
+  | {ok: true; step: 'details'; defaults: Partial<AbhaEnrolmentDetails>}
+  | AbhaFailure;
+
+export type SubmitAbhaEnrolmentDetailsResult = {ok: true; account: EnrolledAccount} | AbhaFailure;
+
+export type ConfirmAbhaEnrolmentResult =
+  | {ok: true; step: 'address'; suggestions: string[]}
+  | ({ok: true; step: 'linked'} & LinkedAbha)
+  | AbhaFailure;
+
+export type ChooseAbhaAddressResult = ({ok: true} & LinkedAbha) | AbhaFailure;
+
+export type AbhaCard = LinkedAbha & {
+  name: string;
+  sex?: Sex;
+  /** YYYY-MM-DD. */
+  dateOfBirth?: string;
+  mobile?: string;
+  address?: Patient['address'];
+};
+
+export type PatientRecordRequest = AbdmConsentRequest & {recordCount: number};
+
+export type SharedRecords = {careContexts: CareContext[]; shares: RecordShare[]};
+
+export type ReceivedHealthRecord = Pick<
+  HealthRecord,
+  'id' | 'hipId' | 'hipName' | 'careContextReference' | 'receivedAt' | 'eraseAt'
+> & {document: ReadableDocument};
+
+export type RequestPatientRecordsResult = {ok: true; request: PatientRecordRequest} | {ok: false; error: string};
+
+/** What the operator sees for each gateway failure; the field-level ones are shown under the input they concern. */
+function describeGatewayError(error: AbdmGatewayError) {
+  switch (error.code) {
+    case 'not-found':
+      return 'No ABHA account has this number or address. Please check it against the patient\'s ABHA card.';
+    case 'blocked':
+      return 'This ABHA account is deactivated or locked. The patient can reactivate it in the ABHA app or at abha.abdm.gov.in.';
+    case 'mismatch':
+      return error.fields.length > 0
+        ? `This ABHA account belongs to someone else: its ${error.fields.join(', ').replace(/, ([^,]*)$/, ' and $1')} ${
+            error.fields.length > 1 ? 'do' : 'does'
+          } not match the patient's record.`
+        : 'The patient\'s details do not match this ABHA account.';
+    case 'invalid-otp':
+      return 'The OTP is incorrect. Please check the SMS and try again.';
+    case 'expired':
+      return 'The OTP has expired. Please start the verification again.';
+    case 'unauthorized':
+      return 'The kiosk could not sign in to ABDM. Please ask an administrator to check the ABDM client credentials.';
+    case 'unavailable':
+      return 'ABDM could not be reached. Please try again in a few minutes.';
+    case 'taken':
+      return 'This ABHA address is already taken. Please choose another.';
+  }
+}
+
+function failure(error: unknown): AbhaFailure {
+  if (error instanceof AbdmGatewayError) {
+    return {ok: false, code: error.code, error: describeGatewayError(error)};
+  }
+  throw error;
+}
+
+/** ABDM checks the ABHA account against the patient's details, so only a registered patient can link one. */
+async function registeredPatient(session: SessionPayload) {
+  const patient = await findCheckedInPatient(session);
+  return patient && !patient.walkIn ? patient : null;
+}
+
+const NOT_REGISTERED: AbhaFailure = {
+  ok: false,
+  code: 'not-registered',
+  error: 'Register the patient, or find their record, first: ABDM checks the ABHA account against their details.',
+};
+
+/** Fetches the verified ABHA profile and links it, unless it belongs to someone other than the patient. */
+async function linkVerifiedAccount(patient: Patient, accessToken: string): Promise<LinkedAbha> {
+  const profile = await getAbdmGateway().fetchProfile(accessToken);
+  if (profile.status !== 'ACTIVE') {
+    throw new AbdmGatewayError('blocked', `ABHA ${profile.abhaNumber} is ${profile.status.toLowerCase()}.`);
+  }
+  const fields = demographicMismatches(profile, {
+    name: patient.name,
+    gender: patient.sex && ABHA_GENDERS[patient.sex],
+    yearOfBirth: patient.dateOfBirth ? Number(patient.dateOfBirth.slice(0, 4)) : undefined,
+    yearTolerance: patient.dateOfBirthEstimated ? 1 : 0,
+  });
+  if (fields.length > 0) {
+    throw new AbdmGatewayError('mismatch', `ABHA ${profile.abhaNumber} does not match patient ${patient.id}.`, fields);
+  }
+  return linkAbha(patient, profile);
+}
+
+/** Saves the ABHA on the patient's record, with any details it completes, and links their earlier encounters to it. */
+async function linkAbha(patient: Patient, abha: LinkedAbha, details: Partial<Patient> = {}): Promise<LinkedAbha> {
+  await getRecordRepository().updatePatient(patient.id, {
+    ...details,
+    abhaId: abha.abhaNumber,
+    abhaAddress: abha.abhaAddress,
+    abhaLinkedAt: new Date().toISOString(),
+  });
+  // Encounters recorded before the ABHA was linked follow it in the background.
+  linkPendingCareContexts(patient.id).catch(error =>
+    console.error(`Could not link the earlier encounters of patient ${patient.id}:`, error)
+  );
+  return {abhaNumber: abha.abhaNumber, abhaAddress: abha.abhaAddress};
+}
+
+const SEXES_BY_GENDER: Record<AbhaGender, Sex> = {F: 'female', M: 'male', O: 'other'};
+
+/** A patient who already has an ABHA links it instead of creating another. */
+async function patientWithoutAbha(session: SessionPayload): Promise<Patient | AbhaFailure> {
+  const patient = await checkedInPatient(session);
+  return patient.abhaId
+    ? {ok: false, code: 'invalid', error: `This patient already has ABHA ${patient.abhaId}. Link it instead of creating another.`}
+    : patient;
+}
+
+/**
+ * Checks a new ABHA against the patient's record: a registered patient's
+ * details must match it, and a walk-in must not already be registered under
+ * its mobile number and date of birth.
+ */
+async function checkEnrolledAccount(patient: Patient, account: EnrolledAccount): Promise<AbhaFailure | null> {
+  if (!patient.walkIn) {
+    const fields = demographicMismatches(
+      {name: account.name, gender: account.gender, yearOfBirth: Number(account.dateOfBirth.slice(0, 4))},
+      {
+        name: patient.name,
+        gender: patient.sex && ABHA_GENDERS[patient.sex],
+        yearOfBirth: patient.dateOfBirth ? Number(patient.dateOfBirth.slice(0, 4)) : undefined,
+        yearTolerance: patient.dateOfBirthEstimated ? 1 : 0,
+      }
+    );
+    return fields.length > 0
+      ? failure(new AbdmGatewayError('mismatch', `ABHA ${account.abhaNumber} does not match patient ${patient.id}.`, fields))
+      : null;
+  }
+  const phone = account.mobile && normalizePhone(account.mobile);
+  const duplicates = phone
+    ? (await getRecordRepository().findPatientsByPhone(phone)).filter(existing =>
+        isLikelyDuplicate(existing, {phone, dateOfBirth: account.dateOfBirth})
+      )
+    : [];
+  return duplicates.length > 0
+    ? {
+        ok: false,
+        code: 'duplicate',
+        error: 'A patient with this mobile number and date of birth is already registered. Check them in from Patients and link the ABHA there.',
+      }
+    : null;
+}
+
+/** The details a walk-in patient's record is completed with, taken from their new ABHA. */
+function registrationFromAccount(account: EnrolledAccount): Partial<Patient> {
+  const phone = account.mobile && normalizePhone(account.mobile);
+  return {
+    walkIn: false,
+    name: account.name,
+    sex: SEXES_BY_GENDER[account.gender],
+    dateOfBirth: account.dateOfBirth,
+    dateOfBirthEstimated: false,
+    ...(phone && {phone}),
+    ...(account.address && {
+      address: {
+        line: account.address.line,
+        city: account.address.district,
+        state: account.address.state,
+        pincode: account.address.pincode,
+      },
+    }),
+  };
+}
+
+/** Links the new ABHA; a walk-in patient becomes registered with the details ABDM verified. */
+function linkEnrolledAccount(patient: Patient, account: EnrolledAccount) {
+  return linkAbha(patient, account, patient.walkIn ? registrationFromAccount(account) : {});
+}
+
+export async function getLinkedAbha(): Promise<LinkedAbha | null> {
+  const session = await requirePermission('abdm:link');
+  const patient = await findCheckedInPatient(session);
+  return patient?.abhaId ? {abhaNumber: patient.abhaId, abhaAddress: patient.abhaAddress} : null;
+}
+
+export async function startAbhaVerification(input: string): Promise<StartAbhaVerificationResult> {
+  const session = await requirePermission('abdm:link');
+  const identifier = parseAbhaIdentifier(input);
+  if (!identifier) {
+    return {ok: false, code: 'invalid', error: 'Please enter a valid ABHA number or ABHA address.'};
+  }
+  if (!(await registeredPatient(session))) {
+    return NOT_REGISTERED;
+  }
+  try {
+    const modes = await getAbdmGateway().fetchAuthModes(identifier);
+    return {ok: true, identifier: identifier.value, modes};
+  } catch (error) {
+    return failure(error);
+  }
+}
+
+export async function sendAbhaOtp(input: string, mode: AuthMode): Promise<SendAbhaOtpResult> {
+  const session = await requirePermission('abdm:link');
+  const identifier = parseAbhaIdentifier(input);
+  if (!identifier) {
+    return {ok: false, code: 'invalid', error: 'Please enter a valid ABHA number or ABHA address.'};
+  }
+  const patient = await registeredPatient(session);
+  if (!patient) {
+    return NOT_REGISTERED;
+  }
+  try {
+    const gateway = getAbdmGateway();
+    const transaction = await gateway.initAuth(identifier, mode);
+    if (mode !== 'DEMOGRAPHICS') {
+      return {ok: true, step: 'otp', transactionId: transaction.transactionId, hint: transaction.hint, expiresAt: transaction.expiresAt};
+    }
+    const {accessToken} = await gateway.confirmAuth(transaction.transactionId, {
+      demographics: {
+        name: patient.name,
+        gender: patient.sex && ABHA_GENDERS[patient.sex],
+        dateOfBirth: patient.dateOfBirth,
+      },
+    });
+    return {ok: true, step: 'linked', ...(await linkVerifiedAccount(patient, accessToken))};
+  } catch (error) {
+    return failure(error);
+  }
+}
+
+export async function confirmAbhaOtp(transactionId: string, otp: string): Promise<ConfirmAbhaOtpResult> {
+  const session = await requirePermission('abdm:link');
+  if (!/^\d{6}$/.test(otp)) {
+    return {ok: false, code: 'invalid-otp', error: 'The OTP is the 6-digit code in the SMS.'};
+  }
+  const patient = await registeredPatient(session);
+  if (!patient) {
+    return NOT_REGISTERED;
+  }
+  try {
+    const {accessToken} = await getAbdmGateway().confirmAuth(transactionId, {otp});
+    return {ok: true, ...(await linkVerifiedAccount(patient, accessToken))};
+  } catch (error) {
+    return failure(error);
+  }
+}
+
+export async function startAbhaEnrolment(input: AbhaEnrolmentStart): Promise<StartAbhaEnrolmentResult> {
+  const session = await requirePermission('abdm:link');
+  const parsed = AbhaEnrolmentStartSchema.safeParse(input);
+  if (!parsed.success) {
+    return {ok: false, code: 'invalid', error: parsed.error.issues[0]?.message ?? 'Please check the enrolment details.'};
+  }
+  const patient = await patientWithoutAbha(session);
+  if ('ok' in patient) {
+    return patient;
+  }
+  try {
+    return {ok: true, ...(await startEnrolment(patient.id, parsed.data))};
+  } catch (error) {
+    return failure(error);
+  }
+}
+
+/** `mobile` is the number the new ABHA will use, which Aadhaar enrolment asks for alongside the OTP. */
+export async function verifyAbhaEnrolmentOtp(
+  transactionId: string,
+  otp: string,
+  mobile?: string
+): Promise<VerifyAbhaEnrolmentOtpResult> {
+  const session = await requirePermission('abdm:link');
+  if (!/^\d{6}$/.test(otp)) {
+    return {ok: false, code: 'invalid-otp', error: 'The OTP is the 6-digit code in the SMS.'};
+  }
+  const phone = mobile === undefined ? undefined : normalizePhone(mobile);
+  if (phone === null) {
+    return {ok: false, code: 'invalid', error: 'Please enter a valid 10-digit mobile number.'};
+  }
+  const patient = await patientWithoutAbha(session);
+  if ('ok' in patient) {
+    return patient;
+  }
+  try {
+    const account = await verifyEnrolmentOtp(patient.id, transactionId, otp, phone);
+    if (account) {
+      return {ok: true, step: 'confirm', account};
+    }
+    return {
+      ok: true,
+      step: 'details',
+      defaults: patient.walkIn
+        ? {}
+        : {
+            name: patient.name,
+            gender: patient.sex && ABHA_GENDERS[patient.sex],
+            dateOfBirth: patient.dateOfBirth,
+            address: patient.address && {
+              line: patient.address.line,
+              district: patient.address.city,
+              state: patient.address.state,
+              pincode: patient.address.pincode,
+            },
+          },
+    };
+  } catch (error) {
+    return failure(error);
+  }
+}
+
+export async function submitAbhaEnrolmentDetails(
+  transactionId: string,
+  details: AbhaEnrolmentDetails
+): Promise<SubmitAbhaEnrolmentDetailsResult> {
+  const session = await requirePermission('abdm:link');
+  const parsed = AbhaEnrolmentDetailsSchema.safeParse(details);
+  if (!parsed.success) {
+    return {ok: false, code: 'invalid', error: parsed.error.issues[0]?.message ?? 'Please check the patient\'s details.'};
+  }
+  const patient = await patientWithoutAbha(session);
+  if ('ok' in patient) {
+    return patient;
+  }
+  try {
+    return {ok: true, account: await submitEnrolmentDetails(patient.id, transactionId, parsed.data)};
+  } catch (error) {
+    return failure(error);
+  }
+}
+
+/**
+ * Called once the patient has checked the new ABHA's details. When the
+ * Aadhaar number already had an ABHA, ABDM returned that account instead of
+ * creating one, so it is linked straight away.
+ */
+export async function confirmAbhaEnrolment(transactionId: string): Promise<ConfirmAbhaEnrolmentResult> {
+  const session = await requirePermission('abdm:link');
+  const patient = await patientWithoutAbha(session);
+  if ('ok' in patient) {
+    return patient;
+  }
+  try {
+    const account = enrolledAccount(patient.id, transactionId);
+    const rejected = await checkEnrolledAccount(patient, account);
+    if (rejected) {
+      return rejected;
+    }
+    if (!account.isNew) {
+      endEnrolment(transactionId);
+      return {ok: true, step: 'linked', ...(await linkEnrolledAccount(patient, account))};
+    }
+    return {ok: true, step: 'address', suggestions: await suggestEnrolmentAddresses(patient.id, transactionId)};
+  } catch (error) {
+    return failure(error);
+  }
+}
+
+export async function chooseAbhaAddress(transactionId: string, handle: string): Promise<ChooseAbhaAddressResult> {
+  const session = await requirePermission('abdm:link');
+  const parsed = AbhaAddressHandleSchema.safeParse(handle);
+  if (!parsed.success) {
+    return {ok: false, code: 'invalid', error: parsed.error.issues[0]?.message ?? 'Please choose an ABHA address.'};
+  }
+  const patient = await patientWithoutAbha(session);
+  if ('ok' in patient) {
+    return patient;
+  }
+  try {
+    const account = await chooseEnrolmentAddress(patient.id, transactionId, parsed.data);
+    return {ok: true, ...(await linkEnrolledAccount(patient, account))};
+  } catch (error) {
+    return failure(error);
+  }
+}
+
+export async function getAbhaCard(): Promise<AbhaCard | null> {
+  const session = await requirePermission('abdm:link');
+  const patient = await findCheckedInPatient(session);
+  if (!patient?.abhaId) {
+    return null;
+  }
+  return {
+    abhaNumber: patient.abhaId,
+    abhaAddress: patient.abhaAddress,
+    name: patient.name,
+    sex: patient.sex,
+    dateOfBirth: patient.dateOfBirth,
+    mobile: patient.phone,
+    address: patient.address,
+  };
+}
+
+export async function requestPatientRecords(input: HealthRecordRequestForm): Promise<RequestPatientRecordsResult> {
+  const session = await requirePermission('abdm:link');
+  const parsed = HealthRecordRequestFormSchema.safeParse(input);
+  if (!parsed.success) {
+    return {ok: false, error: parsed.error.issues[0]?.message ?? 'Please check the request details.'};
+  }
+  const patient = await registeredPatient(session);
+  if (!patient?.abhaAddress) {
+    return {ok: false, error: 'Link the patient\'s ABHA first: ABDM sends the request to the consent manager of their ABHA address.'};
+  }
+  try {
+    const request = await requestHealthRecords(patient, parsed.data, {
+      userId: session.userId,
+      username: session.username,
+      role: session.role,
+    });
+    return {ok: true, request: {...request, recordCount: 0}};
+  } catch (error) {
+    return {ok: false, error: failure(error).error};
+  }
+}
+
+export async function listPatientRecordRequests(): Promise<PatientRecordRequest[]> {
+  const session = await requirePermission('abdm:link');
+  const patient = await registeredPatient(session);
+  if (!patient) {
+    return [];
+  }
+  await expireConsentRequests(patient.id);
+  const repository = getRecordRepository();
+  const [requests, records] = await Promise.all([
+    repository.listAbdmConsentRequests(patient.id),
+    repository.listHealthRecords(patient.id),
+  ]);
+  return requests.map(request => ({
+    ...request,
+    recordCount: records.filter(record => record.consentRequestId === request.id).length,
+  }));
+}
+
+export async function listSharedRecords(): Promise<SharedRecords> {
+  const session = await requirePermission('abdm:link');
+  const patient = await registeredPatient(session);
+  if (!patient) {
+    return {careContexts: [], shares: []};
+  }
+  const repository = getRecordRepository();
+  const [careContexts, shares] = await Promise.all([
+    repository.listCareContexts(patient.id),
+    repository.listRecordShares(patient.id),
+  ]);
+  return {careContexts, shares};
+}
+
+export async function retryCareContextLinks(): Promise<SharedRecords> {
+  const session = await requirePermission('abdm:link');
+  const patient = await registeredPatient(session);
+  if (patient) {
+    await linkPendingCareContexts(patient.id);
+  }
+  return listSharedRecords();
+}
+
+export async function listReceivedHealthRecords(): Promise<ReceivedHealthRecord[]> {
+  const session = await requirePermission('health-records:view');
+  const patient = await registeredPatient(session);
+  if (!patient) {
+    return [];
+  }
+  // Records past their erase date must not be shown, even if ABDM's expiry notice never came.
+  await expireConsentRequests(patient.id);
+  const records = await getRecordRepository().listHealthRecords(patient.id);
+  return records
+    .map(record => ({
+      id: record.id,
+      hipId: record.hipId,
+      hipName: record.hipName,
+      careContextReference: record.careContextReference,
+      receivedAt: record.receivedAt,
+      eraseAt: record.eraseAt,
+      document: readFhirDocument(record.bundle),
+    }))
+    .sort((a, b) => Date.parse(b.document.date ?? b.receivedAt) - Date.parse(a.document.date ?? a.receivedAt));
+}
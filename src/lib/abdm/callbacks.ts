@@ -0,0 +1,72 @@
+/**
+ * @fileOverview Pairs ABDM's asynchronous callbacks with the requests that caused them.
+ *
+ * - expectCallback - Registers a request id and waits for the gateway's answer to it.
+ * - deliverCallback - Hands a callback body to whoever is waiting for its `resp.requestId`.
+ *
+ * The gateway answers most calls with 202 and POSTs the result to the kiosk's
+ * bridge URL later. Only callbacks for a request this kiosk is waiting on are
+ * accepted, so a stray or replayed callback has nothing to resolve. Waiters
+ * live on globalThis because Next.js may load the route handler and the
+ * server actions as separate module instances in one process.
+ */
+
+export type AbdmCallback = {
+  requestId: string;
+  timestamp: string;
+  error?: { code: number; message: string } | null;
+  resp: { requestId: string };
+  [key: string]: unknown;
+};
+
+type Waiter = {
+  resolve: (callback: AbdmCallback) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+const globalWaiters = globalThis as typeof globalThis & { abdmCallbackWaiters?: Map<string, Waiter> };
+const waiters = (globalWaiters.abdmCallbackWaiters ??= new Map<string, Waiter>());
+
+export class AbdmCallbackTimeoutError extends Error {
+  constructor(requestId: string) {
+    super(`ABDM did not answer request ${requestId} in time.`);
+    this.name = "AbdmCallbackTimeoutError";
+  }
+}
+
+/** Call before sending the request: the callback can arrive before the 202 does. */
+export function expectCallback(requestId: string, timeoutMs: number) {
+  const promise = new Promise<AbdmCallback>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      waiters.delete(requestId);
+      reject(new AbdmCallbackTimeoutError(requestId));
+    }, timeoutMs);
+    waiters.set(requestId, { resolve, reject, timer });
+  });
+  return {
+    promise,
+    /** Stops waiting, e.g. because the request itself was refused. */
+    cancel() {
+      const waiter = waiters.get(requestId);
+      if (waiter) {
+        clearTimeout(waiter.timer);
+        waiters.delete(requestId);
+      }
+    },
+  };
+}
+
+/** Returns false when nobody is waiting for this callback. */
+export function deliverCallback(body: unknown) {
+  const callback = body as Partial<AbdmCallback> | null;
+  const requestId = callback?.resp?.requestId;
+  const waiter = requestId ? waiters.get(requestId) : undefined;
+  if (!requestId || !waiter) {
+    return false;
+  }
+  clearTimeout(waiter.timer);
+  waiters.delete(requestId);
+  waiter.resolve(callback as AbdmCallback);
+  return true;
+}
@@ -0,0 +1,88 @@
+import { createCipheriv, createDecipheriv, createHash, createPrivateKey, createPublicKey, diffieHellman, generateKeyPairSync, hkdfSync, randomBytes } from "crypto";
+
+/**
+ * @fileOverview End-to-end encryption of health data exchanged through ABDM.
+ *
+ * - generateKeyMaterial - A fresh X25519 key pair and nonce for one transfer.
+ * - encryptHealthData - What a facility does before pushing a record.
+ * - decryptHealthData - What the kiosk does with each pushed entry.
+ * - checksumOf - The checksum sent alongside each entry.
+ *
+ * Follows ABDM's scheme: each side sends a Curve25519 public key and a
+ * 32-byte nonce. The key is derived with HKDF-SHA256 from the Diffie-Hellman
+ * secret, salted with the first 20 bytes of the XOR of the two nonces; the
+ * last 12 bytes of that XOR are the AES-256-GCM IV. Keys travel as base64
+ * X.509 (SPKI) and PKCS#8 DER.
+ */
+
+export type KeyMaterial = {
+  privateKey: string;
+  publicKey: string;
+  nonce: string;
+};
+
+export type PeerKey = {
+  publicKey: string;
+  nonce: string;
+};
+
+export const KEY_EXCHANGE = {
+  cryptoAlg: "ECDH",
+  curve: "Curve25519",
+  parameters: "Curve25519/32byte random key",
+} as const;
+
+const NONCE_BYTES = 32;
+const TAG_BYTES = 16;
+
+export function generateKeyMaterial(): KeyMaterial {
+  const { privateKey, publicKey } = generateKeyPairSync("x25519");
+  return {
+    privateKey: privateKey.export({ format: "der", type: "pkcs8" }).toString("base64"),
+    publicKey: publicKey.export({ format: "der", type: "spki" }).toString("base64"),
+    nonce: randomBytes(NONCE_BYTES).toString("base64"),
+  };
+}
+
+function sessionCipher(own: KeyMaterial, peer: PeerKey) {
+  const ownNonce = Buffer.from(own.nonce, "base64");
+  const peerNonce = Buffer.from(peer.nonce, "base64");
+  if (ownNonce.length !== NONCE_BYTES || peerNonce.length !== NONCE_BYTES) {
+    throw new Error(`Key exchange nonces must be ${NONCE_BYTES} bytes.`);
+  }
+  const xor = Buffer.alloc(NONCE_BYTES);
+  for (let i = 0; i < NONCE_BYTES; i++) {
+    xor[i] = ownNonce[i] ^ peerNonce[i];
+  }
+  const secret = diffieHellman({
+    privateKey: createPrivateKey({ key: Buffer.from(own.privateKey, "base64"), format: "der", type: "pkcs8" }),
+    publicKey: createPublicKey({ key: Buffer.from(peer.publicKey, "base64"), format: "der", type: "spki" }),
+  });
+  const key = Buffer.from(hkdfSync("sha256", secret, xor.subarray(0, 20), Buffer.alloc(0), 32));
+  return { key, iv: xor.subarray(20) };
+}
+
+/** Base64 of the ciphertext followed by the GCM tag. */
+export function encryptHealthData(plaintext: string, sender: KeyMaterial, recipient: PeerKey) {
+  const { key, iv } = sessionCipher(sender, recipient);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final(), cipher.getAuthTag()]);
+  return encrypted.toString("base64");
+}
+
+/** Throws when the content was not encrypted for this key or has been tampered with. */
+export function decryptHealthData(content: string, recipient: KeyMaterial, sender: PeerKey) {
+  const { key, iv } = sessionCipher(recipient, sender);
+  const encrypted = Buffer.from(content, "base64");
+  if (encrypted.length < TAG_BYTES) {
+    throw new Error("The encrypted entry is too short.");
+  }
+  const decipher = createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(encrypted.subarray(encrypted.length - TAG_BYTES));
+  return Buffer.concat([decipher.update(encrypted.subarray(0, encrypted.length - TAG_BYTES)), decipher.final()]).toString("utf8");
+}
+
+/** MD5 of the plaintext, as ABDM specifies for entry checksums. */
+export function checksumOf(plaintext: string) {
+  return createHash("md5").update(plaintext, "utf8").digest("hex");
+}
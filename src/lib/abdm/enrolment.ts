@@ -0,0 +1,123 @@
+/**
+ * @fileOverview Assisted ABHA enrolment: creating an ABHA at the kiosk for a
+ * patient who does not have one.
+ *
+ * - startEnrolment - Sends the OTP to the Aadhaar-linked mobile, or to the patient's own mobile.
+ * - verifyEnrolmentOtp - With Aadhaar, verifies the OTP and creates the ABHA from the Aadhaar details;
+ *   with a mobile, only verifies the number.
+ * - submitEnrolmentDetails - With a verified mobile, creates the ABHA from the details the patient gives.
+ * - enrolledAccount - The new ABHA's details, for the patient to confirm.
+ * - suggestEnrolmentAddresses - Records the patient's confirmation and suggests ABHA addresses.
+ * - chooseEnrolmentAddress - Creates the chosen ABHA address, which ends the enrolment.
+ * - endEnrolment - Forgets an enrolment, e.g. when the Aadhaar number already had an ABHA.
+ *
+ * ABDM keeps the enrolment under its transaction id; the kiosk remembers
+ * which patient started it and how far it has got, so no step can be skipped
+ * or finished for someone else. Checking the new ABHA against the patient's
+ * record and linking it are left to the caller (see actions.ts).
+ */
+
+import type { AbhaEnrolmentDetails, AbhaEnrolmentStart, EnrolmentMethod } from "@/lib/abdm/abha";
+import { AbdmGatewayError, getAbdmGateway, type EnrolledAccount } from "@/lib/abdm/gateway";
+
+/** ABDM's enrolment transactions last about this long. */
+const ENROLMENT_TTL_MS = 15 * 60 * 1000;
+
+type PendingEnrolment = {
+  patientId: string;
+  method: EnrolmentMethod;
+  /** The mobile number the OTP went to, for MOBILE_OTP. */
+  mobile?: string;
+  mobileVerified: boolean;
+  account?: EnrolledAccount;
+  /** Whether the patient has confirmed the account's details. */
+  confirmed: boolean;
+  expiresAt: number;
+};
+
+// On globalThis so that a dev-server reload between two steps does not lose the enrolment.
+const globalEnrolments = globalThis as typeof globalThis & { abhaEnrolments?: Map<string, PendingEnrolment> };
+const enrolments = (globalEnrolments.abhaEnrolments ??= new Map<string, PendingEnrolment>());
+
+function pendingEnrolment(patientId: string, transactionId: string) {
+  const enrolment = enrolments.get(transactionId);
+  if (enrolment && enrolment.expiresAt < Date.now()) {
+    enrolments.delete(transactionId);
+  }
+  if (!enrolment || enrolment.expiresAt < Date.now() || enrolment.patientId !== patientId) {
+    throw new AbdmGatewayError("expired", "The ABHA enrolment has expired. Please start again.");
+  }
+  return enrolment;
+}
+
+export async function startEnrolment(patientId: string, start: AbhaEnrolmentStart) {
+  const transaction = await getAbdmGateway().requestEnrolmentOtp(
+    start.method,
+    start.method === "AADHAAR_OTP" ? start.aadhaarNumber : start.mobile
+  );
+  enrolments.set(transaction.transactionId, {
+    patientId,
+    method: start.method,
+    mobile: start.method === "MOBILE_OTP" ? start.mobile : undefined,
+    mobileVerified: false,
+    confirmed: false,
+    expiresAt: Date.now() + ENROLMENT_TTL_MS,
+  });
+  return transaction;
+}
+
+/**
+ * Resolves with the new account for Aadhaar, or null for a mobile, whose
+ * holder still has to give their details. `mobile` is the number ABHA will
+ * send its messages to; Aadhaar enrolment needs it.
+ */
+export async function verifyEnrolmentOtp(patientId: string, transactionId: string, otp: string, mobile?: string) {
+  const enrolment = pendingEnrolment(patientId, transactionId);
+  if (enrolment.method === "MOBILE_OTP") {
+    await getAbdmGateway().verifyEnrolmentMobile(transactionId, otp);
+    enrolment.mobileVerified = true;
+    return null;
+  }
+  if (!mobile) {
+    throw new Error("Aadhaar enrolment needs a mobile number for the ABHA account.");
+  }
+  enrolment.account = await getAbdmGateway().enrolByAadhaar(transactionId, otp, mobile);
+  return enrolment.account;
+}
+
+export async function submitEnrolmentDetails(patientId: string, transactionId: string, details: AbhaEnrolmentDetails) {
+  const enrolment = pendingEnrolment(patientId, transactionId);
+  if (enrolment.method !== "MOBILE_OTP" || !enrolment.mobileVerified || !enrolment.mobile) {
+    throw new Error(`Enrolment ${transactionId} is not waiting for the patient's details.`);
+  }
+  enrolment.account = await getAbdmGateway().enrolByDemographics(transactionId, { ...details, mobile: enrolment.mobile });
+  return enrolment.account;
+}
+
+export function enrolledAccount(patientId: string, transactionId: string) {
+  const { account } = pendingEnrolment(patientId, transactionId);
+  if (!account) {
+    throw new Error(`Enrolment ${transactionId} has not created an account yet.`);
+  }
+  return account;
+}
+
+export async function suggestEnrolmentAddresses(patientId: string, transactionId: string) {
+  enrolledAccount(patientId, transactionId);
+  pendingEnrolment(patientId, transactionId).confirmed = true;
+  return getAbdmGateway().suggestAbhaAddresses(transactionId);
+}
+
+export async function chooseEnrolmentAddress(patientId: string, transactionId: string, handle: string) {
+  const account = enrolledAccount(patientId, transactionId);
+  if (!pendingEnrolment(patientId, transactionId).confirmed) {
+    throw new Error(`The details of enrolment ${transactionId} have not been confirmed.`);
+  }
+  const created = await getAbdmGateway().createAbhaAddress(transactionId, handle);
+  enrolments.delete(transactionId);
+  return { ...account, ...created };
+}
+
+export function endEnrolment(transactionId: string) {
+  enrolments.delete(transactionId);
+}
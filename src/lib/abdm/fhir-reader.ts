@@ -0,0 +1,448 @@
+/**
+ * @fileOverview Reads the FHIR documents other facilities send through ABDM
+ * into a form people can read. Free of Node APIs so pages can use it too.
+ *
+ * - readFhirDocument - A received bundle as a titled document of sections and items.
+ * - observationSeries - Numeric observations from many documents, grouped per test for charting.
+ * - documentAsText - A document as plain text, for the AI flows' medical history and lab results.
+ *
+ * Facilities send whatever their systems produce, so nothing here trusts the
+ * bundle's shape: missing elements are skipped, and a resource the reader does
+ * not know is shown by its type and code. Items follow the Composition's
+ * sections; resources no section refers to are listed under "Other Details".
+ */
+
+import type { HiType } from "@/lib/abdm/health-information";
+
+export type ReadableItem = {
+  label: string;
+  /** The measured value, e.g. "148/92 mmHg". */
+  value?: string;
+  /** An abnormal-result flag such as "High", or a status worth showing. */
+  flag?: string;
+  /** Whether the facility marked the result as outside the normal range. */
+  abnormal?: boolean;
+  /** Dosage, reference range, conclusion and the like. */
+  details: string[];
+  date?: string;
+};
+
+export type ReadableSection = { title: string; items: ReadableItem[] };
+
+export type ObservationPoint = {
+  /** The LOINC code, or the observation's name when it has none. */
+  code: string;
+  name: string;
+  unit?: string;
+  at: string;
+  /** One value, or one per component (e.g. systolic and diastolic). */
+  values: { label: string; value: number }[];
+};
+
+export type ReadableDocument = {
+  /** The kind of record, from the Composition's type; null when it is not one ABDM defines. */
+  kind: HiType | null;
+  title: string;
+  date?: string;
+  author?: string;
+  sections: ReadableSection[];
+  observations: ObservationPoint[];
+};
+
+export type ObservationSeries = {
+  code: string;
+  name: string;
+  unit?: string;
+  /** The value labels, one chart line each. */
+  lines: string[];
+  /** One row per measurement, oldest first, keyed by the labels in `lines`. */
+  points: ({ at: string } & Record<string, number | string>)[];
+};
+
+type Resource = Record<string, unknown> & { resourceType?: string; id?: string };
+
+/** The SNOMED CT codes NRCeS uses for each kind of document. */
+const DOCUMENT_KINDS: Record<string, HiType> = {
+  "371530004": "OPConsultation",
+  "440545006": "Prescription",
+  "373942005": "DischargeSummary",
+  "721981007": "DiagnosticReport",
+  "41000179103": "ImmunizationRecord",
+  "419891008": "HealthDocumentRecord",
+};
+
+/** Resources that describe who and where rather than what happened. */
+const CONTEXT_RESOURCES = new Set(["Composition", "Patient", "Practitioner", "PractitionerRole", "Organization", "Medication"]);
+
+const INTERPRETATIONS: Record<string, string> = {
+  H: "High",
+  HH: "Critically high",
+  L: "Low",
+  LL: "Critically low",
+  A: "Abnormal",
+  AA: "Critically abnormal",
+  POS: "Positive",
+};
+
+function asObject(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : undefined;
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+}
+
+function asString(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/** A CodeableConcept's text, or its first coding's display or code. */
+function conceptText(value: unknown): string | undefined {
+  const concept = asObject(value);
+  if (!concept) return undefined;
+  const coding = asArray(concept.coding).map(asObject);
+  return asString(concept.text) ?? coding.map((c) => asString(c?.display) ?? asString(c?.code)).find(Boolean);
+}
+
+function conceptCode(value: unknown, system?: string) {
+  const coding = asArray(asObject(value)?.coding).map(asObject);
+  return coding.map((c) => (!system || c?.system === system ? asString(c?.code) : undefined)).find(Boolean);
+}
+
+function capitalize(text: string | undefined) {
+  return text && text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function formatNumber(value: number) {
+  return Number.isInteger(value) ? String(value) : String(Number(value.toFixed(2)));
+}
+
+function quantityText(value: unknown) {
+  const quantity = asObject(value);
+  if (typeof quantity?.value !== "number") return undefined;
+  const unit = asString(quantity.unit) ?? asString(quantity.code);
+  return unit ? `${formatNumber(quantity.value)} ${unit}` : formatNumber(quantity.value);
+}
+
+/** Plain-text attachments are shown; anything else is described. */
+function attachmentText(value: unknown) {
+  const attachment = asObject(value);
+  if (!attachment) return undefined;
+  const data = asString(attachment.data);
+  if (data && asString(attachment.contentType)?.startsWith("text/plain")) {
+    try {
+      return new TextDecoder().decode(Uint8Array.from(atob(data), (char) => char.charCodeAt(0)));
+    } catch {
+      return undefined;
+    }
+  }
+  const title = asString(attachment.title);
+  return title ? `Attached file: ${title}` : asString(attachment.url) ? "Attached file (link)" : undefined;
+}
+
+function referenceKey(value: unknown) {
+  return asString(asObject(value)?.reference);
+}
+
+/** Finds bundle resources by full URL or by "Type/id", whichever the facility used in its references. */
+function indexResources(bundle: Record<string, unknown>) {
+  const byReference = new Map<string, Resource>();
+  const resources: Resource[] = [];
+  for (const entry of asArray(bundle.entry).map(asObject)) {
+    const resource = asObject(entry?.resource) as Resource | undefined;
+    if (!resource) continue;
+    resources.push(resource);
+    const fullUrl = asString(entry?.fullUrl);
+    if (fullUrl) byReference.set(fullUrl, resource);
+    if (resource.resourceType && resource.id) byReference.set(`${resource.resourceType}/${resource.id}`, resource);
+  }
+  return { resources, resolve: (value: unknown) => byReference.get(referenceKey(value) ?? "") };
+}
+
+function observationValue(observation: Resource) {
+  const components = asArray(observation.component).map(asObject);
+  const componentValues = components.map((component) => quantityText(component?.valueQuantity)).filter(Boolean) as string[];
+  if (componentValues.length > 0) {
+    // Blood pressure and similar panels read as "148/92 mmHg" when the units agree.
+    const units = new Set(components.map((component) => asString(asObject(component?.valueQuantity)?.unit)));
+    const numbers = components.map((component) => asObject(component?.valueQuantity)?.value).filter((v) => typeof v === "number");
+    const [unit] = [...units];
+    return units.size === 1 && unit && numbers.length === componentValues.length
+      ? `${(numbers as number[]).map(formatNumber).join("/")} ${unit}`
+      : componentValues.join(", ");
+  }
+  return (
+    quantityText(observation.valueQuantity) ??
+    asString(observation.valueString) ??
+    conceptText(observation.valueCodeableConcept) ??
+    (typeof observation.valueBoolean === "boolean" ? (observation.valueBoolean ? "Yes" : "No") : undefined)
+  );
+}
+
+function referenceRangeText(observation: Resource) {
+  const range = asObject(asArray(observation.referenceRange)[0]);
+  if (!range) return undefined;
+  const low = asObject(range.low)?.value;
+  const high = asObject(range.high)?.value;
+  if (typeof low === "number" && typeof high === "number") {
+    return `Normal range ${formatNumber(low)}–${quantityText(range.high)}`;
+  }
+  return asString(range.text) ? `Normal range ${asString(range.text)}` : undefined;
+}
+
+function observationItem(observation: Resource): ReadableItem {
+  const interpretation = asArray(observation.interpretation)[0];
+  const code = conceptCode(interpretation);
+  return {
+    label: conceptText(observation.code) ?? "Observation",
+    value: observationValue(observation),
+    flag: (code && INTERPRETATIONS[code]) ?? conceptText(interpretation),
+    abnormal: Boolean(code && INTERPRETATIONS[code]),
+    details: [referenceRangeText(observation), asString(asArray(observation.note).map(asObject)[0]?.text)].filter(Boolean) as string[],
+    date: asString(observation.effectiveDateTime) ?? asString(asObject(observation.effectivePeriod)?.start),
+  };
+}
+
+function medicationName(resource: Resource, resolve: (value: unknown) => Resource | undefined) {
+  return (
+    conceptText(resource.medicationCodeableConcept) ??
+    conceptText(resolve(resource.medicationReference)?.code) ??
+    asString(asObject(resource.medicationReference)?.display) ??
+    "Medication"
+  );
+}
+
+function dosageText(resource: Resource) {
+  return asArray(resource.dosageInstruction ?? resource.dosage)
+    .map((dosage) => asString(asObject(dosage)?.text))
+    .filter(Boolean) as string[];
+}
+
+function periodText(value: unknown) {
+  const period = asObject(value);
+  const start = asString(period?.start);
+  const end = asString(period?.end);
+  if (!start) return undefined;
+  const day = (iso: string) => new Date(iso).toLocaleDateString("en-IN", { dateStyle: "medium" });
+  return end ? `${day(start)} to ${day(end)}` : `From ${day(start)}`;
+}
+
+/** One resource as items; a diagnostic report brings its results along. */
+function itemsFor(resource: Resource, resolve: (value: unknown) => Resource | undefined): ReadableItem[] {
+  switch (resource.resourceType) {
+    case "Observation":
+      return [observationItem(resource)];
+    case "Condition": {
+      const status = conceptCode(resource.clinicalStatus);
+      const verification = conceptCode(resource.verificationStatus);
+      const icd10 = conceptCode(resource.code, "http://hl7.org/fhir/sid/icd-10");
+      return [
+        {
+          label: conceptText(resource.code) ?? "Condition",
+          flag: verification && verification !== "confirmed" ? verification : undefined,
+          details: [status && `Status: ${status}`, icd10 && `ICD-10 ${icd10}`].filter(Boolean) as string[],
+          date: asString(resource.onsetDateTime) ?? asString(resource.recordedDate),
+        },
+      ];
+    }
+    case "MedicationRequest":
+    case "MedicationStatement":
+      return [
+        {
+          label: medicationName(resource, resolve),
+          flag: resource.status === "stopped" || resource.status === "cancelled" ? String(resource.status) : undefined,
+          details: [...dosageText(resource), asString(asObject(resource.requester)?.display)].filter(Boolean) as string[],
+          date: asString(resource.authoredOn) ?? asString(resource.effectiveDateTime),
+        },
+      ];
+    case "DiagnosticReport": {
+      const results = asArray(resource.result)
+        .map(resolve)
+        .filter((result): result is Resource => result?.resourceType === "Observation");
+      return [
+        {
+          label: conceptText(resource.code) ?? "Diagnostic report",
+          details: [
+            asString(resource.conclusion),
+            ...asArray(resource.presentedForm).map(attachmentText),
+          ].filter(Boolean) as string[],
+          date: asString(resource.effectiveDateTime) ?? asString(resource.issued),
+        },
+        ...results.map(observationItem),
+      ];
+    }
+    case "Immunization": {
+      const protocol = asObject(asArray(resource.protocolApplied)[0]);
+      const dose = protocol?.doseNumberPositiveInt;
+      const doses = protocol?.seriesDosesPositiveInt;
+      return [
+        {
+          label: conceptText(resource.vaccineCode) ?? "Vaccine",
+          flag: resource.status === "not-done" ? "Not given" : undefined,
+          details: [
+            typeof dose === "number" && (typeof doses === "number" ? `Dose ${dose} of ${doses}` : `Dose ${dose}`),
+            asString(resource.lotNumber) && `Batch ${asString(resource.lotNumber)}`,
+          ].filter(Boolean) as string[],
+          date: asString(resource.occurrenceDateTime),
+        },
+      ];
+    }
+    case "Procedure":
+      return [
+        {
+          label: conceptText(resource.code) ?? "Procedure",
+          details: [conceptText(resource.outcome)].filter(Boolean) as string[],
+          date: asString(resource.performedDateTime) ?? asString(asObject(resource.performedPeriod)?.start),
+        },
+      ];
+    case "AllergyIntolerance":
+      return [
+        {
+          label: `Allergy: ${conceptText(resource.code) ?? "unspecified"}`,
+          flag: asString(resource.criticality) === "high" ? "High risk" : undefined,
+          details: asArray(resource.reaction).map((reaction) => conceptText(asArray(asObject(reaction)?.manifestation)[0])).filter(Boolean) as string[],
+          date: asString(resource.recordedDate),
+        },
+      ];
+    case "Encounter":
+      return [
+        {
+          label: conceptText(asArray(resource.type)[0]) ?? capitalize(asString(asObject(resource.class)?.display)) ?? "Visit",
+          details: [
+            periodText(resource.period),
+            conceptText(asObject(resource.hospitalization)?.dischargeDisposition),
+          ].filter(Boolean) as string[],
+        },
+      ];
+    case "CarePlan":
+      return [
+        {
+          label: asString(resource.title) ?? "Care plan",
+          details: [asString(resource.description)].filter(Boolean) as string[],
+          date: asString(asObject(resource.period)?.start),
+        },
+      ];
+    case "DocumentReference":
+    case "Binary":
+      return [
+        {
+          label: asString(resource.description) ?? conceptText(resource.type) ?? "Document",
+          details: (resource.resourceType === "Binary"
+            ? [attachmentText({ contentType: resource.contentType, data: resource.data })]
+            : asArray(resource.content).map((content) => attachmentText(asObject(content)?.attachment))
+          ).filter(Boolean) as string[],
+          date: asString(resource.date),
+        },
+      ];
+    default:
+      return [
+        {
+          label: conceptText(resource.code) ?? resource.resourceType ?? "Unknown entry",
+          details: [],
+        },
+      ];
+  }
+}
+
+function observationPoint(observation: Resource, fallbackDate: string | undefined): ObservationPoint | null {
+  const at = asString(observation.effectiveDateTime) ?? asString(asObject(observation.effectivePeriod)?.start) ?? fallbackDate;
+  const name = conceptText(observation.code);
+  if (!at || !name) return null;
+  const code = conceptCode(observation.code, "http://loinc.org") ?? name;
+  const direct = asObject(observation.valueQuantity);
+  if (typeof direct?.value === "number") {
+    return { code, name, unit: asString(direct.unit), at, values: [{ label: name, value: direct.value }] };
+  }
+  const components = asArray(observation.component).map(asObject);
+  const values = components.flatMap((component) => {
+    const quantity = asObject(component?.valueQuantity);
+    const label = conceptText(component?.code);
+    return typeof quantity?.value === "number" && label ? [{ label, value: quantity.value }] : [];
+  });
+  const unit = asString(asObject(components[0]?.valueQuantity)?.unit);
+  return values.length > 0 ? { code, name, unit, at, values } : null;
+}
+
+export function readFhirDocument(bundle: Record<string, unknown>): ReadableDocument {
+  const { resources, resolve } = indexResources(bundle);
+  const composition = resources.find((resource) => resource.resourceType === "Composition");
+  const date = asString(composition?.date) ?? asString(bundle.timestamp);
+
+  const shown = new Set<Resource>();
+  const sections: ReadableSection[] = [];
+  for (const section of asArray(composition?.section).map(asObject)) {
+    const items: ReadableItem[] = [];
+    for (const reference of asArray(section?.entry)) {
+      const resource = resolve(reference);
+      if (!resource || shown.has(resource)) continue;
+      shown.add(resource);
+      if (resource.resourceType === "DiagnosticReport") {
+        asArray(resource.result).forEach((result) => {
+          const observation = resolve(result);
+          if (observation) shown.add(observation);
+        });
+      }
+      items.push(...itemsFor(resource, resolve));
+    }
+    if (items.length > 0) {
+      sections.push({ title: asString(section?.title) ?? conceptText(section?.code) ?? "Details", items });
+    }
+  }
+  const rest = resources.filter((resource) => !shown.has(resource) && !CONTEXT_RESOURCES.has(resource.resourceType ?? ""));
+  if (rest.length > 0) {
+    sections.push({ title: "Other Details", items: rest.flatMap((resource) => itemsFor(resource, resolve)) });
+  }
+
+  const kindCode = conceptCode(composition?.type, "http://snomed.info/sct");
+  return {
+    kind: kindCode ? (DOCUMENT_KINDS[kindCode] ?? null) : null,
+    title: asString(composition?.title) ?? conceptText(composition?.type) ?? "Health record",
+    date,
+    author: asArray(composition?.author)
+      .map((author) => asString(asObject(author)?.display) ?? conceptText(resolve(author)?.name) ?? asString(resolve(author)?.name))
+      .find(Boolean),
+    sections,
+    observations: resources
+      .filter((resource) => resource.resourceType === "Observation")
+      .map((observation) => observationPoint(observation, date))
+      .filter((point): point is ObservationPoint => point !== null),
+  };
+}
+
+/** One series per test across the documents, oldest measurement first; the most measured tests come first. */
+export function observationSeries(documents: ReadableDocument[]): ObservationSeries[] {
+  const byCode = new Map<string, ObservationPoint[]>();
+  for (const point of documents.flatMap((document) => document.observations)) {
+    byCode.set(point.code, [...(byCode.get(point.code) ?? []), point]);
+  }
+  return [...byCode.values()]
+    .map((points) => {
+      const sorted = [...points].sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+      const lines = [...new Set(sorted.flatMap((point) => point.values.map((value) => value.label)))];
+      return {
+        code: sorted[0].code,
+        name: sorted[0].name,
+        unit: sorted.find((point) => point.unit)?.unit,
+        lines,
+        points: sorted.map((point) => ({
+          at: point.at,
+          ...Object.fromEntries(point.values.map((value) => [value.label, value.value])),
+        })),
+      };
+    })
+    .sort((a, b) => b.points.length - a.points.length || a.name.localeCompare(b.name));
+}
+
+function itemText(item: ReadableItem) {
+  const head = [item.label, item.value].filter(Boolean).join(": ");
+  const extra = [item.flag, ...item.details].filter(Boolean).join("; ");
+  const day = item.date ? ` (${item.date.slice(0, 10)})` : "";
+  return `- ${head}${extra ? ` [${extra}]` : ""}${day}`;
+}
+
+/** Plain text naming the facility and date, so the model knows where each fact came from. */
+export function documentAsText(document: ReadableDocument, facility?: string) {
+  const heading = [document.title, facility, document.date?.slice(0, 10)].filter(Boolean).join(", ");
+  const body = document.sections.flatMap((section) => [`${section.title}:`, ...section.items.map(itemText)]);
+  return [`${heading}:`, ...body].join("\n");
+}
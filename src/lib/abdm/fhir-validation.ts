@@ -0,0 +1,166 @@
+/**
+ * @fileOverview Checks FHIR documents against the ABDM (NRCeS) profile
+ * constraints bundled in nrces-profiles.json.
+ *
+ * - validateFhirBundle - Every issue found, as errors (the bundle would be rejected) and warnings.
+ * - FHIR_PROFILES - The profiles the kiosk knows, by canonical URL.
+ *
+ * This is not a full FHIR validator: it checks the constraints the kiosk's
+ * own documents must meet, i.e. each resource claims a known profile, its
+ * required elements are present, coded elements use the bound code systems
+ * and codes, and every reference resolves inside the bundle.
+ */
+
+import profiles from "@/lib/abdm/nrces-profiles.json";
+import type { FhirBundle } from "@/lib/abdm/fhir";
+
+export type FhirProfile = {
+  url: string;
+  resourceType: string;
+  /** Paths that must yield at least one value. */
+  required?: string[];
+  /** Paths that should, reported as warnings. */
+  recommended?: string[];
+  /** Groups of paths of which at least one must yield a value. */
+  oneOf?: string[][];
+  fixed?: Record<string, string>;
+  /** Codes (of strings) or systems and codes (of codings and quantities) allowed at a path. */
+  bindings?: { path: string; system?: string; codes?: string[] }[];
+};
+
+export type FhirValidationIssue = {
+  severity: "error" | "warning";
+  /** Where in the bundle, e.g. Bundle.entry[3].resource.code. */
+  location: string;
+  message: string;
+};
+
+export const FHIR_PROFILES: Record<string, FhirProfile> = Object.fromEntries(
+  (profiles as FhirProfile[]).map((profile) => [profile.url, profile])
+);
+
+/** The values at a dotted path, stepping through arrays on the way. */
+function valuesAt(value: unknown, path: string): unknown[] {
+  let current: unknown[] = [value];
+  for (const key of path.split(".")) {
+    current = current.flatMap((item) => {
+      const next = item && typeof item === "object" ? (item as Record<string, unknown>)[key] : undefined;
+      return Array.isArray(next) ? next : next === undefined || next === null || next === "" ? [] : [next];
+    });
+  }
+  return current;
+}
+
+function checkProfile(resource: Record<string, unknown>, profile: FhirProfile, location: string) {
+  const issues: FhirValidationIssue[] = [];
+  const error = (path: string, message: string) => issues.push({ severity: "error", location: `${location}.${path}`, message });
+
+  if (resource.resourceType !== profile.resourceType) {
+    error("resourceType", `A ${resource.resourceType} cannot claim the ${profile.resourceType} profile ${profile.url}.`);
+    return issues;
+  }
+  for (const path of profile.required ?? []) {
+    if (valuesAt(resource, path).length === 0) {
+      error(path, `${profile.resourceType}.${path} is required.`);
+    }
+  }
+  for (const path of profile.recommended ?? []) {
+    if (valuesAt(resource, path).length === 0) {
+      issues.push({ severity: "warning", location: `${location}.${path}`, message: `${profile.resourceType}.${path} should be present.` });
+    }
+  }
+  for (const paths of profile.oneOf ?? []) {
+    if (paths.every((path) => valuesAt(resource, path).length === 0)) {
+      error(paths[0], `${profile.resourceType} needs one of ${paths.join(" or ")}.`);
+    }
+  }
+  for (const [path, expected] of Object.entries(profile.fixed ?? {})) {
+    const actual = valuesAt(resource, path);
+    if (actual.length > 0 && actual.some((value) => value !== expected)) {
+      error(path, `${profile.resourceType}.${path} must be "${expected}".`);
+    }
+  }
+  for (const binding of profile.bindings ?? []) {
+    const values = valuesAt(resource, binding.path);
+    if (values.length === 0) continue;
+    if (!binding.system) {
+      const unknown = values.filter((value) => !binding.codes?.includes(String(value)));
+      if (unknown.length > 0) {
+        error(binding.path, `"${unknown.join('", "')}" is not an allowed value of ${profile.resourceType}.${binding.path}.`);
+      }
+      continue;
+    }
+    const inSystem = values.filter((value) => (value as { system?: string }).system === binding.system);
+    if (inSystem.length === 0) {
+      error(binding.path, `${profile.resourceType}.${binding.path} must use ${binding.system}.`);
+    }
+    for (const value of inSystem) {
+      const code = (value as { code?: string }).code;
+      if (binding.codes && !binding.codes.includes(code ?? "")) {
+        error(binding.path, `${code ?? "(no code)"} is not an allowed ${binding.system} code for ${profile.resourceType}.${binding.path}.`);
+      }
+    }
+  }
+  return issues;
+}
+
+/** All references in a resource, e.g. "urn:uuid:…". */
+function referencesIn(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(referencesIn);
+  }
+  if (value && typeof value === "object") {
+    return Object.entries(value).flatMap(([key, child]) =>
+      key === "reference" && typeof child === "string" ? [child] : referencesIn(child)
+    );
+  }
+  return [];
+}
+
+function profileOf(resource: Record<string, unknown>) {
+  return valuesAt(resource, "meta.profile")[0] as string | undefined;
+}
+
+export function validateFhirBundle(bundle: FhirBundle): FhirValidationIssue[] {
+  const issues: FhirValidationIssue[] = [];
+  const resources: [Record<string, unknown>, string][] = [
+    [bundle as unknown as Record<string, unknown>, "Bundle"],
+    ...bundle.entry.map((entry, index): [Record<string, unknown>, string] => [entry.resource, `Bundle.entry[${index}].resource`]),
+  ];
+  for (const [resource, location] of resources) {
+    const url = profileOf(resource);
+    const profile = url ? FHIR_PROFILES[url] : undefined;
+    if (!profile) {
+      issues.push({
+        severity: "error",
+        location: `${location}.meta.profile`,
+        message: url ? `${url} is not an ABDM profile the kiosk knows.` : `The ${resource.resourceType} does not claim an ABDM profile.`,
+      });
+      continue;
+    }
+    issues.push(...checkProfile(resource, profile, location));
+  }
+
+  if (bundle.entry[0]?.resource.resourceType !== "Composition") {
+    issues.push({ severity: "error", location: "Bundle.entry[0]", message: "A document bundle must start with its Composition." });
+  }
+  const fullUrls = new Set<string>();
+  bundle.entry.forEach((entry, index) => {
+    if (fullUrls.has(entry.fullUrl)) {
+      issues.push({ severity: "error", location: `Bundle.entry[${index}].fullUrl`, message: `${entry.fullUrl} appears twice.` });
+    }
+    fullUrls.add(entry.fullUrl);
+  });
+  bundle.entry.forEach((entry, index) => {
+    for (const reference of referencesIn(entry.resource)) {
+      if (!fullUrls.has(reference)) {
+        issues.push({
+          severity: "error",
+          location: `Bundle.entry[${index}].resource`,
+          message: `The reference ${reference} does not resolve to an entry in the bundle.`,
+        });
+      }
+    }
+  });
+  return issues;
+}
@@ -0,0 +1,332 @@
+/**
+ * @fileOverview FHIR R4 documents for the encounters recorded at the kiosk,
+ * following ABDM's NRCeS profiles.
+ *
+ * - encounterBundle - An OPConsultRecord document bundle: the patient, the kiosk,
+ *   the encounter, an Observation per vital sign, a Condition per AI assessment
+ *   and a DocumentReference per tele-consultation summary.
+ * - FHIR_MEDIA_TYPE - The media type the bundles are exchanged as.
+ *
+ * Every resource claims its NRCeS profile in meta.profile, and entries
+ * reference each other by urn:uuid full URLs so the document stands alone.
+ * What the AI produced is labelled AIAST ("artificial intelligence asserted")
+ * in meta.security, and AI diagnoses are only ever provisional. Check a
+ * bundle with validateFhirBundle (fhir-validation.ts) before it leaves the
+ * kiosk.
+ */
+
+import { randomUUID } from "crypto";
+
+import { kioskId } from "@/lib/records";
+import type { KioskLanguage } from "@/lib/records/patients";
+import {
+  ENCOUNTER_TYPE_LABELS,
+  type ConsultationSummary,
+  type DiagnosisResult,
+  type EncounterRecord,
+  type EncounterType,
+  type Patient,
+} from "@/lib/records/types";
+import type { Vitals } from "@/lib/vitals";
+
+export type FhirResource = { resourceType: string; id: string; [key: string]: unknown };
+
+export type FhirEntry = { fullUrl: string; resource: FhirResource };
+
+export type FhirBundle = {
+  resourceType: "Bundle";
+  id: string;
+  meta: { lastUpdated: string; profile: string[]; security: Coding[] };
+  identifier: { system: string; value: string };
+  type: "document";
+  timestamp: string;
+  entry: FhirEntry[];
+};
+
+type Coding = { system: string; code: string; display: string };
+
+export const FHIR_MEDIA_TYPE = "application/fhir+json";
+
+const PROFILE_BASE = "https://nrces.in/ndhm/fhir/r4/StructureDefinition";
+const LOINC = "http://loinc.org";
+const SNOMED = "http://snomed.info/sct";
+const UCUM = "http://unitsofmeasure.org";
+const ICD10 = "http://hl7.org/fhir/sid/icd-10";
+const ABHA_NUMBER_SYSTEM = "https://healthid.ndhm.gov.in";
+const ABHA_ADDRESS_SYSTEM = "https://phr.abdm.gov.in";
+
+const VERY_RESTRICTED: Coding = { system: "http://terminology.hl7.org/CodeSystem/v3-Confidentiality", code: "V", display: "very restricted" };
+const AI_ASSERTED: Coding = {
+  system: "http://terminology.hl7.org/CodeSystem/v3-ObservationValue",
+  code: "AIAST",
+  display: "Artificial Intelligence asserted",
+};
+
+const GENDERS = { female: "female", male: "male", other: "other" } as const;
+
+const ENCOUNTER_CLASSES: Record<EncounterType, Coding> = {
+  "ai-diagnosis": { system: "http://terminology.hl7.org/CodeSystem/v3-ActCode", code: "AMB", display: "ambulatory" },
+  "tele-consultation": { system: "http://terminology.hl7.org/CodeSystem/v3-ActCode", code: "VR", display: "virtual" },
+};
+
+const LANGUAGE_CODES: Record<KioskLanguage, string> = {
+  English: "en",
+  Hindi: "hi",
+  Punjabi: "pa",
+  Bengali: "bn",
+  Marathi: "mr",
+  Tamil: "ta",
+  Telugu: "te",
+};
+
+function codeable(system: string, code: string, display: string) {
+  return { coding: [{ system, code, display }], text: display };
+}
+
+function quantity(value: number, unit: string, code: string) {
+  return { value, unit, system: UCUM, code };
+}
+
+function reference(entry: FhirEntry) {
+  return { reference: entry.fullUrl };
+}
+
+/** Wraps a resource in a bundle entry under its NRCeS profile. */
+function entryFor(profile: string, resource: FhirResource, security: Coding[] = []): FhirEntry {
+  return {
+    fullUrl: `urn:uuid:${randomUUID()}`,
+    resource: {
+      ...resource,
+      meta: { profile: [`${PROFILE_BASE}/${profile}`], ...(security.length > 0 ? { security } : {}) },
+    },
+  };
+}
+
+function patientEntry(patient: Patient): FhirEntry {
+  return entryFor("Patient", {
+    resourceType: "Patient",
+    id: patient.id,
+    identifier: [
+      {
+        type: codeable("http://terminology.hl7.org/CodeSystem/v2-0203", "MR", "Medical record number"),
+        system: `https://kiosk.local/${kioskId()}/patients`,
+        value: patient.id,
+      },
+      ...(patient.abhaId ? [{ system: ABHA_NUMBER_SYSTEM, value: patient.abhaId }] : []),
+      ...(patient.abhaAddress ? [{ system: ABHA_ADDRESS_SYSTEM, value: patient.abhaAddress }] : []),
+    ],
+    name: [{ text: patient.name }],
+    ...(patient.sex ? { gender: GENDERS[patient.sex] } : {}),
+    ...(patient.dateOfBirth ? { birthDate: patient.dateOfBirth } : {}),
+    ...(patient.phone ? { telecom: [{ system: "phone", value: patient.phone, use: "mobile" }] } : {}),
+  });
+}
+
+/** One Observation per measurement: vital signs, body measurements, and blood glucose as a lab result. */
+function vitalEntries(vitals: Vitals, subject: FhirEntry, encounter: FhirEntry): FhirEntry[] {
+  const entries: FhirEntry[] = [];
+  const add = (
+    profile: "ObservationVitalSigns" | "ObservationBodyMeasurement" | "Observation",
+    code: Coding,
+    recordedAt: string,
+    value: Record<string, unknown>
+  ) => {
+    const category =
+      profile === "Observation"
+        ? codeable("http://terminology.hl7.org/CodeSystem/observation-category", "laboratory", "Laboratory")
+        : codeable("http://terminology.hl7.org/CodeSystem/observation-category", "vital-signs", "Vital Signs");
+    entries.push(
+      entryFor(profile, {
+        resourceType: "Observation",
+        id: randomUUID(),
+        status: "final",
+        category: [category],
+        code: { coding: [code], text: code.display },
+        subject: reference(subject),
+        encounter: reference(encounter),
+        effectiveDateTime: recordedAt,
+        ...value,
+      })
+    );
+  };
+  const loinc = (code: string, display: string): Coding => ({ system: LOINC, code, display });
+
+  const { temperature, bloodPressure, heartRate, spo2, respiratoryRate, weight, height, bloodGlucose } = vitals;
+  if (temperature) {
+    const [unit, code] = temperature.unit === "C" ? ["°C", "Cel"] : ["°F", "[degF]"];
+    add("ObservationVitalSigns", loinc("8310-5", "Body temperature"), temperature.recordedAt, {
+      valueQuantity: quantity(temperature.value, unit, code),
+    });
+  }
+  if (bloodPressure) {
+    add("ObservationVitalSigns", loinc("85354-9", "Blood pressure panel"), bloodPressure.recordedAt, {
+      component: [
+        { code: codeable(LOINC, "8480-6", "Systolic blood pressure"), valueQuantity: quantity(bloodPressure.systolic, "mmHg", "mm[Hg]") },
+        { code: codeable(LOINC, "8462-4", "Diastolic blood pressure"), valueQuantity: quantity(bloodPressure.diastolic, "mmHg", "mm[Hg]") },
+      ],
+    });
+  }
+  if (heartRate) {
+    add("ObservationVitalSigns", loinc("8867-4", "Heart rate"), heartRate.recordedAt, {
+      valueQuantity: quantity(heartRate.bpm, "beats/min", "/min"),
+    });
+  }
+  if (spo2) {
+    add("ObservationVitalSigns", loinc("59408-5", "Oxygen saturation by pulse oximetry"), spo2.recordedAt, {
+      valueQuantity: quantity(spo2.percent, "%", "%"),
+    });
+  }
+  if (respiratoryRate) {
+    add("ObservationVitalSigns", loinc("9279-1", "Respiratory rate"), respiratoryRate.recordedAt, {
+      valueQuantity: quantity(respiratoryRate.breathsPerMinute, "breaths/min", "/min"),
+    });
+  }
+  if (weight) {
+    add("ObservationBodyMeasurement", loinc("29463-7", "Body weight"), weight.recordedAt, {
+      valueQuantity: quantity(weight.value, weight.unit, weight.unit === "kg" ? "kg" : "[lb_av]"),
+    });
+  }
+  if (height) {
+    add("ObservationBodyMeasurement", loinc("8302-2", "Body height"), height.recordedAt, {
+      valueQuantity: quantity(height.value, height.unit, height.unit === "cm" ? "cm" : "[in_i]"),
+    });
+  }
+  if (bloodGlucose) {
+    const code =
+      bloodGlucose.context === "fasting"
+        ? loinc("1558-6", "Fasting glucose [Mass/volume] in Serum or Plasma")
+        : loinc("2339-0", "Glucose [Mass/volume] in Blood");
+    add("Observation", code, bloodGlucose.recordedAt, {
+      valueQuantity: quantity(bloodGlucose.value, bloodGlucose.unit, bloodGlucose.unit === "mg/dL" ? "mg/dL" : "mmol/L"),
+      ...(bloodGlucose.context && bloodGlucose.context !== "fasting" ? { note: [{ text: `Taken ${bloodGlucose.context}.` }] } : {}),
+    });
+  }
+  return entries;
+}
+
+/** The AI assessment as a provisional diagnosis, coded with the top differential's ICD-10 code when it is a known one. */
+function conditionEntry(diagnosis: DiagnosisResult, subject: FhirEntry, encounter: FhirEntry): FhirEntry {
+  const top = diagnosis.differentialDiagnoses.find((differential) => differential.rank === 1);
+  const coded = top?.icd10.status === "valid" ? top : undefined;
+  const model = diagnosis.provider ? ` by ${diagnosis.provider.provider} (${diagnosis.provider.model})` : "";
+  return entryFor(
+    "Condition",
+    {
+      resourceType: "Condition",
+      id: diagnosis.id,
+      clinicalStatus: codeable("http://terminology.hl7.org/CodeSystem/condition-clinical", "active", "Active"),
+      verificationStatus: codeable("http://terminology.hl7.org/CodeSystem/condition-ver-status", "provisional", "Provisional"),
+      category: [codeable("http://terminology.hl7.org/CodeSystem/condition-category", "encounter-diagnosis", "Encounter Diagnosis")],
+      code: {
+        ...(coded ? { coding: [{ system: ICD10, code: coded.icd10.code, display: coded.icd10.description ?? coded.condition }] } : {}),
+        text: diagnosis.preliminaryDiagnosis,
+      },
+      subject: reference(subject),
+      encounter: reference(encounter),
+      recordedDate: diagnosis.createdAt,
+      evidence: [{ code: [{ text: diagnosis.symptoms }] }],
+      note: [
+        {
+          text: `AI-suggested${model} with ${Math.round(diagnosis.confidenceLevel * 100)}% confidence; not confirmed by a clinician.`,
+        },
+        { text: `Suggested treatment plan: ${diagnosis.suggestedTreatmentPlan}` },
+      ],
+    },
+    [AI_ASSERTED]
+  );
+}
+
+function documentReferenceEntry(
+  consultation: ConsultationSummary,
+  subject: FhirEntry,
+  encounter: FhirEntry,
+  organization: FhirEntry
+): FhirEntry {
+  const language = LANGUAGE_CODES[consultation.preferredLanguage as KioskLanguage];
+  return entryFor(
+    "DocumentReference",
+    {
+      resourceType: "DocumentReference",
+      id: consultation.id,
+      status: "current",
+      docStatus: "final",
+      type: codeable(SNOMED, "371530004", "Clinical consultation report"),
+      subject: reference(subject),
+      date: consultation.createdAt,
+      author: [reference(organization)],
+      description: "AI-generated summary for the tele-consultation doctor.",
+      content: [
+        {
+          attachment: {
+            contentType: "text/plain",
+            ...(language ? { language } : {}),
+            data: Buffer.from(consultation.summary, "utf8").toString("base64"),
+            title: "Tele-consultation summary",
+            creation: consultation.createdAt,
+          },
+        },
+      ],
+      context: { encounter: [reference(encounter)] },
+    },
+    [AI_ASSERTED]
+  );
+}
+
+function section(title: string, code: string, display: string, entries: FhirEntry[]) {
+  return entries.length > 0 ? [{ title, code: codeable(SNOMED, code, display), entry: entries.map(reference) }] : [];
+}
+
+export function encounterBundle(patient: Patient, record: EncounterRecord): FhirBundle {
+  const { encounter: kioskEncounter } = record;
+  const subject = patientEntry(patient);
+  const organization = entryFor("Organization", {
+    resourceType: "Organization",
+    id: kioskId(),
+    identifier: [{ system: "https://kiosk.local/kiosks", value: kioskId() }],
+    name: `Health Assistant kiosk ${kioskId()}`,
+  });
+  const encounter = entryFor("Encounter", {
+    resourceType: "Encounter",
+    id: kioskEncounter.id,
+    status: "finished",
+    class: ENCOUNTER_CLASSES[kioskEncounter.type],
+    type: [{ text: ENCOUNTER_TYPE_LABELS[kioskEncounter.type] }],
+    subject: reference(subject),
+    period: { start: kioskEncounter.startedAt },
+    serviceProvider: reference(organization),
+  });
+  const observations = record.vitals.flatMap((reading) => vitalEntries(reading.vitals, subject, encounter));
+  const conditions = record.diagnoses.map((diagnosis) => conditionEntry(diagnosis, subject, encounter));
+  const documents = record.consultations.map((consultation) =>
+    documentReferenceEntry(consultation, subject, encounter, organization)
+  );
+
+  const composition = entryFor("OPConsultRecord", {
+    resourceType: "Composition",
+    id: randomUUID(),
+    status: "final",
+    type: codeable(SNOMED, "371530004", "Clinical consultation report"),
+    subject: reference(subject),
+    encounter: reference(encounter),
+    date: kioskEncounter.startedAt,
+    author: [reference(organization)],
+    title: "Consultation Report",
+    custodian: reference(organization),
+    section: [
+      ...section("Chief complaints", "422843007", "Chief complaint section", conditions),
+      ...section("Other Observations", "404684003", "Clinical finding", observations),
+      ...section("Document Reference", "371530004", "Clinical consultation report", documents),
+    ],
+  });
+
+  const timestamp = new Date().toISOString();
+  return {
+    resourceType: "Bundle",
+    id: kioskEncounter.id,
+    meta: { lastUpdated: timestamp, profile: [`${PROFILE_BASE}/DocumentBundle`], security: [VERY_RESTRICTED] },
+    identifier: { system: `https://kiosk.local/${kioskId()}/encounters`, value: kioskEncounter.id },
+    type: "document",
+    timestamp,
+    entry: [composition, subject, organization, encounter, ...observations, ...conditions, ...documents],
+  };
+}
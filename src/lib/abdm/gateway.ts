@@ -0,0 +1,848 @@
+/**
+ * @fileOverview Typed client for the ABDM gateway.
+ *
+ * - AbdmGateway - Session tokens, ABHA user authentication, the ABHA profile,
+ *   ABHA enrolment, consent requests and health data transfers as a Health
+ *   Information User, and care context linking and the answers to ABDM as a
+ *   Health Information Provider.
+ * - AbdmGatewayError - Typed failures, e.g. not-found, blocked, mismatch or invalid-otp.
+ * - getAbdmGateway - The gateway configured by ABDM_GATEWAY_URL and the client credentials.
+ * - demographicMismatches - Which of a patient's details differ from an ABHA account.
+ *
+ * Authentication follows ABDM's asynchronous pattern: each call is answered
+ * with 202 and its result arrives as a callback on the kiosk's bridge
+ * (`/api/abdm/...`, see callbacks.ts). A patient proves they hold an ABHA
+ * account with an OTP sent to their mobile or their Aadhaar-linked mobile,
+ * or by their demographic details; the confirmation returns a token for
+ * fetching their ABHA profile. Consent requests follow the same pattern, and
+ * the consent manager later notifies the bridge when the patient grants,
+ * denies or revokes them (see hiu.ts). As a provider the kiosk is on the
+ * other side: ABDM calls the bridge and the kiosk answers with the respond*
+ * and acknowledge* calls (see hip.ts). Whatever the gateway POSTs to the
+ * bridge carries a Bearer token signed with one of the keys it publishes at
+ * /v0.5/certs, which verifyGatewayToken checks. ABHA enrolment is the exception: its
+ * calls answer directly, and the Aadhaar number, mobile number and OTPs are
+ * encrypted with ABDM's public key before they are sent (see enrolment.ts).
+ * Outside production the client defaults to the mock sandbox that
+ * `server.js` serves under /abdm-sandbox with ABDM_SANDBOX=on; in production
+ * the gateway URL, credentials, consent manager id and bridge URL must be
+ * configured, so a kiosk never advertises the mock's localhost bridge.
+ */
+
+import { constants, createPublicKey, publicEncrypt, randomUUID, verify, type JsonWebKey, type KeyObject } from "crypto";
+
+import { AUTH_MODES, type AbhaIdentifier, type AuthMode, type EnrolmentMethod } from "@/lib/abdm/abha";
+import { AbdmCallbackTimeoutError, expectCallback, type AbdmCallback } from "@/lib/abdm/callbacks";
+import { KEY_EXCHANGE } from "@/lib/abdm/encryption";
+import { CONSENT_REQUEST_PURPOSE_LABELS, type ConsentRequestPurpose, type HiType } from "@/lib/abdm/health-information";
+import { kioskId } from "@/lib/records";
+import type { Sex } from "@/lib/records/patients";
+
+export type AbhaGender = "F" | "M" | "O";
+
+export const ABHA_GENDERS: Record<Sex, AbhaGender> = { female: "F", male: "M", other: "O" };
+
+export type AbhaAccountStatus = "ACTIVE" | "DEACTIVATED" | "LOCKED";
+
+export type AbhaDemographics = {
+  name: string;
+  gender?: AbhaGender;
+  /** YYYY-MM-DD, or just the year. */
+  dateOfBirth?: string;
+};
+
+/** KYC_AND_LINK when the patient is present; LINK when the kiosk links care contexts on their behalf. */
+export type AuthPurpose = "KYC_AND_LINK" | "LINK";
+
+export type AuthTransaction = {
+  transactionId: string;
+  mode: AuthMode;
+  /** What to tell the patient, e.g. which mobile number the OTP went to. */
+  hint: string | null;
+  expiresAt: string;
+};
+
+export type AuthenticatedPatient = {
+  /** The patient's ABHA address. */
+  id: string;
+  name: string;
+  gender: AbhaGender;
+  yearOfBirth: number;
+  monthOfBirth?: number;
+  dayOfBirth?: number;
+  identifiers: { type: string; value: string }[];
+};
+
+export type AbhaProfile = {
+  abhaNumber: string;
+  abhaAddress: string;
+  name: string;
+  gender: AbhaGender;
+  yearOfBirth: number;
+  monthOfBirth?: number;
+  dayOfBirth?: number;
+  mobile?: string;
+  status: AbhaAccountStatus;
+};
+
+export type DateRange = { from: string; to: string };
+
+export type ConsentRequestInput = {
+  /** The patient's ABHA address. */
+  patientId: string;
+  purpose: ConsentRequestPurpose;
+  hiTypes: HiType[];
+  dateRange: DateRange;
+  dataEraseAt: string;
+};
+
+export type ConsentArtefact = {
+  id: string;
+  status: string;
+  patient: { id: string };
+  hip: { id: string; name?: string };
+  hiu: { id: string; name?: string };
+  purpose: { code: string };
+  careContexts: { patientReference: string; careContextReference: string }[];
+  hiTypes: HiType[];
+  dateRange: DateRange;
+  dataEraseAt: string;
+};
+
+export type HealthInformationRequest = {
+  consentId: string;
+  dateRange: DateRange;
+  /** The kiosk's public key and nonce for this transfer. */
+  keyMaterial: { publicKey: string; nonce: string; expiresAt: string };
+};
+
+export type TransferStatus = {
+  /** Which side of the transfer is reporting. */
+  notifier: "HIU" | "HIP";
+  consentId: string;
+  transactionId: string;
+  hipId: string;
+  sessionStatus: "TRANSFERRED" | "FAILED";
+  statusResponses: { careContextReference: string; hiStatus: "OK" | "ERRORED"; description: string }[];
+};
+
+export type CareContextReference = { referenceNumber: string; display: string };
+
+/** The patient as this kiosk knows them, with some of their care contexts. */
+export type LinkedPatient = {
+  referenceNumber: string;
+  display: string;
+  careContexts: CareContextReference[];
+};
+
+export type DiscoveredPatient = LinkedPatient & {
+  /** Which details the patient was found by, e.g. MOBILE or NAME. */
+  matchedBy: string[];
+};
+
+export type LinkReference = {
+  referenceNumber: string;
+  /** Where the OTP went, e.g. a masked mobile number. */
+  communicationHint: string;
+  expiresAt: string;
+};
+
+export type EnrolmentTransaction = {
+  transactionId: string;
+  /** Where the OTP went, e.g. a masked mobile number. */
+  hint: string | null;
+  expiresAt: string;
+};
+
+export type EnrolmentAddress = { line: string; district: string; state: string; pincode: string };
+
+/** The details ABDM creates an ABHA with when there are no Aadhaar details to draw on. */
+export type EnrolmentDemographics = {
+  name: string;
+  gender: AbhaGender;
+  /** YYYY-MM-DD. */
+  dateOfBirth: string;
+  mobile: string;
+  address: EnrolmentAddress;
+};
+
+export type EnrolledAccount = Omit<EnrolmentDemographics, "mobile" | "address"> & {
+  abhaNumber: string;
+  /** The account's preferred ABHA address, once it has one. */
+  abhaAddress?: string;
+  mobile?: string;
+  address?: EnrolmentAddress;
+  /** False when the Aadhaar number already had an ABHA, which ABDM returns instead of creating another. */
+  isNew: boolean;
+};
+
+export const ABDM_ERROR_CODES = [
+  "not-found",
+  "blocked",
+  "mismatch",
+  "invalid-otp",
+  "expired",
+  "taken",
+  "unauthorized",
+  "unavailable",
+] as const;
+export type AbdmErrorCode = (typeof ABDM_ERROR_CODES)[number];
+
+export class AbdmGatewayError extends Error {
+  constructor(
+    readonly code: AbdmErrorCode,
+    message: string,
+    /** For mismatch: which details did not match. */
+    readonly fields: string[] = []
+  ) {
+    super(message);
+    this.name = "AbdmGatewayError";
+  }
+}
+
+export interface AbdmGateway {
+  /** The id this kiosk is registered with, as a provider and as a requester. */
+  readonly facilityId: string;
+  /** A bearer token for the gateway, reused until shortly before it expires. */
+  getSessionToken(): Promise<string>;
+  /** Whether an Authorization header carries an unexpired token signed with one of the gateway's keys. */
+  verifyGatewayToken(authorization: string | null): Promise<boolean>;
+  /** The ways the account holder can authenticate for linking. */
+  fetchAuthModes(identifier: AbhaIdentifier): Promise<AuthMode[]>;
+  /** Starts authentication; for the OTP modes this sends the OTP. */
+  initAuth(identifier: AbhaIdentifier, mode: AuthMode, purpose?: AuthPurpose): Promise<AuthTransaction>;
+  /** Completes authentication with the OTP, or with demographics for the DEMOGRAPHICS mode. */
+  confirmAuth(
+    transactionId: string,
+    credential: { otp: string } | { demographics: AbhaDemographics }
+  ): Promise<{ accessToken: string; patient: AuthenticatedPatient }>;
+  /** The ABHA profile, with the token returned by confirmAuth. */
+  fetchProfile(accessToken: string): Promise<AbhaProfile>;
+
+  /** Asks the patient's consent manager for access; resolves with the consent manager's request id. */
+  initConsentRequest(input: ConsentRequestInput): Promise<string>;
+  /** Tells the consent manager a consent notification was received. */
+  acknowledgeConsentNotification(requestId: string, consentIds: string[]): Promise<void>;
+  fetchConsentArtefact(consentId: string): Promise<ConsentArtefact>;
+  /** Asks for the data of a granted artefact to be pushed to the bridge; resolves with the transaction id. */
+  requestHealthInformation(request: HealthInformationRequest): Promise<string>;
+  /** Reports how a data transfer went. */
+  notifyTransferStatus(status: TransferStatus): Promise<void>;
+
+  /** Links care contexts to an ABHA account, with the token from authenticating for LINK. */
+  addCareContexts(accessToken: string, patient: LinkedPatient): Promise<void>;
+  /** Answers a discovery request with the patient found, or the reason none was. */
+  respondToDiscovery(requestId: string, transactionId: string, outcome: DiscoveredPatient | AbdmGatewayError): Promise<void>;
+  /** Answers a link request with where the OTP went. */
+  respondToLinkInit(requestId: string, transactionId: string, outcome: LinkReference | AbdmGatewayError): Promise<void>;
+  /** Answers a link confirmation with the care contexts now linked. */
+  respondToLinkConfirm(requestId: string, outcome: LinkedPatient | AbdmGatewayError): Promise<void>;
+  acknowledgeHipConsentNotification(requestId: string, consentId: string): Promise<void>;
+  /** Accepts a request for data, which is pushed afterwards, or refuses it. */
+  acknowledgeHealthInformationRequest(requestId: string, transactionId: string, refusal?: AbdmGatewayError): Promise<void>;
+
+  /** Sends the enrolment OTP to the Aadhaar-linked mobile, or to the mobile number itself. */
+  requestEnrolmentOtp(method: EnrolmentMethod, loginId: string): Promise<EnrolmentTransaction>;
+  /** Verifies the Aadhaar OTP and creates the ABHA from the Aadhaar details; `mobile` is for ABHA's messages. */
+  enrolByAadhaar(transactionId: string, otp: string, mobile: string): Promise<EnrolledAccount>;
+  /** Verifies the OTP sent to the mobile number. */
+  verifyEnrolmentMobile(transactionId: string, otp: string): Promise<void>;
+  /** Creates the ABHA from the details the patient confirmed, once their mobile is verified. */
+  enrolByDemographics(transactionId: string, demographics: EnrolmentDemographics): Promise<EnrolledAccount>;
+  /** Free ABHA addresses (the part before the @) made from the new account's name and date of birth. */
+  suggestAbhaAddresses(transactionId: string): Promise<string[]>;
+  /** Gives the new account its ABHA address from the part before the @, which ends the enrolment. */
+  createAbhaAddress(transactionId: string, handle: string): Promise<{ abhaNumber: string; abhaAddress: string }>;
+}
+
+type GatewayConfig = {
+  baseUrl: string;
+  clientId: string;
+  clientSecret: string;
+  cmId: string;
+  requesterId: string;
+  /** Where the gateway sends callbacks and facilities push data, e.g. http://localhost:3000/api/abdm. */
+  bridgeUrl: string;
+  callbackTimeoutMs: number;
+};
+
+/** The mock's settings stand in for missing ones, except in production. */
+function gatewaySetting(name: string, sandboxDefault: string) {
+  const value = process.env[name];
+  if (value) {
+    return value;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error(`${name} must be set in production; the mock ABDM gateway's default is only for development.`);
+  }
+  return sandboxDefault;
+}
+
+function gatewayConfig(): GatewayConfig {
+  const timeout = Number(process.env.ABDM_CALLBACK_TIMEOUT_MS ?? 15000);
+  if (!Number.isFinite(timeout) || timeout <= 0) {
+    throw new Error(`ABDM_CALLBACK_TIMEOUT_MS must be a positive number of milliseconds, got "${process.env.ABDM_CALLBACK_TIMEOUT_MS}".`);
+  }
+  return {
+    baseUrl: gatewaySetting("ABDM_GATEWAY_URL", "http://localhost:3000/abdm-sandbox").replace(/\/$/, ""),
+    clientId: gatewaySetting("ABDM_CLIENT_ID", "kiosk-sandbox"),
+    clientSecret: gatewaySetting("ABDM_CLIENT_SECRET", "sandbox-secret"),
+    cmId: gatewaySetting("ABDM_CM_ID", "sbx"),
+    requesterId: process.env.ABDM_HIP_ID ?? kioskId(),
+    bridgeUrl: gatewaySetting("ABDM_BRIDGE_URL", "http://localhost:3000/api/abdm").replace(/\/$/, ""),
+    callbackTimeoutMs: timeout,
+  };
+}
+
+const GATEWAY_ERROR_CODES: Record<number, AbdmErrorCode> = {
+  1401: "unauthorized",
+  1403: "blocked",
+  1404: "not-found",
+  1409: "taken",
+  1422: "mismatch",
+  1441: "invalid-otp",
+  1442: "expired",
+  1500: "unavailable",
+};
+
+/** Maps the gateway's numeric error codes onto the ones the kiosk acts on. */
+function errorFrom(error: { code: number; message: string }) {
+  return new AbdmGatewayError(GATEWAY_ERROR_CODES[error.code] ?? "unavailable", error.message);
+}
+
+/** The other way round, for the kiosk's own answers to the gateway. */
+function errorBody(error: AbdmGatewayError) {
+  const code = Object.entries(GATEWAY_ERROR_CODES).find(([, value]) => value === error.code)?.[0];
+  return { code: Number(code ?? 1500), message: error.message };
+}
+
+function requireFields<T>(callback: AbdmCallback, key: string): T {
+  if (callback.error) {
+    throw errorFrom(callback.error);
+  }
+  const value = callback[key];
+  if (!value) {
+    throw new AbdmGatewayError("unavailable", `ABDM sent a callback without "${key}".`);
+  }
+  return value as T;
+}
+
+function genderOf(value: unknown): AbhaGender {
+  return value === "F" || value === "M" ? value : "O";
+}
+
+/** ABHA's enrolment profile, with its DD-MM-YYYY date of birth. */
+type EnrolmentProfile = {
+  ABHANumber: string;
+  firstName: string;
+  middleName?: string;
+  lastName?: string;
+  gender: string;
+  dob: string;
+  mobile?: string;
+  phrAddress?: string[];
+  address?: string;
+  districtName?: string;
+  stateName?: string;
+  pinCode?: string;
+};
+
+function enrolledAccount(profile: EnrolmentProfile, isNew: boolean): EnrolledAccount {
+  const [day, month, year] = profile.dob.split("-");
+  return {
+    abhaNumber: profile.ABHANumber,
+    abhaAddress: profile.phrAddress?.[0],
+    name: [profile.firstName, profile.middleName, profile.lastName].filter(Boolean).join(" "),
+    gender: genderOf(profile.gender),
+    dateOfBirth: `${year}-${month}-${day}`,
+    mobile: profile.mobile,
+    address:
+      profile.address && profile.districtName && profile.stateName && profile.pinCode
+        ? { line: profile.address, district: profile.districtName, state: profile.stateName, pincode: profile.pinCode }
+        : undefined,
+    isNew,
+  };
+}
+
+/** How long the gateway's signing keys are trusted before they are fetched again. */
+const SIGNING_KEYS_TTL_MS = 60 * 60 * 1000;
+/** A token naming an unknown key refetches the keys, but no more often than this. */
+const SIGNING_KEYS_REFRESH_MS = 60 * 1000;
+
+type GatewayToken = { header: { alg?: string; kid?: string }; claims: { exp?: number; nbf?: number }; signed: string; signature: Buffer };
+
+/** Splits a compact JWT from a Bearer header, or null when it is not one. */
+function parseBearerToken(authorization: string | null): GatewayToken | null {
+  const token = /^Bearer\s+(\S+)$/i.exec(authorization ?? "")?.[1];
+  const [header, claims, signature, ...rest] = token?.split(".") ?? [];
+  if (!header || !claims || !signature || rest.length > 0) {
+    return null;
+  }
+  try {
+    return {
+      header: JSON.parse(Buffer.from(header, "base64url").toString("utf8")),
+      claims: JSON.parse(Buffer.from(claims, "base64url").toString("utf8")),
+      signed: `${header}.${claims}`,
+      signature: Buffer.from(signature, "base64url"),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function createHttpGateway(config: GatewayConfig): AbdmGateway {
+  let session: { token: string; expiresAt: number } | null = null;
+  let enrolmentKey: ReturnType<typeof createPublicKey> | null = null;
+  let signingKeys: { keys: Map<string, KeyObject>; fetchedAt: number } | null = null;
+
+  async function send(path: string, init: RequestInit & { token?: string; headers?: Record<string, string> }) {
+    let response: Response;
+    try {
+      response = await fetch(`${config.baseUrl}${path}`, {
+        ...init,
+        headers: {
+          "Content-Type": "application/json",
+          "X-CM-ID": config.cmId,
+          ...(init.token ? { Authorization: `Bearer ${init.token}` } : {}),
+          ...init.headers,
+        },
+        cache: "no-store",
+      });
+    } catch (error) {
+      throw new AbdmGatewayError("unavailable", `ABDM gateway at ${config.baseUrl} could not be reached: ${(error as Error).message}`);
+    }
+    if (!response.ok) {
+      const body = (await response.json().catch(() => null)) as { error?: { code: number; message: string } } | null;
+      if (response.status === 401) {
+        session = null;
+      }
+      throw body?.error
+        ? errorFrom(body.error)
+        : new AbdmGatewayError("unavailable", `ABDM gateway answered ${response.status} to ${path}.`);
+    }
+    return response;
+  }
+
+  async function getSessionToken() {
+    if (session && session.expiresAt > Date.now()) {
+      return session.token;
+    }
+    const response = await send("/v0.5/sessions", {
+      method: "POST",
+      body: JSON.stringify({ clientId: config.clientId, clientSecret: config.clientSecret }),
+    });
+    const body = (await response.json()) as { accessToken: string; expiresIn: number };
+    // Renew a minute early so a token never expires mid-flow.
+    session = { token: body.accessToken, expiresAt: Date.now() + Math.max(0, body.expiresIn - 60) * 1000 };
+    return session.token;
+  }
+
+  /** Sends an asynchronous request and resolves with its callback. */
+  async function call(path: string, payload: Record<string, unknown>) {
+    const token = await getSessionToken();
+    const requestId = randomUUID();
+    const callback = expectCallback(requestId, config.callbackTimeoutMs);
+    try {
+      await send(path, {
+        method: "POST",
+        token,
+        body: JSON.stringify({ requestId, timestamp: new Date().toISOString(), ...payload }),
+      });
+      return await callback.promise;
+    } catch (error) {
+      callback.cancel();
+      if (error instanceof AbdmCallbackTimeoutError) {
+        throw new AbdmGatewayError("unavailable", error.message);
+      }
+      throw error;
+    }
+  }
+
+  /** Sends a request that the gateway acknowledges without a callback. */
+  async function post(path: string, payload: Record<string, unknown>) {
+    await send(path, {
+      method: "POST",
+      token: await getSessionToken(),
+      body: JSON.stringify({ requestId: randomUUID(), timestamp: new Date().toISOString(), ...payload }),
+    });
+  }
+
+  function query(identifier: AbhaIdentifier, extra: Record<string, unknown> = {}) {
+    return {
+      query: {
+        id: identifier.value,
+        purpose: "KYC_AND_LINK",
+        requester: { type: "HIP", id: config.requesterId },
+        ...extra,
+      },
+    };
+  }
+
+  /** Sends a request that the gateway answers directly, as the ABHA enrolment calls do. */
+  async function exchange<T>(path: string, init: { method?: string; body?: Record<string, unknown>; transactionId?: string }) {
+    const response = await send(path, {
+      method: init.method ?? "POST",
+      token: await getSessionToken(),
+      headers: {
+        "REQUEST-ID": randomUUID(),
+        TIMESTAMP: new Date().toISOString(),
+        ...(init.transactionId ? { Transaction_Id: init.transactionId } : {}),
+      },
+      body: init.body && JSON.stringify(init.body),
+    });
+    return (await response.json()) as T;
+  }
+
+  /** ABDM's public key for enrolment, fetched once; Aadhaar numbers, mobiles and OTPs travel encrypted with it. */
+  async function encrypt(text: string) {
+    if (!enrolmentKey) {
+      const certificate = await exchange<{ publicKey: string }>("/v3/profile/public/certificate", { method: "GET" });
+      enrolmentKey = createPublicKey({ key: Buffer.from(certificate.publicKey, "base64"), format: "der", type: "spki" });
+    }
+    return publicEncrypt({ key: enrolmentKey, padding: constants.RSA_PKCS1_OAEP_PADDING, oaepHash: "sha1" }, Buffer.from(text)).toString(
+      "base64"
+    );
+  }
+
+  /** The gateway's key with this id, from its published JWKS. */
+  async function signingKey(kid: string) {
+    const age = signingKeys ? Date.now() - signingKeys.fetchedAt : Infinity;
+    if (age > (signingKeys?.keys.has(kid) ? SIGNING_KEYS_TTL_MS : SIGNING_KEYS_REFRESH_MS)) {
+      const response = await send("/v0.5/certs", { method: "GET" });
+      const { keys } = (await response.json()) as { keys: JsonWebKey[] };
+      signingKeys = {
+        keys: new Map(
+          keys
+            .filter((key) => typeof key.kid === "string" && key.kty === "RSA")
+            .map((key) => [key.kid as string, createPublicKey({ key, format: "jwk" })])
+        ),
+        fetchedAt: Date.now(),
+      };
+    }
+    return signingKeys?.keys.get(kid);
+  }
+
+  /** Answers a request the gateway made of the kiosk, with the result or an error. */
+  function respond(path: string, requestId: string, outcome: Record<string, unknown> | AbdmGatewayError) {
+    return post(path, {
+      ...(outcome instanceof AbdmGatewayError ? { error: errorBody(outcome) } : outcome),
+      resp: { requestId },
+    });
+  }
+
+  return {
+    facilityId: config.requesterId,
+
+    getSessionToken,
+
+    async verifyGatewayToken(authorization) {
+      const token = parseBearerToken(authorization);
+      const now = Date.now() / 1000;
+      if (!token || token.header.alg !== "RS256" || !token.header.kid) {
+        return false;
+      }
+      if (typeof token.claims.exp !== "number" || token.claims.exp < now || (token.claims.nbf ?? 0) > now + 60) {
+        return false;
+      }
+      const key = await signingKey(token.header.kid);
+      return !!key && verify("RSA-SHA256", Buffer.from(token.signed), key, token.signature);
+    },
+
+    async fetchAuthModes(identifier) {
+      const callback = await call("/v0.5/users/auth/fetch-modes", query(identifier));
+      const auth = requireFields<{ modes: string[] }>(callback, "auth");
+      return auth.modes.filter((mode): mode is AuthMode => (AUTH_MODES as readonly string[]).includes(mode));
+    },
+
+    async initAuth(identifier, mode, purpose = "KYC_AND_LINK") {
+      const callback = await call("/v0.5/users/auth/init", query(identifier, { authMode: mode, purpose }));
+      const auth = requireFields<{ transactionId: string; mode: AuthMode; meta?: { hint?: string | null; expiry: string } }>(
+        callback,
+        "auth"
+      );
+      return {
+        transactionId: auth.transactionId,
+        mode: auth.mode,
+        hint: auth.meta?.hint ?? null,
+        expiresAt: auth.meta?.expiry ?? new Date(Date.now() + 5 * 60 * 1000).toISOString(),
+      };
+    },
+
+    async confirmAuth(transactionId, credential) {
+      const callback = await call("/v0.5/users/auth/confirm", {
+        transactionId,
+        credential: "otp" in credential ? { authCode: credential.otp } : { demographic: credential.demographics },
+      });
+      const auth = requireFields<{ accessToken: string; patient: AuthenticatedPatient }>(callback, "auth");
+      return { accessToken: auth.accessToken, patient: { ...auth.patient, gender: genderOf(auth.patient.gender) } };
+    },
+
+    async fetchProfile(accessToken) {
+      const response = await send("/v1/account/profile", {
+        method: "GET",
+        token: await getSessionToken(),
+        headers: { "X-Token": accessToken },
+      });
+      const body = (await response.json()) as Record<string, string | undefined>;
+      return {
+        abhaNumber: body.healthIdNumber ?? "",
+        abhaAddress: body.healthId ?? "",
+        name: body.name ?? "",
+        gender: genderOf(body.gender),
+        yearOfBirth: Number(body.yearOfBirth),
+        monthOfBirth: body.monthOfBirth ? Number(body.monthOfBirth) : undefined,
+        dayOfBirth: body.dayOfBirth ? Number(body.dayOfBirth) : undefined,
+        mobile: body.mobile,
+        status: (body.status as AbhaAccountStatus | undefined) ?? "ACTIVE",
+      };
+    },
+
+    async initConsentRequest(input) {
+      const callback = await call("/v0.5/consent-requests/init", {
+        consent: {
+          purpose: { code: input.purpose, text: CONSENT_REQUEST_PURPOSE_LABELS[input.purpose] },
+          patient: { id: input.patientId },
+          hiu: { id: config.requesterId },
+          requester: { name: `Health Assistant kiosk ${config.requesterId}` },
+          hiTypes: input.hiTypes,
+          permission: {
+            accessMode: "VIEW",
+            dateRange: input.dateRange,
+            dataEraseAt: input.dataEraseAt,
+            frequency: { unit: "HOUR", value: 1, repeats: 0 },
+          },
+        },
+      });
+      return requireFields<{ id: string }>(callback, "consentRequest").id;
+    },
+
+    async acknowledgeConsentNotification(requestId, consentIds) {
+      await post("/v0.5/consents/hiu/on-notify", {
+        acknowledgement: consentIds.map((consentId) => ({ status: "OK", consentId })),
+        resp: { requestId },
+      });
+    },
+
+    async fetchConsentArtefact(consentId) {
+      const callback = await call("/v0.5/consents/fetch", { consentId });
+      const consent = requireFields<{
+        status: string;
+        consentDetail: Omit<ConsentArtefact, "id" | "status" | "dateRange" | "dataEraseAt"> & {
+          consentId: string;
+          permission: { dateRange: DateRange; dataEraseAt: string };
+        };
+      }>(callback, "consent");
+      const { consentDetail } = consent;
+      return {
+        id: consentDetail.consentId,
+        status: consent.status,
+        patient: consentDetail.patient,
+        hip: consentDetail.hip,
+        hiu: consentDetail.hiu,
+        purpose: consentDetail.purpose,
+        careContexts: consentDetail.careContexts,
+        hiTypes: consentDetail.hiTypes,
+        dateRange: consentDetail.permission.dateRange,
+        dataEraseAt: consentDetail.permission.dataEraseAt,
+      };
+    },
+
+    async requestHealthInformation(request) {
+      const callback = await call("/v0.5/health-information/cm/request", {
+        hiRequest: {
+          consent: { id: request.consentId },
+          dateRange: request.dateRange,
+          dataPushUrl: `${config.bridgeUrl}/data-push`,
+          keyMaterial: {
+            cryptoAlg: KEY_EXCHANGE.cryptoAlg,
+            curve: KEY_EXCHANGE.curve,
+            dhPublicKey: {
+              expiry: request.keyMaterial.expiresAt,
+              parameters: KEY_EXCHANGE.parameters,
+              keyValue: request.keyMaterial.publicKey,
+            },
+            nonce: request.keyMaterial.nonce,
+          },
+        },
+      });
+      return requireFields<{ transactionId: string }>(callback, "hiRequest").transactionId;
+    },
+
+    async notifyTransferStatus(status) {
+      await post("/v0.5/health-information/notify", {
+        notification: {
+          consentId: status.consentId,
+          transactionId: status.transactionId,
+          doneAt: new Date().toISOString(),
+          notifier: { type: status.notifier, id: config.requesterId },
+          statusNotification: {
+            sessionStatus: status.sessionStatus,
+            hipId: status.hipId,
+            statusResponses: status.statusResponses,
+          },
+        },
+      });
+    },
+
+    async addCareContexts(accessToken, patient) {
+      const callback = await call("/v0.5/links/link/add-contexts", { link: { accessToken, patient } });
+      const acknowledgement = requireFields<{ status: string }>(callback, "acknowledgement");
+      if (acknowledgement.status !== "SUCCESS") {
+        throw new AbdmGatewayError("unavailable", `ABDM did not link the care contexts: ${acknowledgement.status}.`);
+      }
+    },
+
+    async respondToDiscovery(requestId, transactionId, outcome) {
+      if (outcome instanceof AbdmGatewayError) {
+        await respond("/v0.5/care-contexts/on-discover", requestId, outcome);
+        return;
+      }
+      const { matchedBy, ...patient } = outcome;
+      await respond("/v0.5/care-contexts/on-discover", requestId, { transactionId, patient: { ...patient, matchedBy } });
+    },
+
+    async respondToLinkInit(requestId, transactionId, outcome) {
+      await respond(
+        "/v0.5/links/link/on-init",
+        requestId,
+        outcome instanceof AbdmGatewayError
+          ? outcome
+          : {
+              transactionId,
+              link: {
+                referenceNumber: outcome.referenceNumber,
+                authenticationType: "DIRECT",
+                meta: {
+                  communicationMedium: "MOBILE",
+                  communicationHint: outcome.communicationHint,
+                  communicationExpiry: outcome.expiresAt,
+                },
+              },
+            }
+      );
+    },
+
+    async respondToLinkConfirm(requestId, outcome) {
+      await respond("/v0.5/links/link/on-confirm", requestId, outcome instanceof AbdmGatewayError ? outcome : { patient: outcome });
+    },
+
+    async acknowledgeHipConsentNotification(requestId, consentId) {
+      await respond("/v0.5/consents/hip/on-notify", requestId, { acknowledgement: { status: "OK", consentId } });
+    },
+
+    async acknowledgeHealthInformationRequest(requestId, transactionId, refusal) {
+      await respond(
+        "/v0.5/health-information/hip/on-request",
+        requestId,
+        refusal ?? { hiRequest: { transactionId, sessionStatus: "ACKNOWLEDGED" } }
+      );
+    },
+
+    async requestEnrolmentOtp(method, loginId) {
+      const aadhaar = method === "AADHAAR_OTP";
+      const body = await exchange<{ txnId: string; message?: string }>("/v3/enrollment/request/otp", {
+        body: {
+          scope: aadhaar ? ["abha-enrol"] : ["abha-enrol", "mobile-verify"],
+          loginHint: aadhaar ? "aadhaar" : "mobile",
+          loginId: await encrypt(loginId),
+          otpSystem: aadhaar ? "aadhaar" : "abdm",
+        },
+      });
+      return {
+        transactionId: body.txnId,
+        hint: body.message ?? null,
+        expiresAt: new Date(Date.now() + 10 * 60 * 1000).toISOString(),
+      };
+    },
+
+    async enrolByAadhaar(transactionId, otp, mobile) {
+      const body = await exchange<{ ABHAProfile: EnrolmentProfile; isNew: boolean }>("/v3/enrollment/enrol/byAadhaar", {
+        body: {
+          authData: { authMethods: ["otp"], otp: { txnId: transactionId, otpValue: await encrypt(otp), mobile } },
+          consent: { code: "abha-enrollment", version: "1.4" },
+        },
+      });
+      return enrolledAccount(body.ABHAProfile, body.isNew);
+    },
+
+    async verifyEnrolmentMobile(transactionId, otp) {
+      const body = await exchange<{ authResult: string; message?: string }>("/v3/enrollment/auth/byAbdm", {
+        body: {
+          scope: ["abha-enrol", "mobile-verify"],
+          authData: { authMethods: ["otp"], otp: { txnId: transactionId, otpValue: await encrypt(otp) } },
+        },
+      });
+      if (body.authResult !== "success") {
+        throw new AbdmGatewayError("invalid-otp", body.message ?? "ABDM did not verify the mobile number.");
+      }
+    },
+
+    async enrolByDemographics(transactionId, demographics) {
+      const [year, month, day] = demographics.dateOfBirth.split("-");
+      const body = await exchange<{ ABHAProfile: EnrolmentProfile; isNew: boolean }>("/v3/enrollment/enrol/byDemographics", {
+        body: {
+          txnId: transactionId,
+          demographic: {
+            name: demographics.name,
+            gender: demographics.gender,
+            dateOfBirth: `${day}-${month}-${year}`,
+            mobile: await encrypt(demographics.mobile),
+            address: demographics.address.line,
+            districtName: demographics.address.district,
+            stateName: demographics.address.state,
+            pinCode: demographics.address.pincode,
+          },
+          consent: { code: "abha-enrollment", version: "1.4" },
+        },
+      });
+      return enrolledAccount(body.ABHAProfile, body.isNew);
+    },
+
+    async suggestAbhaAddresses(transactionId) {
+      const body = await exchange<{ abhaAddressList?: string[] }>("/v3/enrollment/enrol/suggestion", {
+        method: "GET",
+        transactionId,
+      });
+      return body.abhaAddressList ?? [];
+    },
+
+    async createAbhaAddress(transactionId, handle) {
+      const body = await exchange<{ healthIdNumber: string; preferredAbhaAddress: string }>("/v3/enrollment/enrol/abha-address", {
+        body: { txnId: transactionId, abhaAddress: handle, preferred: 1 },
+      });
+      return { abhaNumber: body.healthIdNumber, abhaAddress: body.preferredAbhaAddress };
+    },
+  };
+}
+
+function nameTokens(name: string) {
+  return name.toLowerCase().replace(/[^a-z\s]/g, " ").split(/\s+/).filter(Boolean);
+}
+
+/** ABDM matches names loosely: every part of the shorter name must appear in the longer one. */
+export function namesMatch(a: string, b: string) {
+  const [shorter, longer] = [nameTokens(a), nameTokens(b)].sort((x, y) => x.length - y.length);
+  return shorter.length > 0 && shorter.every((token) => longer.includes(token));
+}
+
+export function demographicMismatches(
+  profile: Pick<AbhaProfile, "name" | "gender" | "yearOfBirth">,
+  patient: { name: string; gender?: AbhaGender; yearOfBirth?: number; yearTolerance?: number }
+) {
+  const fields: string[] = [];
+  if (!namesMatch(profile.name, patient.name)) fields.push("name");
+  if (patient.gender && patient.gender !== profile.gender) fields.push("sex");
+  if (patient.yearOfBirth !== undefined && Math.abs(patient.yearOfBirth - profile.yearOfBirth) > (patient.yearTolerance ?? 0)) {
+    fields.push("year of birth");
+  }
+  return fields;
+}
+
+let gateway: AbdmGateway | undefined;
+
+export function getAbdmGateway() {
+  if (!gateway) {
+    gateway = createHttpGateway(gatewayConfig());
+  }
+  return gateway;
+}
@@ -0,0 +1,84 @@
+/**
+ * @fileOverview ABDM's health information vocabulary. Free of Node APIs so
+ * forms can validate with the same rules as the server.
+ *
+ * - CONSENT_REQUEST_PURPOSES - The purposes a Health Information User may ask for records for.
+ * - HI_TYPES - The kinds of health record ABDM exchanges.
+ * - CONSENT_REQUEST_STATUSES - Where a consent request is in its lifecycle.
+ * - HealthRecordRequestFormSchema - The kiosk's form for requesting a patient's records.
+ *
+ * A consent request starts as "requested". The patient grants or denies it in
+ * their PHR app; a granted consent produces one artefact per facility that
+ * holds their records, and later expires at its erase date or is revoked by
+ * the patient. Records received under a consent are erased with it.
+ */
+
+import { z } from "zod";
+
+export const CONSENT_REQUEST_PURPOSES = ["CAREMGT", "BTG", "PUBHLTH", "HPAYMT", "DSRCH", "PATRQT"] as const;
+export type ConsentRequestPurpose = (typeof CONSENT_REQUEST_PURPOSES)[number];
+
+export const CONSENT_REQUEST_PURPOSE_LABELS: Record<ConsentRequestPurpose, string> = {
+  CAREMGT: "Care Management",
+  BTG: "Break the Glass",
+  PUBHLTH: "Public Health",
+  HPAYMT: "Healthcare Payment",
+  DSRCH: "Disease Specific Healthcare Research",
+  PATRQT: "Self Requested",
+};
+
+export const HI_TYPES = [
+  "OPConsultation",
+  "Prescription",
+  "DischargeSummary",
+  "DiagnosticReport",
+  "ImmunizationRecord",
+  "HealthDocumentRecord",
+  "WellnessRecord",
+] as const;
+export type HiType = (typeof HI_TYPES)[number];
+
+export const HI_TYPE_LABELS: Record<HiType, string> = {
+  OPConsultation: "OP Consultation",
+  Prescription: "Prescription",
+  DischargeSummary: "Discharge Summary",
+  DiagnosticReport: "Diagnostic Report",
+  ImmunizationRecord: "Immunization Record",
+  HealthDocumentRecord: "Health Document",
+  WellnessRecord: "Wellness Record",
+};
+
+export const CONSENT_REQUEST_STATUSES = ["requested", "granted", "denied", "expired", "revoked"] as const;
+export type ConsentRequestStatus = (typeof CONSENT_REQUEST_STATUSES)[number];
+
+export const CONSENT_REQUEST_STATUS_LABELS: Record<ConsentRequestStatus, string> = {
+  requested: "Awaiting patient",
+  granted: "Granted",
+  denied: "Denied",
+  expired: "Expired",
+  revoked: "Revoked",
+};
+
+/** How long the kiosk may keep records by default, in days; ABDM asks HIUs to keep them no longer than needed. */
+export const DEFAULT_RETENTION_DAYS = 30;
+
+const day = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Please pick a date.");
+
+export const HealthRecordRequestFormSchema = z
+  .object({
+    purpose: z.enum(CONSENT_REQUEST_PURPOSES),
+    hiTypes: z.array(z.enum(HI_TYPES)).min(1, "Please choose at least one kind of record."),
+    from: day,
+    to: day,
+    eraseAt: day,
+  })
+  .refine((form) => form.from <= form.to, { path: ["to"], message: "The end date must not be before the start date." })
+  .refine((form) => form.to <= new Date().toISOString().slice(0, 10), {
+    path: ["to"],
+    message: "Records cannot be requested for future dates.",
+  })
+  .refine((form) => form.eraseAt > new Date().toISOString().slice(0, 10), {
+    path: ["eraseAt"],
+    message: "The records must be kept until at least tomorrow.",
+  });
+export type HealthRecordRequestForm = z.infer<typeof HealthRecordRequestFormSchema>;
@@ -0,0 +1,570 @@
+/**
+ * @fileOverview The kiosk as an ABDM Health Information Provider (HIP) for the
+ * encounters recorded here.
+ *
+ * - linkCareContext - Makes an encounter a care context and links it to the patient's ABHA, if they have one.
+ * - linkPendingCareContexts - Links the care contexts recorded before the patient's ABHA was.
+ * - handleDiscovery - Finds the patient a consent manager asks about, with their unlinked care contexts.
+ * - handleLinkInit / handleLinkConfirm - Links the care contexts a patient picked in their PHR app, with an OTP.
+ * - handleHipConsentNotification - Keeps the consent artefacts that let other facilities fetch records.
+ * - handleHealthInformationRequest - Sends the records an artefact covers and records the share.
+ *
+ * Each encounter is one care context, referenced by its encounter id under
+ * the patient id. The kiosk links them itself with a LINK token from
+ * authenticating the patient's demographics, so nobody has to wait at the
+ * kiosk for it. Requested records are sent as FHIR documents (see fhir.ts),
+ * validated, and encrypted with a fresh key pair for every transfer.
+ */
+
+import { randomInt, randomUUID } from "crypto";
+
+import { checksumOf, encryptHealthData, generateKeyMaterial, KEY_EXCHANGE, type PeerKey } from "@/lib/abdm/encryption";
+import { encounterBundle, FHIR_MEDIA_TYPE } from "@/lib/abdm/fhir";
+import { validateFhirBundle } from "@/lib/abdm/fhir-validation";
+import {
+  ABHA_GENDERS,
+  AbdmGatewayError,
+  demographicMismatches,
+  getAbdmGateway,
+  type AbhaGender,
+  type DateRange,
+  type DiscoveredPatient,
+  type LinkedPatient,
+  type TransferStatus,
+} from "@/lib/abdm/gateway";
+import { HI_TYPES, type HiType } from "@/lib/abdm/health-information";
+import { getRecordRepository } from "@/lib/records";
+import { normalizePhone } from "@/lib/records/patients";
+import { RecordNotFoundError } from "@/lib/records/repository";
+import { ENCOUNTER_TYPE_LABELS, type CareContext, type EncounterRecord, type Patient } from "@/lib/records/types";
+
+/** What every kiosk encounter holds, in ABDM's terms. */
+const ENCOUNTER_HI_TYPES: HiType[] = ["OPConsultation"];
+
+const LINK_OTP_TTL_MS = 5 * 60 * 1000;
+const LINK_OTP_ATTEMPTS = 3;
+
+type PendingLink = {
+  patientId: string;
+  abhaAddress: string;
+  careContextIds: string[];
+  otp: string;
+  expiresAt: number;
+  attemptsLeft: number;
+};
+
+// On globalThis for the same reason as the callback waiters: the route handler may be a separate module instance.
+const globalLinks = globalThis as typeof globalThis & { abdmPendingLinks?: Map<string, PendingLink> };
+const pendingLinks = (globalLinks.abdmPendingLinks ??= new Map<string, PendingLink>());
+
+type DiscoveryRequest = {
+  requestId?: string;
+  transactionId?: string;
+  patient?: {
+    id?: string;
+    name?: string;
+    gender?: AbhaGender;
+    yearOfBirth?: number;
+    verifiedIdentifiers?: { type: string; value: string }[];
+  };
+};
+
+type LinkInitRequest = {
+  requestId?: string;
+  transactionId?: string;
+  patient?: { id?: string; referenceNumber?: string; careContexts?: { referenceNumber: string }[] };
+};
+
+type LinkConfirmRequest = {
+  requestId?: string;
+  confirmation?: { linkRefNumber?: string; token?: string };
+};
+
+/** The notice's consentDetail is not trusted; granted artefacts are fetched from the gateway instead. */
+type HipConsentNotification = {
+  requestId?: string;
+  notification?: { status?: string; consentId?: string };
+};
+
+type DataPush = { url: string; recipient: PeerKey; keyExpiry?: string };
+
+type HealthInformationRequest = {
+  requestId?: string;
+  transactionId?: string;
+  hiRequest?: {
+    consent?: { id?: string };
+    dateRange?: DateRange;
+    dataPushUrl?: string;
+    keyMaterial?: { dhPublicKey?: { keyValue?: string; expiry?: string }; nonce?: string };
+  };
+};
+
+function careContextDisplay(record: EncounterRecord) {
+  const date = new Date(record.encounter.startedAt).toLocaleDateString("en-IN", { dateStyle: "medium" });
+  return `${ENCOUNTER_TYPE_LABELS[record.encounter.type]}, ${date}`;
+}
+
+function linkedPatient(patient: Patient, careContexts: CareContext[]): LinkedPatient {
+  return {
+    referenceNumber: patient.id,
+    display: patient.name,
+    careContexts: careContexts.map((careContext) => ({ referenceNumber: careContext.id, display: careContext.display })),
+  };
+}
+
+/** Links the care contexts to the patient's ABHA address and records the outcome on each. */
+async function linkToAbha(patient: Patient, abhaAddress: string, careContexts: CareContext[]) {
+  const gateway = getAbdmGateway();
+  const repository = getRecordRepository();
+  let outcome: Pick<CareContext, "status" | "linkedAt" | "error">;
+  try {
+    const transaction = await gateway.initAuth({ kind: "address", value: abhaAddress }, "DEMOGRAPHICS", "LINK");
+    const { accessToken } = await gateway.confirmAuth(transaction.transactionId, {
+      demographics: {
+        name: patient.name,
+        gender: patient.sex && ABHA_GENDERS[patient.sex],
+        dateOfBirth: patient.dateOfBirth,
+      },
+    });
+    await gateway.addCareContexts(accessToken, linkedPatient(patient, careContexts));
+    outcome = { status: "linked", linkedAt: new Date().toISOString(), error: undefined };
+  } catch (error) {
+    console.error(`Could not link care contexts of patient ${patient.id}:`, error);
+    outcome = { status: "failed", linkedAt: undefined, error: (error as Error).message };
+  }
+  const updated: CareContext[] = [];
+  for (const careContext of careContexts) {
+    updated.push(await repository.putCareContext({ ...careContext, ...outcome, abhaAddress }));
+  }
+  return updated;
+}
+
+/**
+ * Records the encounter as a care context and links it to the patient's
+ * ABHA. Without an ABHA it stays pending until linkPendingCareContexts; a
+ * failed link is recorded on the care context rather than thrown.
+ */
+export async function linkCareContext(encounterId: string) {
+  const repository = getRecordRepository();
+  const record = await repository.getEncounter(encounterId);
+  if (!record) {
+    throw new RecordNotFoundError("encounters", encounterId);
+  }
+  const patient = await repository.getPatient(record.encounter.patientId);
+  if (!patient) {
+    throw new RecordNotFoundError("patients", record.encounter.patientId);
+  }
+  const careContext = await repository.putCareContext({
+    patientId: patient.id,
+    encounterId,
+    display: careContextDisplay(record),
+    hiTypes: ENCOUNTER_HI_TYPES,
+    status: "pending",
+  });
+  if (!patient.abhaAddress) {
+    return careContext;
+  }
+  const [linked] = await linkToAbha(patient, patient.abhaAddress, [careContext]);
+  return linked;
+}
+
+/** Links every care context not yet linked to the patient's current ABHA address. */
+export async function linkPendingCareContexts(patientId: string) {
+  const repository = getRecordRepository();
+  const patient = await repository.getPatient(patientId);
+  if (!patient?.abhaAddress) {
+    return [];
+  }
+  const abhaAddress = patient.abhaAddress;
+  const pending = (await repository.listCareContexts(patientId)).filter(
+    (careContext) => careContext.status !== "linked" || careContext.abhaAddress !== abhaAddress
+  );
+  return pending.length > 0 ? linkToAbha(patient, abhaAddress, pending) : [];
+}
+
+/** Runs an answer to the gateway in the background, so the bridge can reply 202 straight away. */
+function inBackground(label: string, work: () => Promise<void>) {
+  work().catch((error) => console.error(`Could not ${label}:`, error));
+}
+
+/** Matches by ABHA address first, then by verified mobile number and demographics. */
+async function discoverPatient(query: NonNullable<DiscoveryRequest["patient"]>): Promise<DiscoveredPatient | AbdmGatewayError> {
+  const repository = getRecordRepository();
+  let matches = query.id ? await repository.findPatientsByAbhaAddress(query.id) : [];
+  let matchedBy = ["HEALTH_ID"];
+  if (matches.length === 0) {
+    const mobile = query.verifiedIdentifiers?.find((identifier) => identifier.type === "MOBILE")?.value;
+    const phone = mobile && normalizePhone(mobile);
+    const candidates = phone ? await repository.findPatientsByPhone(phone) : [];
+    matches = candidates.filter(
+      (patient) =>
+        !patient.walkIn &&
+        query.name &&
+        query.gender &&
+        query.yearOfBirth &&
+        demographicMismatches(
+          { name: query.name, gender: query.gender, yearOfBirth: query.yearOfBirth },
+          {
+            name: patient.name,
+            gender: patient.sex && ABHA_GENDERS[patient.sex],
+            yearOfBirth: patient.dateOfBirth ? Number(patient.dateOfBirth.slice(0, 4)) : undefined,
+            yearTolerance: patient.dateOfBirthEstimated ? 1 : 0,
+          }
+        ).length === 0
+    );
+    matchedBy = ["MOBILE", "NAME", "GENDER", "YEAR_OF_BIRTH"];
+  }
+  if (matches.length === 0) {
+    return new AbdmGatewayError("not-found", "No patient at this kiosk matches these details.");
+  }
+  if (matches.length > 1) {
+    return new AbdmGatewayError("mismatch", "More than one patient at this kiosk matches these details.");
+  }
+  const [patient] = matches;
+  const unlinked = (await repository.listCareContexts(patient.id)).filter(
+    (careContext) => careContext.status !== "linked" || careContext.abhaAddress !== query.id
+  );
+  return { ...linkedPatient(patient, unlinked), matchedBy };
+}
+
+/** A consent manager looking for the patient's records on their behalf. Returns false when malformed. */
+export function handleDiscovery(body: unknown) {
+  const { requestId, transactionId, patient } = (body ?? {}) as DiscoveryRequest;
+  if (!requestId || !transactionId || !patient) {
+    return false;
+  }
+  inBackground(`answer discovery request ${requestId}`, async () => {
+    await getAbdmGateway().respondToDiscovery(requestId, transactionId, await discoverPatient(patient));
+  });
+  return true;
+}
+
+function maskedMobile(phone: string) {
+  return `${"X".repeat(phone.length - 4)}${phone.slice(-4)}`;
+}
+
+async function startLink(request: Required<LinkInitRequest>["patient"]) {
+  const repository = getRecordRepository();
+  const patient = request.referenceNumber ? await repository.getPatient(request.referenceNumber) : null;
+  if (!patient || !request.id) {
+    return new AbdmGatewayError("not-found", "No patient at this kiosk has this reference number.");
+  }
+  const careContextIds = (request.careContexts ?? []).map((careContext) => careContext.referenceNumber);
+  const careContexts = await Promise.all(careContextIds.map((id) => repository.getCareContext(id)));
+  if (careContextIds.length === 0 || careContexts.some((careContext) => careContext?.patientId !== patient.id)) {
+    return new AbdmGatewayError("not-found", "Some of these care contexts do not belong to the patient.");
+  }
+  if (!patient.phone) {
+    return new AbdmGatewayError("unavailable", "The patient has no mobile number at this kiosk to send the OTP to.");
+  }
+  if (process.env.NODE_ENV === "production") {
+    // The kiosk has no SMS provider yet, and an OTP nobody receives cannot link anything.
+    return new AbdmGatewayError("unavailable", "This kiosk cannot send link OTPs.");
+  }
+  const referenceNumber = randomUUID();
+  const otp = String(randomInt(0, 1_000_000)).padStart(6, "0");
+  const expiresAt = Date.now() + LINK_OTP_TTL_MS;
+  pendingLinks.set(referenceNumber, {
+    patientId: patient.id,
+    abhaAddress: request.id,
+    careContextIds,
+    otp,
+    expiresAt,
+    attemptsLeft: LINK_OTP_ATTEMPTS,
+  });
+  console.log(`ABDM link OTP for patient ${patient.id} (${maskedMobile(patient.phone)}): ${otp}`);
+  return {
+    referenceNumber,
+    communicationHint: maskedMobile(patient.phone),
+    expiresAt: new Date(expiresAt).toISOString(),
+  };
+}
+
+/** The patient asks, in their PHR app, to link care contexts found by discovery. Returns false when malformed. */
+export function handleLinkInit(body: unknown) {
+  const { requestId, transactionId, patient } = (body ?? {}) as LinkInitRequest;
+  if (!requestId || !transactionId || !patient) {
+    return false;
+  }
+  inBackground(`answer link request ${requestId}`, async () => {
+    await getAbdmGateway().respondToLinkInit(requestId, transactionId, await startLink(patient));
+  });
+  return true;
+}
+
+async function confirmLink(linkRefNumber: string, token: string) {
+  const link = pendingLinks.get(linkRefNumber);
+  if (!link || link.expiresAt < Date.now()) {
+    pendingLinks.delete(linkRefNumber);
+    return new AbdmGatewayError("expired", "The link request has expired. Start again.");
+  }
+  if (token !== link.otp) {
+    link.attemptsLeft--;
+    if (link.attemptsLeft <= 0) {
+      pendingLinks.delete(linkRefNumber);
+    }
+    return new AbdmGatewayError("invalid-otp", "The OTP is incorrect.");
+  }
+  pendingLinks.delete(linkRefNumber);
+
+  const repository = getRecordRepository();
+  const patient = await repository.getPatient(link.patientId);
+  if (!patient) {
+    return new AbdmGatewayError("not-found", "The patient's record is no longer at this kiosk.");
+  }
+  const linked: CareContext[] = [];
+  for (const id of link.careContextIds) {
+    const existing = await repository.getCareContext(id);
+    if (existing) {
+      linked.push(
+        await repository.putCareContext({
+          ...existing,
+          status: "linked",
+          abhaAddress: link.abhaAddress,
+          linkedAt: new Date().toISOString(),
+          error: undefined,
+        })
+      );
+    }
+  }
+  return linkedPatient(patient, linked);
+}
+
+/** The patient confirms a link with the OTP. Returns false when malformed. */
+export function handleLinkConfirm(body: unknown) {
+  const { requestId, confirmation } = (body ?? {}) as LinkConfirmRequest;
+  if (!requestId || !confirmation?.linkRefNumber || !confirmation.token) {
+    return false;
+  }
+  const { linkRefNumber, token } = confirmation;
+  inBackground(`answer link confirmation ${requestId}`, async () => {
+    await getAbdmGateway().respondToLinkConfirm(requestId, await confirmLink(linkRefNumber, token));
+  });
+  return true;
+}
+
+/**
+ * The gateway's own copy of an artefact, if it is granted to this kiosk;
+ * null when the gateway does not know it, or it names another provider or
+ * is no longer granted.
+ */
+async function confirmedArtefact(consentId: string) {
+  const gateway = getAbdmGateway();
+  try {
+    const artefact = await gateway.fetchConsentArtefact(consentId);
+    return artefact.id === consentId && artefact.hip.id === gateway.facilityId && artefact.status.toUpperCase() === "GRANTED"
+      ? artefact
+      : null;
+  } catch (error) {
+    if (error instanceof AbdmGatewayError && error.code !== "unavailable") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Stores a granted artefact, or marks it revoked or expired. A grant is only
+ * stored as the gateway confirms it when fetched by id, whatever the notice
+ * says. Returns false when the notice is malformed or about an artefact or
+ * patient this kiosk does not know.
+ */
+export async function handleHipConsentNotification(body: unknown) {
+  const { requestId, notification } = (body ?? {}) as HipConsentNotification;
+  if (!requestId || !notification?.consentId || !notification.status) {
+    return false;
+  }
+  const repository = getRecordRepository();
+  const { consentId } = notification;
+  const status = notification.status.toLowerCase();
+  if (status === "granted") {
+    const artefact = await confirmedArtefact(consentId);
+    const patientId = artefact?.careContexts[0]?.patientReference;
+    if (!artefact || !patientId || !(await repository.getPatient(patientId))) {
+      return false;
+    }
+    await repository.putHipConsentArtefact({
+      id: consentId,
+      patientId,
+      abhaAddress: artefact.patient.id,
+      hiuId: artefact.hiu.id,
+      purpose: artefact.purpose.code,
+      hiTypes: artefact.hiTypes.filter((hiType): hiType is HiType => (HI_TYPES as readonly string[]).includes(hiType)),
+      careContextReferences: artefact.careContexts
+        .filter((careContext) => careContext.patientReference === patientId)
+        .map((careContext) => careContext.careContextReference),
+      dateRange: artefact.dateRange,
+      dataEraseAt: artefact.dataEraseAt,
+      status: "granted",
+    });
+  } else if (status === "revoked" || status === "expired") {
+    const existing = await repository.getHipConsentArtefact(consentId);
+    if (!existing) {
+      return false;
+    }
+    await repository.putHipConsentArtefact({ ...existing, status });
+  } else {
+    return false;
+  }
+  inBackground(`acknowledge consent notice ${requestId}`, () =>
+    getAbdmGateway().acknowledgeHipConsentNotification(requestId, consentId)
+  );
+  return true;
+}
+
+function overlap(a: DateRange, b: DateRange): DateRange | null {
+  const from = a.from > b.from ? a.from : b.from;
+  const to = a.to < b.to ? a.to : b.to;
+  return from <= to ? { from, to } : null;
+}
+
+/** Encrypts and pushes the covered encounters, then reports the transfer and records the share. */
+async function sendHealthInformation(artefactId: string, transactionId: string, dateRange: DateRange, push: DataPush) {
+  const gateway = getAbdmGateway();
+  const repository = getRecordRepository();
+  const artefact = await repository.getHipConsentArtefact(artefactId);
+  const patient = artefact && (await repository.getPatient(artefact.patientId));
+  if (!artefact || !patient) {
+    return;
+  }
+  const sender = generateKeyMaterial();
+  const entries: { content: string; media: string; checksum: string; careContextReference: string }[] = [];
+  const statusResponses: TransferStatus["statusResponses"] = [];
+  for (const reference of artefact.careContextReferences) {
+    const careContext = await repository.getCareContext(reference);
+    const record = careContext?.patientId === patient.id ? await repository.getEncounter(careContext.encounterId) : null;
+    if (!careContext || !record) {
+      statusResponses.push({ careContextReference: reference, hiStatus: "ERRORED", description: "No such care context." });
+      continue;
+    }
+    const { startedAt } = record.encounter;
+    if (startedAt < dateRange.from || startedAt > dateRange.to || !careContext.hiTypes.some((hiType) => artefact.hiTypes.includes(hiType))) {
+      continue;
+    }
+    try {
+      const bundle = encounterBundle(patient, record);
+      const invalid = validateFhirBundle(bundle).find((issue) => issue.severity === "error");
+      if (invalid) {
+        throw new Error(`The FHIR document is not valid: ${invalid.message}`);
+      }
+      const plaintext = JSON.stringify(bundle);
+      entries.push({
+        content: encryptHealthData(plaintext, sender, push.recipient),
+        media: FHIR_MEDIA_TYPE,
+        checksum: checksumOf(plaintext),
+        careContextReference: reference,
+      });
+      statusResponses.push({ careContextReference: reference, hiStatus: "OK", description: "Sent." });
+    } catch (error) {
+      statusResponses.push({ careContextReference: reference, hiStatus: "ERRORED", description: (error as Error).message });
+    }
+  }
+
+  let pushError: string | undefined;
+  try {
+    const response = await fetch(push.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        pageNumber: 1,
+        pageCount: 1,
+        transactionId,
+        entries,
+        keyMaterial: {
+          cryptoAlg: KEY_EXCHANGE.cryptoAlg,
+          curve: KEY_EXCHANGE.curve,
+          dhPublicKey: {
+            expiry: push.keyExpiry,
+            parameters: KEY_EXCHANGE.parameters,
+            keyValue: sender.publicKey,
+          },
+          nonce: sender.nonce,
+        },
+      }),
+      cache: "no-store",
+    });
+    if (!response.ok) {
+      pushError = `The requester refused the data with ${response.status}.`;
+    }
+  } catch (error) {
+    pushError = `The requester could not be reached: ${(error as Error).message}`;
+  }
+
+  const delivered = entries.length;
+  await repository.addRecordShare({
+    patientId: patient.id,
+    consentArtefactId: artefact.id,
+    hiuId: artefact.hiuId,
+    purpose: artefact.purpose,
+    transactionId,
+    careContextReferences: entries.map((entry) => entry.careContextReference),
+    status: pushError ? "failed" : "delivered",
+    detail: pushError ?? `${delivered} ${delivered === 1 ? "record" : "records"} sent.`,
+    sharedAt: new Date().toISOString(),
+  });
+  await gateway.notifyTransferStatus({
+    notifier: "HIP",
+    consentId: artefact.id,
+    transactionId,
+    hipId: gateway.facilityId,
+    sessionStatus: pushError ? "FAILED" : "TRANSFERRED",
+    statusResponses: pushError
+      ? statusResponses.map((response) => ({ ...response, hiStatus: "ERRORED", description: pushError }))
+      : statusResponses,
+  });
+}
+
+/**
+ * A requester asks for the data of an artefact. The request is accepted at
+ * once; in the background it is acknowledged and the data pushed, or refused
+ * when the artefact is unknown, no longer granted here or at the gateway, or
+ * the dates fall outside it. Returns false when malformed.
+ */
+export async function handleHealthInformationRequest(body: unknown) {
+  const { requestId, transactionId, hiRequest } = (body ?? {}) as HealthInformationRequest;
+  const consentId = hiRequest?.consent?.id;
+  const publicKey = hiRequest?.keyMaterial?.dhPublicKey?.keyValue;
+  const nonce = hiRequest?.keyMaterial?.nonce;
+  if (!requestId || !transactionId || !consentId || !hiRequest.dateRange || !hiRequest.dataPushUrl || !publicKey || !nonce) {
+    return false;
+  }
+  const push: DataPush = {
+    url: hiRequest.dataPushUrl,
+    recipient: { publicKey, nonce },
+    keyExpiry: hiRequest.keyMaterial?.dhPublicKey?.expiry,
+  };
+  const repository = getRecordRepository();
+  const artefact = await repository.getHipConsentArtefact(consentId);
+  const dateRange = artefact && overlap(artefact.dateRange, hiRequest.dateRange);
+  inBackground(`answer health information request ${requestId}`, async () => {
+    let refusal: AbdmGatewayError | undefined;
+    if (!artefact) {
+      refusal = new AbdmGatewayError("not-found", "No consent artefact has this id.");
+    } else if (artefact.status !== "granted" || artefact.dataEraseAt < new Date().toISOString()) {
+      refusal = new AbdmGatewayError("expired", "The consent has been revoked or has expired.");
+    } else if (!dateRange) {
+      refusal = new AbdmGatewayError("blocked", "The requested dates are outside the consent.");
+    } else if (!(await confirmedArtefact(consentId))) {
+      refusal = new AbdmGatewayError("expired", "ABDM does not confirm that the consent is granted to this kiosk.");
+    }
+
+    if (refusal && artefact) {
+      await repository.addRecordShare({
+        patientId: artefact.patientId,
+        consentArtefactId: artefact.id,
+        hiuId: artefact.hiuId,
+        purpose: artefact.purpose,
+        transactionId,
+        careContextReferences: [],
+        status: "refused",
+        detail: refusal.message,
+        sharedAt: new Date().toISOString(),
+      });
+    }
+    await getAbdmGateway().acknowledgeHealthInformationRequest(requestId, transactionId, refusal);
+    if (!refusal && dateRange) {
+      await sendHealthInformation(consentId, transactionId, dateRange, push);
+    }
+  });
+  return true;
+}
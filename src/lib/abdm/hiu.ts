@@ -0,0 +1,285 @@
+/**
+ * @fileOverview The kiosk as an ABDM Health Information User (HIU): it asks
+ * for a patient's records held by other facilities and receives them.
+ *
+ * - requestHealthRecords - Raises a consent request for the patient to approve in their PHR app.
+ * - handleConsentNotification - Tracks the consent manager's notices: granted, denied, expired or revoked.
+ * - handleHealthDataPush - Decrypts and stores the records a facility pushes.
+ * - expireConsentRequests - Enforces the erase date even if ABDM's expiry notice never arrives.
+ *
+ * When a consent is granted the kiosk fetches each artefact and asks for its
+ * data with a fresh key pair; the facility pushes the encrypted FHIR bundles
+ * to the bridge, and the private key is dropped once they are decrypted.
+ * Records are erased when their consent expires or is revoked.
+ */
+
+import { getAbdmGateway, type TransferStatus } from "@/lib/abdm/gateway";
+import { checksumOf, decryptHealthData, generateKeyMaterial } from "@/lib/abdm/encryption";
+import type { HealthRecordRequestForm } from "@/lib/abdm/health-information";
+import { getRecordRepository } from "@/lib/records";
+import type { AbdmConsentRequest, Patient, RecordedBy } from "@/lib/records/types";
+
+/** How long the kiosk's key for one transfer is valid. */
+const TRANSFER_KEY_TTL_MS = 60 * 60 * 1000;
+
+type ConsentNotification = {
+  requestId?: string;
+  notification?: {
+    consentRequestId?: string;
+    status?: string;
+    consentArtefacts?: { id: string }[];
+  };
+};
+
+type HealthDataPush = {
+  transactionId?: string;
+  pageNumber?: number;
+  pageCount?: number;
+  entries?: { content: string; media?: string; checksum?: string; careContextReference: string }[];
+  keyMaterial?: { dhPublicKey?: { keyValue?: string }; nonce?: string };
+};
+
+export async function requestHealthRecords(patient: Patient, form: HealthRecordRequestForm, recordedBy: RecordedBy) {
+  if (!patient.abhaAddress) {
+    throw new Error(`Patient ${patient.id} has no linked ABHA address.`);
+  }
+  const dateRange = { from: `${form.from}T00:00:00.000Z`, to: `${form.to}T23:59:59.999Z` };
+  const dataEraseAt = `${form.eraseAt}T23:59:59.999Z`;
+  const gatewayRequestId = await getAbdmGateway().initConsentRequest({
+    patientId: patient.abhaAddress,
+    purpose: form.purpose,
+    hiTypes: form.hiTypes,
+    dateRange,
+    dataEraseAt,
+  });
+  return getRecordRepository().createAbdmConsentRequest({
+    patientId: patient.id,
+    abhaAddress: patient.abhaAddress,
+    gatewayRequestId,
+    purpose: form.purpose,
+    hiTypes: form.hiTypes,
+    dateRange,
+    dataEraseAt,
+    recordedBy,
+  });
+}
+
+/** Fetches each granted artefact and asks its facility to push the data. */
+async function collectGrantedData(request: AbdmConsentRequest, artefactIds: string[]) {
+  const gateway = getAbdmGateway();
+  const repository = getRecordRepository();
+  const artefacts: AbdmConsentRequest["artefacts"] = [];
+  for (const id of artefactIds) {
+    try {
+      const artefact = await gateway.fetchConsentArtefact(id);
+      artefacts.push({ id, hipId: artefact.hip.id, hipName: artefact.hip.name, status: "granted" });
+    } catch (error) {
+      console.error(`Could not fetch consent artefact ${id}:`, error);
+      artefacts.push({ id, status: "granted" });
+    }
+  }
+  const granted = await repository.updateAbdmConsentRequest(
+    request.id,
+    { status: "granted", artefacts },
+    `Granted for ${artefacts.length} ${artefacts.length === 1 ? "facility" : "facilities"}.`
+  );
+
+  for (const artefact of granted.artefacts) {
+    const keyMaterial = { ...generateKeyMaterial(), expiresAt: new Date(Date.now() + TRANSFER_KEY_TTL_MS).toISOString() };
+    const dataRequest = await repository.addHealthDataRequest({
+      patientId: request.patientId,
+      consentRequestId: request.id,
+      consentArtefactId: artefact.id,
+      status: "requested",
+      keyMaterial,
+    });
+    try {
+      const transactionId = await gateway.requestHealthInformation({
+        consentId: artefact.id,
+        dateRange: request.dateRange,
+        keyMaterial,
+      });
+      await repository.updateHealthDataRequest(dataRequest.id, { transactionId });
+    } catch (error) {
+      await repository.updateHealthDataRequest(dataRequest.id, {
+        status: "failed",
+        keyMaterial: undefined,
+        error: (error as Error).message,
+      });
+    }
+  }
+}
+
+/** Marks the artefacts (all of them when none are named) revoked or expired and erases their records. */
+async function endConsent(request: AbdmConsentRequest, status: "revoked" | "expired", artefactIds: string[]) {
+  const repository = getRecordRepository();
+  const ending = artefactIds.length > 0 ? artefactIds : request.artefacts.map((artefact) => artefact.id);
+  let erased = 0;
+  for (const id of ending) {
+    erased += await repository.eraseHealthRecords(request.id, id);
+  }
+  if (ending.length === 0) {
+    erased += await repository.eraseHealthRecords(request.id);
+  }
+  const artefacts = request.artefacts.map((artefact) =>
+    ending.includes(artefact.id) && artefact.status === "granted" ? { ...artefact, status } : artefact
+  );
+  const stillGranted = artefacts.some((artefact) => artefact.status === "granted");
+  await repository.updateAbdmConsentRequest(
+    request.id,
+    { status: stillGranted ? request.status : status, artefacts },
+    `${status === "revoked" ? "Revoked by the patient" : "Expired"}; ${erased} ${erased === 1 ? "record" : "records"} erased.`
+  );
+}
+
+async function processConsentNotification(
+  request: AbdmConsentRequest,
+  status: string,
+  artefactIds: string[],
+  requestId: string | undefined
+) {
+  switch (status) {
+    case "GRANTED":
+      if (request.status === "requested") {
+        await collectGrantedData(request, artefactIds);
+      }
+      break;
+    case "DENIED":
+      await getRecordRepository().updateAbdmConsentRequest(request.id, { status: "denied" }, "Denied by the patient.");
+      break;
+    case "REVOKED":
+      await endConsent(request, "revoked", artefactIds);
+      break;
+    case "EXPIRED":
+      await endConsent(request, "expired", artefactIds);
+      break;
+    default:
+      console.error(`Unknown consent status "${status}" for request ${request.id}.`);
+  }
+  if (requestId) {
+    await getAbdmGateway().acknowledgeConsentNotification(requestId, artefactIds);
+  }
+}
+
+/**
+ * Accepts a notice from the consent manager and processes it in the
+ * background, so the consent manager gets its answer straight away. Returns
+ * false when the notice is not about one of this kiosk's requests.
+ */
+export async function handleConsentNotification(body: unknown) {
+  const { requestId, notification } = (body ?? {}) as ConsentNotification;
+  if (!notification?.consentRequestId || !notification.status) {
+    return false;
+  }
+  const request = await getRecordRepository().findAbdmConsentRequestByGatewayId(notification.consentRequestId);
+  if (!request) {
+    return false;
+  }
+  const artefactIds = (notification.consentArtefacts ?? []).map((artefact) => artefact.id);
+  processConsentNotification(request, notification.status, artefactIds, requestId).catch((error) =>
+    console.error(`Could not process the consent notice for request ${request.id}:`, error)
+  );
+  return true;
+}
+
+/**
+ * Decrypts and stores one page of pushed records. Returns false when the
+ * transfer is unknown, already complete, or its consent is no longer granted.
+ */
+export async function handleHealthDataPush(body: unknown) {
+  const push = (body ?? {}) as HealthDataPush;
+  const senderKey = push.keyMaterial?.dhPublicKey?.keyValue;
+  const senderNonce = push.keyMaterial?.nonce;
+  if (!push.transactionId || !senderKey || !senderNonce || !Array.isArray(push.entries)) {
+    return false;
+  }
+  const repository = getRecordRepository();
+  const dataRequest = await repository.findHealthDataRequestByTransaction(push.transactionId);
+  if (!dataRequest || dataRequest.status !== "requested" || !dataRequest.keyMaterial) {
+    return false;
+  }
+  const request = await repository.getAbdmConsentRequest(dataRequest.consentRequestId);
+  const artefact = request?.artefacts.find((candidate) => candidate.id === dataRequest.consentArtefactId);
+  if (!request || artefact?.status !== "granted") {
+    return false;
+  }
+
+  const keyMaterial = dataRequest.keyMaterial;
+  const keyExpired = Date.parse(keyMaterial.expiresAt) < Date.now();
+  const statusResponses: TransferStatus["statusResponses"] = [];
+  let stored = 0;
+  for (const entry of push.entries) {
+    try {
+      if (keyExpired) {
+        throw new Error("The transfer key has expired.");
+      }
+      const plaintext = decryptHealthData(entry.content, keyMaterial, { publicKey: senderKey, nonce: senderNonce });
+      if (entry.checksum && entry.checksum !== checksumOf(plaintext)) {
+        throw new Error("The checksum does not match.");
+      }
+      const bundle = JSON.parse(plaintext) as Record<string, unknown>;
+      if (bundle.resourceType !== "Bundle") {
+        throw new Error("The entry is not a FHIR bundle.");
+      }
+      await repository.addHealthRecord({
+        patientId: dataRequest.patientId,
+        consentRequestId: request.id,
+        consentArtefactId: artefact.id,
+        transactionId: push.transactionId,
+        careContextReference: entry.careContextReference,
+        hipId: artefact.hipId ?? "unknown",
+        hipName: artefact.hipName,
+        bundle,
+        receivedAt: new Date().toISOString(),
+        eraseAt: request.dataEraseAt,
+      });
+      stored++;
+      statusResponses.push({ careContextReference: entry.careContextReference, hiStatus: "OK", description: "Received." });
+    } catch (error) {
+      statusResponses.push({
+        careContextReference: entry.careContextReference,
+        hiStatus: "ERRORED",
+        description: (error as Error).message,
+      });
+    }
+  }
+
+  const entryCount = (dataRequest.entryCount ?? 0) + stored;
+  // A page with no entries is a facility with nothing in the date range, not a failure.
+  const failed = stored === 0 && statusResponses.length > 0;
+  const lastPage = (push.pageNumber ?? 1) >= (push.pageCount ?? 1);
+  if (lastPage) {
+    const nothingReceived = failed && entryCount === 0;
+    await repository.updateHealthDataRequest(dataRequest.id, {
+      status: nothingReceived ? "failed" : "received",
+      keyMaterial: undefined,
+      entryCount,
+      error: nothingReceived ? statusResponses.map((response) => response.description).join(" ") : undefined,
+    });
+  } else {
+    await repository.updateHealthDataRequest(dataRequest.id, { entryCount });
+  }
+
+  getAbdmGateway()
+    .notifyTransferStatus({
+      notifier: "HIU",
+      consentId: artefact.id,
+      transactionId: push.transactionId,
+      hipId: artefact.hipId ?? "unknown",
+      sessionStatus: failed ? "FAILED" : "TRANSFERRED",
+      statusResponses,
+    })
+    .catch((error) => console.error(`Could not report transfer ${push.transactionId}:`, error));
+  return true;
+}
+
+/** Expires the patient's consent requests whose erase date has passed and erases their records. */
+export async function expireConsentRequests(patientId: string) {
+  const repository = getRecordRepository();
+  const now = new Date().toISOString();
+  for (const request of await repository.listAbdmConsentRequests(patientId)) {
+    if ((request.status === "requested" || request.status === "granted") && request.dataEraseAt < now) {
+      await endConsent(request, "expired", []);
+    }
+  }
+}
@@ -0,0 +1,40 @@
+'use server';
+
+/**
+ * @fileOverview Server actions for signing in and out of the kiosk.
+ *
+ * - login - Checks credentials against the user store and starts a session.
+ * - logout - Destroys the current session.
+ */
+
+import {z} from 'zod';
+
+import {authenticate} from '@/lib/auth/user-store';
+import {createSession, destroySession} from '@/lib/auth/session';
+
+const LoginInputSchema = z.object({
+  username: z.string().min(1),
+  password: z.string().min(1),
+});
+export type LoginInput = z.infer<typeof LoginInputSchema>;
+
+export type LoginResult =
+  | {ok: true; displayName: string}
+  | {ok: false; error: string};
+
+export async function login(input: LoginInput): Promise<LoginResult> {
+  const parsed = LoginInputSchema.safeParse(input);
+  if (!parsed.success) {
+    return {ok: false, error: 'Username and password are required.'};
+  }
+  const user = await authenticate(parsed.data.username, parsed.data.password);
+  if (!user) {
+    return {ok: false, error: 'Invalid username or password.'};
+  }
+  await createSession(user);
+  return {ok: true, displayName: user.displayName};
+}
+
+export async function logout(): Promise<void> {
+  await destroySession();
+}
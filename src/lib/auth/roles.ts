@@ -0,0 +1,75 @@
+/**
+ * @fileOverview Roles and the permission map shared by the middleware, server
+ * actions and navigation. Kept free of Node APIs so it can run on the Edge.
+ */
+
+export const ROLES = ["operator", "patient", "doctor", "admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  operator: "Kiosk Operator",
+  patient: "Patient",
+  doctor: "Doctor",
+  admin: "Administrator",
+};
+
+export const PERMISSIONS = {
+  "dashboard:view": ["operator", "patient", "doctor", "admin"],
+  "diagnosis:run": ["operator", "patient", "doctor", "admin"],
+  "teleconsult:patient": ["operator", "patient", "admin"],
+  "teleconsult:doctor": ["doctor", "admin"],
+  "teleconsult:summary": ["operator", "patient", "doctor", "admin"],
+  "federated:contribute": ["operator", "admin"],
+  "federated:coordinate": ["admin"],
+  "facial-checkin:use": ["operator", "patient", "admin"],
+  "abdm:link": ["operator", "patient", "admin"],
+  "health-records:view": ["operator", "patient", "doctor", "admin"],
+  "patients:register": ["operator", "patient", "admin"],
+  // Finding another patient's record and checking it in is for kiosk staff; a patient only sees their own.
+  "patients:lookup": ["operator", "admin"],
+  "consent:manage": ["operator", "patient", "admin"],
+  "profile:view": ["operator", "patient", "doctor", "admin"],
+} satisfies Record<string, readonly Role[]>;
+export type Permission = keyof typeof PERMISSIONS;
+
+export function hasPermission(role: Role, permission: Permission) {
+  return (PERMISSIONS[permission] as readonly Role[]).includes(role);
+}
+
+/**
+ * Route prefixes and the permission they need. The longest matching prefix
+ * wins, so `/tele-consultation/doctor` is not covered by the patient portal.
+ */
+export const ROUTE_PERMISSIONS: { prefix: string; permission: Permission }[] = [
+  { prefix: "/dashboard", permission: "dashboard:view" },
+  { prefix: "/diagnosis", permission: "diagnosis:run" },
+  { prefix: "/tele-consultation", permission: "teleconsult:patient" },
+  { prefix: "/tele-consultation/doctor", permission: "teleconsult:doctor" },
+  { prefix: "/federated-learning", permission: "federated:contribute" },
+  { prefix: "/facial-recognition", permission: "facial-checkin:use" },
+  { prefix: "/abdm-integration", permission: "abdm:link" },
+  { prefix: "/health-records", permission: "health-records:view" },
+  { prefix: "/patients/register", permission: "patients:register" },
+  { prefix: "/patients/consent", permission: "consent:manage" },
+  { prefix: "/profile", permission: "profile:view" },
+];
+
+export function permissionForRoute(pathname: string): Permission | null {
+  let match: { prefix: string; permission: Permission } | null = null;
+  for (const route of ROUTE_PERMISSIONS) {
+    const matches = pathname === route.prefix || pathname.startsWith(`${route.prefix}/`);
+    if (matches && (!match || route.prefix.length > match.prefix.length)) {
+      match = route;
+    }
+  }
+  return match?.permission ?? null;
+}
+
+export function canAccessRoute(role: Role, pathname: string) {
+  const permission = permissionForRoute(pathname);
+  return permission === null || hasPermission(role, permission);
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
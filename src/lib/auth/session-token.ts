@@ -0,0 +1,96 @@
+/**
+ * @fileOverview Signed session cookie encoding.
+ *
+ * Uses Web Crypto only, so the same code runs in the Edge middleware and in
+ * server actions.
+ */
+
+import { isRole, type Role } from "@/lib/auth/roles";
+
+export const SESSION_COOKIE = "kiosk_session";
+export const SESSION_TTL_SECONDS = 60 * 60 * 8;
+
+export type SessionPayload = {
+  sid: string;
+  userId: string;
+  username: string;
+  displayName: string;
+  role: Role;
+  exp: number;
+};
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function getSecret() {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) {
+    return secret;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production.");
+  }
+  return "dev-only-insecure-session-secret";
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string) {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function getKey() {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(getSecret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+export async function signSessionToken(payload: SessionPayload) {
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign("HMAC", await getKey(), encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Returns the payload if the token is correctly signed and not expired,
+ * otherwise null.
+ */
+export async function verifySessionToken(token: string | undefined): Promise<SessionPayload | null> {
+  if (!token) {
+    return null;
+  }
+  const [body, signature] = token.split(".");
+  if (!body || !signature) {
+    return null;
+  }
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await getKey(),
+      fromBase64Url(signature),
+      encoder.encode(body)
+    );
+    if (!valid) {
+      return null;
+    }
+    const payload = JSON.parse(decoder.decode(fromBase64Url(body))) as SessionPayload;
+    if (payload.exp * 1000 < Date.now() || !isRole(payload.role)) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
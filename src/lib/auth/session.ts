@@ -0,0 +1,136 @@
+import { randomUUID } from "crypto";
+import { cookies } from "next/headers";
+
+import { readJsonFile, updateJsonFile } from "@/lib/storage/json-file";
+import type { KioskUser } from "@/lib/auth/user-store";
+import { hasPermission, type Permission } from "@/lib/auth/roles";
+import {
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+  signSessionToken,
+  verifySessionToken,
+  type SessionPayload,
+} from "@/lib/auth/session-token";
+
+/**
+ * @fileOverview Server-side sessions.
+ *
+ * The cookie only carries a signed pointer to a session record kept on the
+ * server, so logging out (or deleting the record) revokes the session even if
+ * the cookie is still within its expiry.
+ */
+
+type SessionRecord = {
+  sid: string;
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+  /** The patient records are currently saved against. */
+  patientId?: string;
+};
+
+const SESSIONS_FILE = "sessions.json";
+
+function isLive(session: SessionRecord) {
+  return Date.parse(session.expiresAt) > Date.now();
+}
+
+async function loadSessions() {
+  return (await readJsonFile<SessionRecord[]>(SESSIONS_FILE, [])).filter(isLive);
+}
+
+/** Changes the live sessions; expired ones are dropped. Logins and logouts at the same time are applied in turn. */
+function updateSessions(change: (sessions: SessionRecord[]) => SessionRecord[]) {
+  return updateJsonFile<SessionRecord[], void>(SESSIONS_FILE, [], (sessions) => {
+    sessions.splice(0, sessions.length, ...change(sessions.filter(isLive)));
+  });
+}
+
+export async function createSession(user: KioskUser) {
+  const now = Date.now();
+  const record: SessionRecord = {
+    sid: randomUUID(),
+    userId: user.id,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_TTL_SECONDS * 1000).toISOString(),
+  };
+  await updateSessions((sessions) => [...sessions, record]);
+
+  const token = await signSessionToken({
+    sid: record.sid,
+    userId: user.id,
+    username: user.username,
+    displayName: user.displayName,
+    role: user.role,
+    exp: Math.floor(Date.parse(record.expiresAt) / 1000),
+  });
+  const cookieStore = await cookies();
+  cookieStore.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_TTL_SECONDS,
+  });
+}
+
+/**
+ * Returns the current session, or null when the cookie is missing, tampered
+ * with, expired or has been destroyed server-side.
+ */
+export async function getSession(): Promise<SessionPayload | null> {
+  const cookieStore = await cookies();
+  const payload = await verifySessionToken(cookieStore.get(SESSION_COOKIE)?.value);
+  if (!payload) {
+    return null;
+  }
+  const sessions = await loadSessions();
+  return sessions.some((session) => session.sid === payload.sid) ? payload : null;
+}
+
+/**
+ * For server actions: returns the session or throws when nobody is logged in.
+ */
+export async function requireSession() {
+  const session = await getSession();
+  if (!session) {
+    throw new Error("You must be logged in to use this feature.");
+  }
+  return session;
+}
+
+/**
+ * For server actions: throws unless the logged-in user's role grants the
+ * permission.
+ */
+export async function requirePermission(permission: Permission) {
+  const session = await requireSession();
+  if (!hasPermission(session.role, permission)) {
+    throw new Error("You do not have permission to use this feature.");
+  }
+  return session;
+}
+
+export async function getCheckedInPatientId(session: SessionPayload) {
+  const sessions = await loadSessions();
+  return sessions.find((record) => record.sid === session.sid)?.patientId ?? null;
+}
+
+/**
+ * Points the session at a patient (or at nobody), so encounters recorded
+ * from now on are saved against them.
+ */
+export async function setCheckedInPatientId(session: SessionPayload, patientId: string | null) {
+  await updateSessions((sessions) =>
+    sessions.map((record) => (record.sid === session.sid ? { ...record, patientId: patientId ?? undefined } : record))
+  );
+}
+
+export async function destroySession() {
+  const cookieStore = await cookies();
+  const payload = await verifySessionToken(cookieStore.get(SESSION_COOKIE)?.value);
+  if (payload) {
+    await updateSessions((sessions) => sessions.filter((session) => session.sid !== payload.sid));
+  }
+  cookieStore.delete(SESSION_COOKIE);
+}
@@ -0,0 +1,119 @@
+import { randomUUID } from "crypto";
+
+import { readJsonFile, updateJsonFile } from "@/lib/storage/json-file";
+import { hashPassword, verifyPassword } from "@/lib/auth/password";
+import { isRole, type Role } from "@/lib/auth/roles";
+
+export type KioskUser = {
+  id: string;
+  username: string;
+  displayName: string;
+  role: Role;
+  passwordHash: string;
+  createdAt: string;
+};
+
+const USERS_FILE = "users.json";
+const DUMMY_HASH = `scrypt$${Buffer.alloc(16).toString("base64")}$${Buffer.alloc(64).toString("base64")}`;
+
+function withRoles(users: KioskUser[]) {
+  // Accounts created before roles existed fall back to the least privileged staff role.
+  return users.map((user): KioskUser => (isRole(user.role) ? user : { ...user, role: "operator" }));
+}
+
+async function loadUsers(): Promise<KioskUser[]> {
+  const users = await readJsonFile<KioskUser[]>(USERS_FILE, []);
+  return withRoles(users.length > 0 ? users : await seedUsers());
+}
+
+/**
+ * An empty store is seeded with a single administrator account taken from
+ * KIOSK_ADMIN_USERNAME / KIOSK_ADMIN_PASSWORD. Outside production we fall back
+ * to demo accounts (one per role, password "password") so local development
+ * keeps working.
+ */
+async function seedUsers(): Promise<KioskUser[]> {
+  let accounts: { username: string; password: string; role: Role }[];
+  const username = process.env.KIOSK_ADMIN_USERNAME;
+  const password = process.env.KIOSK_ADMIN_PASSWORD;
+  if (username && password) {
+    accounts = [{ username, password, role: "admin" }];
+  } else if (process.env.NODE_ENV === "production") {
+    return [];
+  } else {
+    accounts = [
+      { username: "Harmandeep Singh", password: "password", role: "admin" },
+      { username: "operator", password: "password", role: "operator" },
+      { username: "doctor", password: "password", role: "doctor" },
+      { username: "patient", password: "password", role: "patient" },
+    ];
+  }
+  // Only the first of several simultaneous requests seeds; the others find its accounts.
+  return updateJsonFile<KioskUser[], KioskUser[]>(USERS_FILE, [], async (users) => {
+    if (users.length > 0) {
+      return users;
+    }
+    for (const account of accounts) {
+      users.push({
+        id: randomUUID(),
+        username: account.username,
+        displayName: account.username,
+        role: account.role,
+        passwordHash: await hashPassword(account.password),
+        createdAt: new Date().toISOString(),
+      });
+    }
+    return users;
+  });
+}
+
+function normalizeUsername(username: string) {
+  return username.trim().toLowerCase();
+}
+
+export async function findUserByUsername(username: string) {
+  const users = await loadUsers();
+  return users.find((user) => normalizeUsername(user.username) === normalizeUsername(username)) ?? null;
+}
+
+export async function findUserById(id: string) {
+  const users = await loadUsers();
+  return users.find((user) => user.id === id) ?? null;
+}
+
+export async function createUser(input: {
+  username: string;
+  displayName?: string;
+  role: Role;
+  password: string;
+}) {
+  await loadUsers();
+  const user: KioskUser = {
+    id: randomUUID(),
+    username: input.username.trim(),
+    displayName: input.displayName?.trim() || input.username.trim(),
+    role: input.role,
+    passwordHash: await hashPassword(input.password),
+    createdAt: new Date().toISOString(),
+  };
+  return updateJsonFile(USERS_FILE, [] as KioskUser[], (users) => {
+    if (users.some((existing) => normalizeUsername(existing.username) === normalizeUsername(input.username))) {
+      throw new Error(`User "${input.username}" already exists.`);
+    }
+    users.push(user);
+    return user;
+  });
+}
+
+/**
+ * Returns the user when the credentials match. A dummy hash is checked for
+ * unknown usernames so response timing does not reveal which accounts exist.
+ */
+export async function authenticate(username: string, password: string) {
+  const user = await findUserByUsername(username);
+  if (!user) {
+    await verifyPassword(password, DUMMY_HASH);
+    return null;
+  }
+  return (await verifyPassword(password, user.passwordHash)) ? user : null;
+}
@@ -0,0 +1,202 @@
+'use server';
+
+/**
+ * @fileOverview Server actions for the Federated Learning page.
+ *
+ * - loadFederatedStatus - Round progress and history for a model, from the coordinator, plus this kiosk's id and k-anonymity threshold.
+ * - loadPrivacyBudgets - Privacy budget this kiosk has spent and has left for each model.
+ * - checkResearchConsent - How many of a batch's records have active research consent.
+ * - aggregateOpenRound - Closes the open round with the updates received so far, or moves a secure round
+ *   past its current step without the kiosks that have not answered (administrators only).
+ * - continueSecureAggregation - Takes this kiosk's next steps in the secure rounds it joined.
+ * - updateAggregationSettings / reviewQuarantinedKiosk - Aggregation rule and quarantine review (administrators only).
+ * - runSecureAggregationSimulation - Runs secure aggregation between simulated kiosks and shows what the aggregator sees.
+ * - runFederatedSimulation - Trains with many virtual kiosks and compares aggregation rules.
+ * - loadModelRegistry / compareModelVersions - Registered versions of a model and the changes between two.
+ * - promoteVersion / rollbackProduction - Move the production pointer (administrators only).
+ * - scoreRecord - Scores a record with the production version, as a kiosk does for inference.
+ */
+
+import {requirePermission} from '@/lib/auth/session';
+import {kioskId} from '@/lib/records';
+import {
+  aggregateRound,
+  reviewQuarantine,
+  setAggregationSettings,
+  type AggregationSettings,
+  type FederatedClient,
+  type FederatedStatus,
+  type RoundSummary,
+} from '@/lib/federated/coordinator';
+import {getCoordinator} from '@/lib/federated/coordinator-api';
+import {deidentificationConfig} from '@/lib/federated/deidentify';
+import {getFederatedModel, type TrainingRecord} from '@/lib/federated/models';
+import {scoreWithProductionModel, type ModelScore} from '@/lib/federated/inference';
+import {listPrivacyBudgets, type PrivacyBudget} from '@/lib/federated/privacy-accountant';
+import {continueSecureRounds} from '@/lib/federated/secure-round';
+import {
+  describeConsentExclusions,
+  filterByResearchConsent,
+  type ConsentFilterReport,
+} from '@/lib/federated/research-consent';
+import {
+  diffModelVersions,
+  listModelVersions,
+  promoteModelVersion,
+  rollbackModelVersion,
+  type ModelVersion,
+  type ModelVersionDiff,
+  type RegistryEvent,
+} from '@/lib/federated/registry';
+import {
+  FederatedSimulationOptionsSchema,
+  simulateFederatedTraining,
+  type FederatedSimulationOptions,
+  type FederatedSimulationReport,
+} from '@/lib/federated/simulator';
+import {
+  SimulationOptionsSchema,
+  simulateSecureAggregation,
+  type SimulationOptions,
+  type SimulationReport,
+} from '@/lib/federated/secure-aggregation/simulation';
+
+export async function loadFederatedStatus(
+  modelName: string
+): Promise<FederatedStatus & {kioskId: string; kAnonymity: number}> {
+  await requirePermission('federated:contribute');
+  return {
+    ...(await getCoordinator().getFederatedStatus(modelName, kioskId())),
+    kioskId: kioskId(),
+    kAnonymity: deidentificationConfig(getFederatedModel(modelName)).k,
+  };
+}
+
+export async function loadPrivacyBudgets(): Promise<PrivacyBudget[]> {
+  await requirePermission('federated:contribute');
+  return listPrivacyBudgets(kioskId());
+}
+
+export async function checkResearchConsent(
+  modelName: string,
+  records: TrainingRecord[]
+): Promise<ConsentFilterReport & {summary: string}> {
+  await requirePermission('federated:contribute');
+  const {report} = await filterByResearchConsent(getFederatedModel(modelName), records);
+  return {...report, summary: describeConsentExclusions(report)};
+}
+
+export async function aggregateOpenRound(modelName: string): Promise<RoundSummary> {
+  const session = await requirePermission('federated:coordinate');
+  return aggregateRound(modelName, session.username);
+}
+
+export async function continueSecureAggregation(): Promise<{ok: true} | {ok: false; error: string}> {
+  await requirePermission('federated:contribute');
+  try {
+    await continueSecureRounds();
+    return {ok: true};
+  } catch (error) {
+    return {ok: false, error: error instanceof Error ? error.message : 'Secure aggregation could not continue.'};
+  }
+}
+
+export async function updateAggregationSettings(
+  modelName: string,
+  settings: AggregationSettings
+): Promise<{ok: true; settings: AggregationSettings} | {ok: false; error: string}> {
+  const session = await requirePermission('federated:coordinate');
+  try {
+    return {ok: true, settings: await setAggregationSettings(modelName, settings, session.username)};
+  } catch (error) {
+    return {ok: false, error: error instanceof Error ? error.message : 'The aggregation settings could not be saved.'};
+  }
+}
+
+export async function reviewQuarantinedKiosk(
+  quarantinedKioskId: string,
+  decision: 'release' | 'block',
+  note?: string
+): Promise<{ok: true; client: FederatedClient} | {ok: false; error: string}> {
+  const session = await requirePermission('federated:coordinate');
+  try {
+    return {ok: true, client: await reviewQuarantine(quarantinedKioskId, decision, session.username, note)};
+  } catch (error) {
+    return {ok: false, error: error instanceof Error ? error.message : 'The review could not be saved.'};
+  }
+}
+
+export type SimulationResult = {ok: true; report: SimulationReport} | {ok: false; error: string};
+
+export async function runSecureAggregationSimulation(options: SimulationOptions): Promise<SimulationResult> {
+  await requirePermission('federated:contribute');
+  const parsed = SimulationOptionsSchema.safeParse(options);
+  if (!parsed.success) {
+    return {ok: false, error: parsed.error.issues[0]?.message ?? 'Please check the simulation settings.'};
+  }
+  return {ok: true, report: simulateSecureAggregation(parsed.data)};
+}
+
+export async function runFederatedSimulation(
+  options: FederatedSimulationOptions
+): Promise<{ok: true; report: FederatedSimulationReport} | {ok: false; error: string}> {
+  await requirePermission('federated:contribute');
+  const parsed = FederatedSimulationOptionsSchema.safeParse(options);
+  if (!parsed.success) {
+    return {ok: false, error: parsed.error.issues[0]?.message ?? 'Please check the simulation settings.'};
+  }
+  return {ok: true, report: await simulateFederatedTraining(parsed.data)};
+}
+
+export type ModelRegistryView = {
+  versions: ModelVersion[];
+  productionVersion: number | null;
+  canRollback: boolean;
+  events: RegistryEvent[];
+};
+
+export async function loadModelRegistry(modelName: string): Promise<ModelRegistryView> {
+  await requirePermission('federated:contribute');
+  return listModelVersions(modelName);
+}
+
+export async function compareModelVersions(modelName: string, from: number, to: number): Promise<ModelVersionDiff> {
+  await requirePermission('federated:contribute');
+  return diffModelVersions(modelName, from, to);
+}
+
+export type RegistryActionResult = {ok: true; event: RegistryEvent} | {ok: false; error: string};
+
+function registryError(error: unknown): RegistryActionResult {
+  return {ok: false, error: error instanceof Error ? error.message : 'The registry could not be updated.'};
+}
+
+export async function promoteVersion(modelName: string, version: number): Promise<RegistryActionResult> {
+  const session = await requirePermission('federated:coordinate');
+  try {
+    return {ok: true, event: await promoteModelVersion(modelName, version, session.username)};
+  } catch (error) {
+    return registryError(error);
+  }
+}
+
+export async function rollbackProduction(modelName: string): Promise<RegistryActionResult> {
+  const session = await requirePermission('federated:coordinate');
+  try {
+    return {ok: true, event: await rollbackModelVersion(modelName, session.username)};
+  } catch (error) {
+    return registryError(error);
+  }
+}
+
+export async function scoreRecord(
+  modelName: string,
+  record: Record<string, number | string>
+): Promise<{ok: true; score: ModelScore} | {ok: false; error: string}> {
+  await requirePermission('federated:contribute');
+  try {
+    return {ok: true, score: await scoreWithProductionModel(modelName, record)};
+  } catch (error) {
+    return {ok: false, error: error instanceof Error ? error.message : 'The record could not be scored.'};
+  }
+}
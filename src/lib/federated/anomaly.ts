@@ -0,0 +1,101 @@
+import { coordinateMedian } from "@/lib/federated/robust-aggregation";
+import { l2Norm } from "@/lib/federated/privacy";
+
+/**
+ * @fileOverview Anomaly scoring for the updates in a round.
+ *
+ * - scoreUpdates - Compares each update with the round's consensus (the coordinate-wise median)
+ *   and with the updates accepted in the model's previous round.
+ * - medianNorm - The median L2 norm of a set of updates.
+ * - anomalyThresholds - FEDERATED_ANOMALY_* settings.
+ *
+ * An update is flagged when its norm is far above the round's median norm
+ * (a scaled or boosted update) or when it points away from the consensus (a
+ * flipped or unrelated update). A consensus needs at least three updates, so
+ * smaller rounds, down to a single kiosk's, are only checked against the
+ * median norm of the previous round's accepted updates, with the same limit.
+ * A model's first round is not screened when it has fewer than three updates.
+ */
+
+export type AnomalyScore = {
+  kioskId: string;
+  norm: number;
+  /** Norm divided by the median norm of the round's updates. */
+  normRatio: number;
+  /** Norm divided by the median norm of the updates accepted in the previous round; absent in a model's first round. */
+  previousNormRatio?: number;
+  /** 1 - cosine similarity with the consensus: 0 agrees, 1 is unrelated, 2 is opposite. */
+  cosineDistance: number;
+  flagged: boolean;
+  reasons: string[];
+};
+
+export type AnomalyThresholds = { maxNormRatio: number; maxCosineDistance: number };
+
+export const MIN_UPDATES_FOR_SCORING = 3;
+
+function envNumber(name: string, fallback: number) {
+  const value = Number(process.env[name] ?? fallback);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function anomalyThresholds(): AnomalyThresholds {
+  return {
+    maxNormRatio: envNumber("FEDERATED_ANOMALY_NORM_RATIO", 3),
+    maxCosineDistance: envNumber("FEDERATED_ANOMALY_COSINE_DISTANCE", 1.2),
+  };
+}
+
+function cosineDistance(a: number[], b: number[]) {
+  const normA = l2Norm(a);
+  const normB = l2Norm(b);
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return 1 - a.reduce((sum, value, i) => sum + value * b[i], 0) / (normA * normB);
+}
+
+export function medianNorm(updates: { delta: number[] }[]) {
+  const norms = updates.map((update) => l2Norm(update.delta)).sort((a, b) => a - b);
+  if (norms.length === 0) {
+    return 0;
+  }
+  const middle = Math.floor(norms.length / 2);
+  return norms.length % 2 === 1 ? norms[middle] : (norms[middle - 1] + norms[middle]) / 2;
+}
+
+/** `previousMedianNorm` is medianNorm of the updates accepted in the model's previous round, if there was one. */
+export function scoreUpdates(
+  updates: { kioskId: string; delta: number[] }[],
+  thresholds: AnomalyThresholds = anomalyThresholds(),
+  previousMedianNorm?: number
+): AnomalyScore[] {
+  if (updates.length === 0) {
+    return [];
+  }
+  const consensus = coordinateMedian(updates.map((update) => update.delta));
+  const roundMedianNorm = medianNorm(updates);
+  const canFlag = updates.length >= MIN_UPDATES_FOR_SCORING;
+
+  return updates.map((update) => {
+    const norm = l2Norm(update.delta);
+    const normRatio = roundMedianNorm > 0 ? norm / roundMedianNorm : 1;
+    const previousNormRatio = previousMedianNorm ? norm / previousMedianNorm : undefined;
+    const distance = cosineDistance(update.delta, consensus);
+    const reasons: string[] = [];
+    if (canFlag && normRatio > thresholds.maxNormRatio) {
+      reasons.push(`Update norm is ${normRatio.toFixed(1)}× the round's median (limit ${thresholds.maxNormRatio}×).`);
+    }
+    if (previousNormRatio !== undefined && previousNormRatio > thresholds.maxNormRatio) {
+      reasons.push(
+        `Update norm is ${previousNormRatio.toFixed(1)}× the median of the previous round's accepted updates (limit ${thresholds.maxNormRatio}×).`
+      );
+    }
+    if (canFlag && distance > thresholds.maxCosineDistance) {
+      reasons.push(
+        `Update points away from the other kiosks (cosine distance ${distance.toFixed(2)}, limit ${thresholds.maxCosineDistance}).`
+      );
+    }
+    return { kioskId: update.kioskId, norm, normRatio, previousNormRatio, cosineDistance: distance, flagged: reasons.length > 0, reasons };
+  });
+}
@@ -0,0 +1,155 @@
+/**
+ * @fileOverview The kiosk side of a federated round.
+ *
+ * - computeLocalUpdate - Trains the global model on local records and returns only the weight delta.
+ * - ClientUpdateSchema - An update as it arrives from another kiosk, checked before the coordinator sees it.
+ * - SecureMessageSchema - The same for one step of a round run with secure aggregation.
+ *
+ * Raw records never leave this function: the update carries the delta, the
+ * number of examples it was trained on and metrics from a local holdout. With
+ * differential privacy on, the delta is clipped and noised here, before upload.
+ */
+
+import { z } from "zod";
+
+import {
+  evaluateModel,
+  ModelMetricsSchema,
+  trainLogisticRegression,
+  type Example,
+  type ModelMetrics,
+} from "@/lib/federated/logistic-regression";
+import {
+  encodeFeatures,
+  getFederatedModel,
+  labelOf,
+  type PrivacyConfig,
+  type TrainingConfig,
+  type TrainingRecord,
+} from "@/lib/federated/models";
+import { isPrivacyEnabled, privatizeDelta } from "@/lib/federated/privacy";
+import { hashSeed, secureRandom, seededRandom, shuffled, type Random } from "@/lib/federated/random";
+import type { AdvertisedKeys, EncryptedShares, UnmaskingResponse } from "@/lib/federated/secure-aggregation/client";
+
+/** What the coordinator hands a kiosk for one round. */
+export type RoundTask = {
+  roundId: string;
+  roundNumber: number;
+  modelName: string;
+  globalWeights: number[];
+  training: TrainingConfig;
+  /** Set when the round runs secure aggregation: the update is then sent masked, in steps (see secure-round.ts). */
+  secure?: { threshold: number };
+};
+
+export type ClientUpdate = {
+  roundId: string;
+  kioskId: string;
+  numExamples: number;
+  delta: number[];
+  metrics: {
+    /** The incoming global model on the local holdout. */
+    before: ModelMetrics;
+    /** The model as uploaded (after clipping and noise) on the same holdout. */
+    after: ModelMetrics;
+  };
+  /** Differential privacy applied to the delta, or null when it is off. */
+  privacy: { clipNorm: number; noiseMultiplier: number; clipped: boolean } | null;
+};
+
+/** The kiosk id is left out: the coordinator's API takes it from the kiosk's credentials. */
+export const ClientUpdateSchema: z.ZodType<Omit<ClientUpdate, "kioskId">> = z.object({
+  roundId: z.string(),
+  numExamples: z.number(),
+  delta: z.array(z.number()),
+  metrics: z.object({ before: ModelMetricsSchema, after: ModelMetricsSchema }),
+  privacy: z.object({ clipNorm: z.number(), noiseMultiplier: z.number(), clipped: z.boolean() }).nullable(),
+});
+
+/**
+ * One step of a secure round, in protocol order: advertise keys, share them,
+ * upload the masked update (the delta scaled by the example count, so the
+ * masked sum gives FedAvg), and help unmask the sum.
+ */
+export type SecureMessage =
+  | { step: "keys"; keys: AdvertisedKeys }
+  | { step: "shares"; shares: EncryptedShares[] }
+  | ({ step: "masked"; masked: number[] } & Pick<ClientUpdate, "numExamples" | "metrics" | "privacy">)
+  | { step: "unmasking"; response: UnmaskingResponse };
+
+const SealedSchema = z.object({ iv: z.string(), ciphertext: z.string(), tag: z.string() });
+
+export const SecureMessageSchema: z.ZodType<SecureMessage> = z.discriminatedUnion("step", [
+  z.object({
+    step: z.literal("keys"),
+    keys: z.object({ clientId: z.string(), encryptionKey: z.string(), maskingKey: z.string() }),
+  }),
+  z.object({
+    step: z.literal("shares"),
+    shares: z.array(z.object({ from: z.string(), to: z.string(), sealed: SealedSchema })),
+  }),
+  z.object({
+    step: z.literal("masked"),
+    masked: z.array(z.number()),
+    numExamples: z.number(),
+    metrics: z.object({ before: ModelMetricsSchema, after: ModelMetricsSchema }),
+    privacy: z.object({ clipNorm: z.number(), noiseMultiplier: z.number(), clipped: z.boolean() }).nullable(),
+  }),
+  z.object({
+    step: z.literal("unmasking"),
+    response: z.object({
+      clientId: z.string(),
+      selfMaskShares: z.record(z.string()),
+      maskingKeyShares: z.record(z.string()),
+    }),
+  }),
+]);
+
+// Below this many records there is too little data to hold any back, so metrics are on the training set.
+const MIN_RECORDS_FOR_HOLDOUT = 10;
+const HOLDOUT_FRACTION = 0.2;
+
+/** `noise` defaults to the CSPRNG; only simulations pass a seeded source so their runs can be repeated. */
+export function computeLocalUpdate(
+  task: RoundTask,
+  kioskId: string,
+  records: TrainingRecord[],
+  privacy?: PrivacyConfig,
+  noise: Random = secureRandom
+): ClientUpdate {
+  if (records.length === 0) {
+    throw new Error("At least one training record is needed to take part in a round.");
+  }
+  const model = getFederatedModel(task.modelName);
+  const random = seededRandom(hashSeed(task.roundId, kioskId));
+  const examples: Example[] = shuffled(records, random).map((record) => ({
+    x: encodeFeatures(model, record),
+    y: labelOf(model, record),
+  }));
+
+  const holdoutSize = examples.length >= MIN_RECORDS_FOR_HOLDOUT ? Math.round(examples.length * HOLDOUT_FRACTION) : 0;
+  const holdout = holdoutSize > 0 ? examples.slice(0, holdoutSize) : examples;
+  const training = holdoutSize > 0 ? examples.slice(holdoutSize) : examples;
+
+  const trained = trainLogisticRegression(task.globalWeights, training, task.training, random);
+  let delta = trained.map((weight, i) => weight - task.globalWeights[i]);
+  let applied: ClientUpdate["privacy"] = null;
+  if (privacy && isPrivacyEnabled(privacy)) {
+    const privatized = privatizeDelta(delta, privacy, noise);
+    delta = privatized.delta;
+    applied = { clipNorm: privacy.clipNorm, noiseMultiplier: privacy.noiseMultiplier, clipped: privatized.clipped };
+  }
+  const uploaded = task.globalWeights.map((weight, i) => weight + delta[i]);
+
+  return {
+    roundId: task.roundId,
+    kioskId,
+    numExamples: training.length,
+    delta,
+    metrics: {
+      before: evaluateModel(task.globalWeights, holdout),
+      after: evaluateModel(uploaded, holdout),
+    },
+    privacy: applied,
+  };
+}
@@ -0,0 +1,129 @@
+import { createHash, timingSafeEqual } from "crypto";
+
+import {
+  getFederatedStatus,
+  getRoundTask,
+  getSecureRound,
+  registerClient,
+  sendSecureMessage,
+  submitUpdate,
+} from "@/lib/federated/coordinator";
+import type { FederatedClient, FederatedStatus, RoundSummary, SecureRoundView } from "@/lib/federated/coordinator";
+import type { ClientUpdate, RoundTask, SecureMessage } from "@/lib/federated/client";
+import { getProductionModel, modelHash, type ModelVersion } from "@/lib/federated/registry";
+
+/**
+ * @fileOverview How kiosks reach the federated coordinator.
+ *
+ * - authenticateKiosk - On the coordinator: the kiosk a request to /api/federated comes from, if its key is valid.
+ * - getCoordinator - On a kiosk: the coordinator in this process, or the one at FEDERATED_COORDINATOR_URL.
+ *
+ * One kiosk runs the coordinator; the others send their updates to its
+ * /api/federated endpoints. The coordinator lists the kiosks allowed to take
+ * part as `kioskId:key` pairs in FEDERATED_KIOSK_KEYS, and each of those
+ * kiosks sets FEDERATED_COORDINATOR_URL and its own FEDERATED_KIOSK_KEY. A
+ * request names its kiosk in X-Kiosk-ID and carries the key as a Bearer
+ * token, so a kiosk can only register, pull rounds and push updates as itself,
+ * including the steps of a round run with secure aggregation.
+ * Kiosks also read the round status and pull the production version of each
+ * model from the coordinator, whose registry is the only one.
+ */
+
+export type Coordinator = {
+  registerClient(kioskId: string): Promise<FederatedClient>;
+  getRoundTask(modelName: string, kioskId: string): Promise<RoundTask>;
+  submitUpdate(update: ClientUpdate): Promise<RoundSummary>;
+  getSecureRound(roundId: string, kioskId: string): Promise<SecureRoundView>;
+  sendSecureMessage(roundId: string, kioskId: string, message: SecureMessage): Promise<RoundSummary>;
+  /** The status as the kiosk may see it: only its own client entry and audit trail when it is remote. */
+  getFederatedStatus(modelName: string, kioskId: string): Promise<FederatedStatus>;
+  getProductionModel(modelName: string, kioskId: string): Promise<ModelVersion | null>;
+};
+
+const localCoordinator: Coordinator = {
+  registerClient,
+  getRoundTask,
+  submitUpdate,
+  getSecureRound,
+  sendSecureMessage,
+  getFederatedStatus: (modelName) => getFederatedStatus(modelName),
+  getProductionModel: (modelName) => getProductionModel(modelName),
+};
+
+function digest(value: string) {
+  return createHash("sha256").update(value).digest();
+}
+
+function kioskKeys() {
+  const keys = new Map<string, Buffer>();
+  for (const entry of (process.env.FEDERATED_KIOSK_KEYS ?? "").split(",")) {
+    const separator = entry.indexOf(":");
+    const kioskId = entry.slice(0, separator).trim();
+    const key = entry.slice(separator + 1).trim();
+    if (separator > 0 && kioskId && key) {
+      keys.set(kioskId, digest(key));
+    }
+  }
+  return keys;
+}
+
+/** The kiosk id, or null when the kiosk is not listed or its key is wrong. */
+export function authenticateKiosk(headers: Headers) {
+  const kioskId = headers.get("x-kiosk-id")?.trim();
+  const key = /^Bearer\s+(\S+)$/i.exec(headers.get("authorization") ?? "")?.[1];
+  const expected = kioskId ? kioskKeys().get(kioskId) : undefined;
+  if (!kioskId || !key || !expected) {
+    return null;
+  }
+  return timingSafeEqual(digest(key), expected) ? kioskId : null;
+}
+
+function remoteCoordinator(url: string, key: string): Coordinator {
+  async function post<T>(path: string, kioskId: string, body: unknown): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${url}/${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${key}`, "X-Kiosk-ID": kioskId },
+        body: JSON.stringify(body),
+        cache: "no-store",
+      });
+    } catch (error) {
+      throw new Error(`The federated coordinator at ${url} could not be reached: ${(error as Error).message}`);
+    }
+    const payload = (await response.json().catch(() => null)) as (T & { error?: string }) | null;
+    if (!response.ok || !payload) {
+      throw new Error(payload?.error ?? `The federated coordinator answered ${response.status} to ${path}.`);
+    }
+    return payload;
+  }
+
+  return {
+    registerClient: (kioskId) => post("register", kioskId, {}),
+    getRoundTask: (modelName, kioskId) => post("task", kioskId, { modelName }),
+    submitUpdate: ({ kioskId, ...update }) => post("updates", kioskId, update),
+    getSecureRound: (roundId, kioskId) => post("secure-round", kioskId, { roundId }),
+    sendSecureMessage: (roundId, kioskId, message) => post("secure-message", kioskId, { roundId, message }),
+    getFederatedStatus: (modelName, kioskId) => post("status", kioskId, { modelName }),
+    async getProductionModel(modelName, kioskId) {
+      const { model } = await post<{ model: ModelVersion | null }>("production-model", kioskId, { modelName });
+      // The weights are checked against the hash the coordinator registered them under.
+      if (model && (model.modelName !== modelName || modelHash(model.modelName, model.weights) !== model.hash)) {
+        throw new Error(`The coordinator's ${modelName} production version does not match its registered hash.`);
+      }
+      return model;
+    },
+  };
+}
+
+export function getCoordinator(): Coordinator {
+  const url = process.env.FEDERATED_COORDINATOR_URL?.replace(/\/$/, "");
+  if (!url) {
+    return localCoordinator;
+  }
+  const key = process.env.FEDERATED_KIOSK_KEY;
+  if (!key) {
+    throw new Error("FEDERATED_KIOSK_KEY must be set to send updates to the coordinator at FEDERATED_COORDINATOR_URL.");
+  }
+  return remoteCoordinator(url, key);
+}
@@ -0,0 +1,794 @@
+import { randomUUID } from "crypto";
+
+import { readJsonFile, updateJsonFile } from "@/lib/storage/json-file";
+import { anomalyThresholds, medianNorm, scoreUpdates, type AnomalyScore, type AnomalyThresholds } from "@/lib/federated/anomaly";
+import { averageMetrics, type ModelMetrics } from "@/lib/federated/logistic-regression";
+import { getFederatedModel, parameterCount } from "@/lib/federated/models";
+import { registerModelVersion } from "@/lib/federated/registry";
+import { combineDeltas, isAggregationRule, type AggregationRule } from "@/lib/federated/robust-aggregation";
+import { createSecureAggregator, defaultThreshold } from "@/lib/federated/secure-aggregation/aggregator";
+import type { AdvertisedKeys, EncryptedShares, UnmaskingRequest, UnmaskingResponse } from "@/lib/federated/secure-aggregation/client";
+import type { ClientUpdate, RoundTask, SecureMessage } from "@/lib/federated/client";
+
+/**
+ * @fileOverview The federated learning coordinator.
+ *
+ * - registerClient - Records a kiosk that joins through the coordinator's API (see coordinator-api.ts).
+ * - getRoundTask - Registers the kiosk and hands it the open round (opening one if needed).
+ * - submitUpdate - Accepts a kiosk's weight delta; aggregates once enough kiosks have reported.
+ * - aggregateRound - Scores the updates, quarantines outliers and combines the rest with the
+ *   model's aggregation rule. Every aggregated model is recorded as a new version in the registry
+ *   once the round is saved; a registration that fails is retried on the next call. A secure round
+ *   is instead moved past its current step.
+ * - getSecureRound / sendSecureMessage - A kiosk's view of a secure round, and its message for each step.
+ * - setAggregationSettings - Chooses FedAvg or a robust rule for a model, or FedAvg over secure aggregation.
+ * - reviewQuarantine - An administrator releases or blocks a quarantined kiosk.
+ * - getFederatedStatus - Global model, open round, round history, quarantine and audit trail for the UI.
+ * - createInMemoryCoordinator - The same coordinator with its state in memory, for simulator.ts.
+ *
+ * State lives in `federated/coordinator.json` under KIOSK_DATA_DIR. A round
+ * closes automatically once FEDERATED_MIN_CLIENTS kiosks (default 2) have
+ * submitted updates that pass anomaly scoring, or earlier when an
+ * administrator aggregates it by hand. A quarantined kiosk cannot join rounds
+ * for any model until it is released. This kiosk contributes directly; other
+ * kiosks use the /api/federated endpoints with their kiosk keys.
+ *
+ * Updates arrive clipped and noised for differential privacy, and by default
+ * unmasked, since scoring and the robust rules need to see each update. A
+ * model can instead run its rounds with secure aggregation (secure-aggregation/):
+ * the coordinator then only relays keys and encrypted shares, holds masked
+ * updates and recovers their sum, so it combines them with plain FedAvg and
+ * screens nothing. Such a round takes the first FEDERATED_MIN_CLIENTS kiosks
+ * (at least two) through four steps, each closing once every kiosk still in
+ * the round has answered; an administrator can close a step early, leaving
+ * the silent kiosks out as dropped, or the round is abandoned when fewer
+ * kiosks than the threshold remain.
+ */
+
+export type Quarantine = {
+  /** Pending until an administrator reviews it; blocked once they confirm it. */
+  status: "pending" | "blocked";
+  since: string;
+  modelName: string;
+  roundNumber: number;
+  score: AnomalyScore;
+};
+
+export type FederatedClient = {
+  kioskId: string;
+  registeredAt: string;
+  lastSeenAt: string;
+  roundsContributed: number;
+  quarantine?: Quarantine;
+};
+
+export type AuditEntry = {
+  id: string;
+  at: string;
+  action: "quarantined" | "released" | "blocked" | "rule-changed" | "abandoned";
+  modelName: string;
+  kioskId?: string;
+  roundNumber?: number;
+  /** Username, or "coordinator" for automatic actions. */
+  actor: string;
+  detail: string;
+};
+
+export type AggregationSettings = { rule: AggregationRule; trimFraction: number; secureAggregation: boolean };
+
+/** In a secure round `delta` is empty: the update stays masked in the round's `secure` messages. */
+type StoredUpdate = Omit<ClientUpdate, "roundId"> & { receivedAt: string };
+
+export type SecurePhase = "keys" | "shares" | "masked" | "unmasking";
+
+const SECURE_PHASES: SecurePhase[] = ["keys", "shares", "masked", "unmasking"];
+
+/** The messages of a secure round so far; its aggregator is rebuilt from them on every call. */
+type SecureRound = {
+  threshold: number;
+  phase: SecurePhase;
+  keys: AdvertisedKeys[];
+  shares: Record<string, EncryptedShares[]>;
+  masked: Record<string, number[]>;
+  responses: UnmaskingResponse[];
+};
+
+export type RoundMetrics = { before: ModelMetrics | null; after: ModelMetrics | null };
+
+type StoredRound = {
+  id: string;
+  modelName: string;
+  number: number;
+  status: "open" | "aggregated" | "abandoned";
+  minClients: number;
+  openedAt: string;
+  closedAt?: string;
+  startWeights: number[];
+  updates: StoredUpdate[];
+  /** Updates excluded by anomaly scoring. */
+  rejected?: (StoredUpdate & { score: AnomalyScore })[];
+  scores?: AnomalyScore[];
+  result?: { weights: number[]; totalExamples: number; metrics: RoundMetrics; rule?: AggregationRule; version?: number };
+  /** False until the aggregated model is in the registry; missing on rounds registered before this was tracked. */
+  registered?: boolean;
+  /** Present when the round runs secure aggregation. */
+  secure?: SecureRound;
+};
+
+type GlobalModel = { modelName: string; version: number; weights: number[]; updatedAt: string };
+
+type CoordinatorState = {
+  models: Record<string, GlobalModel>;
+  clients: Record<string, FederatedClient>;
+  rounds: StoredRound[];
+  settings?: Record<string, AggregationSettings>;
+  audit?: AuditEntry[];
+};
+
+/** Where a coordinator keeps its state between calls. */
+type CoordinatorStore = {
+  read(): Promise<CoordinatorState>;
+  /** Runs a read-modify-write step; steps never overlap, and one that throws changes nothing. */
+  update<T>(task: (state: CoordinatorState) => Promise<T>): Promise<T>;
+};
+
+type CoordinatorOptions = {
+  minClients: () => number;
+  thresholds: () => AnomalyThresholds;
+  registerModel: (entry: Parameters<typeof registerModelVersion>[0]) => Promise<unknown>;
+};
+
+/** A round as shown to people: no weights or deltas. */
+export type RoundSummary = {
+  id: string;
+  number: number;
+  status: StoredRound["status"];
+  minClients: number;
+  openedAt: string;
+  closedAt?: string;
+  participants: { kioskId: string; numExamples: number; receivedAt: string }[];
+  rejected: { kioskId: string; numExamples: number; reasons: string[] }[];
+  scores: AnomalyScore[];
+  rule?: AggregationRule;
+  /** The secure aggregation step the round is at, and the kiosks that step still waits for. */
+  secure?: { phase: SecurePhase; threshold: number; roster: string[]; waitingFor: string[] };
+  totalExamples: number;
+  metrics: RoundMetrics;
+};
+
+/** What a kiosk in a secure round needs for its next step; each part appears once the round reaches it. */
+export type SecureRoundView = {
+  roundId: string;
+  status: StoredRound["status"];
+  phase: SecurePhase;
+  roster: AdvertisedKeys[] | null;
+  inbox: EncryptedShares[] | null;
+  request: UnmaskingRequest | null;
+};
+
+export type FederatedStatus = {
+  modelName: string;
+  version: number;
+  weights: number[];
+  updatedAt: string | null;
+  openRound: RoundSummary | null;
+  history: RoundSummary[];
+  clients: FederatedClient[];
+  settings: AggregationSettings;
+  audit: AuditEntry[];
+};
+
+const STATE_FILE = "federated/coordinator.json";
+const AUDIT_ENTRIES_SHOWN = 100;
+
+function minClients() {
+  const value = Number(process.env.FEDERATED_MIN_CLIENTS ?? 2);
+  return Number.isInteger(value) && value >= 1 ? value : 2;
+}
+
+function defaultSettings(): AggregationSettings {
+  const rule = process.env.FEDERATED_AGGREGATION_RULE;
+  const trimFraction = Number(process.env.FEDERATED_TRIM_FRACTION ?? 0.2);
+  return {
+    rule: isAggregationRule(rule) ? rule : "fedavg",
+    trimFraction: trimFraction >= 0 && trimFraction < 0.5 ? trimFraction : 0.2,
+    secureAggregation: false,
+  };
+}
+
+function globalModel(state: CoordinatorState, modelName: string): GlobalModel {
+  const model = getFederatedModel(modelName);
+  state.models[modelName] ??= {
+    modelName,
+    version: 0,
+    weights: new Array<number>(parameterCount(model)).fill(0),
+    updatedAt: new Date().toISOString(),
+  };
+  return state.models[modelName];
+}
+
+function openRound(state: CoordinatorState, modelName: string) {
+  return state.rounds.find((round) => round.modelName === modelName && round.status === "open");
+}
+
+function touchClient(state: CoordinatorState, kioskId: string) {
+  const now = new Date().toISOString();
+  state.clients[kioskId] ??= { kioskId, registeredAt: now, lastSeenAt: now, roundsContributed: 0 };
+  state.clients[kioskId].lastSeenAt = now;
+  return state.clients[kioskId];
+}
+
+function settingsFor(state: CoordinatorState, modelName: string): AggregationSettings {
+  // Settings saved before secure aggregation existed lack the flag.
+  return { ...defaultSettings(), ...state.settings?.[modelName] };
+}
+
+function audit(state: CoordinatorState, entry: Omit<AuditEntry, "id" | "at">) {
+  (state.audit ??= []).push({ id: randomUUID(), at: new Date().toISOString(), ...entry });
+}
+
+function assertNotQuarantined(state: CoordinatorState, kioskId: string) {
+  const quarantine = state.clients[kioskId]?.quarantine;
+  if (quarantine) {
+    throw new Error(
+      quarantine.status === "blocked"
+        ? `Kiosk ${kioskId} has been blocked from federated training by an administrator.`
+        : `Kiosk ${kioskId} is quarantined pending review after an unusual update in ${quarantine.modelName} round ${quarantine.roundNumber}.`
+    );
+  }
+}
+
+function summarise(round: StoredRound): RoundSummary {
+  return {
+    id: round.id,
+    number: round.number,
+    status: round.status,
+    minClients: round.minClients,
+    openedAt: round.openedAt,
+    closedAt: round.closedAt,
+    participants: round.updates.map(({ kioskId, numExamples, receivedAt }) => ({ kioskId, numExamples, receivedAt })),
+    rejected: (round.rejected ?? []).map(({ kioskId, numExamples, score }) => ({ kioskId, numExamples, reasons: score.reasons })),
+    scores: round.scores ?? [],
+    rule: round.result?.rule,
+    secure: round.secure && {
+      phase: round.secure.phase,
+      threshold: round.secure.threshold,
+      roster: round.secure.keys.map((keys) => keys.clientId).sort(),
+      waitingFor: waitingFor(round),
+    },
+    totalExamples: round.updates.reduce((sum, update) => sum + update.numExamples, 0),
+    metrics: round.result?.metrics ?? {
+      before: averageMetrics(round.updates.map((update) => update.metrics.before)),
+      after: averageMetrics(round.updates.map((update) => update.metrics.after)),
+    },
+  };
+}
+
+/** Moves flagged updates out of the round and quarantines their kiosks. */
+function screenUpdates(state: CoordinatorState, round: StoredRound, thresholds: AnomalyThresholds) {
+  const previous = state.rounds
+    .filter((entry) => entry.modelName === round.modelName && entry.status === "aggregated" && !entry.secure)
+    .pop();
+  const scores = scoreUpdates(round.updates, thresholds, previous && medianNorm(previous.updates));
+  round.scores = scores;
+  for (const score of scores.filter((entry) => entry.flagged)) {
+    const update = round.updates.find((entry) => entry.kioskId === score.kioskId)!;
+    round.updates = round.updates.filter((entry) => entry !== update);
+    (round.rejected ??= []).push({ ...update, score });
+    touchClient(state, score.kioskId).quarantine = {
+      status: "pending",
+      since: new Date().toISOString(),
+      modelName: round.modelName,
+      roundNumber: round.number,
+      score,
+    };
+    audit(state, {
+      action: "quarantined",
+      modelName: round.modelName,
+      kioskId: score.kioskId,
+      roundNumber: round.number,
+      actor: "coordinator",
+      detail: score.reasons.join(" "),
+    });
+  }
+}
+
+/**
+ * Screens the round and, if at least `needed` updates remain, combines them
+ * into the next global model. Returns false when the round has to stay open.
+ * Mutates the state; the caller persists it, then registers the model with
+ * registerAggregatedModels.
+ */
+function aggregate(state: CoordinatorState, round: StoredRound, needed: number, thresholds: AnomalyThresholds) {
+  if (round.updates.length === 0) {
+    throw new Error(`Round ${round.number} has no updates to aggregate.`);
+  }
+  screenUpdates(state, round, thresholds);
+  if (round.updates.length < needed) {
+    return false;
+  }
+
+  const settings = settingsFor(state, round.modelName);
+  finishRound(state, round, combineDeltas(settings.rule, round.updates, settings), settings.rule);
+  return true;
+}
+
+/** Applies the combined delta as the next global model and closes the round. */
+function finishRound(state: CoordinatorState, round: StoredRound, delta: number[], rule: AggregationRule) {
+  const totalExamples = round.updates.reduce((sum, update) => sum + update.numExamples, 0);
+  const weights = round.startWeights.map((weight, i) => weight + delta[i]);
+  const metrics = {
+    before: averageMetrics(round.updates.map((update) => update.metrics.before)),
+    after: averageMetrics(round.updates.map((update) => update.metrics.after)),
+  };
+
+  const model = globalModel(state, round.modelName);
+  model.version += 1;
+  model.weights = weights;
+  model.updatedAt = new Date().toISOString();
+  for (const update of round.updates) {
+    touchClient(state, update.kioskId).roundsContributed += 1;
+  }
+
+  round.status = "aggregated";
+  round.closedAt = model.updatedAt;
+  round.result = { weights, totalExamples, metrics, rule, version: model.version };
+  round.registered = false;
+}
+
+/** Rebuilds a secure round's aggregator by replaying the messages stored so far. */
+function restoreAggregator(round: StoredRound) {
+  const secure = round.secure!;
+  const reached = SECURE_PHASES.indexOf(secure.phase);
+  const aggregator = createSecureAggregator({ threshold: secure.threshold, vectorLength: round.startWeights.length });
+  secure.keys.forEach((keys) => aggregator.receiveKeys(keys));
+  if (reached >= SECURE_PHASES.indexOf("shares")) {
+    aggregator.roster();
+    Object.entries(secure.shares).forEach(([from, messages]) => aggregator.receiveShares(from, messages));
+  }
+  if (reached >= SECURE_PHASES.indexOf("masked")) {
+    aggregator.shareholders();
+    Object.entries(secure.masked).forEach(([clientId, masked]) => aggregator.receiveMaskedInput({ clientId, masked }));
+  }
+  if (reached >= SECURE_PHASES.indexOf("unmasking")) {
+    aggregator.unmaskingRequest();
+    secure.responses.forEach((response) => aggregator.receiveUnmasking(response));
+  }
+  return aggregator;
+}
+
+/** The kiosks the open secure step still waits for; key advertisement waits for whoever joins. */
+function waitingFor(round: StoredRound) {
+  const secure = round.secure!;
+  if (round.status !== "open") {
+    return [];
+  }
+  const answered: Record<SecurePhase, string[]> = {
+    keys: secure.keys.map((keys) => keys.clientId),
+    shares: Object.keys(secure.shares),
+    masked: Object.keys(secure.masked),
+    unmasking: secure.responses.map((response) => response.clientId),
+  };
+  const phase = SECURE_PHASES.indexOf(secure.phase);
+  return phase === 0 ? [] : answered[SECURE_PHASES[phase - 1]].filter((id) => !answered[secure.phase].includes(id)).sort();
+}
+
+function securePhaseComplete(round: StoredRound) {
+  const secure = round.secure!;
+  switch (secure.phase) {
+    case "keys":
+      return secure.keys.length >= round.minClients;
+    case "unmasking":
+      return secure.responses.length >= secure.threshold;
+    default:
+      return waitingFor(round).length === 0;
+  }
+}
+
+/**
+ * Closes the secure step the round is at, leaving out kiosks that have not
+ * answered, or aggregates the round once enough kiosks helped unmask. Throws
+ * when too few kiosks remain for the sum to be recovered.
+ */
+function closeSecurePhase(state: CoordinatorState, round: StoredRound) {
+  const secure = round.secure!;
+  const aggregator = restoreAggregator(round);
+  switch (secure.phase) {
+    case "keys":
+      aggregator.roster();
+      secure.phase = "shares";
+      return;
+    case "shares":
+      aggregator.shareholders();
+      secure.phase = "masked";
+      return;
+    case "masked":
+      aggregator.unmaskingRequest();
+      secure.phase = "unmasking";
+      return;
+    case "unmasking": {
+      // Each kiosk masked its delta scaled by its example count, so the sum over the total is FedAvg.
+      const { sum } = aggregator.aggregate();
+      const totalExamples = round.updates.reduce((total, update) => total + update.numExamples, 0);
+      finishRound(state, round, sum.map((value) => value / totalExamples), "fedavg");
+    }
+  }
+}
+
+function abandonRound(state: CoordinatorState, round: StoredRound, actor: string, reason: string) {
+  round.status = "abandoned";
+  round.closedAt = new Date().toISOString();
+  audit(state, { action: "abandoned", modelName: round.modelName, roundNumber: round.number, actor, detail: reason });
+}
+
+function createCoordinator(store: CoordinatorStore, options: CoordinatorOptions) {
+  function withState<T>(task: (state: CoordinatorState) => Promise<T> | T, { write }: { write: boolean }) {
+    return write ? store.update(async (state) => task(state)) : store.read().then(task);
+  }
+
+  /**
+   * Registers the models of saved rounds that are not in the registry yet. A
+   * failure leaves them marked for the next call; registering the same round
+   * twice is harmless.
+   */
+  async function registerAggregatedModels() {
+    try {
+      await withState(async (state) => {
+        for (const round of state.rounds.filter((entry) => entry.status === "aggregated" && entry.registered === false)) {
+          const { weights, totalExamples, metrics, rule, version } = round.result!;
+          await options.registerModel({
+            modelName: round.modelName,
+            version: version!,
+            roundId: round.id,
+            roundNumber: round.number,
+            contributors: round.updates.map((update) => update.kioskId),
+            totalExamples,
+            metrics,
+            weights,
+            aggregationRule: rule,
+          });
+          round.registered = true;
+        }
+      }, { write: true });
+    } catch (error) {
+      console.error("Could not register the aggregated models; will retry on the next round:", error);
+    }
+  }
+
+  function registerClient(kioskId: string): Promise<FederatedClient> {
+    return withState((state) => ({ ...touchClient(state, kioskId) }), { write: true });
+  }
+
+  async function getRoundTask(modelName: string, kioskId: string): Promise<RoundTask> {
+    await registerAggregatedModels();
+    return withState((state) => {
+      const model = getFederatedModel(modelName);
+      assertNotQuarantined(state, kioskId);
+      touchClient(state, kioskId);
+      let round = openRound(state, modelName);
+      if (!round) {
+        const previous = state.rounds.filter((existing) => existing.modelName === modelName);
+        const secure = settingsFor(state, modelName).secureAggregation;
+        // A secure round needs two kiosks: the sum of one masked update is the update itself.
+        const needed = secure ? Math.max(options.minClients(), 2) : options.minClients();
+        round = {
+          id: randomUUID(),
+          modelName,
+          number: previous.length + 1,
+          status: "open",
+          minClients: needed,
+          openedAt: new Date().toISOString(),
+          startWeights: [...globalModel(state, modelName).weights],
+          updates: [],
+          ...(secure && {
+            secure: { threshold: defaultThreshold(needed), phase: "keys", keys: [], shares: {}, masked: {}, responses: [] },
+          }),
+        };
+        state.rounds.push(round);
+      }
+      if (
+        round.updates.some((update) => update.kioskId === kioskId) ||
+        round.secure?.keys.some((keys) => keys.clientId === kioskId)
+      ) {
+        throw new Error(`Kiosk ${kioskId} has already contributed to round ${round.number}. Wait for the round to close.`);
+      }
+      if (round.secure && round.secure.phase !== "keys") {
+        throw new Error(`Round ${round.number} is under way with secure aggregation and takes no new kiosks. Wait for it to close.`);
+      }
+      return {
+        roundId: round.id,
+        roundNumber: round.number,
+        modelName,
+        globalWeights: [...round.startWeights],
+        training: model.training,
+        ...(round.secure && { secure: { threshold: round.secure.threshold } }),
+      };
+    }, { write: true });
+  }
+
+  async function submitUpdate(update: ClientUpdate): Promise<RoundSummary> {
+    const summary = await withState((state) => {
+      const round = state.rounds.find((existing) => existing.id === update.roundId);
+      if (!round || round.status !== "open") {
+        throw new Error("That round is no longer accepting updates.");
+      }
+      if (round.secure) {
+        throw new Error(`Round ${round.number} uses secure aggregation; its updates must be sent masked.`);
+      }
+      assertNotQuarantined(state, update.kioskId);
+      if (round.updates.some((existing) => existing.kioskId === update.kioskId)) {
+        throw new Error(`Kiosk ${update.kioskId} has already contributed to round ${round.number}.`);
+      }
+      if (update.delta.length !== round.startWeights.length || !update.delta.every(Number.isFinite)) {
+        throw new Error("The update does not match the model's parameters.");
+      }
+      if (!Number.isInteger(update.numExamples) || update.numExamples < 1) {
+        throw new Error("The update must be trained on at least one example.");
+      }
+
+      round.updates.push({
+        kioskId: update.kioskId,
+        numExamples: update.numExamples,
+        delta: update.delta,
+        metrics: update.metrics,
+        privacy: update.privacy,
+        receivedAt: new Date().toISOString(),
+      });
+      touchClient(state, update.kioskId);
+      if (round.updates.length >= round.minClients) {
+        aggregate(state, round, round.minClients, options.thresholds());
+      }
+      return summarise(round);
+    }, { write: true });
+    await registerAggregatedModels();
+    return summary;
+  }
+
+  function getSecureRound(roundId: string, kioskId: string): Promise<SecureRoundView> {
+    return withState((state) => {
+      const round = state.rounds.find((existing) => existing.id === roundId);
+      if (!round?.secure) {
+        throw new Error("There is no secure aggregation round with that id.");
+      }
+      const { phase } = round.secure;
+      const reached = (step: SecurePhase) => round.status === "open" && SECURE_PHASES.indexOf(phase) >= SECURE_PHASES.indexOf(step);
+      const aggregator = round.status === "open" ? restoreAggregator(round) : null;
+      return {
+        roundId,
+        status: round.status,
+        phase,
+        roster: reached("shares") ? aggregator!.roster() : null,
+        inbox: reached("masked") ? aggregator!.inboxFor(kioskId) : null,
+        request: reached("unmasking") ? aggregator!.unmaskingRequest() : null,
+      };
+    }, { write: false });
+  }
+
+  /** Takes a kiosk's message for the step a secure round is at; the step closes once it is complete. */
+  async function sendSecureMessage(roundId: string, kioskId: string, message: SecureMessage): Promise<RoundSummary> {
+    const summary = await withState((state) => {
+      const round = state.rounds.find((existing) => existing.id === roundId);
+      if (!round || round.status !== "open") {
+        throw new Error("That round is no longer accepting updates.");
+      }
+      const secure = round.secure;
+      if (!secure) {
+        throw new Error(`Round ${round.number} does not use secure aggregation.`);
+      }
+      assertNotQuarantined(state, kioskId);
+      if (message.step !== secure.phase) {
+        throw new Error(`Round ${round.number} is at the ${secure.phase} step of secure aggregation, not ${message.step}.`);
+      }
+      // The aggregator checks each message against the round so far.
+      const aggregator = restoreAggregator(round);
+      switch (message.step) {
+        case "keys":
+          if (message.keys.clientId !== kioskId || secure.keys.some((keys) => keys.clientId === kioskId)) {
+            throw new Error(`Kiosk ${kioskId} cannot advertise these keys.`);
+          }
+          aggregator.receiveKeys(message.keys);
+          secure.keys.push(message.keys);
+          break;
+        case "shares":
+          aggregator.receiveShares(kioskId, message.shares);
+          secure.shares[kioskId] = message.shares;
+          break;
+        case "masked":
+          if (secure.masked[kioskId]) {
+            throw new Error(`Kiosk ${kioskId} has already contributed to round ${round.number}.`);
+          }
+          if (!message.masked.every((value) => Number.isSafeInteger(value) && value >= 0)) {
+            throw new Error("The masked update is not a vector of masked fixed-point values.");
+          }
+          if (!Number.isInteger(message.numExamples) || message.numExamples < 1) {
+            throw new Error("The update must be trained on at least one example.");
+          }
+          aggregator.receiveMaskedInput({ clientId: kioskId, masked: message.masked });
+          secure.masked[kioskId] = message.masked;
+          round.updates.push({
+            kioskId,
+            numExamples: message.numExamples,
+            delta: [],
+            metrics: message.metrics,
+            privacy: message.privacy,
+            receivedAt: new Date().toISOString(),
+          });
+          break;
+        case "unmasking":
+          if (message.response.clientId !== kioskId || secure.responses.some((response) => response.clientId === kioskId)) {
+            throw new Error(`Kiosk ${kioskId} cannot answer the unmasking request again.`);
+          }
+          aggregator.receiveUnmasking(message.response);
+          secure.responses.push(message.response);
+          break;
+      }
+      touchClient(state, kioskId);
+      if (securePhaseComplete(round)) {
+        closeSecurePhase(state, round);
+      }
+      return summarise(round);
+    }, { write: true });
+    await registerAggregatedModels();
+    return summary;
+  }
+
+  /**
+   * Closes the open round by hand. A secure round instead moves past its
+   * current step without the kiosks that have not answered, and is abandoned
+   * if too few remain.
+   */
+  async function aggregateRound(modelName: string, actor = "coordinator"): Promise<RoundSummary> {
+    const summary = await withState((state) => {
+      const round = openRound(state, modelName);
+      if (!round) {
+        throw new Error(`There is no open round for ${modelName}.`);
+      }
+      if (round.secure) {
+        try {
+          closeSecurePhase(state, round);
+        } catch (error) {
+          abandonRound(state, round, actor, error instanceof Error ? error.message : String(error));
+        }
+        return summarise(round);
+      }
+      // By hand, one clean update is enough; if every update is flagged the round stays open.
+      aggregate(state, round, 1, options.thresholds());
+      return summarise(round);
+    }, { write: true });
+    await registerAggregatedModels();
+    return summary;
+  }
+
+  function getFederatedStatus(modelName: string): Promise<FederatedStatus> {
+    return withState((state) => {
+      const model = state.models[modelName];
+      const rounds = state.rounds.filter((round) => round.modelName === modelName);
+      const open = openRound(state, modelName);
+      return {
+        modelName,
+        version: model?.version ?? 0,
+        weights: model?.weights ?? new Array<number>(parameterCount(getFederatedModel(modelName))).fill(0),
+        updatedAt: model?.updatedAt ?? null,
+        openRound: open ? summarise(open) : null,
+        history: rounds.filter((round) => round.status === "aggregated").map(summarise).reverse(),
+        clients: Object.values(state.clients),
+        settings: settingsFor(state, modelName),
+        audit: (state.audit ?? []).slice(-AUDIT_ENTRIES_SHOWN).reverse(),
+      };
+    }, { write: false });
+  }
+
+  function setAggregationSettings(modelName: string, settings: AggregationSettings, actor: string) {
+    return withState((state) => {
+      getFederatedModel(modelName);
+      if (!isAggregationRule(settings.rule)) {
+        throw new Error(`Unknown aggregation rule "${settings.rule}".`);
+      }
+      if (!(settings.trimFraction >= 0 && settings.trimFraction < 0.5)) {
+        throw new Error("The trim fraction must be at least 0 and below 0.5.");
+      }
+      const secureAggregation = settings.secureAggregation === true;
+      if (secureAggregation && settings.rule !== "fedavg") {
+        throw new Error("Secure aggregation only works with FedAvg: the coordinator sees the sum of the updates, not each one.");
+      }
+      const previous = settingsFor(state, modelName);
+      (state.settings ??= {})[modelName] = { rule: settings.rule, trimFraction: settings.trimFraction, secureAggregation };
+      audit(state, {
+        action: "rule-changed",
+        modelName,
+        actor,
+        detail:
+          secureAggregation !== previous.secureAggregation && settings.rule === previous.rule
+            ? `Secure aggregation turned ${secureAggregation ? "on; new rounds use FedAvg without screening" : "off"}.`
+            : `Aggregation changed from ${previous.rule} to ${settings.rule}` +
+              (settings.rule === "trimmed-mean" ? ` (trimming ${Math.round(settings.trimFraction * 100)}% each side).` : ".") +
+              (secureAggregation && !previous.secureAggregation ? " Secure aggregation turned on." : ""),
+      });
+      return state.settings[modelName];
+    }, { write: true });
+  }
+
+  function reviewQuarantine(kioskId: string, decision: "release" | "block", actor: string, note?: string) {
+    return withState((state) => {
+      const client = state.clients[kioskId];
+      if (!client?.quarantine) {
+        throw new Error(`Kiosk ${kioskId} is not quarantined.`);
+      }
+      const { modelName, roundNumber } = client.quarantine;
+      if (decision === "release") {
+        delete client.quarantine;
+      } else {
+        client.quarantine.status = "blocked";
+      }
+      audit(state, {
+        action: decision === "release" ? "released" : "blocked",
+        modelName,
+        kioskId,
+        roundNumber,
+        actor,
+        detail: note?.trim() || (decision === "release" ? "Released after review." : "Blocked after review."),
+      });
+      return client;
+    }, { write: true });
+  }
+
+  return {
+    registerClient,
+    getRoundTask,
+    submitUpdate,
+    getSecureRound,
+    sendSecureMessage,
+    aggregateRound,
+    getFederatedStatus,
+    setAggregationSettings,
+    reviewQuarantine,
+  };
+}
+
+export type FederatedCoordinator = ReturnType<typeof createCoordinator>;
+
+export const {
+  registerClient,
+  getRoundTask,
+  submitUpdate,
+  getSecureRound,
+  sendSecureMessage,
+  aggregateRound,
+  getFederatedStatus,
+  setAggregationSettings,
+  reviewQuarantine,
+} = createCoordinator(
+  {
+    read: () => readJsonFile<CoordinatorState>(STATE_FILE, { models: {}, clients: {}, rounds: [] }),
+    update: (task) => updateJsonFile(STATE_FILE, { models: {}, clients: {}, rounds: [] }, task),
+  },
+  { minClients, thresholds: anomalyThresholds, registerModel: registerModelVersion }
+);
+
+/**
+ * A coordinator whose state lives only in memory and whose models are not
+ * registered, for simulations. Screening uses `thresholds`, or nothing is
+ * flagged when it is null.
+ */
+export function createInMemoryCoordinator(settings: { minClients: number; thresholds: AnomalyThresholds | null }) {
+  let saved: CoordinatorState = { models: {}, clients: {}, rounds: [] };
+  const unscreened = { maxNormRatio: Infinity, maxCosineDistance: Infinity };
+  return createCoordinator(
+    {
+      read: async () => structuredClone(saved),
+      // Works on a copy, so that a step that throws leaves the state as it was. The simulator
+      // waits for each step before the next, so steps need no queue.
+      update: async (task) => {
+        const state = structuredClone(saved);
+        const result = await task(state);
+        saved = state;
+        return result;
+      },
+    },
+    {
+      minClients: () => settings.minClients,
+      thresholds: () => settings.thresholds ?? unscreened,
+      registerModel: async () => undefined,
+    }
+  );
+}
@@ -0,0 +1,211 @@
+/**
+ * @fileOverview De-identification of a training batch before local training.
+ *
+ * - deidentifyRecords - Drops identifiers, generalises quasi-identifiers and checks k-anonymity.
+ * - deidentificationConfig - The model's k, with a FEDERATED_K_ANONYMITY override.
+ * - describeFailure - One-sentence explanation of why a batch is not k-anonymous.
+ *
+ * Columns the model does not use are dropped; ones that look like names,
+ * phone numbers, email addresses, ABHA or Aadhaar numbers are reported as
+ * direct identifiers. Quasi-identifiers declared in the model (age, sex) and
+ * PIN codes are generalised, age to the finest band width that makes every
+ * combination of quasi-identifiers appear at least k times. Runs in the
+ * browser for the preview and again in the flow before training.
+ */
+
+import { normalizePhone } from "@/lib/records/patients";
+import type {
+  DeidentificationConfig,
+  FederatedModelDefinition,
+  NumericFeature,
+  TrainingRecord,
+} from "@/lib/federated/models";
+
+export type DeidentificationReport = {
+  k: number;
+  /** Size of the smallest group of records sharing all quasi-identifiers; 0 for an empty batch. */
+  achievedK: number;
+  passed: boolean;
+  records: number;
+  dropped: { column: string; reason: string }[];
+  generalised: { column: string; rule: string }[];
+  quasiIdentifiers: string[];
+  /** Groups smaller than k, smallest first. */
+  smallGroups: { description: string; size: number }[];
+};
+
+export type DeidentificationResult = { records: TrainingRecord[]; report: DeidentificationReport };
+
+const PINCODE_PREFIX_DIGITS = 3;
+
+const IDENTIFIER_COLUMNS: { pattern: RegExp; kind: string }[] = [
+  { pattern: /^(full|first|last|middle|given|family|patient|guardian)?name$|^surname$/, kind: "name" },
+  { pattern: /phone|mobile|contact/, kind: "phone number" },
+  { pattern: /e?mail/, kind: "email address" },
+  { pattern: /abha|healthid/, kind: "ABHA identifier" },
+  { pattern: /aadha?ar|^uid$/, kind: "Aadhaar number" },
+  { pattern: /address|street|village|house/, kind: "address" },
+  { pattern: /dob|dateofbirth|birthdate/, kind: "date of birth" },
+  { pattern: /^(patient|record|registration)?id$|^mrn$|uhid/, kind: "record identifier" },
+];
+
+const IDENTIFIER_VALUES: { test: (value: string) => boolean; kind: string }[] = [
+  { test: (value) => /^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(value), kind: "email addresses" },
+  { test: (value) => /^[a-z0-9._]+@(abdm|sbx)$/i.test(value), kind: "ABHA addresses" },
+  { test: (value) => /^\d{2}-?\d{4}-?\d{4}-?\d{4}$/.test(value), kind: "ABHA numbers" },
+  { test: (value) => /^\d{4}\s?\d{4}\s?\d{4}$/.test(value), kind: "Aadhaar numbers" },
+  { test: (value) => normalizePhone(value) !== null, kind: "phone numbers" },
+];
+
+const PINCODE_COLUMN = /^(pin|pincode|postalcode|postcode|zip|zipcode)$/;
+
+function normalise(column: string) {
+  return column.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+export function deidentificationConfig(model: FederatedModelDefinition): DeidentificationConfig {
+  const raw = process.env.FEDERATED_K_ANONYMITY;
+  if (raw === undefined || raw === "") {
+    return model.deidentification;
+  }
+  const k = Number(raw);
+  if (!Number.isInteger(k) || k < 1) {
+    throw new Error(`FEDERATED_K_ANONYMITY must be a whole number of at least 1, got "${raw}".`);
+  }
+  return { k };
+}
+
+function identifierReason(column: string, values: string[]) {
+  const name = normalise(column);
+  const byName = IDENTIFIER_COLUMNS.find(({ pattern }) => pattern.test(name));
+  if (byName) {
+    return `Direct identifier (${byName.kind}).`;
+  }
+  const byValue = IDENTIFIER_VALUES.find(({ test }) => values.some((value) => test(value.trim())));
+  return byValue ? `Contains ${byValue.kind}.` : null;
+}
+
+function band(feature: NumericFeature, value: number, width: number) {
+  const lower = Math.floor(value / width) * width;
+  const middle = lower + (width - 1) / 2;
+  const representative = Math.min(feature.max, Math.max(feature.min, feature.integer ? Math.round(middle) : middle));
+  return { label: `${lower}–${lower + width - 1}`, representative };
+}
+
+export function deidentifyRecords(
+  model: FederatedModelDefinition,
+  input: TrainingRecord[],
+  config: DeidentificationConfig
+): DeidentificationResult {
+  const modelKeys = new Set([...model.features.map((feature) => feature.key), model.label.key]);
+  const columns = [...new Set(input.flatMap((record) => Object.keys(record)))];
+
+  const dropped: DeidentificationReport["dropped"] = [];
+  const pincodeColumns: string[] = [];
+  for (const column of columns.filter((entry) => !modelKeys.has(entry))) {
+    const values = input.map((record) => record[column]).filter((value) => value !== undefined && value !== "").map(String);
+    const reason = identifierReason(column, values);
+    if (reason) {
+      dropped.push({ column, reason });
+    } else if (PINCODE_COLUMN.test(normalise(column))) {
+      pincodeColumns.push(column);
+    } else {
+      dropped.push({ column, reason: "Not used by the model." });
+    }
+  }
+
+  const quasiFeatures = model.features.filter((feature) => feature.quasiIdentifier);
+  const banded = quasiFeatures.filter(
+    (feature): feature is NumericFeature & { bandWidths: number[] } => feature.kind === "number" && !!feature.bandWidths?.length
+  );
+  const levels = Math.max(1, ...banded.map((feature) => feature.bandWidths.length));
+
+  // Try band widths from finest to coarsest and keep the first level that reaches k.
+  let attempt = generalise(model, input, banded, pincodeColumns, 0);
+  for (let level = 1; level < levels && attempt.achievedK < config.k; level++) {
+    attempt = generalise(model, input, banded, pincodeColumns, level);
+  }
+
+  const generalised: DeidentificationReport["generalised"] = [
+    ...banded.map((feature) => ({
+      column: feature.key,
+      rule:
+        `${feature.label} grouped into bands of ${attempt.widths[feature.key]}${feature.unit ? ` ${feature.unit}` : ""}; ` +
+        "each value is replaced by the middle of its band.",
+    })),
+    ...pincodeColumns.map((column) => ({ column, rule: `Only the first ${PINCODE_PREFIX_DIGITS} digits of the PIN code are kept.` })),
+  ];
+
+  return {
+    records: attempt.records,
+    report: {
+      k: config.k,
+      achievedK: attempt.achievedK,
+      passed: input.length > 0 && attempt.achievedK >= config.k,
+      records: input.length,
+      dropped,
+      generalised,
+      quasiIdentifiers: [...quasiFeatures.map((feature) => feature.label), ...pincodeColumns],
+      smallGroups: attempt.groups.filter((group) => group.size < config.k).sort((a, b) => a.size - b.size),
+    },
+  };
+}
+
+function generalise(
+  model: FederatedModelDefinition,
+  input: TrainingRecord[],
+  banded: (NumericFeature & { bandWidths: number[] })[],
+  pincodeColumns: string[],
+  level: number
+) {
+  const widths = Object.fromEntries(
+    banded.map((feature) => [feature.key, feature.bandWidths[Math.min(level, feature.bandWidths.length - 1)]])
+  );
+  const quasiFeatures = model.features.filter((feature) => feature.quasiIdentifier);
+  const keep = [...model.features.map((feature) => feature.key), model.label.key, ...pincodeColumns];
+  const groups = new Map<string, { description: string; size: number }>();
+
+  const records = input.map((source) => {
+    const record: TrainingRecord = {};
+    for (const key of keep) {
+      if (source[key] !== undefined) record[key] = source[key];
+    }
+    const parts: string[] = [];
+    for (const feature of quasiFeatures) {
+      const value = record[feature.key];
+      if (feature.kind === "number" && widths[feature.key] && typeof value === "number") {
+        const { label, representative } = band(feature, value, widths[feature.key]);
+        record[feature.key] = representative;
+        parts.push(`${feature.label} ${label}`);
+      } else {
+        parts.push(`${feature.label} ${value ?? "missing"}`);
+      }
+    }
+    for (const column of pincodeColumns) {
+      const digits = String(record[column] ?? "").replace(/\D/g, "");
+      record[column] = digits ? `${digits.slice(0, PINCODE_PREFIX_DIGITS)}***` : "";
+      parts.push(`PIN ${record[column] || "missing"}`);
+    }
+    const key = parts.join(", ");
+    const group = groups.get(key) ?? { description: key, size: 0 };
+    group.size += 1;
+    groups.set(key, group);
+    return record;
+  });
+
+  const sizes = [...groups.values()].map((group) => group.size);
+  return { records, widths, groups: [...groups.values()], achievedK: sizes.length ? Math.min(...sizes) : 0 };
+}
+
+export function describeFailure(report: DeidentificationReport) {
+  if (report.records === 0) {
+    return "There are no records to de-identify.";
+  }
+  const smallest = report.smallGroups[0];
+  return (
+    `The batch is not ${report.k}-anonymous: ${report.smallGroups.length} combination(s) of ` +
+    `${report.quasiIdentifiers.join(", ")} have fewer than ${report.k} records` +
+    (smallest ? ` (for example ${smallest.description}: ${smallest.size}).` : ".") +
+    " Add more records or remove the rare ones before submitting."
+  );
+}
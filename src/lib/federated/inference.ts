@@ -0,0 +1,39 @@
+import { predictProbability } from "@/lib/federated/logistic-regression";
+import { encodeFeatures, featureRecordSchema, getFederatedModel } from "@/lib/federated/models";
+import { kioskId } from "@/lib/records";
+import { getCoordinator } from "@/lib/federated/coordinator-api";
+
+/**
+ * @fileOverview Inference on a kiosk with the production version of a federated model.
+ *
+ * - scoreWithProductionModel - Pulls the version promoted to production and scores one record.
+ *
+ * Kiosks never score with the latest aggregated weights: a new round only
+ * reaches patients once an administrator promotes it in the registry. A kiosk
+ * with FEDERATED_COORDINATOR_URL pulls the version from the coordinator's registry.
+ */
+
+export type ModelScore = {
+  modelName: string;
+  version: number;
+  hash: string;
+  probability: number;
+};
+
+export async function scoreWithProductionModel(modelName: string, record: unknown): Promise<ModelScore> {
+  const model = getFederatedModel(modelName);
+  const parsed = featureRecordSchema(model).safeParse(record);
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues[0]?.message ?? "The record does not match the model's features.");
+  }
+  const production = await getCoordinator().getProductionModel(modelName, kioskId());
+  if (!production) {
+    throw new Error(`No version of ${modelName} has been promoted to production yet.`);
+  }
+  return {
+    modelName,
+    version: production.version,
+    hash: production.hash,
+    probability: predictProbability(production.weights, encodeFeatures(model, parsed.data)),
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * @fileOverview Logistic regression: local training and evaluation on a kiosk.
+ *
+ * - trainLogisticRegression - Mini-batch SGD with L2 regularisation from given starting weights.
+ * - evaluateModel - Log loss, accuracy, precision, recall and AUC on labelled examples.
+ *
+ * Weights are a plain array with the bias at index 0, so deltas and averages
+ * are element-wise arithmetic.
+ */
+
+import { z } from "zod";
+
+import { shuffled, type Random } from "@/lib/federated/random";
+import type { TrainingConfig } from "@/lib/federated/models";
+
+export type Example = { x: number[]; y: 0 | 1 };
+
+export const ModelMetricsSchema = z.object({
+  examples: z.number().int(),
+  loss: z.number(),
+  accuracy: z.number(),
+  precision: z.number(),
+  recall: z.number(),
+  auc: z.number(),
+});
+export type ModelMetrics = z.infer<typeof ModelMetricsSchema>;
+
+function sigmoid(z: number) {
+  return z >= 0 ? 1 / (1 + Math.exp(-z)) : Math.exp(z) / (1 + Math.exp(z));
+}
+
+export function predictProbability(weights: number[], x: number[]) {
+  let z = weights[0];
+  for (let i = 0; i < x.length; i++) {
+    z += weights[i + 1] * x[i];
+  }
+  return sigmoid(z);
+}
+
+export function trainLogisticRegression(
+  initialWeights: number[],
+  examples: Example[],
+  config: TrainingConfig,
+  random: Random
+): number[] {
+  const weights = [...initialWeights];
+  if (examples.length === 0) {
+    return weights;
+  }
+  for (let epoch = 0; epoch < config.epochs; epoch++) {
+    const order = shuffled(examples, random);
+    for (let start = 0; start < order.length; start += config.batchSize) {
+      const batch = order.slice(start, start + config.batchSize);
+      const gradient = new Array<number>(weights.length).fill(0);
+      for (const { x, y } of batch) {
+        const error = predictProbability(weights, x) - y;
+        gradient[0] += error;
+        for (let i = 0; i < x.length; i++) {
+          gradient[i + 1] += error * x[i];
+        }
+      }
+      for (let i = 0; i < weights.length; i++) {
+        // The bias is not regularised.
+        const penalty = i === 0 ? 0 : config.l2 * weights[i];
+        weights[i] -= config.learningRate * (gradient[i] / batch.length + penalty);
+      }
+    }
+  }
+  return weights;
+}
+
+/** Area under the ROC curve via the rank-sum statistic; 0.5 when only one class is present. */
+function areaUnderCurve(scored: { p: number; y: 0 | 1 }[]) {
+  const positives = scored.filter((item) => item.y === 1).length;
+  const negatives = scored.length - positives;
+  if (positives === 0 || negatives === 0) {
+    return 0.5;
+  }
+  const sorted = [...scored].sort((a, b) => a.p - b.p);
+  let rankSum = 0;
+  for (let i = 0; i < sorted.length; ) {
+    let j = i;
+    while (j + 1 < sorted.length && sorted[j + 1].p === sorted[i].p) j++;
+    const averageRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) {
+      if (sorted[k].y === 1) rankSum += averageRank;
+    }
+    i = j + 1;
+  }
+  return (rankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+}
+
+export function evaluateModel(weights: number[], examples: Example[]): ModelMetrics {
+  if (examples.length === 0) {
+    return { examples: 0, loss: 0, accuracy: 0, precision: 0, recall: 0, auc: 0.5 };
+  }
+  const epsilon = 1e-12;
+  let loss = 0;
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+  let correct = 0;
+  const scored = examples.map(({ x, y }) => {
+    const p = predictProbability(weights, x);
+    loss -= y * Math.log(p + epsilon) + (1 - y) * Math.log(1 - p + epsilon);
+    const predicted = p >= 0.5 ? 1 : 0;
+    if (predicted === y) correct++;
+    if (predicted === 1 && y === 1) truePositives++;
+    if (predicted === 1 && y === 0) falsePositives++;
+    if (predicted === 0 && y === 1) falseNegatives++;
+    return { p, y };
+  });
+  return {
+    examples: examples.length,
+    loss: loss / examples.length,
+    accuracy: correct / examples.length,
+    precision: truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 0,
+    recall: truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : 0,
+    auc: areaUnderCurve(scored),
+  };
+}
+
+/** Example-weighted average of metrics reported by several kiosks. */
+export function averageMetrics(reports: ModelMetrics[]): ModelMetrics | null {
+  const total = reports.reduce((sum, report) => sum + report.examples, 0);
+  if (total === 0) {
+    return null;
+  }
+  const weighted = (key: Exclude<keyof ModelMetrics, "examples">) =>
+    reports.reduce((sum, report) => sum + report[key] * report.examples, 0) / total;
+  return {
+    examples: total,
+    loss: weighted("loss"),
+    accuracy: weighted("accuracy"),
+    precision: weighted("precision"),
+    recall: weighted("recall"),
+    auc: weighted("auc"),
+  };
+}
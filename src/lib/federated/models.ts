@@ -0,0 +1,181 @@
+/**
+ * @fileOverview Models trained through federated learning and their feature schemas.
+ *
+ * - FEDERATED_MODELS - Every model the coordinator can train, keyed by name.
+ * - trainingRecordSchema - Zod schema for one training record of a model.
+ * - encodeFeatures - Turns a record into the standardised vector the model sees.
+ *
+ * Standardisation uses the means and spreads declared here rather than ones
+ * computed from local data, so every kiosk encodes features identically.
+ */
+
+import { z } from "zod";
+
+import type { ConsentScope } from "@/lib/records/consent";
+
+export type NumericFeature = {
+  key: string;
+  label: string;
+  kind: "number";
+  unit?: string;
+  integer?: boolean;
+  /** Values outside [min, max] are rejected as implausible. */
+  min: number;
+  max: number;
+  mean: number;
+  std: number;
+  /** Could help re-identify a patient in combination with other columns (see `deidentify.ts`). */
+  quasiIdentifier?: boolean;
+  /** Band widths tried, finest first, when generalising the value for k-anonymity. */
+  bandWidths?: number[];
+};
+
+export type CategoricalFeature = {
+  key: string;
+  label: string;
+  kind: "category";
+  /** Accepted values and their numeric encoding. */
+  categories: Record<string, number>;
+  quasiIdentifier?: boolean;
+};
+
+export type FeatureSpec = NumericFeature | CategoricalFeature;
+
+export type TrainingConfig = {
+  epochs: number;
+  learningRate: number;
+  batchSize: number;
+  /** L2 regularisation strength. */
+  l2: number;
+};
+
+/** Differential privacy for the updates a kiosk uploads (see `privacy.ts`). */
+export type PrivacyConfig = {
+  /** Updates are scaled down to at most this L2 norm. */
+  clipNorm: number;
+  /** Gaussian noise standard deviation, as a multiple of clipNorm; 0 turns privacy off. */
+  noiseMultiplier: number;
+  /** Total epsilon a kiosk may spend on the model. */
+  epsilonBudget: number;
+  delta: number;
+};
+
+/** De-identification of training batches before local training (see `deidentify.ts`). */
+export type DeidentificationConfig = {
+  /** Every combination of quasi-identifiers must be shared by at least k records. */
+  k: number;
+};
+
+export type FederatedModelDefinition = {
+  name: string;
+  description: string;
+  features: FeatureSpec[];
+  label: { key: string; label: string; positive: string; negative: string };
+  training: TrainingConfig;
+  privacy: PrivacyConfig;
+  deidentification: DeidentificationConfig;
+  /** Records a patient must have consented to for federated learning before they can be trained on. */
+  consentScope: ConsentScope[];
+};
+
+export const FEDERATED_MODELS = {
+  "Cardio-Risk-Predictor": {
+    name: "Cardio-Risk-Predictor",
+    description: "Logistic regression estimating the risk of a cardiovascular event from basic screening measurements.",
+    features: [
+      {
+        key: "age",
+        label: "Age",
+        kind: "number",
+        unit: "years",
+        integer: true,
+        min: 18,
+        max: 100,
+        mean: 50,
+        std: 15,
+        quasiIdentifier: true,
+        bandWidths: [5, 10, 20],
+      },
+      { key: "gender", label: "Sex", kind: "category", categories: { female: 0, male: 1 }, quasiIdentifier: true },
+      { key: "systolic", label: "Systolic BP", kind: "number", unit: "mmHg", integer: true, min: 70, max: 250, mean: 130, std: 20 },
+      { key: "diastolic", label: "Diastolic BP", kind: "number", unit: "mmHg", integer: true, min: 40, max: 150, mean: 82, std: 12 },
+      { key: "cholesterol", label: "Total cholesterol", kind: "number", unit: "mg/dL", min: 80, max: 450, mean: 200, std: 40 },
+    ],
+    label: { key: "outcome", label: "Cardiovascular event", positive: "Yes", negative: "No" },
+    training: { epochs: 20, learningRate: 0.1, batchSize: 16, l2: 0.001 },
+    privacy: { clipNorm: 1, noiseMultiplier: 1.5, epsilonBudget: 10, delta: 1e-5 },
+    deidentification: { k: 3 },
+    consentScope: ["demographics", "vitals", "lab-results"],
+  },
+} satisfies Record<string, FederatedModelDefinition>;
+
+export type FederatedModelName = keyof typeof FEDERATED_MODELS;
+export const FEDERATED_MODEL_NAMES = Object.keys(FEDERATED_MODELS) as FederatedModelName[];
+
+export function isFederatedModelName(value: string): value is FederatedModelName {
+  return value in FEDERATED_MODELS;
+}
+
+export function getFederatedModel(name: string): FederatedModelDefinition {
+  if (!isFederatedModelName(name)) {
+    throw new Error(`Unknown federated model "${name}".`);
+  }
+  return FEDERATED_MODELS[name];
+}
+
+/** A training record: one value per feature plus the 0/1 label. */
+export type TrainingRecord = Record<string, number | string>;
+
+function featureSchema(feature: FeatureSpec) {
+  if (feature.kind === "category") {
+    const values = Object.keys(feature.categories) as [string, ...string[]];
+    return z.enum(values);
+  }
+  let schema = z
+    .number({ invalid_type_error: `${feature.label} must be a number.` })
+    .min(feature.min, `${feature.label} must be at least ${feature.min}${feature.unit ? ` ${feature.unit}` : ""}.`)
+    .max(feature.max, `${feature.label} must be at most ${feature.max}${feature.unit ? ` ${feature.unit}` : ""}.`);
+  if (feature.integer) {
+    schema = schema.int(`${feature.label} must be a whole number.`);
+  }
+  return schema;
+}
+
+function featureShape(model: FederatedModelDefinition) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const feature of model.features) {
+    shape[feature.key] = featureSchema(feature);
+  }
+  return shape;
+}
+
+export function trainingRecordSchema(model: FederatedModelDefinition) {
+  const shape = featureShape(model);
+  shape[model.label.key] = z.union([z.literal(0), z.literal(1)]);
+  return z.object(shape) as unknown as z.ZodType<TrainingRecord>;
+}
+
+/** A record to score: the features without the label. */
+export function featureRecordSchema(model: FederatedModelDefinition) {
+  return z.object(featureShape(model)) as unknown as z.ZodType<TrainingRecord>;
+}
+
+/** Standardised feature vector, without the bias term. */
+export function encodeFeatures(model: FederatedModelDefinition, record: TrainingRecord): number[] {
+  return model.features.map((feature) => {
+    const value = record[feature.key];
+    if (feature.kind === "category") {
+      return feature.categories[String(value)] ?? 0;
+    }
+    return (Number(value) - feature.mean) / feature.std;
+  });
+}
+
+export function labelOf(model: FederatedModelDefinition, record: TrainingRecord) {
+  return Number(record[model.label.key]) === 1 ? 1 : 0;
+}
+
+/** Weight count: one per feature plus the bias at index 0. */
+export function parameterCount(model: FederatedModelDefinition) {
+  return model.features.length + 1;
+}
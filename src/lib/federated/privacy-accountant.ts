@@ -0,0 +1,135 @@
+import { readJsonFile, updateJsonFile } from "@/lib/storage/json-file";
+import { FEDERATED_MODEL_NAMES, getFederatedModel } from "@/lib/federated/models";
+import { addRdp, epsilonSpent, gaussianRdp, isPrivacyEnabled, privacyConfig } from "@/lib/federated/privacy";
+
+/**
+ * @fileOverview Per-kiosk privacy accountant.
+ *
+ * - getPrivacyBudget - What a kiosk has spent on a model and how many more rounds it can join.
+ * - listPrivacyBudgets - A kiosk's budget for each model, for the Federated Learning page.
+ * - reservePrivacyBudget - Charges one upload; refuses when it would exceed the budget.
+ *
+ * The ledger lives in `federated/privacy-ledger.json` under KIOSK_DATA_DIR and
+ * stores accumulated Rényi DP, so the epsilon it reports always uses the
+ * current delta and the budget can be raised or lowered without losing history.
+ */
+
+type LedgerEntry = {
+  kioskId: string;
+  modelName: string;
+  participations: number;
+  rdp: number[];
+  lastSpentAt?: string;
+};
+
+type Ledger = { entries: Record<string, LedgerEntry> };
+
+export type PrivacyBudget = {
+  kioskId: string;
+  modelName: string;
+  enabled: boolean;
+  clipNorm: number;
+  noiseMultiplier: number;
+  delta: number;
+  participations: number;
+  epsilonSpent: number;
+  epsilonBudget: number;
+  epsilonRemaining: number;
+  /** Further rounds the kiosk can join at the current settings; null when privacy is off. */
+  roundsRemaining: number | null;
+  lastSpentAt?: string;
+};
+
+const LEDGER_FILE = "federated/privacy-ledger.json";
+// Enough to show "plenty" without looping forever on a generous budget.
+const MAX_ROUNDS_REPORTED = 999;
+
+/** Reads the ledger, or changes it when `write` is set; changes are made one at a time. */
+function withLedger<T>(task: (ledger: Ledger) => T, { write }: { write: boolean }) {
+  const empty: Ledger = { entries: {} };
+  return write ? updateJsonFile(LEDGER_FILE, empty, task) : readJsonFile(LEDGER_FILE, empty).then(task);
+}
+
+function entryKey(kioskId: string, modelName: string) {
+  return `${kioskId}:${modelName}`;
+}
+
+function budgetOf(kioskId: string, modelName: string, entry: LedgerEntry | undefined): PrivacyBudget {
+  const config = privacyConfig(getFederatedModel(modelName));
+  const enabled = isPrivacyEnabled(config);
+  const rdp = entry?.rdp ?? [];
+  const spent = rdp.length > 0 ? epsilonSpent(rdp, config.delta) : 0;
+
+  let roundsRemaining: number | null = null;
+  if (enabled) {
+    const step = gaussianRdp(config.noiseMultiplier);
+    let projected = rdp;
+    roundsRemaining = 0;
+    while (roundsRemaining < MAX_ROUNDS_REPORTED) {
+      projected = addRdp(projected, step);
+      if (epsilonSpent(projected, config.delta) > config.epsilonBudget) break;
+      roundsRemaining++;
+    }
+  }
+
+  return {
+    kioskId,
+    modelName,
+    enabled,
+    clipNorm: config.clipNorm,
+    noiseMultiplier: config.noiseMultiplier,
+    delta: config.delta,
+    participations: entry?.participations ?? 0,
+    epsilonSpent: spent,
+    epsilonBudget: config.epsilonBudget,
+    epsilonRemaining: Math.max(0, config.epsilonBudget - spent),
+    roundsRemaining,
+    lastSpentAt: entry?.lastSpentAt,
+  };
+}
+
+function exhaustedError(budget: PrivacyBudget) {
+  return new Error(
+    `Kiosk ${budget.kioskId} has used its privacy budget for ${budget.modelName} ` +
+      `(ε ${budget.epsilonSpent.toFixed(2)} of ${budget.epsilonBudget}), so it can no longer contribute updates.`
+  );
+}
+
+export function getPrivacyBudget(kioskId: string, modelName: string): Promise<PrivacyBudget> {
+  return withLedger((ledger) => budgetOf(kioskId, modelName, ledger.entries[entryKey(kioskId, modelName)]), {
+    write: false,
+  });
+}
+
+/** The kiosk's budget for every model, including ones it has not spent anything on. */
+export function listPrivacyBudgets(kioskId: string): Promise<PrivacyBudget[]> {
+  return withLedger(
+    (ledger) => FEDERATED_MODEL_NAMES.map((modelName) => budgetOf(kioskId, modelName, ledger.entries[entryKey(kioskId, modelName)])),
+    { write: false }
+  );
+}
+
+/**
+ * Checks and charges the budget for one privatised upload in a single step,
+ * so two overlapping rounds cannot both pass the check; throws when the kiosk
+ * cannot afford it. Reserve before computing the update: a failed upload then
+ * wastes budget, but never releases noise that was not accounted for.
+ */
+export function reservePrivacyBudget(kioskId: string, modelName: string): Promise<PrivacyBudget> {
+  return withLedger((ledger) => {
+    const key = entryKey(kioskId, modelName);
+    const config = privacyConfig(getFederatedModel(modelName));
+    const current = budgetOf(kioskId, modelName, ledger.entries[key]);
+    if (!current.enabled) {
+      return current;
+    }
+    if (current.roundsRemaining === 0) {
+      throw exhaustedError(current);
+    }
+    const entry = (ledger.entries[key] ??= { kioskId, modelName, participations: 0, rdp: [] });
+    entry.rdp = addRdp(entry.rdp, gaussianRdp(config.noiseMultiplier));
+    entry.participations += 1;
+    entry.lastSpentAt = new Date().toISOString();
+    return budgetOf(kioskId, modelName, entry);
+  }, { write: true });
+}
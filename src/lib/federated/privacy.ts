@@ -0,0 +1,75 @@
+/**
+ * @fileOverview Differential privacy for federated updates.
+ *
+ * - privacyConfig - The model's clipping and noise settings, with FEDERATED_DP_* overrides.
+ * - privatizeDelta - Clips a weight delta to clipNorm and adds Gaussian noise.
+ * - epsilonSpent - Converts accumulated Rényi DP into an (epsilon, delta) guarantee.
+ *
+ * Each upload is a Gaussian mechanism with sensitivity clipNorm and noise
+ * noiseMultiplier × clipNorm, which protects everything a kiosk contributes in
+ * that round. Rényi DP composes by addition across rounds, so the accountant
+ * only has to keep one running total per order.
+ */
+
+import { gaussian, type Random } from "@/lib/federated/random";
+import type { FederatedModelDefinition, PrivacyConfig } from "@/lib/federated/models";
+
+/** Rényi orders the accountant tracks; the tightest one is used for epsilon. */
+export const RDP_ORDERS = [1.25, 1.5, 1.75, 2, 2.5, 3, 4, 5, 6, 8, 10, 12, 16, 20, 24, 32, 48, 64, 128, 256];
+
+function envNumber(name: string, fallback: number, valid: (value: number) => boolean) {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value) || !valid(value)) {
+    throw new Error(`${name} must be a valid number, got "${raw}".`);
+  }
+  return value;
+}
+
+export function privacyConfig(model: FederatedModelDefinition): PrivacyConfig {
+  return {
+    clipNorm: envNumber("FEDERATED_DP_CLIP_NORM", model.privacy.clipNorm, (value) => value > 0),
+    noiseMultiplier: envNumber("FEDERATED_DP_NOISE_MULTIPLIER", model.privacy.noiseMultiplier, (value) => value >= 0),
+    epsilonBudget: envNumber("FEDERATED_DP_EPSILON_BUDGET", model.privacy.epsilonBudget, (value) => value > 0),
+    delta: envNumber("FEDERATED_DP_DELTA", model.privacy.delta, (value) => value > 0 && value < 1),
+  };
+}
+
+export function isPrivacyEnabled(config: PrivacyConfig) {
+  return config.noiseMultiplier > 0;
+}
+
+export function l2Norm(values: number[]) {
+  return Math.sqrt(values.reduce((sum, value) => sum + value * value, 0));
+}
+
+/** The random source must be unpredictable: anyone who can replay the noise can subtract it. */
+export function privatizeDelta(delta: number[], config: PrivacyConfig, random: Random) {
+  const norm = l2Norm(delta);
+  const scale = norm > config.clipNorm ? config.clipNorm / norm : 1;
+  const sigma = config.noiseMultiplier * config.clipNorm;
+  return {
+    delta: delta.map((value) => value * scale + sigma * gaussian(random)),
+    clipped: scale < 1,
+    originalNorm: norm,
+  };
+}
+
+/** Rényi DP of one Gaussian release at each of RDP_ORDERS. */
+export function gaussianRdp(noiseMultiplier: number) {
+  return RDP_ORDERS.map((order) => order / (2 * noiseMultiplier * noiseMultiplier));
+}
+
+export function addRdp(total: number[], step: number[]) {
+  return RDP_ORDERS.map((_, i) => (total[i] ?? 0) + step[i]);
+}
+
+export function epsilonSpent(rdp: number[], delta: number) {
+  if (rdp.every((value) => value === 0)) {
+    return 0;
+  }
+  return Math.min(...RDP_ORDERS.map((order, i) => rdp[i] + Math.log(1 / delta) / (order - 1)));
+}
@@ -0,0 +1,53 @@
+/**
+ * Seeded pseudo-random numbers for federated training, so a kiosk's local
+ * run (shuffling, holdout split) is reproducible from the round and kiosk id.
+ * The seeded generator is not suitable for anything security-related; privacy
+ * noise uses `secureRandom` instead.
+ */
+
+export type Random = () => number;
+
+/** Mulberry32: a small, fast 32-bit generator returning floats in [0, 1). */
+export function seededRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Uniform floats in [0, 1) from the platform CSPRNG, for noise nobody else can reproduce. */
+export const secureRandom: Random = () => {
+  const buffer = new Uint32Array(1);
+  crypto.getRandomValues(buffer);
+  return buffer[0] / 4294967296;
+};
+
+/** FNV-1a hash of a string, for turning ids into seeds. */
+export function hashSeed(...parts: (string | number)[]) {
+  let hash = 0x811c9dc5;
+  for (const char of parts.join("|")) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function shuffled<T>(items: readonly T[], random: Random): T[] {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+}
+
+/** Standard normal sample (Box-Muller). */
+export function gaussian(random: Random) {
+  let u = 0;
+  while (u === 0) u = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
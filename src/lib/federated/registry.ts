@@ -0,0 +1,200 @@
+import { createHash } from "crypto";
+
+import { readJsonFile, updateJsonFile } from "@/lib/storage/json-file";
+import type { ModelMetrics } from "@/lib/federated/logistic-regression";
+import { getFederatedModel } from "@/lib/federated/models";
+import type { AggregationRule } from "@/lib/federated/robust-aggregation";
+
+/**
+ * @fileOverview The federated model registry.
+ *
+ * - registerModelVersion - Records the global model produced by an aggregated round.
+ * - listModelVersions / getModelVersion - Version history with round, contributors, metrics and hash.
+ * - diffModelVersions - Metric, weight and contributor changes between two versions.
+ * - promoteModelVersion / rollbackModelVersion - Choose the version kiosks use for inference.
+ * - getProductionModel - The production version, checked against its hash.
+ *
+ * The registry lives in `federated/registry.json` under KIOSK_DATA_DIR.
+ * Versions are immutable once registered; promotion and rollback only move the
+ * production pointer and are kept in an audit trail.
+ */
+
+export type ModelVersion = {
+  modelName: string;
+  version: number;
+  roundId: string;
+  roundNumber: number;
+  contributors: string[];
+  totalExamples: number;
+  /** Missing on versions registered before robust aggregation existed. */
+  aggregationRule?: AggregationRule;
+  metrics: { before: ModelMetrics | null; after: ModelMetrics | null };
+  weights: number[];
+  /** SHA-256 of the model name and weights. */
+  hash: string;
+  createdAt: string;
+};
+
+export type RegistryEvent = {
+  modelName: string;
+  action: "promote" | "rollback";
+  version: number;
+  previousVersion: number | null;
+  actor: string;
+  at: string;
+};
+
+export type ModelVersionDiff = {
+  modelName: string;
+  from: number;
+  to: number;
+  metrics: { key: keyof ModelMetrics; from: number | null; to: number | null; change: number | null }[];
+  weights: { parameter: string; from: number; to: number; change: number }[];
+  contributorsAdded: string[];
+  contributorsRemoved: string[];
+};
+
+type Registry = {
+  versions: ModelVersion[];
+  /** Versions promoted to production, oldest first; the last one is live. */
+  production: Record<string, number[]>;
+  events: RegistryEvent[];
+};
+
+const REGISTRY_FILE = "federated/registry.json";
+
+/** Reads the registry, or changes it when `write` is set; changes are made one at a time. */
+function withRegistry<T>(task: (registry: Registry) => T, { write }: { write: boolean }) {
+  const empty: Registry = { versions: [], production: {}, events: [] };
+  return write ? updateJsonFile(REGISTRY_FILE, empty, task) : readJsonFile(REGISTRY_FILE, empty).then(task);
+}
+
+export function modelHash(modelName: string, weights: number[]) {
+  return createHash("sha256").update(JSON.stringify({ modelName, weights })).digest("hex");
+}
+
+function findVersion(registry: Registry, modelName: string, version: number) {
+  const found = registry.versions.find((entry) => entry.modelName === modelName && entry.version === version);
+  if (!found) {
+    throw new Error(`${modelName} has no version ${version}.`);
+  }
+  return found;
+}
+
+function productionVersion(registry: Registry, modelName: string) {
+  const stack = registry.production[modelName] ?? [];
+  return stack.length > 0 ? stack[stack.length - 1] : null;
+}
+
+/** Registering the same round's weights again returns the version already registered, so the coordinator can retry. */
+export function registerModelVersion(entry: Omit<ModelVersion, "hash" | "createdAt">): Promise<ModelVersion> {
+  return withRegistry((registry) => {
+    const hash = modelHash(entry.modelName, entry.weights);
+    const existing = registry.versions.find((version) => version.modelName === entry.modelName && version.version === entry.version);
+    if (existing?.roundId === entry.roundId && existing.hash === hash) {
+      return existing;
+    }
+    if (existing) {
+      throw new Error(`${entry.modelName} version ${entry.version} is already registered.`);
+    }
+    const version: ModelVersion = {
+      ...entry,
+      hash,
+      createdAt: new Date().toISOString(),
+    };
+    registry.versions.push(version);
+    return version;
+  }, { write: true });
+}
+
+/** Newest first, with which version is in production. */
+export function listModelVersions(modelName: string) {
+  return withRegistry((registry) => ({
+    versions: registry.versions.filter((entry) => entry.modelName === modelName).sort((a, b) => b.version - a.version),
+    productionVersion: productionVersion(registry, modelName),
+    canRollback: (registry.production[modelName] ?? []).length > 1,
+    events: registry.events.filter((event) => event.modelName === modelName).reverse(),
+  }), { write: false });
+}
+
+export function getModelVersion(modelName: string, version: number): Promise<ModelVersion> {
+  return withRegistry((registry) => findVersion(registry, modelName, version), { write: false });
+}
+
+export function diffModelVersions(modelName: string, from: number, to: number): Promise<ModelVersionDiff> {
+  return withRegistry((registry) => {
+    const older = findVersion(registry, modelName, from);
+    const newer = findVersion(registry, modelName, to);
+    const model = getFederatedModel(modelName);
+    const keys: (keyof ModelMetrics)[] = ["accuracy", "auc", "precision", "recall", "loss"];
+    const parameters = ["Bias", ...model.features.map((feature) => feature.label)];
+    return {
+      modelName,
+      from,
+      to,
+      metrics: keys.map((key) => {
+        const before = older.metrics.after?.[key] ?? null;
+        const after = newer.metrics.after?.[key] ?? null;
+        return { key, from: before, to: after, change: before !== null && after !== null ? after - before : null };
+      }),
+      weights: parameters.map((parameter, i) => ({
+        parameter,
+        from: older.weights[i],
+        to: newer.weights[i],
+        change: newer.weights[i] - older.weights[i],
+      })),
+      contributorsAdded: newer.contributors.filter((kiosk) => !older.contributors.includes(kiosk)),
+      contributorsRemoved: older.contributors.filter((kiosk) => !newer.contributors.includes(kiosk)),
+    };
+  }, { write: false });
+}
+
+export function promoteModelVersion(modelName: string, version: number, actor: string): Promise<RegistryEvent> {
+  return withRegistry((registry) => {
+    findVersion(registry, modelName, version);
+    const previousVersion = productionVersion(registry, modelName);
+    if (previousVersion === version) {
+      throw new Error(`${modelName} version ${version} is already in production.`);
+    }
+    const event: RegistryEvent = { modelName, action: "promote", version, previousVersion, actor, at: new Date().toISOString() };
+    (registry.production[modelName] ??= []).push(version);
+    registry.events.push(event);
+    return event;
+  }, { write: true });
+}
+
+/** Puts the previously promoted version back into production. */
+export function rollbackModelVersion(modelName: string, actor: string): Promise<RegistryEvent> {
+  return withRegistry((registry) => {
+    const stack = registry.production[modelName] ?? [];
+    if (stack.length < 2) {
+      throw new Error(`${modelName} has no earlier production version to roll back to.`);
+    }
+    const previousVersion = stack.pop()!;
+    const event: RegistryEvent = {
+      modelName,
+      action: "rollback",
+      version: stack[stack.length - 1],
+      previousVersion,
+      actor,
+      at: new Date().toISOString(),
+    };
+    registry.events.push(event);
+    return event;
+  }, { write: true });
+}
+
+/** The version kiosks should serve, or null if none has been promoted. Throws if the stored weights were altered. */
+export function getProductionModel(modelName: string): Promise<ModelVersion | null> {
+  return withRegistry((registry) => {
+    const version = productionVersion(registry, modelName);
+    if (version === null) {
+      return null;
+    }
+    const entry = findVersion(registry, modelName, version);
+    if (modelHash(entry.modelName, entry.weights) !== entry.hash) {
+      throw new Error(`${modelName} version ${version} does not match its registered hash.`);
+    }
+    return entry;
+  }, { write: false });
+}
@@ -0,0 +1,99 @@
+/**
+ * @fileOverview Keeps records without active research consent out of federated training.
+ *
+ * - findPatientIdColumn - The column that links a training record to a kiosk patient.
+ * - filterByResearchConsent - Drops records whose patient has no active consent covering the model.
+ * - describeConsentExclusions - One sentence on what was left out and why.
+ *
+ * Each record must name the kiosk patient it came from (a "patientId" column,
+ * which de-identification drops before training). A patient counts only while
+ * they hold an unexpired, unwithdrawn consent for federated learning whose
+ * scope covers every kind of record the model uses, so a withdrawal takes
+ * effect from the next batch a kiosk submits.
+ */
+
+import { getRecordRepository } from "@/lib/records";
+import { consentStatus, coversUse } from "@/lib/records/consent";
+import type { FederatedModelDefinition, TrainingRecord } from "@/lib/federated/models";
+import type { ResearchConsent } from "@/lib/records/types";
+
+export type ConsentFilterReport = {
+  checked: number;
+  included: number;
+  withoutPatientId: number;
+  withoutConsent: number;
+  withdrawn: number;
+  expired: number;
+};
+
+type Exclusion = "withoutConsent" | "withdrawn" | "expired";
+
+const PATIENT_ID_COLUMN = /^(kiosk)?patientid$/;
+
+export function findPatientIdColumn(records: TrainingRecord[]) {
+  const columns = new Set(records.flatMap((record) => Object.keys(record)));
+  return [...columns].find((column) => PATIENT_ID_COLUMN.test(column.toLowerCase().replace(/[^a-z0-9]/g, ""))) ?? null;
+}
+
+/** Why a patient's records are left out, or null when a consent covers the model. */
+function exclusion(model: FederatedModelDefinition, consents: ResearchConsent[], now: Date): Exclusion | null {
+  if (consents.some((consent) => coversUse(consent, "federated-learning", model.consentScope, now))) {
+    return null;
+  }
+  const relevant = consents.filter((consent) => consent.purpose === "federated-learning");
+  // Consents are newest first, so the latest decision explains the exclusion.
+  const latest = relevant[0];
+  if (!latest) return "withoutConsent";
+  const status = consentStatus(latest, now);
+  return status === "active" ? "withoutConsent" : status;
+}
+
+export async function filterByResearchConsent(model: FederatedModelDefinition, records: TrainingRecord[]) {
+  const column = findPatientIdColumn(records);
+  const report: ConsentFilterReport = {
+    checked: records.length,
+    included: 0,
+    withoutPatientId: 0,
+    withoutConsent: 0,
+    withdrawn: 0,
+    expired: 0,
+  };
+  const patientIds = [
+    ...new Set(records.map((record) => (column ? String(record[column] ?? "").trim() : "")).filter(Boolean)),
+  ];
+  const repository = getRecordRepository();
+  const now = new Date();
+  const decisions = new Map(
+    await Promise.all(
+      patientIds.map(
+        async (patientId) => [patientId, exclusion(model, await repository.listResearchConsents(patientId), now)] as const
+      )
+    )
+  );
+
+  const included = records.filter((record) => {
+    const patientId = column ? String(record[column] ?? "").trim() : "";
+    if (!patientId) {
+      report.withoutPatientId += 1;
+      return false;
+    }
+    const reason = decisions.get(patientId);
+    if (reason) {
+      report[reason] += 1;
+      return false;
+    }
+    return true;
+  });
+  report.included = included.length;
+  return { records: included, report };
+}
+
+export function describeConsentExclusions(report: ConsentFilterReport) {
+  const parts = [
+    report.withoutPatientId && `${report.withoutPatientId} without a patient ID`,
+    report.withoutConsent && `${report.withoutConsent} without research consent`,
+    report.withdrawn && `${report.withdrawn} whose consent was withdrawn`,
+    report.expired && `${report.expired} whose consent has expired`,
+  ].filter(Boolean);
+  return parts.length ? `Left out ${parts.join(", ")}.` : "Every record has active research consent.";
+}
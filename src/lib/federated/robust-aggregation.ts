@@ -0,0 +1,100 @@
+/**
+ * @fileOverview Aggregation rules for combining kiosk updates.
+ *
+ * - combineDeltas - Reduces a round's weight deltas to one with the chosen rule.
+ * - coordinateMedian - The coordinate-wise median, also used as the consensus for anomaly scoring.
+ *
+ * FedAvg weights kiosks by their number of records, so one kiosk with bad data
+ * and a large count can drag the model anywhere. The robust rules treat every
+ * kiosk equally and bound what a minority of bad updates can do.
+ */
+
+export const AGGREGATION_RULES = ["fedavg", "median", "trimmed-mean", "krum"] as const;
+export type AggregationRule = (typeof AGGREGATION_RULES)[number];
+
+export const AGGREGATION_RULE_LABELS: Record<AggregationRule, string> = {
+  fedavg: "FedAvg (weighted mean)",
+  median: "Coordinate-wise median",
+  "trimmed-mean": "Trimmed mean",
+  krum: "Krum",
+};
+
+export function isAggregationRule(value: unknown): value is AggregationRule {
+  return typeof value === "string" && (AGGREGATION_RULES as readonly string[]).includes(value);
+}
+
+export type WeightedDelta = { delta: number[]; numExamples: number };
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+export function coordinateMedian(deltas: number[][]) {
+  return deltas[0].map((_, i) => median(deltas.map((delta) => delta[i])));
+}
+
+function weightedMean(updates: WeightedDelta[]) {
+  const total = updates.reduce((sum, update) => sum + update.numExamples, 0);
+  return updates[0].delta.map(
+    (_, i) => updates.reduce((sum, update) => sum + update.delta[i] * update.numExamples, 0) / total
+  );
+}
+
+/** Drops the `trimFraction` largest and smallest values of each coordinate, then averages the rest. */
+function trimmedMean(deltas: number[][], trimFraction: number) {
+  const trim = Math.min(Math.floor(deltas.length * trimFraction), Math.floor((deltas.length - 1) / 2));
+  return deltas[0].map((_, i) => {
+    const kept = deltas
+      .map((delta) => delta[i])
+      .sort((a, b) => a - b)
+      .slice(trim, deltas.length - trim);
+    return kept.reduce((sum, value) => sum + value, 0) / kept.length;
+  });
+}
+
+function squaredDistance(a: number[], b: number[]) {
+  return a.reduce((sum, value, i) => sum + (value - b[i]) ** 2, 0);
+}
+
+/**
+ * Krum (Blanchard et al., 2017): picks the update closest to its n - f - 2
+ * nearest neighbours, assuming at most f bad kiosks. With few kiosks the
+ * neighbourhood shrinks to one.
+ */
+function krum(deltas: number[][]) {
+  const byzantine = Math.max(0, Math.floor((deltas.length - 3) / 2));
+  const neighbours = Math.max(1, deltas.length - byzantine - 2);
+  let best = 0;
+  let bestScore = Infinity;
+  deltas.forEach((delta, i) => {
+    const distances = deltas
+      .filter((_, j) => j !== i)
+      .map((other) => squaredDistance(delta, other))
+      .sort((a, b) => a - b);
+    const score = distances.slice(0, neighbours).reduce((sum, distance) => sum + distance, 0);
+    if (score < bestScore) {
+      best = i;
+      bestScore = score;
+    }
+  });
+  return [...deltas[best]];
+}
+
+export function combineDeltas(rule: AggregationRule, updates: WeightedDelta[], options: { trimFraction: number }) {
+  if (updates.length === 0) {
+    throw new Error("There are no updates to combine.");
+  }
+  const deltas = updates.map((update) => update.delta);
+  switch (rule) {
+    case "fedavg":
+      return weightedMean(updates);
+    case "median":
+      return coordinateMedian(deltas);
+    case "trimmed-mean":
+      return trimmedMean(deltas, options.trimFraction);
+    case "krum":
+      return krum(deltas);
+  }
+}
@@ -0,0 +1,156 @@
+import {
+  addsPairwiseMask,
+  pairwiseSeed,
+  shareCoordinates,
+  type AdvertisedKeys,
+  type EncryptedShares,
+  type MaskedInput,
+  type UnmaskingRequest,
+  type UnmaskingResponse,
+} from "@/lib/federated/secure-aggregation/client";
+import { addVectors, decodeFixedPoint, expandMask, subtractVectors } from "@/lib/federated/secure-aggregation/masking";
+import { combineShares, decodeShare } from "@/lib/federated/secure-aggregation/shamir";
+
+/**
+ * @fileOverview The aggregator side of pairwise-masking secure aggregation.
+ *
+ * - createSecureAggregator - Relays keys and encrypted shares, collects masked
+ *   inputs and, once enough kiosks help unmask, returns the sum of the inputs.
+ * - defaultThreshold - How many kiosks must stay in a round for its sum to be recovered.
+ *
+ * The aggregator only ever holds masked vectors and encrypted shares. The
+ * secrets it reconstructs are exactly those needed to cancel the masks in the
+ * sum: self-mask seeds of kiosks that uploaded and masking keys of kiosks that
+ * did not.
+ */
+
+export type SecureAggregationResult = {
+  sum: number[];
+  survivors: string[];
+  dropped: string[];
+};
+
+/** A strict majority, so two disjoint groups can never both reach the threshold. */
+export function defaultThreshold(kiosks: number) {
+  return Math.floor(kiosks / 2) + 1;
+}
+
+export function createSecureAggregator(options: { threshold: number; vectorLength: number }) {
+  const advertised = new Map<string, AdvertisedKeys>();
+  let roster: AdvertisedKeys[] | null = null;
+  const shares = new Map<string, EncryptedShares[]>();
+  let shareholders: string[] | null = null;
+  const maskedInputs = new Map<string, number[]>();
+  let request: UnmaskingRequest | null = null;
+  const responses = new Map<string, UnmaskingResponse>();
+
+  function requireAtLeastThreshold(count: number, stage: string) {
+    if (count < options.threshold) {
+      throw new Error(`Secure aggregation aborted at ${stage}: ${count} kiosks is below the threshold of ${options.threshold}.`);
+    }
+  }
+
+  function closeKeySharing(): string[] {
+    if (!shareholders) {
+      shareholders = [...shares.keys()].sort();
+      requireAtLeastThreshold(shareholders.length, "key sharing");
+    }
+    return shareholders;
+  }
+
+  return {
+    receiveKeys(keys: AdvertisedKeys) {
+      if (roster) throw new Error("Key advertisement has closed for this round.");
+      advertised.set(keys.clientId, keys);
+    },
+
+    /** Closes round 0 and returns the roster every kiosk shares keys against. */
+    roster(): AdvertisedKeys[] {
+      if (!roster) {
+        roster = [...advertised.values()].sort((a, b) => a.clientId.localeCompare(b.clientId));
+        requireAtLeastThreshold(roster.length, "key advertisement");
+      }
+      return roster;
+    },
+
+    receiveShares(from: string, messages: EncryptedShares[]) {
+      if (!roster || shareholders) throw new Error("Key sharing is not open.");
+      if (!roster.some((keys) => keys.clientId === from)) throw new Error(`Kiosk ${from} did not advertise keys.`);
+      if (messages.some((message) => message.from !== from)) throw new Error(`Kiosk ${from} sent shares on behalf of another kiosk.`);
+      shares.set(from, messages);
+    },
+
+    /** Closes round 1 and returns the kiosks that shared keys. */
+    shareholders: closeKeySharing,
+
+    /** The shares addressed to one kiosk; closes round 1 if it is still open. */
+    inboxFor(clientId: string): EncryptedShares[] {
+      return closeKeySharing().flatMap((from) => shares.get(from)!.filter((message) => message.to === clientId));
+    },
+
+    receiveMaskedInput(input: MaskedInput) {
+      if (!shareholders || request) throw new Error("Masked uploads are not open.");
+      if (!shareholders.includes(input.clientId)) throw new Error(`Kiosk ${input.clientId} did not share keys this round.`);
+      if (input.masked.length !== options.vectorLength) throw new Error(`Masked input from ${input.clientId} has the wrong length.`);
+      maskedInputs.set(input.clientId, input.masked);
+    },
+
+    /** Closes round 2: who uploaded, and who dropped out after sharing keys. */
+    unmaskingRequest(): UnmaskingRequest {
+      if (!shareholders) throw new Error("Key sharing has not finished.");
+      if (!request) {
+        const survivors = shareholders.filter((id) => maskedInputs.has(id));
+        requireAtLeastThreshold(survivors.length, "masked upload");
+        request = { survivors, dropped: shareholders.filter((id) => !maskedInputs.has(id)) };
+      }
+      return request;
+    },
+
+    receiveUnmasking(response: UnmaskingResponse) {
+      if (!request) throw new Error("Unmasking has not started.");
+      if (!request.survivors.includes(response.clientId)) throw new Error(`Kiosk ${response.clientId} is not a survivor.`);
+      responses.set(response.clientId, response);
+    },
+
+    /** Cancels every mask and returns the decoded sum of the survivors' inputs. */
+    aggregate(): SecureAggregationResult {
+      if (!request || !roster) throw new Error("Unmasking has not started.");
+      requireAtLeastThreshold(responses.size, "unmasking");
+      const coordinates = shareCoordinates(roster);
+      const keysOf = new Map(roster.map((keys) => [keys.clientId, keys]));
+      const collect = (id: string, field: "selfMaskShares" | "maskingKeyShares") =>
+        [...responses.values()].slice(0, options.threshold).map((response) => {
+          const share = decodeShare(response[field][id] ?? "");
+          if (share.x !== coordinates.get(response.clientId)) {
+            throw new Error(`Kiosk ${response.clientId} returned a share with the wrong coordinate.`);
+          }
+          return share;
+        });
+
+      let total = new Array<number>(options.vectorLength).fill(0);
+      for (const id of request.survivors) {
+        total = addVectors(total, maskedInputs.get(id)!);
+        const selfMaskSeed = combineShares(collect(id, "selfMaskShares"));
+        total = subtractVectors(total, expandMask(selfMaskSeed, options.vectorLength));
+      }
+      for (const droppedId of request.dropped) {
+        const dropped = keysOf.get(droppedId)!;
+        const maskingKey = { publicKey: dropped.maskingKey, privateKey: combineShares(collect(droppedId, "maskingKeyShares")) };
+        for (const survivorId of request.survivors) {
+          const mask = expandMask(pairwiseSeed(maskingKey, keysOf.get(survivorId)!.maskingKey), options.vectorLength);
+          // Undo what the survivor applied for the pair: it added the mask if its id sorts first.
+          total = addsPairwiseMask(survivorId, droppedId) ? subtractVectors(total, mask) : addVectors(total, mask);
+        }
+      }
+      return { sum: decodeFixedPoint(total), survivors: request.survivors, dropped: request.dropped };
+    },
+
+    /** What the aggregator holds for one kiosk: its masked upload, decoded as if it were plain. */
+    viewOf(clientId: string) {
+      const masked = maskedInputs.get(clientId);
+      return masked ? decodeFixedPoint(masked) : null;
+    },
+  };
+}
+
+export type SecureAggregator = ReturnType<typeof createSecureAggregator>;
@@ -0,0 +1,199 @@
+import { randomBytes } from "crypto";
+
+import { agreeKey, generateKeyPair, open, seal, type KeyPair, type Sealed } from "@/lib/federated/secure-aggregation/keys";
+import { addVectors, encodeFixedPoint, expandMask, subtractVectors } from "@/lib/federated/secure-aggregation/masking";
+import { decodeShare, encodeShare, splitSecret, type Share } from "@/lib/federated/secure-aggregation/shamir";
+
+/**
+ * @fileOverview The kiosk side of pairwise-masking secure aggregation
+ * (after Bonawitz et al., "Practical Secure Aggregation for Privacy-Preserving
+ * Machine Learning", 2017).
+ *
+ * - advertiseKeys - Round 0: publish an encryption key and a masking key.
+ * - shareKeys - Round 1: secret-share the masking key and a self-mask seed with every other kiosk.
+ * - maskInput - Round 2: upload the update plus the self mask plus one pairwise mask per kiosk.
+ * - unmask - Round 3: help remove the masks, revealing only what the sum needs.
+ *
+ * Pairwise masks cancel in the sum. For a kiosk that dropped out before
+ * uploading, the survivors reveal shares of its masking key so the aggregator
+ * can strip the masks it left behind; for a kiosk that did upload they reveal
+ * shares of its self-mask seed instead. An honest kiosk never reveals both
+ * for the same kiosk, so no single upload can ever be unmasked. This is the
+ * honest-but-curious variant: it does not add the signed consistency round
+ * that protects against an aggregator lying about who dropped out.
+ */
+
+export type AdvertisedKeys = { clientId: string; encryptionKey: string; maskingKey: string };
+
+/** One kiosk's key shares for another, encrypted so only the recipient can read them. */
+export type EncryptedShares = { from: string; to: string; sealed: Sealed };
+
+export type MaskedInput = { clientId: string; masked: number[] };
+
+export type UnmaskingRequest = { survivors: string[]; dropped: string[] };
+
+export type UnmaskingResponse = {
+  clientId: string;
+  /** Shares of the self-mask seed of kiosks that uploaded. */
+  selfMaskShares: Record<string, string>;
+  /** Shares of the masking private key of kiosks that dropped out. */
+  maskingKeyShares: Record<string, string>;
+};
+
+type SharePayload = { from: string; to: string; maskingKeyShare: string; selfMaskShare: string };
+
+function shareContext(from: string, to: string) {
+  return `secagg-shares|${from}|${to}`;
+}
+
+/** Share coordinates follow the roster order, so every party agrees on them. */
+export function shareCoordinates(roster: AdvertisedKeys[]) {
+  return new Map(roster.map((keys, i) => [keys.clientId, i + 1]));
+}
+
+/** The pairwise mask seed two kiosks agree on. */
+export function pairwiseSeed(own: KeyPair, theirMaskingKey: string) {
+  return agreeKey(own, theirMaskingKey, "secagg-pairwise-mask");
+}
+
+/** The kiosk whose id sorts first adds the pairwise mask; the other subtracts it. */
+export function addsPairwiseMask(clientId: string, otherId: string) {
+  return clientId < otherId;
+}
+
+/** A kiosk's secrets for one round: kept by the kiosk, never sent. */
+export type ClientSecrets = { encryptionKeys: KeyPair; maskingKeys: KeyPair; selfMaskSeed: Buffer };
+
+export function generateClientSecrets(): ClientSecrets {
+  return { encryptionKeys: generateKeyPair(), maskingKeys: generateKeyPair(), selfMaskSeed: randomBytes(32) };
+}
+
+/** Pass `secrets` to rebuild a kiosk's client for a round it has already advertised keys in. */
+export function createSecureAggregationClient(
+  clientId: string,
+  options: { threshold: number },
+  { encryptionKeys, maskingKeys, selfMaskSeed }: ClientSecrets = generateClientSecrets()
+) {
+
+  let roster: AdvertisedKeys[] = [];
+  const received = new Map<string, { maskingKeyShare: Share; selfMaskShare: Share }>();
+  let uploadedWith: Set<string> | null = null;
+  let answeredUnmasking = false;
+
+  function keysOf(id: string) {
+    const keys = roster.find((entry) => entry.clientId === id);
+    if (!keys) {
+      throw new Error(`Kiosk ${id} is not in this round's roster.`);
+    }
+    return keys;
+  }
+
+  return {
+    clientId,
+
+    advertiseKeys(): AdvertisedKeys {
+      return { clientId, encryptionKey: encryptionKeys.publicKey, maskingKey: maskingKeys.publicKey };
+    },
+
+    shareKeys(advertised: AdvertisedKeys[]): EncryptedShares[] {
+      if (!advertised.some((keys) => keys.clientId === clientId)) {
+        throw new Error(`Kiosk ${clientId} is missing from the roster it was sent.`);
+      }
+      if (advertised.length < options.threshold) {
+        throw new Error(`At least ${options.threshold} kiosks are needed; only ${advertised.length} advertised keys.`);
+      }
+      if (new Set(advertised.map((keys) => keys.encryptionKey)).size !== advertised.length) {
+        throw new Error("Two kiosks advertised the same key; refusing to continue.");
+      }
+      roster = advertised;
+      const coordinates = shareCoordinates(roster);
+      const xs = roster.map((keys) => coordinates.get(keys.clientId)!);
+      const maskingKeyShares = splitSecret(maskingKeys.privateKey, options.threshold, xs);
+      const selfMaskShares = splitSecret(selfMaskSeed, options.threshold, xs);
+
+      return roster.map((keys, i) => {
+        const payload: SharePayload = {
+          from: clientId,
+          to: keys.clientId,
+          maskingKeyShare: encodeShare(maskingKeyShares[i]),
+          selfMaskShare: encodeShare(selfMaskShares[i]),
+        };
+        const key = agreeKey(encryptionKeys, keys.encryptionKey, "secagg-share-encryption");
+        return { from: clientId, to: keys.clientId, sealed: seal(key, JSON.stringify(payload), shareContext(clientId, keys.clientId)) };
+      });
+    },
+
+    /**
+     * `inbox` holds the shares every kiosk that completed round 1 sent us;
+     * their senders are the kiosks we mask against.
+     */
+    maskInput(input: number[], inbox: EncryptedShares[]): MaskedInput {
+      for (const message of inbox) {
+        if (message.to !== clientId) {
+          throw new Error(`Received shares addressed to ${message.to}.`);
+        }
+        const key = agreeKey(encryptionKeys, keysOf(message.from).encryptionKey, "secagg-share-encryption");
+        const payload = JSON.parse(open(key, message.sealed, shareContext(message.from, clientId))) as SharePayload;
+        if (payload.from !== message.from || payload.to !== clientId) {
+          throw new Error(`Shares from ${message.from} do not match their envelope.`);
+        }
+        received.set(message.from, {
+          maskingKeyShare: decodeShare(payload.maskingKeyShare),
+          selfMaskShare: decodeShare(payload.selfMaskShare),
+        });
+      }
+      if (!received.has(clientId)) {
+        throw new Error("Our own shares are missing from the inbox.");
+      }
+      if (received.size < options.threshold) {
+        throw new Error(`Only ${received.size} kiosks shared keys; at least ${options.threshold} are needed.`);
+      }
+
+      let masked = addVectors(encodeFixedPoint(input), expandMask(selfMaskSeed, input.length));
+      for (const otherId of received.keys()) {
+        if (otherId === clientId) continue;
+        const mask = expandMask(pairwiseSeed(maskingKeys, keysOf(otherId).maskingKey), input.length);
+        masked = addsPairwiseMask(clientId, otherId) ? addVectors(masked, mask) : subtractVectors(masked, mask);
+      }
+      uploadedWith = new Set(received.keys());
+      return { clientId, masked };
+    },
+
+    unmask(request: UnmaskingRequest): UnmaskingResponse {
+      if (!uploadedWith) {
+        throw new Error(`Kiosk ${clientId} did not upload a masked input this round.`);
+      }
+      if (answeredUnmasking) {
+        throw new Error(`Kiosk ${clientId} has already answered an unmasking request this round.`);
+      }
+      const survivors = new Set(request.survivors);
+      if (request.dropped.some((id) => survivors.has(id))) {
+        throw new Error("Refusing to unmask: a kiosk is listed as both surviving and dropped.");
+      }
+      if (!survivors.has(clientId)) {
+        throw new Error("Refusing to unmask: this kiosk's own upload is not in the survivor set.");
+      }
+      if (survivors.size < options.threshold) {
+        throw new Error(`Refusing to unmask: ${survivors.size} survivors is below the threshold of ${options.threshold}.`);
+      }
+      for (const id of [...request.survivors, ...request.dropped]) {
+        if (!uploadedWith.has(id)) {
+          throw new Error(`Refusing to unmask: kiosk ${id} did not share keys with us this round.`);
+        }
+      }
+      answeredUnmasking = true;
+
+      const selfMaskShares: Record<string, string> = {};
+      for (const id of request.survivors) {
+        selfMaskShares[id] = encodeShare(received.get(id)!.selfMaskShare);
+      }
+      const maskingKeyShares: Record<string, string> = {};
+      for (const id of request.dropped) {
+        maskingKeyShares[id] = encodeShare(received.get(id)!.maskingKeyShare);
+      }
+      return { clientId, selfMaskShares, maskingKeyShares };
+    },
+  };
+}
+
+export type SecureAggregationClient = ReturnType<typeof createSecureAggregationClient>;
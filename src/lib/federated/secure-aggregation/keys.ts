@@ -0,0 +1,67 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  diffieHellman,
+  generateKeyPairSync,
+  randomBytes,
+  type KeyObject,
+} from "crypto";
+
+/**
+ * X25519 key agreement for secure aggregation. Keys travel as the raw 32-byte
+ * values (base64url, as in JWK), which is also what gets secret-shared when a
+ * kiosk's masking key has to be recovered after it drops out.
+ */
+
+export type KeyPair = { publicKey: string; privateKey: Buffer };
+
+export function generateKeyPair(): KeyPair {
+  const { privateKey } = generateKeyPairSync("x25519");
+  const jwk = privateKey.export({ format: "jwk" });
+  return { publicKey: jwk.x!, privateKey: Buffer.from(jwk.d!, "base64url") };
+}
+
+function publicKeyObject(publicKey: string): KeyObject {
+  return createPublicKey({ key: { kty: "OKP", crv: "X25519", x: publicKey }, format: "jwk" });
+}
+
+function privateKeyObject(privateKey: Buffer, publicKey: string): KeyObject {
+  return createPrivateKey({
+    key: { kty: "OKP", crv: "X25519", x: publicKey, d: privateKey.toString("base64url") },
+    format: "jwk",
+  });
+}
+
+/** The shared secret between our key pair and their public key, hashed with a purpose label. */
+export function agreeKey(own: KeyPair, theirPublicKey: string, purpose: string) {
+  const secret = diffieHellman({
+    privateKey: privateKeyObject(own.privateKey, own.publicKey),
+    publicKey: publicKeyObject(theirPublicKey),
+  });
+  return createHash("sha256").update(purpose).update(secret).digest();
+}
+
+export type Sealed = { iv: string; ciphertext: string; tag: string };
+
+export function seal(key: Buffer, plaintext: string, associatedData: string): Sealed {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  cipher.setAAD(Buffer.from(associatedData));
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return {
+    iv: iv.toString("base64url"),
+    ciphertext: ciphertext.toString("base64url"),
+    tag: cipher.getAuthTag().toString("base64url"),
+  };
+}
+
+/** Throws if the ciphertext or associated data were tampered with. */
+export function open(key: Buffer, sealed: Sealed, associatedData: string) {
+  const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(sealed.iv, "base64url"));
+  decipher.setAAD(Buffer.from(associatedData));
+  decipher.setAuthTag(Buffer.from(sealed.tag, "base64url"));
+  return Buffer.concat([decipher.update(Buffer.from(sealed.ciphertext, "base64url")), decipher.final()]).toString("utf8");
+}
@@ -0,0 +1,50 @@
+import { createCipheriv, createHash } from "crypto";
+
+/**
+ * Fixed-point arithmetic modulo 2^48 and the pseudo-random masks used by
+ * secure aggregation. Masks are uniform in the ring, so a masked value says
+ * nothing about the value underneath; they cancel exactly when summed.
+ *
+ * Values are scaled by 2^20 before rounding. Sums must stay within ±2^27 to
+ * decode correctly, which is far more than any weighted model update needs.
+ */
+
+const MODULUS = 2 ** 48;
+const HALF_MODULUS = 2 ** 47;
+const SCALE = 2 ** 20;
+const BYTES_PER_ELEMENT = 6;
+
+/** The worst-case rounding error per element when summing `count` encoded vectors. */
+export function fixedPointError(count: number) {
+  return count / (2 * SCALE);
+}
+
+export function encodeFixedPoint(values: number[]) {
+  return values.map((value) => {
+    const quantised = Math.round(value * SCALE);
+    if (!Number.isFinite(quantised) || Math.abs(quantised) >= HALF_MODULUS) {
+      throw new Error(`Value ${value} is outside the range secure aggregation can encode.`);
+    }
+    return quantised < 0 ? quantised + MODULUS : quantised;
+  });
+}
+
+export function decodeFixedPoint(values: number[]) {
+  return values.map((value) => (value >= HALF_MODULUS ? value - MODULUS : value) / SCALE);
+}
+
+export function addVectors(a: number[], b: number[]) {
+  return a.map((value, i) => (value + b[i]) % MODULUS);
+}
+
+export function subtractVectors(a: number[], b: number[]) {
+  return a.map((value, i) => (value - b[i] + MODULUS) % MODULUS);
+}
+
+/** A mask of `length` ring elements expanded from a seed with AES-256-CTR. */
+export function expandMask(seed: Buffer, length: number) {
+  const key = createHash("sha256").update("secagg-mask").update(seed).digest();
+  const cipher = createCipheriv("aes-256-ctr", key, Buffer.alloc(16));
+  const stream = cipher.update(Buffer.alloc(length * BYTES_PER_ELEMENT));
+  return Array.from({ length }, (_, i) => stream.readUIntBE(i * BYTES_PER_ELEMENT, BYTES_PER_ELEMENT));
+}
@@ -0,0 +1,95 @@
+import { randomBytes } from "crypto";
+
+/**
+ * Shamir secret sharing over the prime field GF(2^521 - 1), used to split a
+ * kiosk's 32-byte secrets so any `threshold` of the other kiosks can rebuild
+ * them and fewer learn nothing.
+ */
+
+// BigInt literals need ES2020; the project targets ES2017.
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const PRIME = (ONE << BigInt(521)) - ONE;
+const SECRET_BYTES = 32;
+
+export type Share = { x: number; y: bigint };
+
+function mod(value: bigint) {
+  const result = value % PRIME;
+  return result < ZERO ? result + PRIME : result;
+}
+
+function randomFieldElement() {
+  return mod(BigInt(`0x${randomBytes(66).toString("hex")}`));
+}
+
+function inverse(value: bigint) {
+  // Extended Euclid; PRIME is prime so every non-zero value is invertible.
+  let [oldR, r] = [mod(value), PRIME];
+  let [oldS, s] = [ONE, ZERO];
+  while (r !== ZERO) {
+    const quotient = oldR / r;
+    [oldR, r] = [r, oldR - quotient * r];
+    [oldS, s] = [s, oldS - quotient * s];
+  }
+  return mod(oldS);
+}
+
+/** Splits a 32-byte secret into one share per x coordinate (x must be distinct and non-zero). */
+export function splitSecret(secret: Buffer, threshold: number, xs: number[]): Share[] {
+  if (secret.length !== SECRET_BYTES) {
+    throw new Error(`Secrets must be ${SECRET_BYTES} bytes.`);
+  }
+  if (threshold < 1 || threshold > xs.length) {
+    throw new Error(`Threshold ${threshold} must be between 1 and the number of shares (${xs.length}).`);
+  }
+  if (new Set(xs).size !== xs.length || xs.some((x) => x <= 0)) {
+    throw new Error("Share coordinates must be distinct positive integers.");
+  }
+  const coefficients = [BigInt(`0x${secret.toString("hex")}`)];
+  for (let i = 1; i < threshold; i++) {
+    coefficients.push(randomFieldElement());
+  }
+  return xs.map((x) => {
+    let y = ZERO;
+    for (let i = coefficients.length - 1; i >= 0; i--) {
+      y = mod(y * BigInt(x) + coefficients[i]);
+    }
+    return { x, y };
+  });
+}
+
+/** Lagrange interpolation at zero. The caller must supply at least `threshold` shares. */
+export function combineShares(shares: Share[]): Buffer {
+  if (shares.length === 0) {
+    throw new Error("No shares to combine.");
+  }
+  let secret = ZERO;
+  for (const [i, share] of shares.entries()) {
+    let numerator = ONE;
+    let denominator = ONE;
+    for (const [j, other] of shares.entries()) {
+      if (i === j) continue;
+      numerator = mod(numerator * BigInt(-other.x));
+      denominator = mod(denominator * BigInt(share.x - other.x));
+    }
+    secret = mod(secret + share.y * numerator * inverse(denominator));
+  }
+  const hex = secret.toString(16).padStart(SECRET_BYTES * 2, "0");
+  if (hex.length > SECRET_BYTES * 2) {
+    throw new Error("The shares do not reconstruct a valid secret.");
+  }
+  return Buffer.from(hex, "hex");
+}
+
+export function encodeShare(share: Share) {
+  return `${share.x}:${share.y.toString(16)}`;
+}
+
+export function decodeShare(encoded: string): Share {
+  const [x, y] = encoded.split(":");
+  if (!x || !y || !/^\d+$/.test(x) || !/^[0-9a-f]+$/.test(y)) {
+    throw new Error("Malformed secret share.");
+  }
+  return { x: Number(x), y: BigInt(`0x${y}`) };
+}
@@ -0,0 +1,205 @@
+import { z } from "zod";
+
+import { createSecureAggregator, defaultThreshold } from "@/lib/federated/secure-aggregation/aggregator";
+import {
+  createSecureAggregationClient,
+  type EncryptedShares,
+  type SecureAggregationClient,
+  type UnmaskingResponse,
+} from "@/lib/federated/secure-aggregation/client";
+import { decodeFixedPoint, expandMask, fixedPointError, subtractVectors } from "@/lib/federated/secure-aggregation/masking";
+import { combineShares, decodeShare } from "@/lib/federated/secure-aggregation/shamir";
+import { gaussian, hashSeed, seededRandom, shuffled } from "@/lib/federated/random";
+
+/**
+ * @fileOverview An in-process run of secure aggregation between simulated kiosks.
+ *
+ * - simulateSecureAggregation - Runs every protocol round with dropouts and
+ *   reports whether the sum was recovered and what the aggregator could see.
+ *
+ * Each kiosk's input is a FedAvg contribution: its example count followed by
+ * its update scaled by that count, so the sum yields the weighted average.
+ * Besides checking the sum, the run tries what a curious aggregator would try
+ * and records that each attempt fails.
+ *
+ * Training rounds run the same protocol when a model has secure aggregation
+ * turned on (see coordinator.ts and secure-round.ts).
+ */
+
+export const SimulationOptionsSchema = z
+  .object({
+    kiosks: z.number().int().min(3).max(20),
+    parameters: z.number().int().min(1).max(64),
+    threshold: z.number().int().min(2).optional(),
+    dropBeforeUpload: z.number().int().min(0),
+    dropBeforeUnmasking: z.number().int().min(0),
+    seed: z.number().int().optional(),
+  })
+  .superRefine((options, ctx) => {
+    const threshold = options.threshold ?? defaultThreshold(options.kiosks);
+    if (threshold > options.kiosks) {
+      ctx.addIssue({ code: "custom", path: ["threshold"], message: "The threshold cannot exceed the number of kiosks." });
+    }
+    if (options.kiosks - options.dropBeforeUpload - options.dropBeforeUnmasking < threshold) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["dropBeforeUnmasking"],
+        message: `At least ${threshold} kiosks must stay online until unmasking.`,
+      });
+    }
+  });
+export type SimulationOptions = z.infer<typeof SimulationOptionsSchema>;
+
+export type SimulationCheck = { name: string; passed: boolean; detail: string };
+
+export type SimulationReport = {
+  kiosks: number;
+  threshold: number;
+  droppedBeforeUpload: string[];
+  droppedBeforeUnmasking: string[];
+  expectedSum: number[];
+  recoveredSum: number[];
+  maxSumError: number;
+  /** What the aggregator holds for each kiosk compared with the kiosk's real input. */
+  views: { kioskId: string; uploaded: boolean; maxDifference: number | null }[];
+  checks: SimulationCheck[];
+};
+
+function maxDifference(a: number[], b: number[]) {
+  return Math.max(...a.map((value, i) => Math.abs(value - b[i])));
+}
+
+function attempt(name: string, run: () => string): SimulationCheck {
+  try {
+    return { name, passed: false, detail: run() };
+  } catch (error) {
+    return { name, passed: true, detail: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export function simulateSecureAggregation(input: SimulationOptions): SimulationReport {
+  const options = SimulationOptionsSchema.parse(input);
+  const threshold = options.threshold ?? defaultThreshold(options.kiosks);
+  const random = seededRandom(options.seed ?? hashSeed("secure-aggregation", Date.now()));
+  const ids = Array.from({ length: options.kiosks }, (_, i) => `sim-kiosk-${String(i + 1).padStart(2, "0")}`);
+
+  const inputs = new Map(
+    ids.map((id) => {
+      const examples = 20 + Math.floor(random() * 180);
+      const update = Array.from({ length: options.parameters }, () => 0.5 * gaussian(random));
+      return [id, [examples, ...update.map((value) => value * examples)]];
+    })
+  );
+  const vectorLength = options.parameters + 1;
+  const order = shuffled(ids, random);
+  const droppedBeforeUpload = order.slice(0, options.dropBeforeUpload).sort();
+  const droppedBeforeUnmasking = order
+    .slice(options.dropBeforeUpload, options.dropBeforeUpload + options.dropBeforeUnmasking)
+    .sort();
+
+  const clients = new Map<string, SecureAggregationClient>(
+    ids.map((id) => [id, createSecureAggregationClient(id, { threshold })])
+  );
+  const aggregator = createSecureAggregator({ threshold, vectorLength });
+
+  // Round 0 and 1: every kiosk advertises keys and shares them.
+  for (const client of clients.values()) {
+    aggregator.receiveKeys(client.advertiseKeys());
+  }
+  const roster = aggregator.roster();
+  for (const client of clients.values()) {
+    aggregator.receiveShares(client.clientId, client.shareKeys(roster));
+  }
+
+  // Round 2: some kiosks go offline before uploading.
+  const inboxes = new Map<string, EncryptedShares[]>(ids.map((id) => [id, aggregator.inboxFor(id)]));
+  const uploads = new Map<string, number[]>();
+  for (const id of ids) {
+    if (droppedBeforeUpload.includes(id)) continue;
+    const upload = clients.get(id)!.maskInput(inputs.get(id)!, inboxes.get(id)!);
+    uploads.set(id, upload.masked);
+    aggregator.receiveMaskedInput(upload);
+  }
+  const request = aggregator.unmaskingRequest();
+
+  const checks: SimulationCheck[] = [];
+  const responders = request.survivors.filter((id) => !droppedBeforeUnmasking.includes(id));
+  const victim = responders[0];
+  const helper = responders[1] ?? responders[0];
+
+  checks.push(
+    attempt(`Ask ${helper} for both key shares of ${victim}`, () => {
+      const response = clients.get(helper)!.unmask({ survivors: request.survivors, dropped: [...request.dropped, victim] });
+      return `Received ${Object.keys(response.maskingKeyShares).length} masking key shares.`;
+    })
+  );
+
+  // Round 3: the kiosks still online help unmask.
+  const responses: UnmaskingResponse[] = [];
+  for (const id of responders) {
+    const response = clients.get(id)!.unmask(request);
+    responses.push(response);
+    aggregator.receiveUnmasking(response);
+  }
+  const result = aggregator.aggregate();
+
+  checks.push(
+    attempt(`Ask ${helper} again, now claiming ${victim} dropped out`, () => {
+      clients.get(helper)!.unmask({ survivors: request.survivors.filter((id) => id !== victim), dropped: [victim] });
+      return `${helper} answered a second unmasking request.`;
+    })
+  );
+
+  checks.push(
+    attempt(`Remove ${victim}'s self mask and read its upload`, () => {
+      const seed = combineShares(responses.slice(0, threshold).map((response) => decodeShare(response.selfMaskShares[victim])));
+      const stripped = decodeFixedPoint(subtractVectors(uploads.get(victim)!, expandMask(seed, vectorLength)));
+      const difference = maxDifference(stripped, inputs.get(victim)!);
+      if (difference > 1) {
+        throw new Error(`Pairwise masks remain; the result is off by up to ${difference.toExponential(2)}.`);
+      }
+      return "The upload was recovered.";
+    })
+  );
+
+  if (threshold > 1) {
+    checks.push(
+      attempt(`Rebuild ${victim}'s self-mask seed from ${threshold - 1} share(s)`, () => {
+        const shares = responses.slice(0, threshold - 1).map((response) => decodeShare(response.selfMaskShares[victim]));
+        const seed = combineShares(shares);
+        const probe = expandMask(seed, 1)[0];
+        throw new Error(`Reconstruction produced an unrelated seed (first mask word ${probe}).`);
+      })
+    );
+  }
+
+  const expectedSum = new Array<number>(vectorLength).fill(0);
+  for (const id of request.survivors) {
+    inputs.get(id)!.forEach((value, i) => (expectedSum[i] += value));
+  }
+  const maxSumError = maxDifference(result.sum, expectedSum);
+  checks.unshift({
+    name: "Recover the sum of the uploaded inputs",
+    passed: maxSumError <= fixedPointError(request.survivors.length),
+    detail: `Largest error ${maxSumError.toExponential(2)} (fixed-point rounding allows ${fixedPointError(request.survivors.length).toExponential(2)}).`,
+  });
+
+  return {
+    kiosks: options.kiosks,
+    threshold,
+    droppedBeforeUpload,
+    droppedBeforeUnmasking,
+    expectedSum,
+    recoveredSum: result.sum,
+    maxSumError,
+    views: ids.map((id) => {
+      const view = aggregator.viewOf(id);
+      return {
+        kioskId: id,
+        uploaded: view !== null,
+        maxDifference: view ? maxDifference(view, inputs.get(id)!) : null,
+      };
+    }),
+    checks,
+  };
+}
@@ -0,0 +1,149 @@
+import { updateJsonFile } from "@/lib/storage/json-file";
+import { getCoordinator } from "@/lib/federated/coordinator-api";
+import {
+  createSecureAggregationClient,
+  generateClientSecrets,
+  type AdvertisedKeys,
+  type ClientSecrets,
+  type EncryptedShares,
+} from "@/lib/federated/secure-aggregation/client";
+import type { ClientUpdate, RoundTask } from "@/lib/federated/client";
+import type { RoundSummary } from "@/lib/federated/coordinator";
+
+/**
+ * @fileOverview This kiosk's part in rounds run with secure aggregation.
+ *
+ * - joinSecureRound - Advertises fresh keys for the round and keeps the update until it can be sent masked.
+ * - continueSecureRounds - Takes the steps other kiosks have since made possible, in every round this kiosk joined.
+ *
+ * A secure round moves at the pace of its slowest kiosk, so a kiosk takes its
+ * steps over several calls; the Federated Learning page keeps calling
+ * continueSecureRounds while such a round is open. In between, the round's key
+ * pairs, self-mask seed and update stay on this kiosk, in
+ * `federated/secure-rounds.json` under KIOSK_DATA_DIR. They are deleted once
+ * the kiosk has helped unmask the sum or the round is over.
+ */
+
+type StoredKeyPair = { publicKey: string; privateKey: string };
+
+type SecureSession = {
+  roundId: string;
+  kioskId: string;
+  threshold: number;
+  secrets: { encryptionKeys: StoredKeyPair; maskingKeys: StoredKeyPair; selfMaskSeed: string };
+  /** The delta scaled by the example count; masked only when it is sent. */
+  input: number[];
+  update: Pick<ClientUpdate, "numExamples" | "metrics" | "privacy">;
+  /** The last step sent to the coordinator. */
+  sent: "keys" | "shares" | "masked";
+  roster?: AdvertisedKeys[];
+  inbox?: EncryptedShares[];
+};
+
+/** Sessions by round id. */
+type Sessions = Record<string, SecureSession>;
+
+const FILE = "federated/secure-rounds.json";
+
+function storeSecrets({ encryptionKeys, maskingKeys, selfMaskSeed }: ClientSecrets): SecureSession["secrets"] {
+  const store = ({ publicKey, privateKey }: ClientSecrets["encryptionKeys"]) => ({ publicKey, privateKey: privateKey.toString("base64url") });
+  return { encryptionKeys: store(encryptionKeys), maskingKeys: store(maskingKeys), selfMaskSeed: selfMaskSeed.toString("base64url") };
+}
+
+function loadSecrets({ encryptionKeys, maskingKeys, selfMaskSeed }: SecureSession["secrets"]): ClientSecrets {
+  const load = ({ publicKey, privateKey }: StoredKeyPair) => ({ publicKey, privateKey: Buffer.from(privateKey, "base64url") });
+  return { encryptionKeys: load(encryptionKeys), maskingKeys: load(maskingKeys), selfMaskSeed: Buffer.from(selfMaskSeed, "base64url") };
+}
+
+/** Replaying the steps already taken only rebuilds the client's state; their messages were sent before. */
+function restoreClient(session: SecureSession) {
+  const client = createSecureAggregationClient(session.kioskId, { threshold: session.threshold }, loadSecrets(session.secrets));
+  if (session.roster) {
+    client.shareKeys(session.roster);
+  }
+  if (session.inbox) {
+    client.maskInput(session.input, session.inbox);
+  }
+  return client;
+}
+
+/**
+ * Sends every message the round now allows, saving progress on the session.
+ * Returns false once the kiosk has nothing more to do in the round. A kiosk
+ * the round has moved on without just waits for it to close.
+ */
+async function advance(session: SecureSession): Promise<boolean> {
+  const coordinator = getCoordinator();
+  for (;;) {
+    const view = await coordinator.getSecureRound(session.roundId, session.kioskId);
+    if (view.status !== "open") {
+      return false;
+    }
+    const client = restoreClient(session);
+    if (view.phase === "shares" && session.sent === "keys") {
+      const shares = client.shareKeys(view.roster!);
+      await coordinator.sendSecureMessage(session.roundId, session.kioskId, { step: "shares", shares });
+      Object.assign(session, { sent: "shares", roster: view.roster! });
+    } else if (view.phase === "masked" && session.sent === "shares") {
+      const { masked } = client.maskInput(session.input, view.inbox!);
+      await coordinator.sendSecureMessage(session.roundId, session.kioskId, { step: "masked", masked, ...session.update });
+      Object.assign(session, { sent: "masked", inbox: view.inbox! });
+    } else if (view.phase === "unmasking" && session.sent === "masked") {
+      const response = client.unmask(view.request!);
+      await coordinator.sendSecureMessage(session.roundId, session.kioskId, { step: "unmasking", response });
+      return false;
+    } else {
+      return true;
+    }
+  }
+}
+
+/** Advances one session and returns its failure, if any, so the progress made before it is still saved. */
+async function advanceAndSave(sessions: Sessions, session: SecureSession) {
+  try {
+    if (!(await advance(session))) {
+      delete sessions[session.roundId];
+    }
+    return null;
+  } catch (error) {
+    return error;
+  }
+}
+
+/** `task.secure` must be set; the update is the one computed for the task. */
+export async function joinSecureRound(task: RoundTask, update: ClientUpdate): Promise<RoundSummary> {
+  const secrets = generateClientSecrets();
+  const client = createSecureAggregationClient(update.kioskId, task.secure!, secrets);
+  const session: SecureSession = {
+    roundId: task.roundId,
+    kioskId: update.kioskId,
+    threshold: task.secure!.threshold,
+    secrets: storeSecrets(secrets),
+    input: update.delta.map((value) => value * update.numExamples),
+    update: { numExamples: update.numExamples, metrics: update.metrics, privacy: update.privacy },
+    sent: "keys",
+  };
+  const { summary, failure } = await updateJsonFile<Sessions, { summary: RoundSummary; failure: unknown }>(FILE, {}, async (sessions) => {
+    // Kept only if the coordinator took the keys.
+    const summary = await getCoordinator().sendSecureMessage(task.roundId, update.kioskId, { step: "keys", keys: client.advertiseKeys() });
+    sessions[task.roundId] = session;
+    return { summary, failure: await advanceAndSave(sessions, session) };
+  });
+  if (failure) {
+    console.error("Secure aggregation will continue on the next call:", failure);
+  }
+  return summary;
+}
+
+export async function continueSecureRounds(): Promise<void> {
+  const failure = await updateJsonFile<Sessions, unknown>(FILE, {}, async (sessions) => {
+    const failures: unknown[] = [];
+    for (const session of Object.values(sessions)) {
+      failures.push(await advanceAndSave(sessions, session));
+    }
+    return failures.find((failure) => failure !== null) ?? null;
+  });
+  if (failure) {
+    throw failure;
+  }
+}
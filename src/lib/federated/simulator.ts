@@ -0,0 +1,317 @@
+/**
+ * @fileOverview A headless federated learning simulation with many virtual kiosks.
+ *
+ * - FederatedSimulationOptionsSchema - Kiosks, rounds, data skew, dropouts, stragglers and attackers.
+ * - simulateFederatedTraining - Runs every round once per aggregation rule and returns convergence curves.
+ *
+ * Each virtual kiosk draws synthetic patients from a hidden "true" logistic
+ * model. Feature skew shifts a kiosk's population (older, more male, ...)
+ * and label skew shifts its outcome rate, so kiosks are not identically
+ * distributed. Kiosks train with the real `computeLocalUpdate` and report to
+ * the real coordinator (createInMemoryCoordinator), so rounds go through the
+ * same quorum, screening, quarantine and aggregation code as the kiosks'
+ * rounds, but in memory: a simulation never touches the coordinator's rounds,
+ * the registry or the privacy ledger. Every rule sees the same kiosks, data,
+ * dropouts and stragglers, so their curves can be compared directly. A
+ * simulation yields to the event loop after each local update, so the server
+ * keeps answering requests while it runs.
+ */
+
+import { setImmediate } from "timers/promises";
+import { z } from "zod";
+
+import { anomalyThresholds } from "@/lib/federated/anomaly";
+import { computeLocalUpdate, type ClientUpdate } from "@/lib/federated/client";
+import { createInMemoryCoordinator } from "@/lib/federated/coordinator";
+import { evaluateModel, predictProbability, type Example, type ModelMetrics } from "@/lib/federated/logistic-regression";
+import {
+  encodeFeatures,
+  getFederatedModel,
+  parameterCount,
+  type FederatedModelDefinition,
+  type TrainingRecord,
+} from "@/lib/federated/models";
+import { privacyConfig } from "@/lib/federated/privacy";
+import { gaussian, hashSeed, seededRandom, type Random } from "@/lib/federated/random";
+import { AGGREGATION_RULES, type AggregationRule } from "@/lib/federated/robust-aggregation";
+
+/** Kiosks × records × rounds × rules, which bounds how long one run takes. */
+const MAX_SIMULATED_EXAMPLES = 2_000_000;
+
+export const FederatedSimulationOptionsSchema = z
+  .object({
+    modelName: z.string(),
+    kiosks: z.number().int().min(2).max(50),
+    rounds: z.number().int().min(1).max(50),
+    recordsPerKiosk: z.number().int().min(20).max(1000),
+    /** 0: every kiosk sees the same population; 1: strongly shifted populations. */
+    featureSkew: z.number().min(0).max(1),
+    /** 0: the same outcome rate everywhere; 1: strongly different outcome rates. */
+    labelSkew: z.number().min(0).max(1),
+    /** Chance that a kiosk is offline for a round. */
+    dropoutRate: z.number().min(0).max(0.9),
+    /** Chance that a kiosk's update arrives after the round's deadline; it is discarded if the round has closed. */
+    stragglerRate: z.number().min(0).max(0.9),
+    /** Kiosks that flip every label they train on. */
+    poisonedKiosks: z.number().int().min(0),
+    minClients: z.number().int().min(1),
+    rules: z.array(z.enum(AGGREGATION_RULES)).min(1, "Choose at least one aggregation rule."),
+    trimFraction: z.number().min(0).max(0.49),
+    screening: z.boolean(),
+    differentialPrivacy: z.boolean(),
+    seed: z.number().int().optional(),
+  })
+  .superRefine((options, ctx) => {
+    if (options.poisonedKiosks >= options.kiosks) {
+      ctx.addIssue({ code: "custom", path: ["poisonedKiosks"], message: "At least one kiosk must be honest." });
+    }
+    if (options.minClients > options.kiosks) {
+      ctx.addIssue({ code: "custom", path: ["minClients"], message: "A round cannot need more kiosks than there are." });
+    }
+    if (options.kiosks * options.recordsPerKiosk * options.rounds * options.rules.length > MAX_SIMULATED_EXAMPLES) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["rounds"],
+        message: "That simulation is too large to run here. Use fewer kiosks, records, rounds or rules.",
+      });
+    }
+  });
+export type FederatedSimulationOptions = z.infer<typeof FederatedSimulationOptionsSchema>;
+
+export type SimulatedKiosk = {
+  kioskId: string;
+  records: number;
+  positiveRate: number;
+  poisoned: boolean;
+};
+
+export type SimulationRound = {
+  round: number;
+  /** The global model after the round, on the shared test set. */
+  accuracy: number;
+  loss: number;
+  auc: number;
+  /** Whether enough updates arrived in time to change the global model. */
+  aggregated: boolean;
+  received: number;
+  dropped: number;
+  stragglers: number;
+  rejected: number;
+};
+
+export type SimulationStrategy = {
+  rule: AggregationRule;
+  /** Round 0 is the untrained model. */
+  rounds: SimulationRound[];
+  final: ModelMetrics;
+  quarantined: string[];
+};
+
+export type FederatedSimulationReport = {
+  modelName: string;
+  seed: number;
+  kiosks: SimulatedKiosk[];
+  testRecords: number;
+  /** The hidden model the data was drawn from, on the test set: the best any rule can hope for. */
+  reference: ModelMetrics;
+  strategies: SimulationStrategy[];
+};
+
+type KioskPlan = SimulatedKiosk & { data: TrainingRecord[] };
+
+type Attendance = "present" | "dropped" | "straggler";
+
+const TEST_RECORDS = 2000;
+const TRUE_BIAS = -0.8;
+// Spread of the hidden per-feature effects, in log-odds per standard deviation.
+const TRUE_EFFECT = 1.5;
+
+function draw(model: FederatedModelDefinition, random: Random, featureShift: number[], categoryWeights: number[][]) {
+  const record: TrainingRecord = {};
+  model.features.forEach((feature, j) => {
+    if (feature.kind === "number") {
+      const value = feature.mean + feature.std * (featureShift[j] + gaussian(random));
+      const clamped = Math.min(feature.max, Math.max(feature.min, value));
+      record[feature.key] = feature.integer ? Math.round(clamped) : Math.round(clamped * 10) / 10;
+    } else {
+      const names = Object.keys(feature.categories);
+      const weights = categoryWeights[j];
+      let pick = random() * weights.reduce((sum, weight) => sum + weight, 0);
+      let index = 0;
+      while (index < names.length - 1 && pick >= weights[index]) {
+        pick -= weights[index];
+        index += 1;
+      }
+      record[feature.key] = names[index];
+    }
+  });
+  return record;
+}
+
+function label(model: FederatedModelDefinition, trueWeights: number[], record: TrainingRecord, shift: number, random: Random) {
+  const probability = predictProbability([trueWeights[0] + shift, ...trueWeights.slice(1)], encodeFeatures(model, record));
+  return random() < probability ? 1 : 0;
+}
+
+function population(
+  model: FederatedModelDefinition,
+  trueWeights: number[],
+  random: Random,
+  count: number,
+  skew: { feature: number[]; categories: number[][]; label: number }
+) {
+  return Array.from({ length: count }, () => {
+    const record = draw(model, random, skew.feature, skew.categories);
+    record[model.label.key] = label(model, trueWeights, record, skew.label, random);
+    return record;
+  });
+}
+
+function planKiosks(model: FederatedModelDefinition, options: FederatedSimulationOptions, trueWeights: number[], seed: number) {
+  return Array.from({ length: options.kiosks }, (_, i): KioskPlan => {
+    const kioskId = `sim-kiosk-${String(i + 1).padStart(2, "0")}`;
+    const random = seededRandom(hashSeed(seed, kioskId));
+    const skew = {
+      feature: model.features.map(() => options.featureSkew * gaussian(random)),
+      categories: model.features.map((feature) =>
+        feature.kind === "category" ? Object.keys(feature.categories).map(() => Math.exp(options.featureSkew * gaussian(random))) : []
+      ),
+      label: options.labelSkew * 1.5 * gaussian(random),
+    };
+    const data = population(model, trueWeights, random, options.recordsPerKiosk, skew);
+    // The last kiosks are the attackers, so changing the count keeps the honest ones stable.
+    const poisoned = i >= options.kiosks - options.poisonedKiosks;
+    if (poisoned) {
+      for (const record of data) record[model.label.key] = 1 - Number(record[model.label.key]);
+    }
+    const positives = data.filter((record) => record[model.label.key] === 1).length;
+    return { kioskId, records: data.length, positiveRate: positives / data.length, poisoned, data };
+  });
+}
+
+function planAttendance(options: FederatedSimulationOptions, kiosks: KioskPlan[], seed: number): Attendance[][] {
+  const random = seededRandom(hashSeed(seed, "attendance"));
+  return Array.from({ length: options.rounds }, () =>
+    kiosks.map(() => {
+      if (random() < options.dropoutRate) return "dropped";
+      return random() < options.stragglerRate ? "straggler" : "present";
+    })
+  );
+}
+
+async function runStrategy(
+  rule: AggregationRule,
+  model: FederatedModelDefinition,
+  options: FederatedSimulationOptions,
+  kiosks: KioskPlan[],
+  attendance: Attendance[][],
+  test: Example[],
+  seed: number
+): Promise<SimulationStrategy> {
+  const privacy = options.differentialPrivacy ? privacyConfig(model) : undefined;
+  // Rounds close at the end of each simulated round, as an administrator would close them, so that every
+  // kiosk that is on time can report first.
+  const coordinator = createInMemoryCoordinator({
+    minClients: options.kiosks,
+    thresholds: options.screening ? anomalyThresholds() : null,
+  });
+  await coordinator.setAggregationSettings(model.name, { rule, trimFraction: options.trimFraction, secureAggregation: false }, "simulation");
+  const start = evaluateModel((await coordinator.getFederatedStatus(model.name)).weights, test);
+  const rounds: SimulationRound[] = [
+    { round: 0, accuracy: start.accuracy, loss: start.loss, auc: start.auc, aggregated: false, received: 0, dropped: 0, stragglers: 0, rejected: 0 },
+  ];
+
+  for (const [r, roundAttendance] of attendance.entries()) {
+    const before = await coordinator.getFederatedStatus(model.name);
+    const quarantinedBefore = before.clients.filter((client) => client.quarantine).length;
+    const waiting = new Set(before.openRound?.participants.map((participant) => participant.kioskId));
+    const eligible = kiosks.filter(
+      (kiosk) => !before.clients.some((client) => client.kioskId === kiosk.kioskId && client.quarantine) && !waiting.has(kiosk.kioskId)
+    );
+    const online = eligible.filter((kiosk) => roundAttendance[kiosks.indexOf(kiosk)] !== "dropped");
+
+    const updates: { update: ClientUpdate; late: boolean }[] = [];
+    for (const kiosk of online) {
+      const task = await coordinator.getRoundTask(model.name, kiosk.kioskId);
+      // The round id seeds local shuffling, so it is the same for every rule.
+      const seeded = { ...task, roundId: `simulation-${seed}-${r + 1}` };
+      const update = computeLocalUpdate(seeded, kiosk.kioskId, kiosk.data, privacy, seededRandom(hashSeed(seed, "noise", r + 1, kiosk.kioskId)));
+      updates.push({ update: { ...update, roundId: task.roundId }, late: roundAttendance[kiosks.indexOf(kiosk)] === "straggler" });
+      // Training is the slow part; let the server handle other requests in between.
+      await setImmediate();
+    }
+
+    for (const { update } of updates.filter((entry) => !entry.late)) {
+      await coordinator.submitUpdate(update);
+    }
+    const received = await coordinator.getFederatedStatus(model.name);
+    if (received.openRound && received.openRound.participants.length >= options.minClients) {
+      await coordinator.aggregateRound(model.name);
+    }
+    // A straggler's update only counts if the round is still open when it arrives.
+    let stragglersAccepted = 0;
+    for (const { update } of updates.filter((entry) => entry.late)) {
+      try {
+        await coordinator.submitUpdate(update);
+        stragglersAccepted += 1;
+      } catch {
+        // The round had closed.
+      }
+    }
+
+    const after = await coordinator.getFederatedStatus(model.name);
+    const metrics = evaluateModel(after.weights, test);
+    rounds.push({
+      round: r + 1,
+      accuracy: metrics.accuracy,
+      loss: metrics.loss,
+      auc: metrics.auc,
+      aggregated: after.version > before.version,
+      received: updates.length - updates.filter((entry) => entry.late).length + stragglersAccepted,
+      dropped: eligible.length - online.length,
+      stragglers: updates.filter((entry) => entry.late).length,
+      rejected: after.clients.filter((client) => client.quarantine).length - quarantinedBefore,
+    });
+  }
+
+  const status = await coordinator.getFederatedStatus(model.name);
+  return {
+    rule,
+    rounds,
+    final: evaluateModel(status.weights, test),
+    quarantined: status.clients.filter((client) => client.quarantine).map((client) => client.kioskId),
+  };
+}
+
+export async function simulateFederatedTraining(options: FederatedSimulationOptions): Promise<FederatedSimulationReport> {
+  const model = getFederatedModel(options.modelName);
+  const seed = options.seed ?? Math.floor(Math.random() * 2 ** 31);
+  const random = seededRandom(hashSeed(seed, "truth"));
+  const trueWeights = [TRUE_BIAS, ...model.features.map(() => TRUE_EFFECT * gaussian(random))];
+
+  const kiosks = planKiosks(model, options, trueWeights, seed);
+  const attendance = planAttendance(options, kiosks, seed);
+  const neutral = {
+    feature: model.features.map(() => 0),
+    categories: model.features.map((feature) =>
+      feature.kind === "category" ? Object.keys(feature.categories).map(() => 1) : []
+    ),
+    label: 0,
+  };
+  const test: Example[] = population(model, trueWeights, seededRandom(hashSeed(seed, "test")), TEST_RECORDS, neutral).map(
+    (record) => ({ x: encodeFeatures(model, record), y: record[model.label.key] === 1 ? 1 : 0 })
+  );
+
+  const strategies: SimulationStrategy[] = [];
+  for (const rule of options.rules) {
+    strategies.push(await runStrategy(rule, model, options, kiosks, attendance, test, seed));
+  }
+  return {
+    modelName: model.name,
+    seed,
+    kiosks: kiosks.map(({ data: _data, ...kiosk }) => kiosk),
+    testRecords: test.length,
+    reference: evaluateModel(trueWeights, test),
+    strategies,
+  };
+}
@@ -0,0 +1,251 @@
+/**
+ * @fileOverview Turns an uploaded spreadsheet into training records for a federated model.
+ *
+ * - parseCsv - Reads CSV text (comma or semicolon separated, quoted fields allowed) into a table.
+ * - suggestMapping - Matches spreadsheet columns to the model's features and label by name.
+ * - importRecords - Coerces each row to the model's types and validates it against the feature schema.
+ *   Unmapped columns are carried along so de-identification can report and drop them.
+ *
+ * Values are coerced leniently (units after numbers, "M"/"F", "yes"/"no") and
+ * then checked with `trainingRecordSchema`, so the range rules are the ones
+ * the coordinator enforces. Rows that fail are returned with their errors
+ * instead of being dropped silently.
+ */
+
+import { trainingRecordSchema, type FederatedModelDefinition, type TrainingRecord } from "@/lib/federated/models";
+
+export type Cell = string | number | boolean | null;
+
+export type SheetTable = {
+  headers: string[];
+  rows: Cell[][];
+  /** Line of the header row in the file; defaults to 1. */
+  firstLine?: number;
+};
+
+export type ImportField = { key: string; label: string; hint: string };
+
+/** Column index for each feature and the label; null when the field is not mapped. */
+export type ColumnMapping = Record<string, number | null>;
+
+export type RejectedRow = {
+  /** Line number in the file, counting the header as line 1. */
+  line: number;
+  values: Record<string, string>;
+  errors: string[];
+};
+
+export type ImportResult = {
+  records: TrainingRecord[];
+  rejected: RejectedRow[];
+  /** Rows past MAX_IMPORT_ROWS, which were not read. */
+  skipped: number;
+};
+
+export const MAX_IMPORT_ROWS = 5000;
+
+const TRUE_WORDS = ["1", "yes", "y", "true", "positive"];
+const FALSE_WORDS = ["0", "no", "n", "false", "negative"];
+
+export function parseCsv(text: string): SheetTable {
+  const content = text.replace(/^\uFEFF/, "");
+  const firstLine = content.slice(0, content.search(/\r?\n|$/));
+  const separator = firstLine.split(";").length > firstLine.split(",").length ? ";" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines stay in the body so rejected rows keep their line numbers.
+  const start = rows.findIndex((cells) => !isBlankRow(cells));
+  if (start < 0) {
+    throw new Error("The file is empty.");
+  }
+  const [headers, ...body] = rows.slice(start);
+  return { headers: headers.map((header) => header.trim()), rows: body, firstLine: start + 1 };
+}
+
+/** Builds a table from spreadsheet rows, the first of which holds the column names. */
+export function tableFromRows(rows: unknown[][]): SheetTable {
+  const cells = rows.map((row) => row.map(toCell));
+  const start = cells.findIndex((row) => !isBlankRow(row));
+  if (start < 0) {
+    throw new Error("The sheet is empty.");
+  }
+  const [headers, ...body] = cells.slice(start);
+  return {
+    headers: headers.map((header, i) => (header === null ? `Column ${i + 1}` : String(header).trim())),
+    rows: body,
+    firstLine: start + 1,
+  };
+}
+
+function toCell(value: unknown): Cell {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "number" || typeof value === "boolean" || typeof value === "string") return value;
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+export function importFields(model: FederatedModelDefinition): ImportField[] {
+  return [
+    ...model.features.map((feature) => ({
+      key: feature.key,
+      label: feature.label,
+      hint:
+        feature.kind === "number"
+          ? `${feature.min}–${feature.max}${feature.unit ? ` ${feature.unit}` : ""}`
+          : Object.keys(feature.categories).join(" / "),
+    })),
+    { key: model.label.key, label: model.label.label, hint: `${model.label.positive} (1) / ${model.label.negative} (0)` },
+  ];
+}
+
+function normalise(name: string) {
+  return name.toLowerCase().replace(/\(.*?\)/g, "").replace(/[^a-z0-9]/g, "");
+}
+
+export function suggestMapping(model: FederatedModelDefinition, headers: string[]): ColumnMapping {
+  const normalised = headers.map(normalise);
+  const mapping: ColumnMapping = {};
+  for (const field of importFields(model)) {
+    const names = [field.key, field.label].map(normalise);
+    const index = normalised.findIndex((header) => names.includes(header));
+    mapping[field.key] = index >= 0 ? index : null;
+  }
+  return mapping;
+}
+
+function coerceNumber(value: Cell, unit?: string): number | string {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string") return String(value);
+  let text = value.trim();
+  if (unit && text.toLowerCase().endsWith(unit.toLowerCase())) {
+    text = text.slice(0, -unit.length).trim();
+  }
+  if (!text.includes(".") && /^-?\d+,\d+$/.test(text)) {
+    text = text.replace(",", ".");
+  }
+  return /^[-+]?\d+(\.\d+)?$/.test(text) ? Number(text) : value;
+}
+
+/** Exact match first, then a unique prefix such as "m" or "F". */
+function coerceCategory(value: Cell, categories: string[]) {
+  const text = String(value).trim().toLowerCase();
+  if (categories.includes(text)) return text;
+  const matches = categories.filter((category) => category.startsWith(text));
+  return matches.length === 1 ? matches[0] : String(value);
+}
+
+function coerceLabel(value: Cell, model: FederatedModelDefinition): number | string {
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "number") return value;
+  const text = String(value).trim().toLowerCase();
+  if (TRUE_WORDS.includes(text) || text === model.label.positive.toLowerCase()) return 1;
+  if (FALSE_WORDS.includes(text) || text === model.label.negative.toLowerCase()) return 0;
+  return String(value);
+}
+
+function isBlank(value: Cell | undefined) {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+}
+
+function isBlankRow(row: Cell[]) {
+  return row.every(isBlank);
+}
+
+function unmappedValues(table: SheetTable, mapping: ColumnMapping, fields: ImportField[], row: Cell[]) {
+  const mapped = new Set(Object.values(mapping));
+  const extra: TrainingRecord = {};
+  table.headers.forEach((header, i) => {
+    const cell = row[i];
+    if (!mapped.has(i) && header && !fields.some((field) => field.key === header) && !isBlank(cell)) {
+      extra[header] = typeof cell === "number" ? cell : String(cell);
+    }
+  });
+  return extra;
+}
+
+export function importRecords(model: FederatedModelDefinition, table: SheetTable, mapping: ColumnMapping): ImportResult {
+  const fields = importFields(model);
+  const unmapped = fields.filter((field) => mapping[field.key] === null || mapping[field.key] === undefined);
+  if (unmapped.length > 0) {
+    throw new Error(`Choose a column for ${unmapped.map((field) => field.label).join(", ")}.`);
+  }
+
+  const schema = trainingRecordSchema(model);
+  const records: TrainingRecord[] = [];
+  const rejected: RejectedRow[] = [];
+  const firstLine = table.firstLine ?? 1;
+  table.rows.slice(0, MAX_IMPORT_ROWS).forEach((row, i) => {
+    if (isBlankRow(row)) return;
+    const values: Record<string, string> = {};
+    const errors: string[] = [];
+    const missing = new Set<string>();
+    const record: Record<string, unknown> = {};
+    for (const field of fields) {
+      const cell = row[mapping[field.key]!];
+      values[field.key] = isBlank(cell) ? "" : String(cell);
+      if (isBlank(cell)) {
+        errors.push(`${field.label} is missing.`);
+        missing.add(field.key);
+        continue;
+      }
+      const feature = model.features.find((entry) => entry.key === field.key);
+      record[field.key] = !feature
+        ? coerceLabel(cell!, model)
+        : feature.kind === "number"
+          ? coerceNumber(cell!, feature.unit)
+          : coerceCategory(cell!, Object.keys(feature.categories));
+    }
+    const parsed = schema.safeParse(record);
+    if (parsed.success) {
+      records.push({ ...unmappedValues(table, mapping, fields, row), ...parsed.data });
+      return;
+    }
+    for (const issue of parsed.error.issues) {
+      const key = String(issue.path[0]);
+      if (missing.has(key)) continue;
+      const field = fields.find((entry) => entry.key === key);
+      errors.push(
+        issue.code === "invalid_enum_value" || issue.code === "invalid_union"
+          ? `${field?.label ?? key} has an unrecognised value "${values[key]}".`
+          : issue.message
+      );
+    }
+    rejected.push({ line: firstLine + i + 1, values, errors });
+  });
+
+  return { records, rejected, skipped: Math.max(0, table.rows.length - MAX_IMPORT_ROWS) };
+}
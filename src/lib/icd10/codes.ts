@@ -0,0 +1,160 @@
+/**
+ * Bundled ICD-10 codes for conditions commonly seen at primary-care kiosks in
+ * India. This is deliberately a subset: a code missing from here is not
+ * necessarily wrong, but it has to be checked by a clinician.
+ */
+export const ICD10_CODES: Record<string, string> = {
+  "A00.9": "Cholera, unspecified",
+  "A01.0": "Typhoid fever",
+  "A03.9": "Shigellosis, unspecified",
+  "A06.0": "Acute amoebic dysentery",
+  "A08.4": "Viral intestinal infection, unspecified",
+  "A09": "Infectious gastroenteritis and colitis, unspecified",
+  "A15.0": "Tuberculosis of lung",
+  "A16.2": "Tuberculosis of lung, without mention of bacteriological or histological confirmation",
+  "A27.9": "Leptospirosis, unspecified",
+  "A30.9": "Leprosy, unspecified",
+  "A36.9": "Diphtheria, unspecified",
+  "A37.9": "Whooping cough, unspecified",
+  "A41.9": "Sepsis, unspecified",
+  "A46": "Erysipelas",
+  "A75.3": "Typhus fever due to Rickettsia tsutsugamushi (scrub typhus)",
+  "A82.9": "Rabies, unspecified",
+  "A90": "Dengue fever",
+  "A91": "Dengue haemorrhagic fever",
+  "A92.0": "Chikungunya virus disease",
+  "B01.9": "Varicella without complication",
+  "B02.9": "Zoster without complication",
+  "B05.9": "Measles without complication",
+  "B15.9": "Hepatitis A without hepatic coma",
+  "B16.9": "Acute hepatitis B without delta-agent and without hepatic coma",
+  "B20": "Human immunodeficiency virus [HIV] disease",
+  "B26.9": "Mumps without complication",
+  "B34.9": "Viral infection, unspecified",
+  "B35.4": "Tinea corporis",
+  "B37.0": "Candidal stomatitis",
+  "B50.9": "Plasmodium falciparum malaria, unspecified",
+  "B51.9": "Plasmodium vivax malaria without complication",
+  "B54": "Unspecified malaria",
+  "B82.9": "Intestinal parasitism, unspecified",
+  "B86": "Scabies",
+  "D50.9": "Iron deficiency anaemia, unspecified",
+  "D64.9": "Anaemia, unspecified",
+  "E03.9": "Hypothyroidism, unspecified",
+  "E05.9": "Thyrotoxicosis, unspecified",
+  "E10.9": "Type 1 diabetes mellitus without complications",
+  "E11.9": "Type 2 diabetes mellitus without complications",
+  "E16.2": "Hypoglycaemia, unspecified",
+  "E46": "Unspecified protein-energy malnutrition",
+  "E55.9": "Vitamin D deficiency, unspecified",
+  "E66.9": "Obesity, unspecified",
+  "E78.5": "Hyperlipidaemia, unspecified",
+  "E86": "Volume depletion",
+  "F32.9": "Depressive episode, unspecified",
+  "F41.1": "Generalized anxiety disorder",
+  "F41.9": "Anxiety disorder, unspecified",
+  "G03.9": "Meningitis, unspecified",
+  "G40.9": "Epilepsy, unspecified",
+  "G43.9": "Migraine, unspecified",
+  "G44.2": "Tension-type headache",
+  "G45.9": "Transient cerebral ischaemic attack, unspecified",
+  "G51.0": "Bell palsy",
+  "H10.9": "Conjunctivitis, unspecified",
+  "H60.9": "Otitis externa, unspecified",
+  "H66.9": "Otitis media, unspecified",
+  "I10": "Essential (primary) hypertension",
+  "I20.9": "Angina pectoris, unspecified",
+  "I21.9": "Acute myocardial infarction, unspecified",
+  "I24.9": "Acute ischaemic heart disease, unspecified",
+  "I26.9": "Pulmonary embolism without mention of acute cor pulmonale",
+  "I48.9": "Atrial fibrillation and atrial flutter, unspecified",
+  "I50.9": "Heart failure, unspecified",
+  "I61.9": "Intracerebral haemorrhage, unspecified",
+  "I63.9": "Cerebral infarction, unspecified",
+  "I64": "Stroke, not specified as haemorrhage or infarction",
+  "I95.9": "Hypotension, unspecified",
+  "J00": "Acute nasopharyngitis [common cold]",
+  "J01.9": "Acute sinusitis, unspecified",
+  "J02.9": "Acute pharyngitis, unspecified",
+  "J03.9": "Acute tonsillitis, unspecified",
+  "J06.9": "Acute upper respiratory infection, unspecified",
+  "J11.1": "Influenza with other respiratory manifestations, virus not identified",
+  "J18.9": "Pneumonia, unspecified",
+  "J20.9": "Acute bronchitis, unspecified",
+  "J21.9": "Acute bronchiolitis, unspecified",
+  "J30.4": "Allergic rhinitis, unspecified",
+  "J44.1": "Chronic obstructive pulmonary disease with acute exacerbation, unspecified",
+  "J44.9": "Chronic obstructive pulmonary disease, unspecified",
+  "J45.9": "Asthma, unspecified",
+  "J46": "Status asthmaticus",
+  "J81": "Pulmonary oedema",
+  "J96.0": "Acute respiratory failure",
+  "K21.9": "Gastro-oesophageal reflux disease without oesophagitis",
+  "K27.9": "Peptic ulcer, site unspecified, unspecified as acute or chronic, without haemorrhage or perforation",
+  "K29.7": "Gastritis, unspecified",
+  "K30": "Functional dyspepsia",
+  "K35.8": "Acute appendicitis, other and unspecified",
+  "K52.9": "Noninfective gastroenteritis and colitis, unspecified",
+  "K58.9": "Irritable bowel syndrome without diarrhoea",
+  "K59.0": "Constipation",
+  "K74.6": "Other and unspecified cirrhosis of liver",
+  "K76.0": "Fatty (change of) liver, not elsewhere classified",
+  "K80.2": "Calculus of gallbladder without cholecystitis",
+  "K81.0": "Acute cholecystitis",
+  "K85.9": "Acute pancreatitis, unspecified",
+  "K92.2": "Gastrointestinal haemorrhage, unspecified",
+  "L01.0": "Impetigo",
+  "L02.9": "Cutaneous abscess, furuncle and carbuncle, unspecified",
+  "L03.9": "Cellulitis, unspecified",
+  "L20.9": "Atopic dermatitis, unspecified",
+  "L30.9": "Dermatitis, unspecified",
+  "L40.0": "Psoriasis vulgaris",
+  "L50.9": "Urticaria, unspecified",
+  "L70.0": "Acne vulgaris",
+  "M06.9": "Rheumatoid arthritis, unspecified",
+  "M10.9": "Gout, unspecified",
+  "M17.9": "Gonarthrosis, unspecified",
+  "M19.9": "Arthrosis, unspecified",
+  "M54.2": "Cervicalgia",
+  "M54.5": "Low back pain",
+  "M79.1": "Myalgia",
+  "N10": "Acute tubulo-interstitial nephritis",
+  "N17.9": "Acute renal failure, unspecified",
+  "N18.9": "Chronic kidney disease, unspecified",
+  "N20.0": "Calculus of kidney",
+  "N23": "Unspecified renal colic",
+  "N30.0": "Acute cystitis",
+  "N39.0": "Urinary tract infection, site not specified",
+  "N40": "Hyperplasia of prostate",
+  "N73.9": "Female pelvic inflammatory disease, unspecified",
+  "N76.0": "Acute vaginitis",
+  "N92.0": "Excessive and frequent menstruation with regular cycle",
+  "N94.6": "Dysmenorrhoea, unspecified",
+  "O00.9": "Ectopic pregnancy, unspecified",
+  "O14.9": "Pre-eclampsia, unspecified",
+  "O20.0": "Threatened abortion",
+  "O21.0": "Mild hyperemesis gravidarum",
+  "O99.0": "Anaemia complicating pregnancy, childbirth and the puerperium",
+  "R05": "Cough",
+  "R06.0": "Dyspnoea",
+  "R07.4": "Chest pain, unspecified",
+  "R10.4": "Other and unspecified abdominal pain",
+  "R11": "Nausea and vomiting",
+  "R19.7": "Diarrhoea, unspecified",
+  "R42": "Dizziness and giddiness",
+  "R50.9": "Fever, unspecified",
+  "R51": "Headache",
+  "R53": "Malaise and fatigue",
+  "R55": "Syncope and collapse",
+  "R56.8": "Other and unspecified convulsions",
+  "R63.4": "Abnormal weight loss",
+  "R73.9": "Hyperglycaemia, unspecified",
+  "S06.0": "Concussion",
+  "S52.5": "Fracture of lower end of radius",
+  "S93.4": "Sprain and strain of ankle",
+  "T63.0": "Toxic effect of snake venom",
+  "T67.0": "Heatstroke and sunstroke",
+  "T78.2": "Anaphylactic shock, unspecified",
+  "T78.4": "Allergy, unspecified",
+  "U07.1": "COVID-19, virus identified",
+};
@@ -0,0 +1,62 @@
+/**
+ * @fileOverview Checks ICD-10 codes produced by the AI against the bundled code list.
+ *
+ * - validateIcd10Code - Classifies a code as known, known category with an unverified subcode, unknown or malformed.
+ * - Icd10ValidationSchema - Zod schema for the validation result.
+ */
+
+import { z } from "zod";
+
+import { ICD10_CODES } from "@/lib/icd10/codes";
+
+export const ICD10_STATUSES = ["valid", "category-only", "unknown", "invalid-format"] as const;
+export type Icd10Status = (typeof ICD10_STATUSES)[number];
+
+export const Icd10ValidationSchema = z.object({
+  code: z.string().describe("The code as normalised for lookup."),
+  status: z.enum(ICD10_STATUSES),
+  description: z.string().optional().describe("Description from the bundled code list, when known."),
+});
+export type Icd10Validation = z.infer<typeof Icd10ValidationSchema>;
+
+export const ICD10_STATUS_LABELS: Record<Icd10Status, string> = {
+  valid: "Verified",
+  "category-only": "Subcode not verified",
+  unknown: "Not in code list",
+  "invalid-format": "Invalid code",
+};
+
+// Letter (U is reserved but used for COVID-19), two digits, optional dot and up to four characters.
+const ICD10_FORMAT = /^[A-Z][0-9]{2}(\.[0-9A-Z]{1,4})?$/;
+
+export function normalizeIcd10Code(code: string) {
+  const compact = code.trim().toUpperCase().replace(/\s+/g, "");
+  // Accept "J069" as well as "J06.9".
+  if (/^[A-Z][0-9]{2}[0-9A-Z]{1,4}$/.test(compact)) {
+    return `${compact.slice(0, 3)}.${compact.slice(3)}`;
+  }
+  return compact;
+}
+
+/**
+ * A code is "valid" when it is in the bundled list, and "category-only" when
+ * only its three-character category is (for example J06.8 when only J06.9 is
+ * bundled): the category exists, but the subcode may be invented, so it is
+ * not shown as verified. Anything else is flagged so a clinician can catch
+ * hallucinated codes.
+ */
+export function validateIcd10Code(code: string): Icd10Validation {
+  const normalized = normalizeIcd10Code(code);
+  if (!ICD10_FORMAT.test(normalized)) {
+    return { code: normalized, status: "invalid-format" };
+  }
+  const description = ICD10_CODES[normalized];
+  if (description) {
+    return { code: normalized, status: "valid", description };
+  }
+  const category = normalized.slice(0, 3);
+  if (Object.keys(ICD10_CODES).some((known) => known.slice(0, 3) === category)) {
+    return { code: normalized, status: "category-only" };
+  }
+  return { code: normalized, status: "unknown" };
+}
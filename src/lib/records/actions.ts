@@ -0,0 +1,202 @@
+'use server';
+
+/**
+ * @fileOverview Server actions on patient records.
+ *
+ * - registerPatient - Registers a patient (or completes the walk-in record) and checks them in. An ABHA number
+ *   given at registration is not saved; it is linked only once verified on the ABDM Integration page.
+ * - checkInPatient / checkOutPatient - Choose which patient encounters are saved against; only staff check in
+ *   an existing record.
+ * - grantResearchConsent / withdrawResearchConsent - Record a consent, or withdraw one.
+ * - exportEncounterAsFhir - One of the checked-in patient's encounters as a validated FHIR document.
+ */
+
+import {encounterBundle} from '@/lib/abdm/fhir';
+import {validateFhirBundle, type FhirValidationIssue} from '@/lib/abdm/fhir-validation';
+import {hasPermission, type Permission} from '@/lib/auth/roles';
+import {requirePermission, requireSession, setCheckedInPatientId} from '@/lib/auth/session';
+import {getRecordRepository, kioskId} from '@/lib/records';
+import {
+  CONSENT_TEXT_VERSION,
+  ResearchConsentFormSchema,
+  addMonths,
+  type ResearchConsentForm,
+} from '@/lib/records/consent';
+import {findCheckedInPatient} from '@/lib/records/encounters';
+import {
+  PatientRegistrationSchema,
+  dateOfBirthFromAge,
+  isLikelyDuplicate,
+  normalizePhone,
+  type PatientRegistration,
+} from '@/lib/records/patients';
+import type {EncounterType, ResearchConsent} from '@/lib/records/types';
+
+/** Just enough of an existing record for the operator to recognise the patient. */
+export type PatientMatch = {
+  id: string;
+  name: string;
+  dateOfBirth?: string;
+  dateOfBirthEstimated?: boolean;
+  city?: string;
+  phoneLastDigits?: string;
+};
+
+export type RegisterPatientResult =
+  | {ok: true; patientId: string}
+  | {ok: false; error: string; duplicates?: PatientMatch[]};
+
+export async function registerPatient(
+  input: PatientRegistration,
+  options: {allowDuplicate?: boolean} = {}
+): Promise<RegisterPatientResult> {
+  const session = await requirePermission('patients:register');
+  const parsed = PatientRegistrationSchema.safeParse(input);
+  if (!parsed.success) {
+    return {ok: false, error: parsed.error.issues[0]?.message ?? 'Please check the registration details.'};
+  }
+  const registration = parsed.data;
+  const records = getRecordRepository();
+
+  const details = {
+    name: registration.name,
+    dateOfBirth: registration.dateOfBirth || dateOfBirthFromAge(registration.age!),
+    dateOfBirthEstimated: !registration.dateOfBirth,
+    sex: registration.sex,
+    phone: normalizePhone(registration.phone)!,
+    address: registration.address,
+    preferredLanguage: registration.preferredLanguage,
+    medicalHistory: registration.medicalHistory?.trim() || undefined,
+    walkIn: false,
+  };
+
+  // A patient registering themselves must not learn who else uses a mobile number, so only staff see the matches.
+  const canLookUp = hasPermission(session.role, 'patients:lookup');
+  if (!options.allowDuplicate || !canLookUp) {
+    const duplicates = (await records.findPatientsByPhone(details.phone)).filter(patient =>
+      isLikelyDuplicate(patient, details)
+    );
+    if (duplicates.length > 0 && !canLookUp) {
+      return {
+        ok: false,
+        error: 'A patient with this mobile number and date of birth is already registered. Please ask the kiosk operator to find your record.',
+      };
+    }
+    if (duplicates.length > 0) {
+      return {
+        ok: false,
+        error: 'A patient with this mobile number and date of birth is already registered.',
+        duplicates: duplicates.map(patient => ({
+          id: patient.id,
+          name: patient.name,
+          dateOfBirth: patient.dateOfBirth,
+          dateOfBirthEstimated: patient.dateOfBirthEstimated,
+          city: patient.address?.city,
+          phoneLastDigits: patient.phone?.slice(-4),
+        })),
+      };
+    }
+  }
+
+  // Encounters recorded before registration belong to this patient, so complete the walk-in record.
+  const current = await findCheckedInPatient(session);
+  const patient = current?.walkIn
+    ? await records.updatePatient(current.id, details)
+    : await records.createPatient(details);
+  await setCheckedInPatientId(session, patient.id);
+  return {ok: true, patientId: patient.id};
+}
+
+export async function checkInPatient(patientId: string): Promise<void> {
+  const session = await requirePermission('patients:lookup');
+  if (!(await getRecordRepository().getPatient(patientId))) {
+    throw new Error('That patient record no longer exists.');
+  }
+  await setCheckedInPatientId(session, patientId);
+}
+
+export async function checkOutPatient(): Promise<void> {
+  const session = await requirePermission('profile:view');
+  await setCheckedInPatientId(session, null);
+}
+
+export type ConsentActionResult = {ok: true; consent: ResearchConsent} | {ok: false; error: string};
+
+export async function grantResearchConsent(input: ResearchConsentForm): Promise<ConsentActionResult> {
+  const session = await requirePermission('consent:manage');
+  const parsed = ResearchConsentFormSchema.safeParse(input);
+  if (!parsed.success) {
+    return {ok: false, error: parsed.error.issues[0]?.message ?? 'Please check the consent details.'};
+  }
+  if (parsed.data.textVersion !== CONSENT_TEXT_VERSION) {
+    return {ok: false, error: 'The consent text has been updated. Reload the page and show the patient the new text.'};
+  }
+  const patient = await findCheckedInPatient(session);
+  if (!patient || patient.walkIn) {
+    return {ok: false, error: 'Register the patient, or find their record, before recording consent.'};
+  }
+  const grantedAt = new Date().toISOString();
+  const consent = await getRecordRepository().addResearchConsent({
+    patientId: patient.id,
+    purpose: parsed.data.purpose,
+    scope: parsed.data.scope,
+    textVersion: parsed.data.textVersion,
+    language: parsed.data.language,
+    kioskId: kioskId(),
+    recordedBy: {userId: session.userId, username: session.username, role: session.role},
+    grantedAt,
+    expiresAt: addMonths(grantedAt, parsed.data.durationMonths),
+  });
+  return {ok: true, consent};
+}
+
+export async function withdrawResearchConsent(consentId: string, reason?: string): Promise<ConsentActionResult> {
+  const session = await requirePermission('consent:manage');
+  const patient = await findCheckedInPatient(session);
+  const records = getRecordRepository();
+  const owned = patient ? (await records.listResearchConsents(patient.id)).find(consent => consent.id === consentId) : undefined;
+  if (!owned) {
+    return {ok: false, error: 'That consent does not belong to the checked-in patient.'};
+  }
+  if (owned.withdrawnAt) {
+    return {ok: false, error: 'That consent has already been withdrawn.'};
+  }
+  const consent = await records.withdrawResearchConsent(consentId, {
+    actor: {userId: session.userId, username: session.username, role: session.role},
+    reason: reason?.trim() || undefined,
+  });
+  return {ok: true, consent};
+}
+
+export type FhirExportResult =
+  | {ok: true; fileName: string; json: string; warnings: FhirValidationIssue[]}
+  | {ok: false; error: string; issues?: FhirValidationIssue[]};
+
+/** Whoever may run the flow that recorded an encounter may download it. */
+const EXPORT_PERMISSIONS: Record<EncounterType, Permission> = {
+  'ai-diagnosis': 'diagnosis:run',
+  'tele-consultation': 'teleconsult:summary',
+};
+
+export async function exportEncounterAsFhir(encounterId: string): Promise<FhirExportResult> {
+  const session = await requireSession();
+  const patient = await findCheckedInPatient(session);
+  const record = await getRecordRepository().getEncounter(encounterId);
+  if (!patient || record?.encounter.patientId !== patient.id) {
+    return {ok: false, error: 'That encounter is not in the checked-in patient\'s record.'};
+  }
+  await requirePermission(EXPORT_PERMISSIONS[record.encounter.type]);
+  const bundle = encounterBundle(patient, record);
+  const issues = validateFhirBundle(bundle);
+  const errors = issues.filter(issue => issue.severity === 'error');
+  if (errors.length > 0) {
+    console.error(`FHIR export of encounter ${encounterId} failed validation:`, errors);
+    return {ok: false, error: 'The FHIR document did not pass the ABDM profile checks.', issues: errors};
+  }
+  return {
+    ok: true,
+    fileName: `encounter-${record.encounter.startedAt.slice(0, 10)}-${encounterId.slice(0, 8)}.json`,
+    json: JSON.stringify(bundle, null, 2),
+    warnings: issues.filter(issue => issue.severity === 'warning'),
+  };
+}
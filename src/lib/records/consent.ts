@@ -0,0 +1,219 @@
+/**
+ * @fileOverview Research consent: what a patient agrees to, the consent text
+ * they were shown, and when a consent counts as active. Free of Node APIs so
+ * the consent screen can show the text and validate with the same schema.
+ *
+ * - ResearchConsentFormSchema - What the consent screen collects.
+ * - consentText - The current consent text in one of the kiosk's languages.
+ * - consentStatus - Active, expired or withdrawn at a given time.
+ * - coversUse - Whether a consent is active for a purpose and every data category a use needs.
+ */
+
+import { z } from "zod";
+
+import { KIOSK_LANGUAGES, type KioskLanguage } from "@/lib/records/patients";
+
+export const CONSENT_PURPOSES = ["federated-learning", "clinical-research"] as const;
+export type ConsentPurpose = (typeof CONSENT_PURPOSES)[number];
+
+export const CONSENT_SCOPES = ["demographics", "vitals", "lab-results", "diagnoses"] as const;
+export type ConsentScope = (typeof CONSENT_SCOPES)[number];
+
+/** Months a consent lasts before the patient has to be asked again. */
+export const CONSENT_DURATIONS = [6, 12, 24] as const;
+
+export type ConsentStatus = "active" | "expired" | "withdrawn";
+
+/**
+ * Bump when any translation changes meaning. Each consent stores the version
+ * it was given under, so it is always clear what the patient agreed to.
+ */
+export const CONSENT_TEXT_VERSION = "2026-10.1";
+
+type ConsentText = {
+  title: string;
+  body: string[];
+  purposes: Record<ConsentPurpose, string>;
+  scopes: Record<ConsentScope, string>;
+  agreement: string;
+};
+
+const CONSENT_TEXTS: Record<KioskLanguage, ConsentText> = {
+  English: {
+    title: "Consent to use your health records for research",
+    body: [
+      "This kiosk can help improve health care for everyone by letting researchers learn from the records it keeps. Your name, phone number, address, ABHA and Aadhaar numbers are never shared, and ages are grouped so that you cannot be picked out.",
+      "Saying no does not change the care you receive here. You can withdraw at any time at this kiosk. Withdrawing stops your records from being used from then on, but cannot undo their use in models that were already trained.",
+    ],
+    purposes: {
+      "federated-learning": "Training shared risk models with other kiosks (federated learning)",
+      "clinical-research": "Approved clinical research studies",
+    },
+    scopes: {
+      demographics: "Age and sex",
+      vitals: "Vital signs such as blood pressure and pulse",
+      "lab-results": "Laboratory results such as cholesterol",
+      diagnoses: "Diagnoses and treatment plans",
+    },
+    agreement: "I have read or been read this text, and I agree to the uses and records selected above.",
+  },
+  Hindi: {
+    title: "शोध के लिए आपके स्वास्थ्य रिकॉर्ड के उपयोग की सहमति",
+    body: [
+      "यह कियोस्क अपने रिकॉर्ड से शोधकर्ताओं को सीखने देकर सभी के लिए स्वास्थ्य सेवा बेहतर बनाने में मदद कर सकता है। आपका नाम, फ़ोन नंबर, पता, ABHA और आधार नंबर कभी साझा नहीं किए जाते, और उम्र को समूहों में रखा जाता है ताकि आपको पहचाना न जा सके।",
+      "मना करने से यहाँ मिलने वाले इलाज पर कोई असर नहीं पड़ता। आप कभी भी इसी कियोस्क पर अपनी सहमति वापस ले सकते हैं। सहमति वापस लेने के बाद आपके रिकॉर्ड आगे उपयोग नहीं होंगे, पर जो मॉडल पहले से प्रशिक्षित हो चुके हैं उनसे उन्हें हटाया नहीं जा सकता।",
+    ],
+    purposes: {
+      "federated-learning": "अन्य कियोस्क के साथ साझा जोखिम मॉडल का प्रशिक्षण (फ़ेडरेटेड लर्निंग)",
+      "clinical-research": "स्वीकृत क्लिनिकल शोध अध्ययन",
+    },
+    scopes: {
+      demographics: "उम्र और लिंग",
+      vitals: "रक्तचाप और नाड़ी जैसे महत्वपूर्ण संकेत",
+      "lab-results": "कोलेस्ट्रॉल जैसे लैब परिणाम",
+      diagnoses: "निदान और उपचार योजनाएँ",
+    },
+    agreement: "मैंने यह पाठ पढ़ा है या मुझे पढ़कर सुनाया गया है, और मैं ऊपर चुने गए उपयोगों और रिकॉर्ड के लिए सहमत हूँ।",
+  },
+  Punjabi: {
+    title: "ਖੋਜ ਲਈ ਤੁਹਾਡੇ ਸਿਹਤ ਰਿਕਾਰਡ ਵਰਤਣ ਦੀ ਸਹਿਮਤੀ",
+    body: [
+      "ਇਹ ਕਿਓਸਕ ਆਪਣੇ ਰਿਕਾਰਡਾਂ ਤੋਂ ਖੋਜਕਾਰਾਂ ਨੂੰ ਸਿੱਖਣ ਦੇ ਕੇ ਸਾਰਿਆਂ ਲਈ ਸਿਹਤ ਸੇਵਾ ਬਿਹਤਰ ਬਣਾਉਣ ਵਿੱਚ ਮਦਦ ਕਰ ਸਕਦਾ ਹੈ। ਤੁਹਾਡਾ ਨਾਂ, ਫ਼ੋਨ ਨੰਬਰ, ਪਤਾ, ABHA ਅਤੇ ਆਧਾਰ ਨੰਬਰ ਕਦੇ ਸਾਂਝੇ ਨਹੀਂ ਕੀਤੇ ਜਾਂਦੇ, ਅਤੇ ਉਮਰ ਨੂੰ ਸਮੂਹਾਂ ਵਿੱਚ ਰੱਖਿਆ ਜਾਂਦਾ ਹੈ ਤਾਂ ਜੋ ਤੁਹਾਡੀ ਪਛਾਣ ਨਾ ਹੋ ਸਕੇ।",
+      "ਨਾਂਹ ਕਹਿਣ ਨਾਲ ਇੱਥੇ ਮਿਲਣ ਵਾਲੇ ਇਲਾਜ 'ਤੇ ਕੋਈ ਅਸਰ ਨਹੀਂ ਪੈਂਦਾ। ਤੁਸੀਂ ਕਦੇ ਵੀ ਇਸੇ ਕਿਓਸਕ 'ਤੇ ਸਹਿਮਤੀ ਵਾਪਸ ਲੈ ਸਕਦੇ ਹੋ। ਵਾਪਸ ਲੈਣ ਤੋਂ ਬਾਅਦ ਤੁਹਾਡੇ ਰਿਕਾਰਡ ਅੱਗੇ ਨਹੀਂ ਵਰਤੇ ਜਾਣਗੇ, ਪਰ ਪਹਿਲਾਂ ਤੋਂ ਸਿਖਾਏ ਮਾਡਲਾਂ ਵਿੱਚੋਂ ਉਹਨਾਂ ਨੂੰ ਹਟਾਇਆ ਨਹੀਂ ਜਾ ਸਕਦਾ।",
+    ],
+    purposes: {
+      "federated-learning": "ਹੋਰ ਕਿਓਸਕਾਂ ਨਾਲ ਸਾਂਝੇ ਜੋਖਮ ਮਾਡਲ ਸਿਖਾਉਣਾ (ਫ਼ੈਡਰੇਟਿਡ ਲਰਨਿੰਗ)",
+      "clinical-research": "ਮਨਜ਼ੂਰਸ਼ੁਦਾ ਕਲੀਨਿਕਲ ਖੋਜ ਅਧਿਐਨ",
+    },
+    scopes: {
+      demographics: "ਉਮਰ ਅਤੇ ਲਿੰਗ",
+      vitals: "ਬਲੱਡ ਪ੍ਰੈਸ਼ਰ ਅਤੇ ਨਬਜ਼ ਵਰਗੇ ਮਹੱਤਵਪੂਰਨ ਸੰਕੇਤ",
+      "lab-results": "ਕੋਲੈਸਟ੍ਰੋਲ ਵਰਗੇ ਲੈਬ ਨਤੀਜੇ",
+      diagnoses: "ਤਸ਼ਖ਼ੀਸ ਅਤੇ ਇਲਾਜ ਯੋਜਨਾਵਾਂ",
+    },
+    agreement: "ਮੈਂ ਇਹ ਲਿਖਤ ਪੜ੍ਹੀ ਹੈ ਜਾਂ ਮੈਨੂੰ ਪੜ੍ਹ ਕੇ ਸੁਣਾਈ ਗਈ ਹੈ, ਅਤੇ ਮੈਂ ਉੱਪਰ ਚੁਣੇ ਵਰਤੋਂ ਅਤੇ ਰਿਕਾਰਡਾਂ ਲਈ ਸਹਿਮਤ ਹਾਂ।",
+  },
+  Bengali: {
+    title: "গবেষণার জন্য আপনার স্বাস্থ্য রেকর্ড ব্যবহারের সম্মতি",
+    body: [
+      "এই কিয়স্ক তার রেকর্ড থেকে গবেষকদের শিখতে দিয়ে সকলের জন্য স্বাস্থ্যসেবা উন্নত করতে সাহায্য করতে পারে। আপনার নাম, ফোন নম্বর, ঠিকানা, ABHA ও আধার নম্বর কখনও শেয়ার করা হয় না, এবং বয়সকে দলে ভাগ করা হয় যাতে আপনাকে চেনা না যায়।",
+      "না বললে এখানে আপনার চিকিৎসায় কোনো পরিবর্তন হবে না। আপনি যেকোনো সময় এই কিয়স্কেই সম্মতি প্রত্যাহার করতে পারেন। প্রত্যাহারের পর আপনার রেকর্ড আর ব্যবহার করা হবে না, তবে আগে থেকে প্রশিক্ষিত মডেল থেকে সেগুলি সরানো যায় না।",
+    ],
+    purposes: {
+      "federated-learning": "অন্যান্য কিয়স্কের সঙ্গে যৌথ ঝুঁকি মডেল প্রশিক্ষণ (ফেডারেটেড লার্নিং)",
+      "clinical-research": "অনুমোদিত ক্লিনিক্যাল গবেষণা",
+    },
+    scopes: {
+      demographics: "বয়স ও লিঙ্গ",
+      vitals: "রক্তচাপ ও নাড়ির মতো গুরুত্বপূর্ণ লক্ষণ",
+      "lab-results": "কোলেস্টেরলের মতো ল্যাব ফলাফল",
+      diagnoses: "রোগনির্ণয় ও চিকিৎসা পরিকল্পনা",
+    },
+    agreement: "আমি এই লেখাটি পড়েছি বা আমাকে পড়ে শোনানো হয়েছে, এবং উপরে বাছাই করা ব্যবহার ও রেকর্ডে আমি সম্মত।",
+  },
+  Marathi: {
+    title: "संशोधनासाठी तुमच्या आरोग्य नोंदी वापरण्यास संमती",
+    body: [
+      "हा किऑस्क आपल्या नोंदींमधून संशोधकांना शिकू देऊन सर्वांसाठी आरोग्यसेवा सुधारण्यास मदत करू शकतो. तुमचे नाव, फोन नंबर, पत्ता, ABHA आणि आधार क्रमांक कधीही शेअर केले जात नाहीत, आणि वय गटांमध्ये ठेवले जाते जेणेकरून तुम्हाला ओळखता येणार नाही.",
+      "नकार दिल्याने येथे मिळणाऱ्या उपचारांवर काहीही परिणाम होत नाही. तुम्ही कधीही याच किऑस्कवर संमती मागे घेऊ शकता. संमती मागे घेतल्यानंतर तुमच्या नोंदी पुढे वापरल्या जाणार नाहीत, पण आधीच प्रशिक्षित झालेल्या मॉडेलमधून त्या काढता येत नाहीत.",
+    ],
+    purposes: {
+      "federated-learning": "इतर किऑस्कसोबत सामायिक जोखीम मॉडेलचे प्रशिक्षण (फेडरेटेड लर्निंग)",
+      "clinical-research": "मान्यताप्राप्त क्लिनिकल संशोधन अभ्यास",
+    },
+    scopes: {
+      demographics: "वय आणि लिंग",
+      vitals: "रक्तदाब आणि नाडी यांसारखी महत्त्वाची चिन्हे",
+      "lab-results": "कोलेस्टेरॉलसारखे प्रयोगशाळा निकाल",
+      diagnoses: "निदान आणि उपचार योजना",
+    },
+    agreement: "मी हा मजकूर वाचला आहे किंवा मला वाचून दाखवला आहे, आणि वर निवडलेल्या वापरांना व नोंदींना माझी संमती आहे.",
+  },
+  Tamil: {
+    title: "ஆராய்ச்சிக்காக உங்கள் சுகாதாரப் பதிவுகளைப் பயன்படுத்த ஒப்புதல்",
+    body: [
+      "இந்தக் கியோஸ்க் தன் பதிவுகளிலிருந்து ஆராய்ச்சியாளர்கள் கற்றுக்கொள்ள அனுமதித்து, அனைவருக்கும் சுகாதார சேவையை மேம்படுத்த உதவும். உங்கள் பெயர், தொலைபேசி எண், முகவரி, ABHA மற்றும் ஆதார் எண்கள் ஒருபோதும் பகிரப்படாது; உங்களை அடையாளம் காண முடியாதபடி வயது குழுக்களாக வைக்கப்படும்.",
+      "மறுத்தால் இங்கு உங்களுக்குக் கிடைக்கும் சிகிச்சையில் எந்த மாற்றமும் இருக்காது. இதே கியோஸ்கில் எப்போது வேண்டுமானாலும் ஒப்புதலைத் திரும்பப் பெறலாம். திரும்பப் பெற்ற பிறகு உங்கள் பதிவுகள் இனி பயன்படுத்தப்படாது; ஆனால் ஏற்கனவே பயிற்சி பெற்ற மாதிரிகளிலிருந்து அவற்றை நீக்க முடியாது.",
+    ],
+    purposes: {
+      "federated-learning": "மற்ற கியோஸ்க்குகளுடன் பகிரப்பட்ட அபாய மாதிரிகளைப் பயிற்றுவித்தல் (ஃபெடரேட்டட் லேர்னிங்)",
+      "clinical-research": "அங்கீகரிக்கப்பட்ட மருத்துவ ஆராய்ச்சி ஆய்வுகள்",
+    },
+    scopes: {
+      demographics: "வயது மற்றும் பாலினம்",
+      vitals: "இரத்த அழுத்தம், நாடித்துடிப்பு போன்ற உயிர்க் குறிகள்",
+      "lab-results": "கொலஸ்ட்ரால் போன்ற ஆய்வக முடிவுகள்",
+      diagnoses: "நோயறிதல்கள் மற்றும் சிகிச்சைத் திட்டங்கள்",
+    },
+    agreement: "இந்த உரையை நான் படித்தேன் அல்லது எனக்குப் படித்துக் காட்டப்பட்டது; மேலே தேர்ந்தெடுத்த பயன்பாடுகளுக்கும் பதிவுகளுக்கும் நான் ஒப்புக்கொள்கிறேன்.",
+  },
+  Telugu: {
+    title: "పరిశోధన కోసం మీ ఆరోగ్య రికార్డుల వినియోగానికి సమ్మతి",
+    body: [
+      "ఈ కియోస్క్ తన రికార్డుల నుండి పరిశోధకులు నేర్చుకునేలా చేసి అందరికీ ఆరోగ్య సేవలను మెరుగుపరచడంలో సహాయపడగలదు. మీ పేరు, ఫోన్ నంబర్, చిరునామా, ABHA మరియు ఆధార్ నంబర్లు ఎప్పుడూ పంచుకోబడవు, మరియు మిమ్మల్ని గుర్తించలేని విధంగా వయస్సును సమూహాలుగా ఉంచుతారు.",
+      "నిరాకరించడం వల్ల ఇక్కడ మీకు అందే చికిత్సలో ఎలాంటి మార్పూ ఉండదు. మీరు ఎప్పుడైనా ఇదే కియోస్క్‌లో సమ్మతిని ఉపసంహరించుకోవచ్చు. ఉపసంహరించుకున్న తర్వాత మీ రికార్డులు ఇకపై ఉపయోగించబడవు, కానీ ఇప్పటికే శిక్షణ పొందిన మోడళ్ల నుండి వాటిని తొలగించలేము.",
+    ],
+    purposes: {
+      "federated-learning": "ఇతర కియోస్క్‌లతో పంచుకునే ప్రమాద మోడళ్ల శిక్షణ (ఫెడరేటెడ్ లెర్నింగ్)",
+      "clinical-research": "ఆమోదించిన క్లినికల్ పరిశోధన అధ్యయనాలు",
+    },
+    scopes: {
+      demographics: "వయస్సు మరియు లింగం",
+      vitals: "రక్తపోటు, నాడి వంటి ముఖ్యమైన సంకేతాలు",
+      "lab-results": "కొలెస్ట్రాల్ వంటి ల్యాబ్ ఫలితాలు",
+      diagnoses: "రోగ నిర్ధారణలు మరియు చికిత్స ప్రణాళికలు",
+    },
+    agreement: "నేను ఈ పాఠాన్ని చదివాను లేదా నాకు చదివి వినిపించారు, పైన ఎంచుకున్న వినియోగాలకు మరియు రికార్డులకు నేను అంగీకరిస్తున్నాను.",
+  },
+};
+
+/** English labels for staff-facing screens. */
+export const CONSENT_PURPOSE_LABELS = CONSENT_TEXTS.English.purposes;
+export const CONSENT_SCOPE_LABELS = CONSENT_TEXTS.English.scopes;
+
+export function isKioskLanguage(value: string | undefined): value is KioskLanguage {
+  return (KIOSK_LANGUAGES as readonly string[]).includes(value ?? "");
+}
+
+/** The text in the patient's language, or English when the kiosk has no translation. */
+export function consentText(language: string | undefined): ConsentText & { language: KioskLanguage } {
+  const resolved = isKioskLanguage(language) ? language : "English";
+  return { ...CONSENT_TEXTS[resolved], language: resolved };
+}
+
+export const ResearchConsentFormSchema = z.object({
+  purpose: z.enum(CONSENT_PURPOSES),
+  scope: z.array(z.enum(CONSENT_SCOPES)).min(1, "Please choose at least one kind of record."),
+  durationMonths: z.union([z.literal(6), z.literal(12), z.literal(24)]),
+  language: z.enum(KIOSK_LANGUAGES),
+  /** The version of the text that was on screen, so an outdated page cannot record the wrong one. */
+  textVersion: z.string(),
+  agreed: z.literal(true, { errorMap: () => ({ message: "The patient must agree before consent is recorded." }) }),
+});
+export type ResearchConsentForm = z.infer<typeof ResearchConsentFormSchema>;
+
+export function addMonths(iso: string, months: number) {
+  const date = new Date(iso);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  return date.toISOString();
+}
+
+type ConsentDates = { expiresAt: string; withdrawnAt?: string };
+
+export function consentStatus(consent: ConsentDates, now = new Date()): ConsentStatus {
+  if (consent.withdrawnAt) return "withdrawn";
+  return new Date(consent.expiresAt) <= now ? "expired" : "active";
+}
+
+export function coversUse(
+  consent: ConsentDates & { purpose: ConsentPurpose; scope: ConsentScope[] },
+  purpose: ConsentPurpose,
+  scope: readonly ConsentScope[],
+  now = new Date()
+) {
+  return (
+    consentStatus(consent, now) === "active" &&
+    consent.purpose === purpose &&
+    scope.every((category) => consent.scope.includes(category))
+  );
+}
@@ -0,0 +1,101 @@
+import { linkCareContext } from "@/lib/abdm/hip";
+import { getCheckedInPatientId, setCheckedInPatientId } from "@/lib/auth/session";
+import type { SessionPayload } from "@/lib/auth/session-token";
+import { getRecordRepository, kioskId } from "@/lib/records";
+import type { ConsultationSummary, DiagnosisResult, EncounterType, Patient } from "@/lib/records/types";
+import type { Vitals } from "@/lib/vitals";
+
+/**
+ * @fileOverview Saves what the AI flows produce as encounters of the patient
+ * checked in on the current session.
+ *
+ * - findCheckedInPatient - The patient checked in on the session, if any.
+ * - checkedInPatient - The session's patient, creating a walk-in patient when there is none.
+ * - saveDiagnosisEncounter / saveConsultationEncounter - Record one flow call.
+ *
+ * Every saved encounter also becomes an ABDM care context (see abdm/hip.ts),
+ * linked to the patient's ABHA in the background.
+ */
+
+/** Returned to the page alongside the flow output. Empty when saving failed. */
+export type SavedEncounter = { encounterId?: string; patientId?: string };
+
+type Recorded<T> = Omit<T, "id" | "patientId" | "encounterId" | "createdAt">;
+
+export async function findCheckedInPatient(session: SessionPayload): Promise<Patient | null> {
+  const patientId = await getCheckedInPatientId(session);
+  return patientId ? getRecordRepository().getPatient(patientId) : null;
+}
+
+export async function checkedInPatient(session: SessionPayload): Promise<Patient> {
+  const existing = await findCheckedInPatient(session);
+  if (existing) {
+    return existing;
+  }
+  const patient = await getRecordRepository().createPatient({
+    name: `Walk-in patient, ${new Date().toLocaleDateString("en-IN")}`,
+    walkIn: true,
+  });
+  await setCheckedInPatientId(session, patient.id);
+  return patient;
+}
+
+async function startEncounter(session: SessionPayload, type: EncounterType, vitals: Vitals) {
+  const records = getRecordRepository();
+  const patient = await checkedInPatient(session);
+  const startedAt = new Date().toISOString();
+  const encounter = await records.createEncounter({
+    patientId: patient.id,
+    type,
+    kioskId: kioskId(),
+    recordedBy: { userId: session.userId, username: session.username, role: session.role },
+    startedAt,
+  });
+  await records.addVitalsReading({ patientId: patient.id, encounterId: encounter.id, vitals, recordedAt: startedAt });
+  return encounter;
+}
+
+/**
+ * A result the patient has already seen must not be lost to a storage error,
+ * so failures are logged and reported as an empty SavedEncounter.
+ */
+async function saveEncounter(label: string, save: () => Promise<{ id: string; patientId: string }>) {
+  try {
+    const encounter = await save();
+    linkCareContext(encounter.id).catch((error) =>
+      console.error(`Could not record encounter ${encounter.id} as a care context:`, error)
+    );
+    return { encounterId: encounter.id, patientId: encounter.patientId };
+  } catch (error) {
+    console.error(`Could not save the ${label} encounter:`, error);
+    return {};
+  }
+}
+
+export function saveDiagnosisEncounter(
+  session: SessionPayload,
+  vitals: Vitals,
+  result: Recorded<DiagnosisResult>
+): Promise<SavedEncounter> {
+  return saveEncounter("diagnosis", async () => {
+    const encounter = await startEncounter(session, "ai-diagnosis", vitals);
+    await getRecordRepository().addDiagnosisResult({ ...result, patientId: encounter.patientId, encounterId: encounter.id });
+    return encounter;
+  });
+}
+
+export function saveConsultationEncounter(
+  session: SessionPayload,
+  vitals: Vitals,
+  summary: Recorded<ConsultationSummary>
+): Promise<SavedEncounter> {
+  return saveEncounter("tele-consultation", async () => {
+    const encounter = await startEncounter(session, "tele-consultation", vitals);
+    await getRecordRepository().addConsultationSummary({
+      ...summary,
+      patientId: encounter.patientId,
+      encounterId: encounter.id,
+    });
+    return encounter;
+  });
+}
@@ -0,0 +1,47 @@
+import { readJsonFile, updateJsonFile } from "@/lib/storage/json-file";
+import type { DocumentStore } from "@/lib/records/repository";
+import type { RecordCollection } from "@/lib/records/types";
+
+/**
+ * File-backed document store: one JSON file per collection under
+ * `KIOSK_DATA_DIR/records/`. Good for a single kiosk box; writes are
+ * serialised per collection so concurrent requests don't lose updates.
+ */
+
+type Documents = Record<string, { id: string }>;
+
+function fileName(collection: RecordCollection) {
+  return `records/${collection}.json`;
+}
+
+export function createFileDocumentStore(): DocumentStore {
+  function load(collection: RecordCollection) {
+    return readJsonFile<Documents>(fileName(collection), {});
+  }
+
+  return {
+    async get<T extends { id: string }>(collection: RecordCollection, id: string) {
+      const documents = await load(collection);
+      return (documents[id] as T | undefined) ?? null;
+    },
+
+    put(collection, document) {
+      return updateJsonFile<Documents, void>(fileName(collection), {}, (documents) => {
+        documents[document.id] = document;
+      });
+    },
+
+    delete(collection, id) {
+      return updateJsonFile<Documents, void>(fileName(collection), {}, (documents) => {
+        delete documents[id];
+      });
+    },
+
+    async findBy<T extends { id: string }>(collection: RecordCollection, field: string, value: string) {
+      const documents = await load(collection);
+      return Object.values(documents).filter(
+        (document) => (document as Record<string, unknown>)[field] === value
+      ) as T[];
+    },
+  };
+}
@@ -0,0 +1,86 @@
+import { getApps, initializeApp } from "firebase/app";
+import {
+  collection as collectionRef,
+  connectFirestoreEmulator,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  initializeFirestore,
+  query,
+  setDoc,
+  where,
+  type Firestore,
+} from "firebase/firestore";
+
+import type { DocumentStore } from "@/lib/records/repository";
+import type { RecordCollection } from "@/lib/records/types";
+
+/**
+ * Firestore document store. Each record collection maps to a top-level
+ * Firestore collection, prefixed with FIRESTORE_COLLECTION_PREFIX when set so
+ * several kiosks or test runs can share a project.
+ *
+ * With FIRESTORE_EMULATOR_HOST set (e.g. "127.0.0.1:8080") it talks to the
+ * Firebase emulator and only needs a project id, which defaults to the
+ * emulator's "demo-app".
+ */
+
+const APP_NAME = "kiosk-records";
+
+function firestoreConfig() {
+  const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+  const projectId = process.env.FIREBASE_PROJECT_ID ?? (emulatorHost ? "demo-app" : undefined);
+  if (!projectId) {
+    throw new Error("FIREBASE_PROJECT_ID must be set to use the Firestore record store.");
+  }
+  return {
+    projectId,
+    apiKey: process.env.FIREBASE_API_KEY,
+    emulatorHost,
+    prefix: process.env.FIRESTORE_COLLECTION_PREFIX ?? "",
+  };
+}
+
+let firestore: Firestore | undefined;
+
+function openFirestore(projectId: string, apiKey: string | undefined, emulatorHost: string | undefined) {
+  // initializeFirestore may only run once per app, so keep the instance for later stores.
+  if (firestore) {
+    return firestore;
+  }
+  const app = getApps().find((existing) => existing.name === APP_NAME) ?? initializeApp({ projectId, apiKey }, APP_NAME);
+  // Optional fields arrive as `undefined`, which Firestore rejects unless told to drop them.
+  firestore = initializeFirestore(app, { ignoreUndefinedProperties: true });
+  if (emulatorHost) {
+    const [host, port] = emulatorHost.split(":");
+    connectFirestoreEmulator(firestore, host, Number(port));
+  }
+  return firestore;
+}
+
+export function createFirestoreDocumentStore(): DocumentStore {
+  const { projectId, apiKey, emulatorHost, prefix } = firestoreConfig();
+  const db = openFirestore(projectId, apiKey, emulatorHost);
+  const name = (collection: RecordCollection) => `${prefix}${collection}`;
+
+  return {
+    async get<T extends { id: string }>(collection: RecordCollection, id: string) {
+      const snapshot = await getDoc(doc(db, name(collection), id));
+      return snapshot.exists() ? (snapshot.data() as T) : null;
+    },
+
+    async put(collection, document) {
+      await setDoc(doc(db, name(collection), document.id), document);
+    },
+
+    async delete(collection, id) {
+      await deleteDoc(doc(db, name(collection), id));
+    },
+
+    async findBy<T extends { id: string }>(collection: RecordCollection, field: string, value: string) {
+      const snapshot = await getDocs(query(collectionRef(db, name(collection)), where(field, "==", value)));
+      return snapshot.docs.map((document) => document.data() as T);
+    },
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * @fileOverview Entry point of the patient record store.
+ *
+ * - getRecordRepository - The repository for the configured backend.
+ * - kioskId - Identifies this kiosk on every encounter it records.
+ *
+ * KIOSK_RECORD_STORE picks the backend: "file" (default, JSON files under
+ * KIOSK_DATA_DIR) or "firestore" (see firestore-store.ts for its settings).
+ */
+
+import { createFileDocumentStore } from "@/lib/records/file-store";
+import { createFirestoreDocumentStore } from "@/lib/records/firestore-store";
+import { createPatientRecordRepository, type PatientRecordRepository } from "@/lib/records/repository";
+
+export const RECORD_STORES = ["file", "firestore"] as const;
+export type RecordStoreKind = (typeof RECORD_STORES)[number];
+
+function configuredStore(): RecordStoreKind {
+  const value = process.env.KIOSK_RECORD_STORE?.trim().toLowerCase() || "file";
+  if (!(RECORD_STORES as readonly string[]).includes(value)) {
+    throw new Error(`Unknown KIOSK_RECORD_STORE "${value}". Use one of: ${RECORD_STORES.join(", ")}.`);
+  }
+  return value as RecordStoreKind;
+}
+
+let repository: PatientRecordRepository | undefined;
+
+export function getRecordRepository() {
+  if (!repository) {
+    const store = configuredStore() === "firestore" ? createFirestoreDocumentStore() : createFileDocumentStore();
+    repository = createPatientRecordRepository(store);
+  }
+  return repository;
+}
+
+export function kioskId() {
+  return process.env.KIOSK_ID ?? "kiosk-01";
+}
@@ -0,0 +1,97 @@
+/**
+ * @fileOverview Patient registration: the form schema and demographic helpers.
+ * Free of Node APIs so the registration page can validate with the same schema.
+ *
+ * - PatientRegistrationSchema - What the registration form collects.
+ * - normalizePhone - Reduces an Indian mobile number to its ten digits.
+ * - isLikelyDuplicate - Same phone and date of birth (birth year when either is estimated).
+ */
+
+import { z } from "zod";
+
+import { AbhaNumberSchema } from "@/lib/abdm/abha";
+
+export const SEXES = ["female", "male", "other"] as const;
+export type Sex = (typeof SEXES)[number];
+
+export const SEX_LABELS: Record<Sex, string> = {
+  female: "Female",
+  male: "Male",
+  other: "Other",
+};
+
+export const KIOSK_LANGUAGES = ["English", "Hindi", "Punjabi", "Bengali", "Marathi", "Tamil", "Telugu"] as const;
+export type KioskLanguage = (typeof KIOSK_LANGUAGES)[number];
+
+export const AddressSchema = z.object({
+  line: z.string().trim().min(1, "Please enter the house, street or village."),
+  city: z.string().trim().min(1, "Please enter the town or city."),
+  state: z.string().trim().min(1, "Please enter the state."),
+  pincode: z.string().trim().regex(/^[1-9]\d{5}$/, "Please enter a 6-digit PIN code."),
+});
+export type Address = z.infer<typeof AddressSchema>;
+
+/** Strips spaces, dashes and a leading +91 or 0; returns null unless ten digits starting 6-9 remain. */
+export function normalizePhone(phone: string) {
+  const digits = phone.replace(/[\s-]/g, "").replace(/^(\+91|0091|91(?=\d{10}$)|0(?=\d{10}$))/, "");
+  return /^[6-9]\d{9}$/.test(digits) ? digits : null;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function ageFromDateOfBirth(dateOfBirth: string, today = new Date()) {
+  const [year, month, day] = dateOfBirth.split("-").map(Number);
+  let age = today.getFullYear() - year;
+  if (today.getMonth() + 1 < month || (today.getMonth() + 1 === month && today.getDate() < day)) {
+    age -= 1;
+  }
+  return age;
+}
+
+/** An estimated date of birth for someone who only knows their age: 1 January of the likely birth year. */
+export function dateOfBirthFromAge(age: number, today = new Date()) {
+  return `${today.getFullYear() - age}-01-01`;
+}
+
+export const PatientRegistrationSchema = z
+  .object({
+    name: z.string().trim().min(2, "Please enter the patient's full name."),
+    dateOfBirth: z.string().optional(),
+    age: z.number().int().min(0).max(120).optional(),
+    sex: z.enum(SEXES, { required_error: "Please select the patient's sex." }),
+    phone: z.string().refine((phone) => normalizePhone(phone) !== null, "Please enter a valid 10-digit mobile number."),
+    address: AddressSchema,
+    preferredLanguage: z.string().min(1, "Please choose a language."),
+    abhaId: AbhaNumberSchema.optional().or(z.literal("")),
+    medicalHistory: z.string().optional(),
+  })
+  .superRefine((registration, ctx) => {
+    if (registration.dateOfBirth) {
+      const valid =
+        ISO_DATE.test(registration.dateOfBirth) &&
+        !Number.isNaN(Date.parse(registration.dateOfBirth)) &&
+        Date.parse(registration.dateOfBirth) <= Date.now() &&
+        ageFromDateOfBirth(registration.dateOfBirth) <= 120;
+      if (!valid) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["dateOfBirth"], message: "Please enter a valid date of birth." });
+      }
+    } else if (registration.age === undefined) {
+      // The form shows only one of the two inputs, so flag both.
+      for (const path of ["dateOfBirth", "age"]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message: "Please enter the date of birth or the age." });
+      }
+    }
+  });
+export type PatientRegistration = z.infer<typeof PatientRegistrationSchema>;
+
+type BirthDate = { phone?: string; dateOfBirth?: string; dateOfBirthEstimated?: boolean };
+
+export function isLikelyDuplicate(a: BirthDate, b: BirthDate) {
+  if (!a.phone || a.phone !== b.phone || !a.dateOfBirth || !b.dateOfBirth) {
+    return false;
+  }
+  if (a.dateOfBirthEstimated || b.dateOfBirthEstimated) {
+    return Math.abs(Number(a.dateOfBirth.slice(0, 4)) - Number(b.dateOfBirth.slice(0, 4))) <= 1;
+  }
+  return a.dateOfBirth === b.dateOfBirth;
+}
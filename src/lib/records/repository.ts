@@ -0,0 +1,415 @@
+import { randomUUID } from "crypto";
+
+import {
+  AbdmConsentRequestSchema,
+  CareContextSchema,
+  ConsentEventSchema,
+  ConsultationSummarySchema,
+  DiagnosisResultSchema,
+  EncounterSchema,
+  HealthDataRequestSchema,
+  HealthRecordSchema,
+  HipConsentArtefactSchema,
+  PatientSchema,
+  RecordShareSchema,
+  ResearchConsentSchema,
+  VitalsReadingSchema,
+  type AbdmConsentRequest,
+  type CareContext,
+  type ConsentEvent,
+  type ConsultationSummary,
+  type DiagnosisResult,
+  type Encounter,
+  type EncounterRecord,
+  type HealthDataRequest,
+  type HealthRecord,
+  type HipConsentArtefact,
+  type Patient,
+  type RecordCollection,
+  type RecordShare,
+  type RecordedBy,
+  type ResearchConsent,
+  type VitalsReading,
+} from "@/lib/records/types";
+
+/**
+ * @fileOverview The patient record repository.
+ *
+ * Pages and flows only talk to `PatientRecordRepository`. The repository is
+ * written once on top of `DocumentStore`, a minimal document API that the
+ * file-backed store and the Firestore store both provide.
+ */
+
+type StoredDocument = { id: string };
+
+export interface DocumentStore {
+  get<T extends StoredDocument>(collection: RecordCollection, id: string): Promise<T | null>;
+  /** Inserts the document, or replaces the one with the same id. */
+  put<T extends StoredDocument>(collection: RecordCollection, document: T): Promise<void>;
+  /** Removes the document; does nothing if there is none. */
+  delete(collection: RecordCollection, id: string): Promise<void>;
+  /** All documents whose `field` equals `value`, in no particular order. */
+  findBy<T extends StoredDocument>(collection: RecordCollection, field: string, value: string): Promise<T[]>;
+}
+
+type New<T> = Omit<T, "id" | "createdAt" | "updatedAt">;
+
+export interface PatientRecordRepository {
+  createPatient(input: New<Patient>): Promise<Patient>;
+  getPatient(id: string): Promise<Patient | null>;
+  updatePatient(id: string, changes: Partial<New<Patient>>): Promise<Patient>;
+  findPatientsByPhone(phone: string): Promise<Patient[]>;
+  findPatientsByAbhaAddress(abhaAddress: string): Promise<Patient[]>;
+
+  createEncounter(input: Omit<Encounter, "id">): Promise<Encounter>;
+  getEncounter(id: string): Promise<EncounterRecord | null>;
+  /** The patient's encounters, newest first. */
+  listEncounters(patientId: string): Promise<Encounter[]>;
+  /** The patient's encounters with everything recorded in them, newest first. */
+  listEncounterRecords(patientId: string): Promise<EncounterRecord[]>;
+
+  addVitalsReading(input: Omit<VitalsReading, "id">): Promise<VitalsReading>;
+  addDiagnosisResult(input: New<DiagnosisResult>): Promise<DiagnosisResult>;
+  addConsultationSummary(input: New<ConsultationSummary>): Promise<ConsultationSummary>;
+
+  /** Records the consent and logs it as granted. */
+  addResearchConsent(input: Omit<ResearchConsent, "id" | "withdrawnAt" | "withdrawalReason">): Promise<ResearchConsent>;
+  /** The patient's consents, newest first. */
+  listResearchConsents(patientId: string): Promise<ResearchConsent[]>;
+  /** Marks the consent withdrawn and logs it; a consent that is already withdrawn is returned unchanged. */
+  withdrawResearchConsent(id: string, withdrawal: { actor: RecordedBy; reason?: string }): Promise<ResearchConsent>;
+  /** The patient's consent log, newest first. */
+  listConsentEvents(patientId: string): Promise<ConsentEvent[]>;
+
+  createAbdmConsentRequest(input: New<Omit<AbdmConsentRequest, "status" | "artefacts" | "history">>): Promise<AbdmConsentRequest>;
+  getAbdmConsentRequest(id: string): Promise<AbdmConsentRequest | null>;
+  findAbdmConsentRequestByGatewayId(gatewayRequestId: string): Promise<AbdmConsentRequest | null>;
+  /** Applies the changes; a change of status is added to the request's history with `detail`. */
+  updateAbdmConsentRequest(
+    id: string,
+    changes: Partial<New<AbdmConsentRequest>>,
+    detail?: string
+  ): Promise<AbdmConsentRequest>;
+  /** The patient's consent requests, newest first. */
+  listAbdmConsentRequests(patientId: string): Promise<AbdmConsentRequest[]>;
+
+  addHealthDataRequest(input: New<HealthDataRequest>): Promise<HealthDataRequest>;
+  findHealthDataRequestByTransaction(transactionId: string): Promise<HealthDataRequest | null>;
+  updateHealthDataRequest(id: string, changes: Partial<New<HealthDataRequest>>): Promise<HealthDataRequest>;
+
+  addHealthRecord(input: Omit<HealthRecord, "id">): Promise<HealthRecord>;
+  /** The patient's received records, newest first. */
+  listHealthRecords(patientId: string): Promise<HealthRecord[]>;
+  /** Erases the records received under a consent request, or under one of its artefacts; returns how many. */
+  eraseHealthRecords(consentRequestId: string, consentArtefactId?: string): Promise<number>;
+
+  /** Inserts the care context, or replaces the one for the same encounter. */
+  putCareContext(input: New<CareContext>): Promise<CareContext>;
+  getCareContext(id: string): Promise<CareContext | null>;
+  /** The patient's care contexts, newest first. */
+  listCareContexts(patientId: string): Promise<CareContext[]>;
+
+  /** Inserts the artefact, or replaces the one with the same id. */
+  putHipConsentArtefact(input: Omit<HipConsentArtefact, "createdAt" | "updatedAt">): Promise<HipConsentArtefact>;
+  getHipConsentArtefact(id: string): Promise<HipConsentArtefact | null>;
+
+  addRecordShare(input: Omit<RecordShare, "id">): Promise<RecordShare>;
+  /** The patient's record shares, newest first. */
+  listRecordShares(patientId: string): Promise<RecordShare[]>;
+}
+
+export class RecordNotFoundError extends Error {
+  constructor(collection: RecordCollection, id: string) {
+    super(`No record ${id} in ${collection}.`);
+    this.name = "RecordNotFoundError";
+  }
+}
+
+export function createPatientRecordRepository(store: DocumentStore): PatientRecordRepository {
+  const now = () => new Date().toISOString();
+
+  async function getPatient(id: string) {
+    return store.get<Patient>("patients", id);
+  }
+
+  async function listEncounters(patientId: string) {
+    const encounters = await store.findBy<Encounter>("encounters", "patientId", patientId);
+    return encounters.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  async function logConsentEvent(
+    consent: ResearchConsent,
+    action: ConsentEvent["action"],
+    actor: RecordedBy,
+    detail: string
+  ) {
+    const event = ConsentEventSchema.parse({
+      id: randomUUID(),
+      patientId: consent.patientId,
+      consentId: consent.id,
+      action,
+      at: now(),
+      actor,
+      detail,
+    });
+    await store.put("consentEvents", event);
+  }
+
+  return {
+    async createPatient(input) {
+      const timestamp = now();
+      const patient = PatientSchema.parse({ ...input, id: randomUUID(), createdAt: timestamp, updatedAt: timestamp });
+      await store.put("patients", patient);
+      return patient;
+    },
+
+    getPatient,
+
+    async updatePatient(id, changes) {
+      const existing = await getPatient(id);
+      if (!existing) {
+        throw new RecordNotFoundError("patients", id);
+      }
+      const patient = PatientSchema.parse({ ...existing, ...changes, id, updatedAt: now() });
+      await store.put("patients", patient);
+      return patient;
+    },
+
+    findPatientsByPhone(phone) {
+      return store.findBy<Patient>("patients", "phone", phone);
+    },
+
+    findPatientsByAbhaAddress(abhaAddress) {
+      return store.findBy<Patient>("patients", "abhaAddress", abhaAddress);
+    },
+
+    async createEncounter(input) {
+      if (!(await getPatient(input.patientId))) {
+        throw new RecordNotFoundError("patients", input.patientId);
+      }
+      const encounter = EncounterSchema.parse({ ...input, id: randomUUID() });
+      await store.put("encounters", encounter);
+      return encounter;
+    },
+
+    async getEncounter(id) {
+      const encounter = await store.get<Encounter>("encounters", id);
+      if (!encounter) {
+        return null;
+      }
+      const [vitals, diagnoses, consultations] = await Promise.all([
+        store.findBy<VitalsReading>("vitalsReadings", "encounterId", id),
+        store.findBy<DiagnosisResult>("diagnosisResults", "encounterId", id),
+        store.findBy<ConsultationSummary>("consultationSummaries", "encounterId", id),
+      ]);
+      return { encounter, vitals, diagnoses, consultations };
+    },
+
+    listEncounters,
+
+    async listEncounterRecords(patientId) {
+      const [encounters, vitals, diagnoses, consultations] = await Promise.all([
+        listEncounters(patientId),
+        store.findBy<VitalsReading>("vitalsReadings", "patientId", patientId),
+        store.findBy<DiagnosisResult>("diagnosisResults", "patientId", patientId),
+        store.findBy<ConsultationSummary>("consultationSummaries", "patientId", patientId),
+      ]);
+      return encounters.map((encounter) => ({
+        encounter,
+        vitals: vitals.filter((reading) => reading.encounterId === encounter.id),
+        diagnoses: diagnoses.filter((result) => result.encounterId === encounter.id),
+        consultations: consultations.filter((summary) => summary.encounterId === encounter.id),
+      }));
+    },
+
+    async addVitalsReading(input) {
+      const reading = VitalsReadingSchema.parse({ ...input, id: randomUUID() });
+      await store.put("vitalsReadings", reading);
+      return reading;
+    },
+
+    async addDiagnosisResult(input) {
+      const result = DiagnosisResultSchema.parse({ ...input, id: randomUUID(), createdAt: now() });
+      await store.put("diagnosisResults", result);
+      return result;
+    },
+
+    async addConsultationSummary(input) {
+      const summary = ConsultationSummarySchema.parse({ ...input, id: randomUUID(), createdAt: now() });
+      await store.put("consultationSummaries", summary);
+      return summary;
+    },
+
+    async addResearchConsent(input) {
+      if (!(await getPatient(input.patientId))) {
+        throw new RecordNotFoundError("patients", input.patientId);
+      }
+      const consent = ResearchConsentSchema.parse({ ...input, id: randomUUID() });
+      await store.put("researchConsents", consent);
+      await logConsentEvent(consent, "granted", input.recordedBy, `Expires ${consent.expiresAt.slice(0, 10)}.`);
+      return consent;
+    },
+
+    async listResearchConsents(patientId) {
+      const consents = await store.findBy<ResearchConsent>("researchConsents", "patientId", patientId);
+      return consents.sort((a, b) => b.grantedAt.localeCompare(a.grantedAt));
+    },
+
+    async withdrawResearchConsent(id, { actor, reason }) {
+      const existing = await store.get<ResearchConsent>("researchConsents", id);
+      if (!existing) {
+        throw new RecordNotFoundError("researchConsents", id);
+      }
+      if (existing.withdrawnAt) {
+        return existing;
+      }
+      const consent = ResearchConsentSchema.parse({ ...existing, withdrawnAt: now(), withdrawalReason: reason || undefined });
+      await store.put("researchConsents", consent);
+      await logConsentEvent(consent, "withdrawn", actor, reason || "No reason given.");
+      return consent;
+    },
+
+    async listConsentEvents(patientId) {
+      const events = await store.findBy<ConsentEvent>("consentEvents", "patientId", patientId);
+      return events.sort((a, b) => b.at.localeCompare(a.at));
+    },
+
+    async createAbdmConsentRequest(input) {
+      if (!(await getPatient(input.patientId))) {
+        throw new RecordNotFoundError("patients", input.patientId);
+      }
+      const timestamp = now();
+      const request = AbdmConsentRequestSchema.parse({
+        ...input,
+        id: randomUUID(),
+        status: "requested",
+        artefacts: [],
+        history: [{ status: "requested", at: timestamp, detail: "Sent to the patient's consent manager." }],
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      });
+      await store.put("abdmConsentRequests", request);
+      return request;
+    },
+
+    getAbdmConsentRequest(id) {
+      return store.get<AbdmConsentRequest>("abdmConsentRequests", id);
+    },
+
+    async findAbdmConsentRequestByGatewayId(gatewayRequestId) {
+      const [request] = await store.findBy<AbdmConsentRequest>("abdmConsentRequests", "gatewayRequestId", gatewayRequestId);
+      return request ?? null;
+    },
+
+    async updateAbdmConsentRequest(id, changes, detail) {
+      const existing = await store.get<AbdmConsentRequest>("abdmConsentRequests", id);
+      if (!existing) {
+        throw new RecordNotFoundError("abdmConsentRequests", id);
+      }
+      const timestamp = now();
+      const history =
+        changes.status && changes.status !== existing.status
+          ? [...existing.history, { status: changes.status, at: timestamp, detail: detail ?? "" }]
+          : existing.history;
+      const request = AbdmConsentRequestSchema.parse({ ...existing, ...changes, id, history, updatedAt: timestamp });
+      await store.put("abdmConsentRequests", request);
+      return request;
+    },
+
+    async listAbdmConsentRequests(patientId) {
+      const requests = await store.findBy<AbdmConsentRequest>("abdmConsentRequests", "patientId", patientId);
+      return requests.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    async addHealthDataRequest(input) {
+      const timestamp = now();
+      const request = HealthDataRequestSchema.parse({ ...input, id: randomUUID(), createdAt: timestamp, updatedAt: timestamp });
+      await store.put("healthDataRequests", request);
+      return request;
+    },
+
+    async findHealthDataRequestByTransaction(transactionId) {
+      const [request] = await store.findBy<HealthDataRequest>("healthDataRequests", "transactionId", transactionId);
+      return request ?? null;
+    },
+
+    async updateHealthDataRequest(id, changes) {
+      const existing = await store.get<HealthDataRequest>("healthDataRequests", id);
+      if (!existing) {
+        throw new RecordNotFoundError("healthDataRequests", id);
+      }
+      const request = HealthDataRequestSchema.parse({ ...existing, ...changes, id, updatedAt: now() });
+      await store.put("healthDataRequests", request);
+      return request;
+    },
+
+    async addHealthRecord(input) {
+      const record = HealthRecordSchema.parse({ ...input, id: randomUUID() });
+      await store.put("healthRecords", record);
+      return record;
+    },
+
+    async listHealthRecords(patientId) {
+      const records = await store.findBy<HealthRecord>("healthRecords", "patientId", patientId);
+      return records.sort((a, b) => b.receivedAt.localeCompare(a.receivedAt));
+    },
+
+    async eraseHealthRecords(consentRequestId, consentArtefactId) {
+      const records = await store.findBy<HealthRecord>("healthRecords", "consentRequestId", consentRequestId);
+      const erased = records.filter((record) => !consentArtefactId || record.consentArtefactId === consentArtefactId);
+      for (const record of erased) {
+        await store.delete("healthRecords", record.id);
+      }
+      return erased.length;
+    },
+
+    async putCareContext(input) {
+      const existing = await store.get<CareContext>("careContexts", input.encounterId);
+      const timestamp = now();
+      const careContext = CareContextSchema.parse({
+        ...input,
+        id: input.encounterId,
+        createdAt: existing?.createdAt ?? timestamp,
+        updatedAt: timestamp,
+      });
+      await store.put("careContexts", careContext);
+      return careContext;
+    },
+
+    getCareContext(id) {
+      return store.get<CareContext>("careContexts", id);
+    },
+
+    async listCareContexts(patientId) {
+      const careContexts = await store.findBy<CareContext>("careContexts", "patientId", patientId);
+      return careContexts.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    async putHipConsentArtefact(input) {
+      const existing = await store.get<HipConsentArtefact>("hipConsentArtefacts", input.id);
+      const timestamp = now();
+      const artefact = HipConsentArtefactSchema.parse({
+        ...input,
+        createdAt: existing?.createdAt ?? timestamp,
+        updatedAt: timestamp,
+      });
+      await store.put("hipConsentArtefacts", artefact);
+      return artefact;
+    },
+
+    getHipConsentArtefact(id) {
+      return store.get<HipConsentArtefact>("hipConsentArtefacts", id);
+    },
+
+    async addRecordShare(input) {
+      const share = RecordShareSchema.parse({ ...input, id: randomUUID() });
+      await store.put("recordShares", share);
+      return share;
+    },
+
+    async listRecordShares(patientId) {
+      const shares = await store.findBy<RecordShare>("recordShares", "patientId", patientId);
+      return shares.sort((a, b) => b.sharedAt.localeCompare(a.sharedAt));
+    },
+  };
+}
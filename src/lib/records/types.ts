@@ -0,0 +1,302 @@
+/**
+ * @fileOverview Entities of the kiosk's patient record store.
+ *
+ * - PatientSchema - A person seen at the kiosk. Walk-in patients only have a name until they register.
+ * - EncounterSchema - One kiosk interaction (an AI assessment or a tele-consultation).
+ * - VitalsReadingSchema - The vitals captured during an encounter.
+ * - DiagnosisResultSchema - The AI diagnosis produced during an encounter.
+ * - ConsultationSummarySchema - The tele-consultation summary produced during an encounter.
+ * - ResearchConsentSchema - A patient's consent to research use of their records.
+ * - ConsentEventSchema - One entry of the consent log: a consent given or withdrawn.
+ * - AbdmConsentRequestSchema - A request, through ABDM, for the patient's records held elsewhere.
+ * - HealthDataRequestSchema - One request for the data of a granted consent artefact, with the key to decrypt it.
+ * - HealthRecordSchema - A FHIR bundle received from another facility under a consent.
+ * - CareContextSchema - An encounter as ABDM sees it, linked to the patient's ABHA once possible.
+ * - HipConsentArtefactSchema - A consent, notified by ABDM, for another facility to fetch this kiosk's records.
+ * - RecordShareSchema - One transfer of the patient's kiosk records to another facility.
+ *
+ * Every record is stored as a flat document keyed by `id`, with `patientId`
+ * (and `encounterId` below the encounter) so each store can look records up
+ * by a single field.
+ */
+
+import { z } from "zod";
+
+import { ProviderInfoSchema } from "@/ai/providers/config";
+import { CONSENT_REQUEST_PURPOSES, CONSENT_REQUEST_STATUSES, HI_TYPES } from "@/lib/abdm/health-information";
+import { Icd10ValidationSchema } from "@/lib/icd10";
+import { ROLES } from "@/lib/auth/roles";
+import { CONSENT_PURPOSES, CONSENT_SCOPES } from "@/lib/records/consent";
+import { AddressSchema, SEXES } from "@/lib/records/patients";
+import { TriageResultSchema } from "@/lib/triage";
+import { VitalsSchema } from "@/lib/vitals";
+
+export const RECORD_COLLECTIONS = [
+  "patients",
+  "encounters",
+  "vitalsReadings",
+  "diagnosisResults",
+  "consultationSummaries",
+  "researchConsents",
+  "consentEvents",
+  "abdmConsentRequests",
+  "healthDataRequests",
+  "healthRecords",
+  "careContexts",
+  "hipConsentArtefacts",
+  "recordShares",
+] as const;
+export type RecordCollection = (typeof RECORD_COLLECTIONS)[number];
+
+const timestamp = z.string().datetime();
+
+export const PatientSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  /** Created automatically for a session that never registered anyone. */
+  walkIn: z.boolean(),
+  /** YYYY-MM-DD. */
+  dateOfBirth: z.string().optional(),
+  /** True when only the age was known and dateOfBirth is derived from it. */
+  dateOfBirthEstimated: z.boolean().optional(),
+  sex: z.enum(SEXES).optional(),
+  /** Ten-digit mobile number, see normalizePhone. */
+  phone: z.string().optional(),
+  address: AddressSchema.optional(),
+  preferredLanguage: z.string().optional(),
+  medicalHistory: z.string().optional(),
+  /** ABHA number, 12-3456-7890-1234. */
+  abhaId: z.string().optional(),
+  /** ABHA address, name@abdm. */
+  abhaAddress: z.string().optional(),
+  abhaLinkedAt: timestamp.optional(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+export type Patient = z.infer<typeof PatientSchema>;
+
+export const ENCOUNTER_TYPES = ["ai-diagnosis", "tele-consultation"] as const;
+export type EncounterType = (typeof ENCOUNTER_TYPES)[number];
+
+export const ENCOUNTER_TYPE_LABELS: Record<EncounterType, string> = {
+  "ai-diagnosis": "AI assessment",
+  "tele-consultation": "Tele-consultation",
+};
+
+const RecordedBySchema = z.object({
+  userId: z.string(),
+  username: z.string(),
+  role: z.enum(ROLES),
+});
+export type RecordedBy = z.infer<typeof RecordedBySchema>;
+
+export const EncounterSchema = z.object({
+  id: z.string(),
+  patientId: z.string(),
+  type: z.enum(ENCOUNTER_TYPES),
+  kioskId: z.string(),
+  recordedBy: RecordedBySchema,
+  startedAt: timestamp,
+});
+export type Encounter = z.infer<typeof EncounterSchema>;
+
+export const VitalsReadingSchema = z.object({
+  id: z.string(),
+  patientId: z.string(),
+  encounterId: z.string(),
+  vitals: VitalsSchema,
+  recordedAt: timestamp,
+});
+export type VitalsReading = z.infer<typeof VitalsReadingSchema>;
+
+const StoredDifferentialSchema = z.object({
+  rank: z.number(),
+  condition: z.string(),
+  icd10Code: z.string(),
+  likelihood: z.number(),
+  supportingFindings: z.array(z.string()),
+  contradictingFindings: z.array(z.string()),
+  recommendedInvestigations: z.array(z.string()),
+  icd10: Icd10ValidationSchema,
+});
+
+export const DiagnosisResultSchema = z.object({
+  id: z.string(),
+  patientId: z.string(),
+  encounterId: z.string(),
+  symptoms: z.string(),
+  medicalHistory: z.string().optional(),
+  preliminaryDiagnosis: z.string(),
+  suggestedTreatmentPlan: z.string(),
+  confidenceLevel: z.number(),
+  differentialDiagnoses: z.array(StoredDifferentialSchema),
+  triage: TriageResultSchema,
+  provider: ProviderInfoSchema.optional(),
+  createdAt: timestamp,
+});
+export type DiagnosisResult = z.infer<typeof DiagnosisResultSchema>;
+
+export const ConsultationSummarySchema = z.object({
+  id: z.string(),
+  patientId: z.string(),
+  encounterId: z.string(),
+  medicalHistory: z.string(),
+  labResults: z.string(),
+  imagingResults: z.string(),
+  preferredLanguage: z.string(),
+  summary: z.string(),
+  provider: ProviderInfoSchema.optional(),
+  createdAt: timestamp,
+});
+export type ConsultationSummary = z.infer<typeof ConsultationSummarySchema>;
+
+export const ResearchConsentSchema = z.object({
+  id: z.string(),
+  patientId: z.string(),
+  purpose: z.enum(CONSENT_PURPOSES),
+  scope: z.array(z.enum(CONSENT_SCOPES)).min(1),
+  /** CONSENT_TEXT_VERSION and language of the text the patient was shown. */
+  textVersion: z.string(),
+  language: z.string(),
+  kioskId: z.string(),
+  recordedBy: RecordedBySchema,
+  grantedAt: timestamp,
+  expiresAt: timestamp,
+  withdrawnAt: timestamp.optional(),
+  withdrawalReason: z.string().optional(),
+});
+export type ResearchConsent = z.infer<typeof ResearchConsentSchema>;
+
+export const CONSENT_EVENT_ACTIONS = ["granted", "withdrawn"] as const;
+
+export const ConsentEventSchema = z.object({
+  id: z.string(),
+  patientId: z.string(),
+  consentId: z.string(),
+  action: z.enum(CONSENT_EVENT_ACTIONS),
+  at: timestamp,
+  actor: RecordedBySchema,
+  detail: z.string(),
+});
+export type ConsentEvent = z.infer<typeof ConsentEventSchema>;
+
+export const AbdmConsentRequestSchema = z.object({
+  id: z.string(),
+  patientId: z.string(),
+  abhaAddress: z.string(),
+  /** The consent manager's id for the request, known once ABDM has accepted it. */
+  gatewayRequestId: z.string().optional(),
+  purpose: z.enum(CONSENT_REQUEST_PURPOSES),
+  hiTypes: z.array(z.enum(HI_TYPES)).min(1),
+  dateRange: z.object({ from: timestamp, to: timestamp }),
+  /** When the kiosk must erase the records received under this consent. */
+  dataEraseAt: timestamp,
+  status: z.enum(CONSENT_REQUEST_STATUSES),
+  /** One per facility the patient granted access to. */
+  artefacts: z.array(
+    z.object({
+      id: z.string(),
+      hipId: z.string().optional(),
+      hipName: z.string().optional(),
+      status: z.enum(["granted", "revoked", "expired"]),
+    })
+  ),
+  history: z.array(z.object({ status: z.enum(CONSENT_REQUEST_STATUSES), at: timestamp, detail: z.string() })),
+  recordedBy: RecordedBySchema,
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+export type AbdmConsentRequest = z.infer<typeof AbdmConsentRequestSchema>;
+
+export const HealthDataRequestSchema = z.object({
+  id: z.string(),
+  patientId: z.string(),
+  consentRequestId: z.string(),
+  consentArtefactId: z.string(),
+  /** The gateway's id for the transfer, known once ABDM has accepted the request. */
+  transactionId: z.string().optional(),
+  status: z.enum(["requested", "received", "failed"]),
+  /** The kiosk's half of the key exchange; dropped once the data has been decrypted. */
+  keyMaterial: z
+    .object({ privateKey: z.string(), publicKey: z.string(), nonce: z.string(), expiresAt: timestamp })
+    .optional(),
+  entryCount: z.number().int().optional(),
+  error: z.string().optional(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+export type HealthDataRequest = z.infer<typeof HealthDataRequestSchema>;
+
+export const HealthRecordSchema = z.object({
+  id: z.string(),
+  patientId: z.string(),
+  consentRequestId: z.string(),
+  consentArtefactId: z.string(),
+  transactionId: z.string(),
+  careContextReference: z.string(),
+  hipId: z.string(),
+  hipName: z.string().optional(),
+  /** The decrypted FHIR bundle. */
+  bundle: z.record(z.unknown()),
+  receivedAt: timestamp,
+  eraseAt: timestamp,
+});
+export type HealthRecord = z.infer<typeof HealthRecordSchema>;
+
+export const CARE_CONTEXT_STATUSES = ["pending", "linked", "failed"] as const;
+
+export const CareContextSchema = z.object({
+  /** The encounter id, which is also the care context's reference number. */
+  id: z.string(),
+  patientId: z.string(),
+  encounterId: z.string(),
+  display: z.string(),
+  hiTypes: z.array(z.enum(HI_TYPES)).min(1),
+  /** "pending" until the patient has an ABHA to link it to. */
+  status: z.enum(CARE_CONTEXT_STATUSES),
+  abhaAddress: z.string().optional(),
+  linkedAt: timestamp.optional(),
+  error: z.string().optional(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+export type CareContext = z.infer<typeof CareContextSchema>;
+
+export const HipConsentArtefactSchema = z.object({
+  /** The consent artefact id. */
+  id: z.string(),
+  patientId: z.string(),
+  abhaAddress: z.string(),
+  hiuId: z.string(),
+  purpose: z.string(),
+  hiTypes: z.array(z.enum(HI_TYPES)),
+  careContextReferences: z.array(z.string()),
+  dateRange: z.object({ from: timestamp, to: timestamp }),
+  dataEraseAt: timestamp,
+  status: z.enum(["granted", "revoked", "expired"]),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+export type HipConsentArtefact = z.infer<typeof HipConsentArtefactSchema>;
+
+export const RecordShareSchema = z.object({
+  id: z.string(),
+  patientId: z.string(),
+  consentArtefactId: z.string(),
+  hiuId: z.string(),
+  purpose: z.string(),
+  transactionId: z.string(),
+  careContextReferences: z.array(z.string()),
+  status: z.enum(["delivered", "failed", "refused"]),
+  detail: z.string(),
+  sharedAt: timestamp,
+});
+export type RecordShare = z.infer<typeof RecordShareSchema>;
+
+/** Everything recorded during one encounter. */
+export type EncounterRecord = {
+  encounter: Encounter;
+  vitals: VitalsReading[];
+  diagnoses: DiagnosisResult[];
+  consultations: ConsultationSummary[];
+};
@@ -0,0 +1,52 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Small helper for the kiosk's file-backed stores. Everything lives under
+ * KIOSK_DATA_DIR (default `.data/` in the project root) so a kiosk box can
+ * point it at persistent storage.
+ */
+export function dataDir() {
+  return process.env.KIOSK_DATA_DIR ?? path.join(process.cwd(), ".data");
+}
+
+export async function readJsonFile<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(path.join(dataDir(), name), "utf8");
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+export async function writeJsonFile(name: string, data: unknown) {
+  const file = path.join(dataDir(), name);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  // Write to a temp file first so a power cut never leaves half a JSON document behind.
+  const tmp = `${file}.${randomUUID()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(data, null, 2), "utf8");
+  await fs.rename(tmp, file);
+}
+
+const updates = new Map<string, Promise<unknown>>();
+
+/**
+ * Reads a file, lets `mutate` change the data in place and writes it back,
+ * one update per file at a time so that concurrent requests in this process
+ * do not overwrite each other's changes. Nothing is written if `mutate` throws.
+ * Resolves with what `mutate` returns.
+ */
+export function updateJsonFile<D, T>(name: string, fallback: D, mutate: (data: D) => T | Promise<T>): Promise<T> {
+  const run = (updates.get(name) ?? Promise.resolve()).catch(() => undefined).then(async () => {
+    const data = await readJsonFile(name, fallback);
+    const result = await mutate(data);
+    await writeJsonFile(name, data);
+    return result;
+  });
+  updates.set(name, run);
+  return run;
+}
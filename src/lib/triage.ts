@@ -0,0 +1,180 @@
+/**
+ * @fileOverview Deterministic red-flag triage that runs before any AI model.
+ *
+ * - triagePatient - Applies the rules to symptoms and vitals and returns an urgency level.
+ * - TriageResultSchema - Zod schema for the triage result.
+ * - EMERGENCY_GUIDANCE - What the kiosk tells the patient while an ambulance is on its way.
+ *
+ * The rules are intentionally conservative: a false alarm costs a phone call,
+ * a missed emergency can cost a life. Whatever the model later says, an
+ * emergency here is shown as an emergency.
+ */
+
+import { z } from "zod";
+
+import { canonicalVitals, type Vitals } from "@/lib/vitals";
+
+export const URGENCY_LEVELS = ["emergency", "urgent", "routine"] as const;
+export type Urgency = (typeof URGENCY_LEVELS)[number];
+
+export const URGENCY_LABELS: Record<Urgency, string> = {
+  emergency: "Emergency",
+  urgent: "Urgent",
+  routine: "Routine",
+};
+
+export const RedFlagSchema = z.object({
+  id: z.string().describe("Stable identifier of the rule that fired."),
+  urgency: z.enum(URGENCY_LEVELS),
+  finding: z.string().describe("Human-readable description of what triggered the rule."),
+});
+export type RedFlag = z.infer<typeof RedFlagSchema>;
+
+export const TriageResultSchema = z.object({
+  urgency: z.enum(URGENCY_LEVELS).describe("Highest urgency among the red flags, or routine."),
+  redFlags: z.array(RedFlagSchema),
+  advice: z.string().describe("What the patient should do next."),
+});
+export type TriageResult = z.infer<typeof TriageResultSchema>;
+
+export type TriageInput = {
+  symptoms: string;
+  vitals: Vitals;
+};
+
+type VitalRule = {
+  id: string;
+  urgency: Urgency;
+  test: (values: ReturnType<typeof canonicalVitals>) => string | null;
+};
+
+const VITAL_RULES: VitalRule[] = [
+  { id: "spo2-critical", urgency: "emergency", test: (v) => (v.spo2 !== undefined && v.spo2 < 90 ? `SpO2 ${v.spo2}% (below 90%)` : null) },
+  { id: "spo2-low", urgency: "urgent", test: (v) => (v.spo2 !== undefined && v.spo2 >= 90 && v.spo2 < 94 ? `SpO2 ${v.spo2}% (below 94%)` : null) },
+  { id: "bp-crisis", urgency: "emergency", test: (v) => (v.systolic !== undefined && v.systolic > 180 ? `Systolic BP ${v.systolic} mmHg (above 180)` : null) },
+  { id: "bp-diastolic-crisis", urgency: "emergency", test: (v) => (v.diastolic !== undefined && v.diastolic > 120 ? `Diastolic BP ${v.diastolic} mmHg (above 120)` : null) },
+  { id: "bp-shock", urgency: "emergency", test: (v) => (v.systolic !== undefined && v.systolic < 80 ? `Systolic BP ${v.systolic} mmHg (below 80)` : null) },
+  { id: "bp-high", urgency: "urgent", test: (v) => (v.systolic !== undefined && v.systolic >= 160 && v.systolic <= 180 ? `Systolic BP ${v.systolic} mmHg (160-180)` : null) },
+  { id: "hr-extreme", urgency: "emergency", test: (v) => (v.heartRate !== undefined && (v.heartRate > 150 || v.heartRate < 40) ? `Heart rate ${v.heartRate} bpm` : null) },
+  { id: "hr-abnormal", urgency: "urgent", test: (v) => (v.heartRate !== undefined && v.heartRate > 120 && v.heartRate <= 150 ? `Heart rate ${v.heartRate} bpm (above 120)` : null) },
+  { id: "rr-extreme", urgency: "emergency", test: (v) => (v.respiratoryRate !== undefined && (v.respiratoryRate > 30 || v.respiratoryRate < 8) ? `Respiratory rate ${v.respiratoryRate}/min` : null) },
+  { id: "rr-high", urgency: "urgent", test: (v) => (v.respiratoryRate !== undefined && v.respiratoryRate > 24 && v.respiratoryRate <= 30 ? `Respiratory rate ${v.respiratoryRate}/min (above 24)` : null) },
+  { id: "temp-extreme", urgency: "emergency", test: (v) => (v.temperature !== undefined && (v.temperature >= 41 || v.temperature < 35) ? `Temperature ${v.temperature.toFixed(1)} °C` : null) },
+  { id: "temp-high", urgency: "urgent", test: (v) => (v.temperature !== undefined && v.temperature >= 39.5 && v.temperature < 41 ? `Temperature ${v.temperature.toFixed(1)} °C (39.5 or above)` : null) },
+  { id: "glucose-extreme", urgency: "emergency", test: (v) => (v.bloodGlucose !== undefined && (v.bloodGlucose < 54 || v.bloodGlucose > 400) ? `Blood glucose ${Math.round(v.bloodGlucose)} mg/dL` : null) },
+  { id: "glucose-high", urgency: "urgent", test: (v) => (v.bloodGlucose !== undefined && v.bloodGlucose > 300 && v.bloodGlucose <= 400 ? `Blood glucose ${Math.round(v.bloodGlucose)} mg/dL (above 300)` : null) },
+];
+
+/**
+ * Symptom concepts matched by keyword, as whole words (a plural "s" or "es"
+ * may follow), so "benefits" is not "fits" and "forearm pain" is not "arm
+ * pain". Other inflections are listed as terms of their own. Besides English
+ * the lists include a few common romanised Hindi terms patients type at the
+ * kiosk.
+ */
+const SYMPTOM_TERMS = {
+  chestPain: ["chest pain", "chest tightness", "chest pressure", "pain in chest", "seene mein dard", "chhati mein dard"],
+  sweating: ["sweating", "sweaty", "diaphoresis", "cold sweat", "pasina"],
+  breathless: ["shortness of breath", "short of breath", "breathless", "difficulty breathing", "can't breathe", "cannot breathe", "saans phool", "saans lene mein"],
+  radiatingPain: ["left arm", "jaw pain", "pain in jaw", "arm pain", "pain spreading"],
+  stroke: ["facial droop", "face drooping", "slurred speech", "weakness on one side", "one side weak", "cannot move arm", "sudden numbness", "lakwa"],
+  unconscious: ["unconscious", "fainted", "not responding", "unresponsive", "behosh", "behoshi"],
+  seizure: ["seizure", "convulsion", "fits", "mirgi"],
+  severeBleeding: ["severe bleeding", "heavy bleeding", "bleeding heavily", "vomiting blood", "coughing blood", "blood in vomit"],
+  suicidal: ["suicide", "suicidal", "kill myself", "end my life"],
+  poisoning: ["poison", "poisoned", "poisoning", "pesticide", "snake bite", "snakebite", "overdose", "overdosed"],
+  severeAbdominal: ["severe abdominal pain", "severe stomach pain", "severe pain in abdomen"],
+  blackStool: ["black stool", "blood in stool", "bloody stool"],
+  pregnancyBleeding: ["pregnant and bleeding", "bleeding during pregnancy", "pregnancy bleeding"],
+  stiffNeck: ["stiff neck", "neck stiffness"],
+  fever: ["fever", "feverish", "bukhar"],
+} satisfies Record<string, string[]>;
+type SymptomConcept = keyof typeof SYMPTOM_TERMS;
+
+type SymptomRule = {
+  id: string;
+  urgency: Urgency;
+  /** Every group must match at least one of its concepts. */
+  requires: SymptomConcept[][];
+  finding: string;
+};
+
+const SYMPTOM_RULES: SymptomRule[] = [
+  { id: "acs-sweating", urgency: "emergency", requires: [["chestPain"], ["sweating", "breathless", "radiatingPain"]], finding: "Chest pain with sweating, breathlessness or radiating pain (possible heart attack)" },
+  { id: "stroke-signs", urgency: "emergency", requires: [["stroke"]], finding: "Signs of stroke (facial droop, slurred speech or one-sided weakness)" },
+  { id: "unconscious", urgency: "emergency", requires: [["unconscious"]], finding: "Loss of consciousness" },
+  { id: "seizure", urgency: "emergency", requires: [["seizure"]], finding: "Seizure" },
+  { id: "severe-bleeding", urgency: "emergency", requires: [["severeBleeding"]], finding: "Severe bleeding" },
+  { id: "suicidal", urgency: "emergency", requires: [["suicidal"]], finding: "Thoughts of self-harm" },
+  { id: "poisoning", urgency: "emergency", requires: [["poisoning"]], finding: "Poisoning, overdose or snake bite" },
+  { id: "pregnancy-bleeding", urgency: "emergency", requires: [["pregnancyBleeding"]], finding: "Bleeding during pregnancy" },
+  { id: "fever-stiff-neck", urgency: "emergency", requires: [["fever"], ["stiffNeck"]], finding: "Fever with stiff neck (possible meningitis)" },
+  { id: "chest-pain", urgency: "urgent", requires: [["chestPain"]], finding: "Chest pain" },
+  { id: "breathless", urgency: "urgent", requires: [["breathless"]], finding: "Difficulty breathing" },
+  { id: "severe-abdominal", urgency: "urgent", requires: [["severeAbdominal"]], finding: "Severe abdominal pain" },
+  { id: "gi-bleed", urgency: "urgent", requires: [["blackStool"]], finding: "Blood in or black stool" },
+];
+
+function termPattern(term: string) {
+  return new RegExp(`\\b${term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?:s|es)?\\b`);
+}
+
+const SYMPTOM_PATTERNS = Object.entries(SYMPTOM_TERMS).map(
+  ([concept, terms]) => [concept as SymptomConcept, terms.map(termPattern)] as const
+);
+
+function matchedConcepts(symptoms: string) {
+  // Curly apostrophes from phone keyboards would otherwise miss "can't breathe".
+  const text = symptoms.toLowerCase().replace(/[\u2018\u2019]/g, "'").replace(/\s+/g, " ");
+  const concepts = new Set<SymptomConcept>();
+  for (const [concept, patterns] of SYMPTOM_PATTERNS) {
+    if (patterns.some((pattern) => pattern.test(text))) {
+      concepts.add(concept);
+    }
+  }
+  return concepts;
+}
+
+const URGENCY_RANK: Record<Urgency, number> = { emergency: 2, urgent: 1, routine: 0 };
+
+const ADVICE: Record<Urgency, string> = {
+  emergency: "Call 108 for an ambulance now. Do not wait for the AI assessment or a tele-consultation.",
+  urgent: "See a doctor today. Start a tele-consultation or visit the nearest health centre within a few hours.",
+  routine: "No red flags found. Continue with the AI assessment and consult a doctor if symptoms persist or worsen.",
+};
+
+export function triagePatient({ symptoms, vitals }: TriageInput): TriageResult {
+  const redFlags: RedFlag[] = [];
+
+  const values = canonicalVitals(vitals);
+  for (const rule of VITAL_RULES) {
+    const finding = rule.test(values);
+    if (finding) {
+      redFlags.push({ id: rule.id, urgency: rule.urgency, finding });
+    }
+  }
+
+  const concepts = matchedConcepts(symptoms);
+  const firedGroups = new Set<string>();
+  for (const rule of SYMPTOM_RULES) {
+    if (rule.requires.every((group) => group.some((concept) => concepts.has(concept)))) {
+      // A specific rule (chest pain + sweating) makes the generic one (chest pain) redundant.
+      const key = rule.requires[0].join("+");
+      if (firedGroups.has(key)) continue;
+      firedGroups.add(key);
+      redFlags.push({ id: rule.id, urgency: rule.urgency, finding: rule.finding });
+    }
+  }
+
+  redFlags.sort((a, b) => URGENCY_RANK[b.urgency] - URGENCY_RANK[a.urgency]);
+  const urgency = redFlags[0]?.urgency ?? "routine";
+  return { urgency, redFlags, advice: ADVICE[urgency] };
+}
+
+export const EMERGENCY_GUIDANCE = [
+  "Call 108 (free ambulance service) now, or 112 for any emergency.",
+  "Tell the operator the patient's symptoms and the kiosk's location.",
+  "Keep the patient seated or lying down, and do not leave them alone.",
+  "Do not give food or drink. Loosen tight clothing.",
+  "Note the time symptoms started and keep this screen for the ambulance crew.",
+];
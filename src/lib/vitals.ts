@@ -0,0 +1,260 @@
+/**
+ * @fileOverview Structured vital signs shared by the kiosk forms and the AI flows.
+ *
+ * - VitalsSchema - Zod schema for a set of vital sign readings.
+ * - VITAL_RANGES - Plausible and normal ranges, in canonical units.
+ * - convertTemperature / convertWeight / convertHeight / convertBloodGlucose - Unit conversion.
+ * - vitalsIssues - Out-of-range readings, used by the schema and the vitals form.
+ * - formatVitals - Renders readings the same way for every flow prompt.
+ */
+
+import { z } from "zod";
+
+export const VITAL_SOURCES = ["manual", "device", "patient-reported", "ehr"] as const;
+export type VitalSource = (typeof VITAL_SOURCES)[number];
+
+export const VITAL_SOURCE_LABELS: Record<VitalSource, string> = {
+  manual: "Entered by operator",
+  device: "Kiosk device",
+  "patient-reported": "Patient reported",
+  ehr: "Health record",
+};
+
+export const TEMPERATURE_UNITS = ["C", "F"] as const;
+export const WEIGHT_UNITS = ["kg", "lb"] as const;
+export const HEIGHT_UNITS = ["cm", "in"] as const;
+export const GLUCOSE_UNITS = ["mg/dL", "mmol/L"] as const;
+export const GLUCOSE_CONTEXTS = ["fasting", "random", "post-meal"] as const;
+
+export type TemperatureUnit = (typeof TEMPERATURE_UNITS)[number];
+export type WeightUnit = (typeof WEIGHT_UNITS)[number];
+export type HeightUnit = (typeof HEIGHT_UNITS)[number];
+export type GlucoseUnit = (typeof GLUCOSE_UNITS)[number];
+
+type Range = { min: number; max: number; normal: [number, number]; unit: string };
+
+/**
+ * `min`/`max` are the limits we accept as a real measurement (anything outside
+ * is almost certainly a typo or a faulty sensor); `normal` is the adult
+ * reference range. All values are in the canonical unit shown.
+ */
+export const VITAL_RANGES = {
+  temperature: { min: 30, max: 45, normal: [36.1, 37.5], unit: "°C" },
+  systolic: { min: 50, max: 260, normal: [90, 139], unit: "mmHg" },
+  diastolic: { min: 30, max: 160, normal: [60, 89], unit: "mmHg" },
+  heartRate: { min: 20, max: 250, normal: [60, 100], unit: "bpm" },
+  spo2: { min: 50, max: 100, normal: [95, 100], unit: "%" },
+  respiratoryRate: { min: 4, max: 60, normal: [12, 20], unit: "breaths/min" },
+  weight: { min: 0.5, max: 300, normal: [0.5, 300], unit: "kg" },
+  height: { min: 30, max: 250, normal: [30, 250], unit: "cm" },
+  bloodGlucose: { min: 20, max: 600, normal: [70, 140], unit: "mg/dL" },
+} satisfies Record<string, Range>;
+export type VitalKey = keyof typeof VITAL_RANGES;
+
+export function convertTemperature(value: number, from: TemperatureUnit, to: TemperatureUnit) {
+  if (from === to) return value;
+  return from === "F" ? ((value - 32) * 5) / 9 : (value * 9) / 5 + 32;
+}
+
+export function convertWeight(value: number, from: WeightUnit, to: WeightUnit) {
+  if (from === to) return value;
+  return from === "lb" ? value * 0.45359237 : value / 0.45359237;
+}
+
+export function convertHeight(value: number, from: HeightUnit, to: HeightUnit) {
+  if (from === to) return value;
+  return from === "in" ? value * 2.54 : value / 2.54;
+}
+
+const MG_DL_PER_MMOL_L = 18.0182;
+
+export function convertBloodGlucose(value: number, from: GlucoseUnit, to: GlucoseUnit) {
+  if (from === to) return value;
+  return from === "mmol/L" ? value * MG_DL_PER_MMOL_L : value / MG_DL_PER_MMOL_L;
+}
+
+const readingMeta = {
+  recordedAt: z.string().datetime().describe("When the reading was taken (ISO 8601)."),
+  source: z.enum(VITAL_SOURCES).describe("Where the reading came from."),
+};
+
+export const TemperatureReadingSchema = z.object({
+  value: z.number(),
+  unit: z.enum(TEMPERATURE_UNITS),
+  ...readingMeta,
+});
+export const BloodPressureReadingSchema = z.object({
+  systolic: z.number().int(),
+  diastolic: z.number().int(),
+  ...readingMeta,
+});
+export const HeartRateReadingSchema = z.object({ bpm: z.number().int(), ...readingMeta });
+export const SpO2ReadingSchema = z.object({ percent: z.number(), ...readingMeta });
+export const RespiratoryRateReadingSchema = z.object({ breathsPerMinute: z.number().int(), ...readingMeta });
+export const WeightReadingSchema = z.object({ value: z.number(), unit: z.enum(WEIGHT_UNITS), ...readingMeta });
+export const HeightReadingSchema = z.object({ value: z.number(), unit: z.enum(HEIGHT_UNITS), ...readingMeta });
+export const BloodGlucoseReadingSchema = z.object({
+  value: z.number(),
+  unit: z.enum(GLUCOSE_UNITS),
+  context: z.enum(GLUCOSE_CONTEXTS).optional(),
+  ...readingMeta,
+});
+
+const VitalsShape = z.object({
+  temperature: TemperatureReadingSchema.optional(),
+  bloodPressure: BloodPressureReadingSchema.optional(),
+  heartRate: HeartRateReadingSchema.optional(),
+  spo2: SpO2ReadingSchema.optional(),
+  respiratoryRate: RespiratoryRateReadingSchema.optional(),
+  weight: WeightReadingSchema.optional(),
+  height: HeightReadingSchema.optional(),
+  bloodGlucose: BloodGlucoseReadingSchema.optional(),
+});
+export type Vitals = z.infer<typeof VitalsShape>;
+
+/**
+ * Canonical-unit values for every reading present. Triage rules and range
+ * checks work on these rather than on whatever unit was entered.
+ */
+export function canonicalVitals(vitals: Vitals): Partial<Record<VitalKey, number>> {
+  const values: Partial<Record<VitalKey, number>> = {};
+  if (vitals.temperature) values.temperature = convertTemperature(vitals.temperature.value, vitals.temperature.unit, "C");
+  if (vitals.bloodPressure) {
+    values.systolic = vitals.bloodPressure.systolic;
+    values.diastolic = vitals.bloodPressure.diastolic;
+  }
+  if (vitals.heartRate) values.heartRate = vitals.heartRate.bpm;
+  if (vitals.spo2) values.spo2 = vitals.spo2.percent;
+  if (vitals.respiratoryRate) values.respiratoryRate = vitals.respiratoryRate.breathsPerMinute;
+  if (vitals.weight) values.weight = convertWeight(vitals.weight.value, vitals.weight.unit, "kg");
+  if (vitals.height) values.height = convertHeight(vitals.height.value, vitals.height.unit, "cm");
+  if (vitals.bloodGlucose) {
+    values.bloodGlucose = convertBloodGlucose(vitals.bloodGlucose.value, vitals.bloodGlucose.unit, "mg/dL");
+  }
+  return values;
+}
+
+const VITAL_LABELS: Record<VitalKey, string> = {
+  temperature: "Temperature",
+  systolic: "Systolic BP",
+  diastolic: "Diastolic BP",
+  heartRate: "Heart rate",
+  spo2: "SpO2",
+  respiratoryRate: "Respiratory rate",
+  weight: "Weight",
+  height: "Height",
+  bloodGlucose: "Blood glucose",
+};
+
+export type VitalIssue = { key: VitalKey; message: string };
+
+/**
+ * Readings outside the plausible range for their vital sign, plus a systolic
+ * value that isn't above the diastolic one.
+ */
+export function vitalsIssues(vitals: Vitals): VitalIssue[] {
+  const issues: VitalIssue[] = [];
+  const values = canonicalVitals(vitals);
+  for (const key of Object.keys(values) as VitalKey[]) {
+    const value = values[key]!;
+    const range: Range = VITAL_RANGES[key];
+    if (!Number.isFinite(value) || value < range.min || value > range.max) {
+      issues.push({
+        key,
+        message: `${VITAL_LABELS[key]} must be between ${range.min} and ${range.max} ${range.unit}.`,
+      });
+    }
+  }
+  if (vitals.bloodPressure && vitals.bloodPressure.systolic <= vitals.bloodPressure.diastolic) {
+    issues.push({ key: "systolic", message: "Systolic BP must be higher than diastolic BP." });
+  }
+  return issues;
+}
+
+const ISSUE_PATHS: Record<VitalKey, string[]> = {
+  temperature: ["temperature", "value"],
+  systolic: ["bloodPressure", "systolic"],
+  diastolic: ["bloodPressure", "diastolic"],
+  heartRate: ["heartRate", "bpm"],
+  spo2: ["spo2", "percent"],
+  respiratoryRate: ["respiratoryRate", "breathsPerMinute"],
+  weight: ["weight", "value"],
+  height: ["height", "value"],
+  bloodGlucose: ["bloodGlucose", "value"],
+};
+
+export const VitalsSchema = VitalsShape.superRefine((vitals, ctx) => {
+  for (const issue of vitalsIssues(vitals)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ISSUE_PATHS[issue.key], message: issue.message });
+  }
+}).describe("The patient's vital signs, each with its unit, time of measurement and source.");
+
+export function hasAnyVitals(vitals: Vitals) {
+  return Object.values(vitals).some(Boolean);
+}
+
+export function isOutsideNormal(key: VitalKey, value: number) {
+  const [low, high] = VITAL_RANGES[key].normal;
+  return value < low || value > high;
+}
+
+function round(value: number, digits = 1) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function describeReading(reading: { recordedAt: string; source: VitalSource }) {
+  return `${VITAL_SOURCE_LABELS[reading.source].toLowerCase()}, ${reading.recordedAt}`;
+}
+
+/**
+ * Renders the readings as one line per vital sign, in canonical units with
+ * the entered unit alongside and readings outside the normal range flagged.
+ * This is what the flows put in front of the model.
+ */
+export function formatVitals(vitals: Vitals): string {
+  const values = canonicalVitals(vitals);
+  const flag = (key: VitalKey) => (isOutsideNormal(key, values[key]!) ? " [ABNORMAL]" : "");
+  const lines: string[] = [];
+
+  if (vitals.temperature) {
+    const celsius = values.temperature!;
+    lines.push(
+      `Temperature: ${round(celsius)} °C (${round(convertTemperature(celsius, "C", "F"))} °F)${flag("temperature")} (${describeReading(vitals.temperature)})`
+    );
+  }
+  if (vitals.bloodPressure) {
+    const abnormal = isOutsideNormal("systolic", values.systolic!) || isOutsideNormal("diastolic", values.diastolic!);
+    lines.push(
+      `Blood pressure: ${vitals.bloodPressure.systolic}/${vitals.bloodPressure.diastolic} mmHg${abnormal ? " [ABNORMAL]" : ""} (${describeReading(vitals.bloodPressure)})`
+    );
+  }
+  if (vitals.heartRate) {
+    lines.push(`Heart rate: ${vitals.heartRate.bpm} bpm${flag("heartRate")} (${describeReading(vitals.heartRate)})`);
+  }
+  if (vitals.spo2) {
+    lines.push(`SpO2: ${round(vitals.spo2.percent)} %${flag("spo2")} (${describeReading(vitals.spo2)})`);
+  }
+  if (vitals.respiratoryRate) {
+    lines.push(
+      `Respiratory rate: ${vitals.respiratoryRate.breathsPerMinute} breaths/min${flag("respiratoryRate")} (${describeReading(vitals.respiratoryRate)})`
+    );
+  }
+  if (vitals.weight) {
+    lines.push(`Weight: ${round(values.weight!)} kg (${describeReading(vitals.weight)})`);
+  }
+  if (vitals.height) {
+    lines.push(`Height: ${round(values.height!)} cm (${describeReading(vitals.height)})`);
+  }
+  if (values.weight && values.height) {
+    lines.push(`BMI: ${round(values.weight / (values.height / 100) ** 2)} kg/m²`);
+  }
+  if (vitals.bloodGlucose) {
+    const context = vitals.bloodGlucose.context ? `, ${vitals.bloodGlucose.context}` : "";
+    lines.push(
+      `Blood glucose: ${round(values.bloodGlucose!, 0)} mg/dL (${round(convertBloodGlucose(values.bloodGlucose!, "mg/dL", "mmol/L"))} mmol/L${context})${flag("bloodGlucose")} (${describeReading(vitals.bloodGlucose)})`
+    );
+  }
+
+  return lines.length > 0 ? lines.join("\n") : "No vitals recorded.";
+}
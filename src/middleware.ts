@@ -0,0 +1,44 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { SESSION_COOKIE, verifySessionToken } from "@/lib/auth/session-token";
+import { canAccessRoute } from "@/lib/auth/roles";
+
+/**
+ * Sends unauthenticated visitors of any kiosk feature back to the login page,
+ * and users whose role lacks the route's permission back to the dashboard.
+ * This only checks the cookie signature and expiry (the Edge runtime cannot
+ * read the session store); the app layout and server actions re-check the
+ * session record with `getSession()`.
+ */
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+
+  if (!session) {
+    const loginUrl = new URL("/login", request.url);
+    loginUrl.searchParams.set("next", `${pathname}${search}`);
+    const response = NextResponse.redirect(loginUrl);
+    response.cookies.delete(SESSION_COOKIE);
+    return response;
+  }
+
+  if (!canAccessRoute(session.role, pathname)) {
+    return NextResponse.redirect(new URL("/dashboard", request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: [
+    "/dashboard/:path*",
+    "/diagnosis/:path*",
+    "/tele-consultation/:path*",
+    "/federated-learning/:path*",
+    "/facial-recognition/:path*",
+    "/abdm-integration/:path*",
+    "/health-records/:path*",
+    "/patients/:path*",
+    "/profile/:path*",
+  ],
+};
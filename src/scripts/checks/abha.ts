@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+
+import { isValidAadhaarNumber, isValidAbhaNumber, parseAbhaIdentifier, verhoeffCheckDigit } from "@/lib/abdm/abha";
+import { check } from "./harness";
+
+check("abha: Verhoeff check digits match the published example", () => {
+  assert.equal(verhoeffCheckDigit("236"), 3);
+  assert.equal(verhoeffCheckDigit("12345"), 1);
+});
+
+check("abha: a mistyped digit or swapped pair fails the check", () => {
+  const digits = "9112345678901";
+  const valid = `${digits}${verhoeffCheckDigit(digits)}`;
+  assert.ok(isValidAbhaNumber(valid));
+  for (let i = 0; i < valid.length; i++) {
+    const typo = `${valid.slice(0, i)}${(Number(valid[i]) + 1) % 10}${valid.slice(i + 1)}`;
+    assert.ok(!isValidAbhaNumber(typo), `typo at ${i}: ${typo}`);
+  }
+  for (let i = 0; i + 1 < valid.length; i++) {
+    if (valid[i] !== valid[i + 1]) {
+      const swapped = `${valid.slice(0, i)}${valid[i + 1]}${valid[i]}${valid.slice(i + 2)}`;
+      assert.ok(!isValidAbhaNumber(swapped), `swap at ${i}: ${swapped}`);
+    }
+  }
+});
+
+check("abha: Aadhaar numbers use the same check digit and cannot start with 0 or 1", () => {
+  const digits = "23456789012";
+  assert.ok(isValidAadhaarNumber(`${digits}${verhoeffCheckDigit(digits)}`));
+  const leadingOne = "13456789012";
+  assert.ok(!isValidAadhaarNumber(`${leadingOne}${verhoeffCheckDigit(leadingOne)}`));
+});
+
+check("abha: identifiers are parsed and normalised", () => {
+  const digits = "9112345678901";
+  const number = `${digits}${verhoeffCheckDigit(digits)}`;
+  assert.deepEqual(parseAbhaIdentifier(` ${number.slice(0, 2)}-${number.slice(2, 6)}-${number.slice(6, 10)}-${number.slice(10)} `), {
+    kind: "number",
+    value: `${number.slice(0, 2)}-${number.slice(2, 6)}-${number.slice(6, 10)}-${number.slice(10)}`,
+    digits: number,
+  });
+  assert.deepEqual(parseAbhaIdentifier("Asha.Devi92@SBX"), { kind: "address", value: "asha.devi92@sbx" });
+  assert.equal(parseAbhaIdentifier("asha@abdm"), null);
+  assert.equal(parseAbhaIdentifier("asha.devi92@gmail"), null);
+  assert.equal(parseAbhaIdentifier("asha..devi92@abdm"), null);
+});
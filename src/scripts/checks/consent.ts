@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+
+import { describeConsentExclusions, findPatientIdColumn } from "@/lib/federated/research-consent";
+import { addMonths, consentStatus, coversUse } from "@/lib/records/consent";
+import { check } from "./harness";
+
+const now = new Date("2026-10-18T10:00:00.000Z");
+const consent = {
+  purpose: "federated-learning" as const,
+  scope: ["demographics" as const, "vitals" as const, "lab-results" as const],
+  expiresAt: addMonths("2026-04-18T10:00:00.000Z", 12),
+};
+
+check("research consent: a consent lasts its term and ends when withdrawn", () => {
+  assert.equal(consent.expiresAt, "2027-04-18T10:00:00.000Z");
+  assert.equal(consentStatus(consent, now), "active");
+  assert.equal(consentStatus(consent, new Date(consent.expiresAt)), "expired");
+  assert.equal(consentStatus({ ...consent, withdrawnAt: "2026-10-01T00:00:00.000Z" }, now), "withdrawn");
+});
+
+check("research consent: a use is covered only by an active consent for its purpose and whole scope", () => {
+  assert.equal(coversUse(consent, "federated-learning", ["demographics", "vitals"], now), true);
+  assert.equal(coversUse(consent, "federated-learning", ["vitals", "diagnoses"], now), false);
+  assert.equal(coversUse(consent, "clinical-research", ["vitals"], now), false);
+  assert.equal(coversUse(consent, "federated-learning", ["vitals"], new Date("2027-05-01T00:00:00.000Z")), false);
+  assert.equal(coversUse({ ...consent, withdrawnAt: now.toISOString() }, "federated-learning", ["vitals"], now), false);
+});
+
+check("research consent: training batches name their patients and explain what was left out", () => {
+  assert.equal(findPatientIdColumn([{ age: 40 }, { "Patient ID": "p-1" }]), "Patient ID");
+  assert.equal(findPatientIdColumn([{ kiosk_patient_id: "p-1" }]), "kiosk_patient_id");
+  assert.equal(findPatientIdColumn([{ id: "p-1", patientName: "A" }]), null);
+  assert.equal(
+    describeConsentExclusions({ checked: 10, included: 6, withoutPatientId: 1, withoutConsent: 2, withdrawn: 1, expired: 0 }),
+    "Left out 1 without a patient ID, 2 without research consent, 1 whose consent was withdrawn."
+  );
+  assert.equal(
+    describeConsentExclusions({ checked: 3, included: 3, withoutPatientId: 0, withoutConsent: 0, withdrawn: 0, expired: 0 }),
+    "Every record has active research consent."
+  );
+});
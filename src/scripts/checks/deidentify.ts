@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+
+import { deidentifyRecords, describeFailure } from "@/lib/federated/deidentify";
+import { getFederatedModel, type TrainingRecord } from "@/lib/federated/models";
+import { check } from "./harness";
+
+const model = getFederatedModel("Cardio-Risk-Predictor");
+
+function patient(age: number, gender: string, extra: TrainingRecord = {}): TrainingRecord {
+  return { age, gender, systolic: 130, diastolic: 85, cholesterol: 200, outcome: 0, ...extra };
+}
+
+check("de-identification: identifiers are dropped by column name or by value", () => {
+  const records = [30, 31, 32].map((age, i) =>
+    patient(age, "male", { fullName: `Patient ${i}`, contact: "9876543210", notes: `${i}@example.com`, remark: "fine", pincode: "560034" })
+  );
+  const { records: output, report } = deidentifyRecords(model, records, { k: 3 });
+  assert.deepEqual(
+    report.dropped.map(({ column, reason }) => [column, reason]),
+    [
+      ["fullName", "Direct identifier (name)."],
+      ["contact", "Direct identifier (phone number)."],
+      ["notes", "Contains email addresses."],
+      ["remark", "Not used by the model."],
+    ]
+  );
+  for (const record of output) {
+    assert.deepEqual(Object.keys(record).sort(), ["age", "cholesterol", "diastolic", "gender", "outcome", "pincode", "systolic"]);
+    assert.equal(record.pincode, "560***");
+  }
+});
+
+check("de-identification: ages are banded only as coarsely as k-anonymity needs", () => {
+  const records = [30, 31, 32, 33, 34, 36, 37, 38].map((age) => patient(age, "female"));
+  const fine = deidentifyRecords(model, records, { k: 3 });
+  assert.equal(fine.report.passed, true);
+  assert.equal(fine.report.achievedK, 3);
+  assert.deepEqual(fine.records.map((record) => record.age), [32, 32, 32, 32, 32, 37, 37, 37]);
+
+  const coarse = deidentifyRecords(model, records, { k: 4 });
+  assert.equal(coarse.report.passed, true);
+  assert.equal(coarse.report.achievedK, 8);
+  assert.match(coarse.report.generalised[0].rule, /bands of 10 years/);
+});
+
+check("de-identification: a batch with a rare combination fails with an explanation", () => {
+  const records = [...[40, 41, 42].map((age) => patient(age, "male")), patient(90, "female")];
+  const { report } = deidentifyRecords(model, records, { k: 3 });
+  assert.equal(report.passed, false);
+  assert.equal(report.achievedK, 1);
+  assert.deepEqual(report.smallGroups, [{ description: "Age 80–99, Sex female", size: 1 }]);
+  assert.match(describeFailure(report), /^The batch is not 3-anonymous: 1 combination\(s\) of Age, Sex have fewer than 3 records/);
+  assert.equal(deidentifyRecords(model, [], { k: 3 }).report.passed, false);
+});
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+
+import { encounterBundle, type FhirBundle } from "@/lib/abdm/fhir";
+import { validateFhirBundle } from "@/lib/abdm/fhir-validation";
+import type { EncounterRecord, Patient } from "@/lib/records/types";
+import { check } from "./harness";
+
+const at = "2026-10-18T10:00:00.000Z";
+
+const patient: Patient = {
+  id: "patient-1",
+  name: "Asha Devi",
+  walkIn: false,
+  dateOfBirth: "1980-05-01",
+  sex: "female",
+  abhaId: "91-5078-1234-5678",
+  createdAt: at,
+  updatedAt: at,
+};
+
+const record: EncounterRecord = {
+  encounter: {
+    id: "encounter-1",
+    patientId: patient.id,
+    type: "ai-diagnosis",
+    kioskId: "kiosk-1",
+    recordedBy: { userId: "user-1", username: "operator", role: "operator" },
+    startedAt: at,
+  },
+  vitals: [
+    {
+      id: "vitals-1",
+      patientId: patient.id,
+      encounterId: "encounter-1",
+      recordedAt: at,
+      vitals: {
+        temperature: { value: 38.2, unit: "C", recordedAt: at, source: "device" },
+        bloodPressure: { systolic: 142, diastolic: 91, recordedAt: at, source: "device" },
+        weight: { value: 61, unit: "kg", recordedAt: at, source: "manual" },
+      },
+    },
+  ],
+  diagnoses: [],
+  consultations: [],
+};
+
+function errors(bundle: FhirBundle) {
+  return validateFhirBundle(bundle).filter((issue) => issue.severity === "error");
+}
+
+check("FHIR: an encounter's document bundle meets the ABDM profiles", () => {
+  const bundle = encounterBundle(patient, record);
+  assert.deepEqual(errors(bundle), []);
+  assert.deepEqual(
+    bundle.entry.map((entry) => entry.resource.resourceType),
+    ["Composition", "Patient", "Organization", "Encounter", "Observation", "Observation", "Observation"]
+  );
+});
+
+check("FHIR: missing elements, wrong codes and dangling references are errors", () => {
+  const bundle = encounterBundle(patient, record);
+  const [, subject, , encounter] = bundle.entry;
+  subject.resource.gender = "f";
+  delete encounter.resource.period;
+  assert.deepEqual(
+    errors(bundle).map((issue) => issue.message),
+    ['"f" is not an allowed value of Patient.gender.', "Encounter.period.start is required."]
+  );
+
+  const dangling = encounterBundle(patient, record);
+  dangling.entry.splice(1, 1);
+  assert.ok(errors(dangling).length > 0);
+  assert.ok(errors(dangling).every((issue) => /^The reference urn:uuid:\S+ does not resolve/.test(issue.message)));
+});
+
+check("FHIR: resources must claim a known profile and the Composition must come first", () => {
+  const bundle = encounterBundle(patient, record);
+  bundle.entry.reverse();
+  bundle.entry[0].resource.meta = { profile: ["https://example.org/StructureDefinition/Other"] };
+  assert.deepEqual(
+    errors(bundle).map((issue) => issue.message),
+    [
+      "https://example.org/StructureDefinition/Other is not an ABDM profile the kiosk knows.",
+      "A document bundle must start with its Composition.",
+    ]
+  );
+});
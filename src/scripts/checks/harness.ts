@@ -0,0 +1,30 @@
+/**
+ * @fileOverview A minimal harness for the self-checks of the kiosk's pure modules.
+ *
+ * - check - Registers a named check; it passes unless it throws (use node:assert).
+ * - runChecks - Runs the registered checks in order and reports each one.
+ */
+
+type Check = { name: string; run: () => void | Promise<void> };
+
+const checks: Check[] = [];
+
+export function check(name: string, run: Check["run"]) {
+  checks.push({ name, run });
+}
+
+/** Resolves with the number of failed checks. */
+export async function runChecks() {
+  let failed = 0;
+  for (const { name, run } of checks) {
+    try {
+      await run();
+      console.log(`ok    ${name}`);
+    } catch (error) {
+      failed += 1;
+      console.error(`FAIL  ${name}\n      ${(error as Error).message.replace(/\n/g, "\n      ")}`);
+    }
+  }
+  console.log(`\n${checks.length - failed} of ${checks.length} checks passed.`);
+  return failed;
+}
@@ -0,0 +1,29 @@
+import assert from "node:assert/strict";
+
+import { ICD10_STATUS_LABELS, validateIcd10Code } from "@/lib/icd10";
+import { check } from "./harness";
+
+check("ICD-10: bundled codes are verified however they are written", () => {
+  for (const code of ["E11.9", "e11.9", "E119", " E11 .9 "]) {
+    assert.deepEqual(validateIcd10Code(code), {
+      code: "E11.9",
+      status: "valid",
+      description: "Type 2 diabetes mellitus without complications",
+    });
+  }
+});
+
+check("ICD-10: a known category with an unknown subcode is not shown as verified", () => {
+  for (const code of ["E11.99X", "E11.8"]) {
+    const result = validateIcd10Code(code);
+    assert.equal(result.status, "category-only");
+    assert.equal(result.description, undefined);
+    assert.equal(ICD10_STATUS_LABELS[result.status], "Subcode not verified");
+  }
+});
+
+check("ICD-10: unknown categories and malformed codes are flagged", () => {
+  assert.equal(validateIcd10Code("Q99.9").status, "unknown");
+  assert.equal(validateIcd10Code("E11.99x9z").status, "invalid-format");
+  assert.equal(validateIcd10Code("diabetes").status, "invalid-format");
+});
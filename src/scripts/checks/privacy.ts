@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+
+import { addRdp, epsilonSpent, gaussianRdp, l2Norm, privatizeDelta } from "@/lib/federated/privacy";
+import { seededRandom } from "@/lib/federated/random";
+import { check } from "./harness";
+
+const close = (actual: number, expected: number, tolerance = 1e-9) =>
+  assert.ok(Math.abs(actual - expected) < tolerance, `${actual} is not ${expected}`);
+
+function rounds(count: number, noiseMultiplier: number) {
+  let total: number[] = [];
+  for (let i = 0; i < count; i++) total = addRdp(total, gaussianRdp(noiseMultiplier));
+  return total;
+}
+
+check("privacy: clipping bounds an update's norm and leaves small ones alone", () => {
+  const config = { clipNorm: 1, noiseMultiplier: 0, epsilonBudget: 10, delta: 1e-5 };
+  const clipped = privatizeDelta([3, 4], config, seededRandom(1));
+  assert.equal(clipped.clipped, true);
+  assert.equal(clipped.originalNorm, 5);
+  close(l2Norm(clipped.delta), 1);
+  close(clipped.delta[0] / clipped.delta[1], 3 / 4);
+  assert.deepEqual(privatizeDelta([0.3, 0.4], config, seededRandom(1)), { delta: [0.3, 0.4], clipped: false, originalNorm: 0.5 });
+});
+
+check("privacy: Rényi DP adds up across rounds and converts to the tightest epsilon", () => {
+  // k rounds at noise σ are one release at σ/√k.
+  rounds(4, 2).forEach((value, i) => close(value, gaussianRdp(1)[i]));
+  // One round at σ = 1, δ = 1e-5: order 6 gives 6/2 + ln(1e5)/5.
+  close(epsilonSpent(gaussianRdp(1), 1e-5), 3 + Math.log(1e5) / 5);
+  assert.equal(epsilonSpent(rounds(0, 1), 1e-5), 0);
+});
+
+check("privacy: epsilon grows with rounds and shrinks with noise", () => {
+  const spent = [1, 2, 10, 50].map((count) => epsilonSpent(rounds(count, 1.1), 1e-5));
+  spent.slice(1).forEach((epsilon, i) => assert.ok(epsilon > spent[i]));
+  assert.ok(epsilonSpent(rounds(10, 2), 1e-5) < epsilonSpent(rounds(10, 1), 1e-5));
+});
@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+
+import { scoreUpdates } from "@/lib/federated/anomaly";
+import { combineDeltas } from "@/lib/federated/robust-aggregation";
+import { check } from "./harness";
+
+const thresholds = { maxNormRatio: 3, maxCosineDistance: 1.2 };
+
+const honest = [
+  { kioskId: "a", numExamples: 10, delta: [1, 1] },
+  { kioskId: "b", numExamples: 30, delta: [1.2, 0.8] },
+  { kioskId: "c", numExamples: 20, delta: [0.9, 1.1] },
+  { kioskId: "d", numExamples: 40, delta: [1.1, 0.9] },
+];
+const attacker = { kioskId: "x", numExamples: 500, delta: [-50, -50] };
+
+check("robust aggregation: FedAvg weights kiosks by their records", () => {
+  const [first, second] = combineDeltas("fedavg", honest, { trimFraction: 0 });
+  assert.ok(Math.abs(first - (10 * 1 + 30 * 1.2 + 20 * 0.9 + 40 * 1.1) / 100) < 1e-12);
+  assert.ok(Math.abs(second - (10 * 1 + 30 * 0.8 + 20 * 1.1 + 40 * 0.9) / 100) < 1e-12);
+});
+
+check("robust aggregation: median, trimmed mean and Krum resist one large bad update", () => {
+  const updates = [...honest, attacker];
+  assert.ok(combineDeltas("fedavg", updates, { trimFraction: 0 })[0] < -30);
+  for (const rule of ["median", "trimmed-mean", "krum"] as const) {
+    const combined = combineDeltas(rule, updates, { trimFraction: 0.2 });
+    assert.ok(combined.every((value) => value > 0.7 && value < 1.3), `${rule}: ${combined}`);
+  }
+  assert.deepEqual(combineDeltas("trimmed-mean", [{ numExamples: 1, delta: [2] }], { trimFraction: 0.4 }), [2]);
+});
+
+check("anomaly scoring: boosted and flipped updates are flagged against the round's consensus", () => {
+  const scores = scoreUpdates([...honest, { kioskId: "boost", delta: [9, 9] }, { kioskId: "flip", delta: [-1, -1] }], thresholds);
+  assert.deepEqual(scores.filter((score) => score.flagged).map((score) => score.kioskId), ["boost", "flip"]);
+});
+
+check("anomaly scoring: rounds below three updates are checked against the previous round's norms", () => {
+  const pair = [honest[0], { kioskId: "boost", delta: [9, 9] }];
+  assert.deepEqual(scoreUpdates(pair, thresholds).filter((score) => score.flagged), []);
+  const scores = scoreUpdates(pair, thresholds, Math.SQRT2);
+  assert.deepEqual(scores.filter((score) => score.flagged).map((score) => score.kioskId), ["boost"]);
+  assert.equal(scoreUpdates([honest[1]], thresholds, Math.SQRT2)[0].flagged, false);
+});
@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { randomBytes } from "crypto";
+
+import type { RoundTask } from "@/lib/federated/client";
+import { createInMemoryCoordinator } from "@/lib/federated/coordinator";
+import { FEDERATED_MODEL_NAMES } from "@/lib/federated/models";
+import { createSecureAggregationClient } from "@/lib/federated/secure-aggregation/client";
+import {
+  addVectors,
+  decodeFixedPoint,
+  encodeFixedPoint,
+  expandMask,
+  fixedPointError,
+  subtractVectors,
+} from "@/lib/federated/secure-aggregation/masking";
+import { combineShares, decodeShare, encodeShare, splitSecret } from "@/lib/federated/secure-aggregation/shamir";
+import { simulateSecureAggregation } from "@/lib/federated/secure-aggregation/simulation";
+import { check } from "./harness";
+
+check("secure aggregation: any threshold of Shamir shares rebuilds the secret, fewer do not", () => {
+  const secret = randomBytes(32);
+  const shares = splitSecret(secret, 3, [1, 2, 3, 4, 5]);
+  assert.deepEqual(combineShares([shares[4], shares[0], shares[2]]), secret);
+  assert.deepEqual(combineShares(shares.slice(1, 4).map((share) => decodeShare(encodeShare(share)))), secret);
+  let rebuilt: Buffer | null = null;
+  try {
+    rebuilt = combineShares(shares.slice(0, 2));
+  } catch {
+    // Two shares of a degree-2 polynomial usually interpolate outside the 32-byte range.
+  }
+  assert.notDeepEqual(rebuilt, secret);
+});
+
+check("secure aggregation: pairwise masks cancel in the sum", () => {
+  const inputs = [
+    [1.5, -2.25, 0],
+    [-0.75, 4, 3.125],
+    [2, -1, -3],
+  ];
+  const mask = expandMask(randomBytes(32), 3);
+  const masked = [
+    addVectors(encodeFixedPoint(inputs[0]), mask),
+    subtractVectors(encodeFixedPoint(inputs[1]), mask),
+    encodeFixedPoint(inputs[2]),
+  ];
+  assert.notDeepEqual(decodeFixedPoint(masked[0]), inputs[0]);
+  const sum = decodeFixedPoint(masked.reduce((total, vector) => addVectors(total, vector)));
+  sum.forEach((value, i) => {
+    const expected = inputs.reduce((total, input) => total + input[i], 0);
+    assert.ok(Math.abs(value - expected) <= fixedPointError(3), `element ${i}: ${value} vs ${expected}`);
+  });
+});
+
+check("secure aggregation: the sum survives dropouts and no single upload can be unmasked", () => {
+  const report = simulateSecureAggregation({ kiosks: 7, parameters: 4, dropBeforeUpload: 1, dropBeforeUnmasking: 2, seed: 42 });
+  assert.ok(report.maxSumError <= fixedPointError(6), `sum error ${report.maxSumError}`);
+  for (const attempt of report.checks) {
+    assert.ok(attempt.passed, `${attempt.name}: ${attempt.detail}`);
+  }
+  for (const view of report.views.filter((entry) => entry.uploaded)) {
+    assert.ok(view.maxDifference! > 1, `${view.kioskId}'s upload is readable`);
+  }
+});
+
+check("secure aggregation: a coordinator round recovers FedAvg of the kiosks that uploaded", async () => {
+  const modelName = FEDERATED_MODEL_NAMES[0];
+  const coordinator = createInMemoryCoordinator({ minClients: 3, thresholds: null });
+  await coordinator.setAggregationSettings(modelName, { rule: "fedavg", trimFraction: 0, secureAggregation: true }, "check");
+  const ids = ["kiosk-a", "kiosk-b", "kiosk-c"];
+  const tasks: RoundTask[] = [];
+  for (const id of ids) {
+    tasks.push(await coordinator.getRoundTask(modelName, id));
+  }
+  const clients = ids.map((id, i) => createSecureAggregationClient(id, tasks[i].secure!));
+  const deltas = ids.map((_, i) => tasks[i].globalWeights.map((_, j) => (i + 1) * 0.01 - j * 0.002));
+  const examples = [10, 30, 20];
+  const metrics = { examples: 1, accuracy: 1, precision: 1, recall: 1, auc: 1, loss: 0 };
+  const roundId = tasks[0].roundId;
+
+  for (const client of clients) {
+    await coordinator.sendSecureMessage(roundId, client.clientId, { step: "keys", keys: client.advertiseKeys() });
+  }
+  const { roster } = await coordinator.getSecureRound(roundId, ids[0]);
+  for (const client of clients) {
+    await coordinator.sendSecureMessage(roundId, client.clientId, { step: "shares", shares: client.shareKeys(roster!) });
+  }
+  // kiosk-c goes offline before uploading; an administrator closes the upload step without it.
+  for (const [i, client] of clients.slice(0, 2).entries()) {
+    const { inbox } = await coordinator.getSecureRound(roundId, client.clientId);
+    const input = deltas[i].map((value) => value * examples[i]);
+    const { masked } = client.maskInput(input, inbox!);
+    const update = { numExamples: examples[i], metrics: { before: metrics, after: metrics }, privacy: null };
+    await assert.rejects(coordinator.submitUpdate({ roundId, kioskId: client.clientId, delta: deltas[i], ...update }), /masked/);
+    await coordinator.sendSecureMessage(roundId, client.clientId, { step: "masked", masked, ...update });
+  }
+  assert.equal((await coordinator.aggregateRound(modelName)).secure?.phase, "unmasking");
+  for (const client of clients.slice(0, 2)) {
+    const { request } = await coordinator.getSecureRound(roundId, client.clientId);
+    assert.deepEqual(request!.dropped, ["kiosk-c"]);
+    await coordinator.sendSecureMessage(roundId, client.clientId, { step: "unmasking", response: client.unmask(request!) });
+  }
+
+  const status = await coordinator.getFederatedStatus(modelName);
+  assert.equal(status.history[0]?.status, "aggregated");
+  status.weights.forEach((weight, j) => {
+    const expected = (deltas[0][j] * examples[0] + deltas[1][j] * examples[1]) / (examples[0] + examples[1]);
+    assert.ok(Math.abs(weight - expected) < 1e-6, `weight ${j}: ${weight} vs ${expected}`);
+  });
+});
@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+
+import { triagePatient } from "@/lib/triage";
+import { check } from "./harness";
+
+function flags(symptoms: string) {
+  return triagePatient({ symptoms, vitals: {} }).redFlags.map((flag) => flag.id);
+}
+
+check("triage: symptom terms match whole words only", () => {
+  assert.deepEqual(flags("Asking about scheme benefits and a cough"), []);
+  assert.deepEqual(flags("Chest pain since morning, and forearm pain after lifting"), ["chest-pain"]);
+  assert.deepEqual(flags("Chest pain, warm pain in the back"), ["chest-pain"]);
+});
+
+check("triage: plurals, inflections and curly apostrophes still match", () => {
+  assert.deepEqual(flags("Had two seizures today"), ["seizure"]);
+  assert.deepEqual(flags("Child has fits"), ["seizure"]);
+  assert.deepEqual(flags("Drank pesticide, possible poisoning"), ["poisoning"]);
+  assert.deepEqual(flags("I can’t breathe"), ["breathless"]);
+});
+
+check("triage: specific symptom rules replace the generic one", () => {
+  const result = triagePatient({ symptoms: "Chest pain with cold sweat and pain in left arm", vitals: {} });
+  assert.equal(result.urgency, "emergency");
+  assert.deepEqual(result.redFlags.map((flag) => flag.id), ["acs-sweating"]);
+});
+
+check("triage: vitals raise red flags in canonical units", () => {
+  const recordedAt = new Date().toISOString();
+  const result = triagePatient({
+    symptoms: "",
+    vitals: { temperature: { value: 106, unit: "F", recordedAt, source: "device" }, spo2: { percent: 92, recordedAt, source: "device" } },
+  });
+  assert.equal(result.urgency, "emergency");
+  assert.deepEqual(result.redFlags.map((flag) => flag.id), ["temp-extreme", "spo2-low"]);
+  assert.equal(triagePatient({ symptoms: "Mild headache", vitals: {} }).urgency, "routine");
+});
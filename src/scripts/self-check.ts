@@ -0,0 +1,22 @@
+/**
+ * @fileOverview Runs the self-checks of the kiosk's pure modules: triage rules,
+ * identifier check digits, privacy accounting, secure aggregation and so on.
+ *
+ *   npm test
+ *
+ * Each module's checks live in src/scripts/checks/ and register themselves
+ * when imported. Exits with status 1 if any check fails.
+ */
+
+import { runChecks } from "./checks/harness";
+import "./checks/abha";
+import "./checks/consent";
+import "./checks/deidentify";
+import "./checks/fhir";
+import "./checks/icd10";
+import "./checks/privacy";
+import "./checks/robust-aggregation";
+import "./checks/secure-aggregation";
+import "./checks/triage";
+
+runChecks().then((failed) => process.exit(failed > 0 ? 1 : 0));